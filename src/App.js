@@ -13,6 +13,7 @@ import Home from './pages/Home';
 import Builder from './pages/Builder';
 import Visualization from './pages/Visualization';
 import Comparison from './pages/Comparison';
+import Explorer from './pages/Explorer';
 import UIPreview from './pages/UIPreview';
 
 function App() {
@@ -28,6 +29,7 @@ function App() {
               <Route path="/builder" element={<Builder />} />
               <Route path="/visualization" element={<Visualization />} />
               <Route path="/comparison" element={<Comparison />} />
+              <Route path="/explorer" element={<Explorer />} />
               <Route path="/ui-preview" element={<UIPreview />} />
             </Routes>
           </Layout>
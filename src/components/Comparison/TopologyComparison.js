@@ -57,6 +57,12 @@ ChartJS.register(
   LineElement
 );
 
+const headroomLabels = {
+  leafs: 'Leafs',
+  servers: 'Servers',
+  spines: 'Spines'
+};
+
 const TopologyComparison = () => {
   const { topologies, comparisonTopologies, toggleComparisonTopology } = useTopology();
   const [, setSelectedTopologies] = useState([]);
@@ -113,11 +119,11 @@ const TopologyComparison = () => {
     setComparisonMetric(event.target.value);
   };
 
-  // Format currency
-  const formatCurrency = (value) => {
+  // Format currency in the pricing currency of a topology
+  const formatCurrency = (value, currency = 'USD') => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
       maximumFractionDigits: 0
     }).format(value);
   };
@@ -136,6 +142,11 @@ const TopologyComparison = () => {
     }
   };
 
+  // Format oversubscription ratio (e.g., '2.75:1')
+  const formatRatio = (oversubscription) => {
+    return oversubscription.ratio === 'N/A' ? 'N/A' : `${oversubscription.ratio}:1`;
+  };
+
   // Get colors for charts
   const getChartColors = (index) => {
     const colors = [
@@ -160,7 +171,8 @@ const TopologyComparison = () => {
         'Latency',
         'Oversubscription',
         'Rack Space',
-        'Cabling Complexity'
+        'Cabling Complexity',
+        'Failure Tolerance'
       ],
       datasets: comparisonResults.map((result, index) => {
         const colors = getChartColors(index);
@@ -172,14 +184,16 @@ const TopologyComparison = () => {
             100 - Math.min(100, (result.metrics.cost.total / 1000000) * 20),
             // Lower is better for power, so invert the scale
             100 - Math.min(100, (result.metrics.power.total / 10000) * 20),
-            // Lower is better for latency, so invert the scale
-            100 - Math.min(100, result.metrics.latency.total * 20),
+            // Lower is better for latency, so invert the scale (worst-case path)
+            100 - Math.min(100, result.metrics.latency.worst.total * 10),
             // Lower is better for oversubscription, so invert the scale
-            100 - Math.min(100, parseFloat(result.metrics.oversubscription.ratio) * 25),
+            100 - Math.min(100, result.metrics.oversubscription.ratioValue * 25),
             // Lower is better for rack space, so invert the scale
             100 - Math.min(100, result.metrics.rackSpace.totalRackUnits / 2),
             // Lower is better for cabling, so invert the scale
-            100 - Math.min(100, result.metrics.cabling.total / 10)
+            100 - Math.min(100, result.metrics.cabling.total / 10),
+            // Resiliency score is already on a 0-100 scale
+            result.metrics.resiliency.score
           ],
           backgroundColor: colors.bg,
           borderColor: colors.border,
@@ -200,10 +214,23 @@ const TopologyComparison = () => {
     let labels = [];
     let datasets = [];
     
+    // Only add a super-spine series when at least one topology has super-spines
+    const hasSuperSpines = comparisonResults.some(result => result.metrics.deviceCount.superSpines > 0);
+    const superSpineDataset = (getValue) => hasSuperSpines ? [
+      {
+        label: 'Super-Spine Switches',
+        data: comparisonResults.map(getValue),
+        backgroundColor: 'rgba(153, 102, 255, 0.6)',
+        borderColor: 'rgba(153, 102, 255, 1)',
+        borderWidth: 1
+      }
+    ] : [];
+    
     switch (comparisonMetric) {
       case 'cost':
         labels = comparisonResults.map(result => result.name);
         datasets = [
+          ...superSpineDataset(result => result.metrics.cost.switches.superSpine),
           {
             label: 'Spine Switches',
             data: comparisonResults.map(result => result.metrics.cost.switches.spine),
@@ -224,13 +251,30 @@ const TopologyComparison = () => {
             backgroundColor: 'rgba(255, 159, 64, 0.6)',
             borderColor: 'rgba(255, 159, 64, 1)',
             borderWidth: 1
-          }
+          },
+          {
+            label: 'Cables',
+            data: comparisonResults.map(result => result.metrics.cost.cables),
+            backgroundColor: 'rgba(255, 205, 86, 0.6)',
+            borderColor: 'rgba(255, 205, 86, 1)',
+            borderWidth: 1
+          },
+          ...(comparisonResults.some(result => result.metrics.cost.spares > 0) ? [
+            {
+              label: 'Spares',
+              data: comparisonResults.map(result => result.metrics.cost.spares),
+              backgroundColor: 'rgba(201, 203, 207, 0.6)',
+              borderColor: 'rgba(201, 203, 207, 1)',
+              borderWidth: 1
+            }
+          ] : [])
         ];
         break;
         
       case 'power':
         labels = comparisonResults.map(result => result.name);
         datasets = [
+          ...superSpineDataset(result => result.metrics.power.switches.superSpine),
           {
             label: 'Spine Switches',
             data: comparisonResults.map(result => result.metrics.power.switches.spine),
@@ -258,6 +302,7 @@ const TopologyComparison = () => {
       case 'devices':
         labels = comparisonResults.map(result => result.name);
         datasets = [
+          ...superSpineDataset(result => result.metrics.deviceCount.superSpines),
           {
             label: 'Spine Switches',
             data: comparisonResults.map(result => result.metrics.deviceCount.spines),
@@ -280,7 +325,7 @@ const TopologyComparison = () => {
         datasets = [
           {
             label: 'Oversubscription Ratio',
-            data: comparisonResults.map(result => parseFloat(result.metrics.oversubscription.ratio)),
+            data: comparisonResults.map(result => result.metrics.oversubscription.ratioValue),
             backgroundColor: 'rgba(54, 162, 235, 0.6)',
             borderColor: 'rgba(54, 162, 235, 1)',
             borderWidth: 1
@@ -292,11 +337,25 @@ const TopologyComparison = () => {
         labels = comparisonResults.map(result => result.name);
         datasets = [
           {
-            label: 'Total Latency (μs)',
-            data: comparisonResults.map(result => result.metrics.latency.total),
+            label: 'Best Case (μs)',
+            data: comparisonResults.map(result => result.metrics.latency.best.total),
+            backgroundColor: 'rgba(75, 192, 192, 0.6)',
+            borderColor: 'rgba(75, 192, 192, 1)',
+            borderWidth: 1
+          },
+          {
+            label: 'Average (μs)',
+            data: comparisonResults.map(result => result.metrics.latency.average.total),
             backgroundColor: 'rgba(54, 162, 235, 0.6)',
             borderColor: 'rgba(54, 162, 235, 1)',
             borderWidth: 1
+          },
+          {
+            label: 'Worst Case (μs)',
+            data: comparisonResults.map(result => result.metrics.latency.worst.total),
+            backgroundColor: 'rgba(255, 99, 132, 0.6)',
+            borderColor: 'rgba(255, 99, 132, 1)',
+            borderWidth: 1
           }
         ];
         break;
@@ -334,6 +393,43 @@ const TopologyComparison = () => {
         ];
         break;
         
+      case 'throughput':
+        labels = comparisonResults.map(result => result.name);
+        datasets = [
+          {
+            label: 'Bisection Bandwidth (Gbps)',
+            data: comparisonResults.map(result => result.metrics.throughput.bisectionBandwidth),
+            backgroundColor: 'rgba(54, 162, 235, 0.6)',
+            borderColor: 'rgba(54, 162, 235, 1)',
+            borderWidth: 1
+          },
+          {
+            label: 'Fabric Capacity (Gbps)',
+            data: comparisonResults.map(result => result.metrics.throughput.fabricCapacity),
+            backgroundColor: 'rgba(75, 192, 192, 0.6)',
+            borderColor: 'rgba(75, 192, 192, 1)',
+            borderWidth: 1
+          }
+        ];
+        break;
+        
+      case 'tco': {
+        // Cumulative cost of ownership of each topology, year by year
+        const years = Math.max(...comparisonResults.map(result => result.metrics.tco.years.length));
+        labels = Array.from({ length: years }, (_, index) => `Year ${index + 1}`);
+        datasets = comparisonResults.map((result, index) => {
+          const colors = getChartColors(index);
+          return {
+            label: result.name,
+            data: labels.map((_, year) => result.metrics.tco.years[year]?.cumulative ?? null),
+            backgroundColor: colors.border.replace(', 1)', ', 0.6)'),
+            borderColor: colors.border,
+            borderWidth: 1
+          };
+        });
+        break;
+      }
+        
       default:
         break;
     }
@@ -350,15 +446,49 @@ const TopologyComparison = () => {
       rows: [
         {
           name: 'Total Cost',
-          values: comparisonResults.map(result => formatCurrency(result.metrics.cost.total))
+          values: comparisonResults.map(result => formatCurrency(result.metrics.cost.total, result.metrics.cost.currency))
+        },
+        {
+          name: 'List Price',
+          values: comparisonResults.map(result => formatCurrency(result.metrics.cost.list.total, result.metrics.cost.currency))
+        },
+        {
+          name: 'Discount',
+          values: comparisonResults.map(result => result.metrics.cost.list.total > 0
+            ? `${((result.metrics.cost.discount / result.metrics.cost.list.total) * 100).toFixed(1)}%`
+            : '-')
         },
         {
           name: 'Switch Cost',
-          values: comparisonResults.map(result => formatCurrency(result.metrics.cost.switches.total))
+          values: comparisonResults.map(result => formatCurrency(result.metrics.cost.switches.total, result.metrics.cost.currency))
         },
         {
           name: 'Optics Cost',
-          values: comparisonResults.map(result => formatCurrency(result.metrics.cost.optics))
+          values: comparisonResults.map(result => formatCurrency(result.metrics.cost.optics, result.metrics.cost.currency))
+        },
+        {
+          name: 'Cable Cost',
+          values: comparisonResults.map(result => formatCurrency(result.metrics.cost.cables, result.metrics.cost.currency))
+        },
+        {
+          name: 'Spares Cost',
+          values: comparisonResults.map(result => formatCurrency(result.metrics.cost.spares, result.metrics.cost.currency))
+        },
+        {
+          name: 'Total Cost of Ownership',
+          values: comparisonResults.map(result => formatCurrency(result.metrics.tco.total, result.metrics.cost.currency))
+        },
+        {
+          name: 'TCO Horizon',
+          values: comparisonResults.map(result => `${result.metrics.tco.parameters.years} years`)
+        },
+        {
+          name: 'Annual Operating Cost',
+          values: comparisonResults.map(result => formatCurrency(result.metrics.tco.years[0].operating, result.metrics.cost.currency))
+        },
+        {
+          name: 'Annual Energy Cost',
+          values: comparisonResults.map(result => formatCurrency(result.metrics.tco.years[0].energy, result.metrics.cost.currency))
         },
         {
           name: 'Total Power',
@@ -376,6 +506,14 @@ const TopologyComparison = () => {
           name: 'Total Devices',
           values: comparisonResults.map(result => formatNumber(result.metrics.deviceCount.total))
         },
+        {
+          name: 'Spare Switches',
+          values: comparisonResults.map(result => formatNumber(result.metrics.deviceCount.spares))
+        },
+        {
+          name: 'Super-Spine Switches',
+          values: comparisonResults.map(result => formatNumber(result.metrics.deviceCount.superSpines))
+        },
         {
           name: 'Spine Switches',
           values: comparisonResults.map(result => formatNumber(result.metrics.deviceCount.spines))
@@ -384,13 +522,88 @@ const TopologyComparison = () => {
           name: 'Leaf Switches',
           values: comparisonResults.map(result => formatNumber(result.metrics.deviceCount.leafs))
         },
+        {
+          name: 'Max Leafs',
+          values: comparisonResults.map(result => formatNumber(result.metrics.headroom.leafs.max))
+        },
+        {
+          name: 'Leafs Used',
+          values: comparisonResults.map(result => `${result.metrics.headroom.leafs.utilization.toFixed(1)}%`)
+        },
+        {
+          name: 'Max Servers',
+          values: comparisonResults.map(result => formatNumber(result.metrics.headroom.servers.max))
+        },
+        {
+          name: 'Servers Used',
+          values: comparisonResults.map(result => `${result.metrics.headroom.servers.utilization.toFixed(1)}%`)
+        },
+        {
+          name: 'Max Spines',
+          values: comparisonResults.map(result => formatNumber(result.metrics.headroom.spines.max))
+        },
+        {
+          name: 'Spines Used',
+          values: comparisonResults.map(result => `${result.metrics.headroom.spines.utilization.toFixed(1)}%`)
+        },
+        {
+          name: 'Runs Out First',
+          values: comparisonResults.map(result => headroomLabels[result.metrics.headroom.limitedBy])
+        },
         {
           name: 'Oversubscription',
-          values: comparisonResults.map(result => `${result.metrics.oversubscription.ratio}:1`)
+          values: comparisonResults.map(result => formatRatio(result.metrics.oversubscription))
         },
         {
-          name: 'Latency',
-          values: comparisonResults.map(result => `${result.metrics.latency.total.toFixed(2)} μs`)
+          name: 'Bisection Bandwidth',
+          values: comparisonResults.map(result => `${formatNumber(result.metrics.throughput.bisectionBandwidth)} Gbps`)
+        },
+        {
+          name: 'Fabric Capacity',
+          values: comparisonResults.map(result => `${formatNumber(result.metrics.throughput.fabricCapacity)} Gbps`)
+        },
+        {
+          name: 'Per-Server Bandwidth',
+          values: comparisonResults.map(result => `${formatNumber(Math.round(result.metrics.throughput.perServerBandwidth))} Gbps`)
+        },
+        {
+          name: 'Spine Utilization',
+          values: comparisonResults.map(result => `${result.metrics.throughput.spineUtilization.toFixed(1)}%`)
+        },
+        {
+          name: 'Spine Planes',
+          values: comparisonResults.map(result => formatNumber(result.metrics.spinePlanes.planes.length))
+        },
+        {
+          name: 'Plane Failure Impact',
+          values: comparisonResults.map(result => `${result.metrics.spinePlanes.planeFailureImpact.toFixed(1)}%`)
+        },
+        {
+          name: 'Resiliency Score',
+          values: comparisonResults.map(result => result.metrics.resiliency.score.toFixed(0))
+        },
+        {
+          name: 'Spine Failures Tolerated',
+          values: comparisonResults.map(result => formatNumber(result.metrics.resiliency.spineFailuresTolerated))
+        },
+        {
+          name: 'Leaf Failure Blast Radius',
+          values: comparisonResults.map(result => {
+            const leafFailure = result.metrics.resiliency.scenarios.find(scenario => scenario.failure === 'leaf');
+            return `${formatNumber(leafFailure ? leafFailure.blastRadius : 0)} servers`;
+          })
+        },
+        {
+          name: 'Worst-Case Latency',
+          values: comparisonResults.map(result => `${result.metrics.latency.worst.total.toFixed(2)} μs`)
+        },
+        {
+          name: 'Average Latency',
+          values: comparisonResults.map(result => `${result.metrics.latency.average.total.toFixed(2)} μs`)
+        },
+        {
+          name: 'Best-Case Latency',
+          values: comparisonResults.map(result => `${result.metrics.latency.best.total.toFixed(2)} μs`)
         },
         {
           name: 'Rack Space',
@@ -399,6 +612,10 @@ const TopologyComparison = () => {
         {
           name: 'Total Cables',
           values: comparisonResults.map(result => formatNumber(result.metrics.cabling.total))
+        },
+        {
+          name: 'Cable Weight',
+          values: comparisonResults.map(result => `${formatNumber(Math.round(result.metrics.cabling.weight))} kg`)
         }
       ]
     };
@@ -463,6 +680,8 @@ const TopologyComparison = () => {
                   <MenuItem value="latency">Latency</MenuItem>
                   <MenuItem value="rackspace">Rack Space</MenuItem>
                   <MenuItem value="cabling">Cabling</MenuItem>
+                  <MenuItem value="throughput">Throughput</MenuItem>
+                  <MenuItem value="tco">Total Cost of Ownership</MenuItem>
                 </Select>
               </FormControl>
             </Grid>
@@ -569,6 +788,9 @@ const TopologyComparison = () => {
                                     case 'Cabling Complexity':
                                       explanation = ` (higher is better)`;
                                       break;
+                                    case 'Failure Tolerance':
+                                      explanation = ` (higher is better)`;
+                                      break;
                                     default:
                                       break;
                                   }
@@ -587,17 +809,19 @@ const TopologyComparison = () => {
                                   // Add actual values for each metric
                                   switch(context.label) {
                                     case 'Cost Efficiency':
-                                      return `Actual cost: ${formatCurrency(metrics.cost.total)}`;
+                                      return `Actual cost: ${formatCurrency(metrics.cost.total, metrics.cost.currency)}`;
                                     case 'Power Efficiency':
                                       return `Actual power: ${formatPower(metrics.power.total)}`;
                                     case 'Latency':
-                                      return `Actual latency: ${metrics.latency.total.toFixed(2)} μs`;
+                                      return `Worst-case latency: ${metrics.latency.worst.total.toFixed(2)} μs`;
                                     case 'Oversubscription':
-                                      return `Actual ratio: ${metrics.oversubscription.ratio}:1`;
+                                      return `Actual ratio: ${formatRatio(metrics.oversubscription)}`;
                                     case 'Rack Space':
                                       return `Actual space: ${metrics.rackSpace.totalRackUnits} U`;
                                     case 'Cabling Complexity':
                                       return `Actual cables: ${metrics.cabling.total}`;
+                                    case 'Failure Tolerance':
+                                      return `Spine failures tolerated: ${metrics.resiliency.spineFailuresTolerated}`;
                                     default:
                                       return '';
                                   }
@@ -629,7 +853,7 @@ const TopologyComparison = () => {
                 <Grid item xs={12} md={6}>
                   <Box sx={{ display: 'flex', alignItems: 'center' }}>
                     <Typography variant="h6" gutterBottom>
-                      {comparisonMetric.charAt(0).toUpperCase() + comparisonMetric.slice(1)} Comparison
+                      {comparisonMetric === 'tco' ? 'TCO' : comparisonMetric.charAt(0).toUpperCase() + comparisonMetric.slice(1)} Comparison
                     </Typography>
                     <Tooltip 
                       title={
@@ -643,6 +867,8 @@ const TopologyComparison = () => {
                             {comparisonMetric === 'latency' && 'Shows the estimated latency for each topology.'}
                             {comparisonMetric === 'rackspace' && 'Shows the rack space requirements for each topology.'}
                             {comparisonMetric === 'cabling' && 'Shows the cabling requirements for each topology.'}
+                            {comparisonMetric === 'throughput' && 'Shows the bisection bandwidth and leaf-to-spine capacity of each topology.'}
+                            {comparisonMetric === 'tco' && 'Shows the cumulative cost of ownership of each topology, year by year.'}
                           </Typography>
                         </React.Fragment>
                       }
@@ -672,8 +898,10 @@ const TopologyComparison = () => {
                                   const label = context.dataset.label || '';
                                   const value = context.raw || 0;
                                   
-                                  if (comparisonMetric === 'cost') {
-                                    return `${label}: ${formatCurrency(value)}`;
+                                  if (comparisonMetric === 'cost' || comparisonMetric === 'tco') {
+                                    // Cost bars are grouped by topology, TCO series are one per topology
+                                    const result = comparisonResults[comparisonMetric === 'cost' ? context.dataIndex : context.datasetIndex];
+                                    return `${label}: ${formatCurrency(value, result?.metrics.cost.currency)}`;
                                   } else if (comparisonMetric === 'power') {
                                     return `${label}: ${formatPower(value)}`;
                                   } else {
@@ -764,7 +992,7 @@ const TopologyComparison = () => {
                         <TableBody>
                           {tableData.rows.map((row, rowIndex) => {
                             // Determine if this is a category header row
-                            const isCategory = ['Total Cost', 'Total Power', 'Total Devices', 'Oversubscription', 'Latency', 'Rack Space', 'Total Cables'].includes(row.name);
+                            const isCategory = ['Total Cost', 'Total Cost of Ownership', 'Total Power', 'Total Devices', 'Oversubscription', 'Bisection Bandwidth', 'Plane Failure Impact', 'Resiliency Score', 'Worst-Case Latency', 'Rack Space', 'Total Cables', 'Max Leafs'].includes(row.name);
                             
                             return (
                               <TableRow 
@@ -795,28 +1023,35 @@ const TopologyComparison = () => {
                                   
                                   if (isCategory) {
                                     // For these metrics, lower is better
-                                    if (['Total Cost', 'Total Power', 'Oversubscription', 'Latency', 'Rack Space', 'Total Cables'].includes(row.name)) {
+                                    if (['Total Cost', 'Total Cost of Ownership', 'Total Power', 'Oversubscription', 'Plane Failure Impact', 'Worst-Case Latency', 'Rack Space', 'Total Cables'].includes(row.name)) {
                                       // Extract numeric values for comparison
                                       const numericValues = row.values.map(v => {
-                                        if (row.name === 'Total Cost') {
+                                        if (row.name === 'Total Cost' || row.name === 'Total Cost of Ownership') {
                                           return parseFloat(v.replace(/[^0-9.-]+/g, ''));
                                         } else if (row.name === 'Total Power') {
                                           return parseFloat(v.replace(/[^0-9.-]+/g, ''));
                                         } else if (row.name === 'Oversubscription') {
                                           return parseFloat(v.split(':')[0]);
-                                        } else if (row.name === 'Latency') {
+                                        } else if (row.name === 'Worst-Case Latency') {
                                           return parseFloat(v.split(' ')[0]);
                                         } else if (row.name === 'Rack Space') {
                                           return parseFloat(v.split(' ')[0]);
                                         } else if (row.name === 'Total Cables') {
                                           return parseFloat(v.replace(/[^0-9.-]+/g, ''));
+                                        } else if (row.name === 'Plane Failure Impact') {
+                                          return parseFloat(v);
                                         }
                                         return 0;
                                       });
                                       
                                       bestValue = Math.min(...numericValues);
                                       worstValue = Math.max(...numericValues);
-                                    } 
+                                    } else if (['Resiliency Score', 'Bisection Bandwidth', 'Max Leafs'].includes(row.name)) {
+                                      // Higher is better
+                                      const numericValues = row.values.map(v => parseFloat(v.replace(/[^0-9.-]+/g, '')));
+                                      bestValue = Math.max(...numericValues);
+                                      worstValue = Math.min(...numericValues);
+                                    }
                                     // For devices, it depends on the context (could be higher or lower)
                                   }
                                   
@@ -0,0 +1,355 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  Grid,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Select,
+  SelectChangeEvent,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  Tooltip as ChartTooltip,
+  Legend,
+  ChartData,
+  ChartOptions
+} from 'chart.js';
+import { Scatter } from 'react-chartjs-2';
+import { Link } from 'react-router-dom';
+import { useTopology } from '../../context/TopologyContext';
+import { Device } from '../../types/devices';
+import { Topology } from '../../types/topology';
+import { SizingTarget, DesignCandidate, DesignObjective } from '../../types/sizing';
+import { exploreDesignSpace } from '../../services/DesignExplorerService';
+import { getDevicesByType } from '../../services/DeviceManagementService';
+import SizingTargetFields, { defaultSizingTarget } from '../TopologyBuilder/SizingTargetFields';
+
+// Register ChartJS components
+ChartJS.register(LinearScale, PointElement, ChartTooltip, Legend);
+
+const objectiveLabels: Record<DesignObjective, string> = {
+  cost: 'Cost',
+  power: 'Power',
+  oversubscription: 'Oversubscription',
+  rackUnits: 'Rack Units'
+};
+
+// Format currency
+const formatCurrency = (value: number): string => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0
+  }).format(value);
+};
+
+// Format power values (watts to kilowatts when appropriate)
+const formatPower = (watts: number): string => {
+  if (watts < 1000) {
+    return `${new Intl.NumberFormat('en-US').format(watts)} W`;
+  }
+  return `${(watts / 1000).toFixed(2)} kW`;
+};
+
+const getDeviceName = (device: Device): string => `${device.manufacturer} ${device.model}`;
+
+const DesignSpaceExplorer = () => {
+  const { createTopologyFromConfiguration, defaultConfiguration } = useTopology();
+  const [target, setTarget] = useState<SizingTarget>(defaultSizingTarget);
+  const [spineDevices, setSpineDevices] = useState<Device[]>([]);
+  const [leafDevices, setLeafDevices] = useState<Device[]>([]);
+  const [candidates, setCandidates] = useState<DesignCandidate[] | null>(null);
+  const [paretoOnly, setParetoOnly] = useState<boolean>(true);
+  const [sortBy, setSortBy] = useState<DesignObjective>('cost');
+  const [promoted, setPromoted] = useState<Topology | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const exploration = useRef<AbortController | null>(null);
+
+  // Load built-in and custom devices
+  useEffect(() => {
+    const loadDevices = async () => {
+      try {
+        const [spines, leafs] = await Promise.all([
+          getDevicesByType('spine'),
+          getDevicesByType('leaf')
+        ]);
+        setSpineDevices(spines);
+        setLeafDevices(leafs);
+      } catch (error) {
+        console.error('Error loading devices:', error);
+      }
+    };
+
+    loadDevices();
+  }, []);
+
+  // Stop a running sweep when the page is left
+  useEffect(() => () => exploration.current?.abort(), []);
+
+  // Results are stale once the target changes
+  const handleTargetChange = (updatedTarget: SizingTarget): void => {
+    exploration.current?.abort();
+    setTarget(updatedTarget);
+    setCandidates(null);
+    setProgress(null);
+  };
+
+  const handleExplore = async (): Promise<void> => {
+    const controller = new AbortController();
+    exploration.current = controller;
+    setCandidates(null);
+    setPromoted(null);
+    setProgress({ done: 0, total: spineDevices.length * leafDevices.length });
+
+    const results = await exploreDesignSpace(
+      target,
+      spineDevices,
+      leafDevices,
+      defaultConfiguration,
+      (done, total) => setProgress({ done, total }),
+      controller.signal
+    );
+    if (!controller.signal.aborted) {
+      setCandidates(results);
+      setProgress(null);
+    }
+  };
+
+  const handlePromote = (candidate: DesignCandidate): void => {
+    if (!candidate.sizing.configuration) return;
+
+    const topology = createTopologyFromConfiguration(
+      `${candidate.spineDevice.model} / ${candidate.leafDevice.model} (${candidate.sizing.endpoints} endpoints)`,
+      `Design-space candidate: ${candidate.sizing.steps.join('; ')}`,
+      candidate.sizing.configuration
+    );
+    setPromoted(topology);
+  };
+
+  const visibleCandidates = useMemo<DesignCandidate[]>(() => {
+    if (!candidates) return [];
+    return candidates
+      .filter(candidate => !paretoOnly || candidate.paretoOptimal)
+      .sort((a, b) => a.objectives[sortBy] - b.objectives[sortBy]);
+  }, [candidates, paretoOnly, sortBy]);
+
+  const paretoCount = candidates ? candidates.filter(candidate => candidate.paretoOptimal).length : 0;
+
+  const scatterData: ChartData<'scatter'> = {
+    datasets: [
+      {
+        label: 'Pareto-optimal',
+        data: (candidates || [])
+          .filter(candidate => candidate.paretoOptimal)
+          .map(candidate => ({ x: candidate.objectives.cost, y: candidate.objectives.power })),
+        backgroundColor: 'rgba(54, 162, 235, 0.8)'
+      },
+      {
+        label: 'Dominated',
+        data: (candidates || [])
+          .filter(candidate => !candidate.paretoOptimal)
+          .map(candidate => ({ x: candidate.objectives.cost, y: candidate.objectives.power })),
+        backgroundColor: 'rgba(201, 203, 207, 0.6)'
+      }
+    ]
+  };
+
+  const scatterOptions: ChartOptions<'scatter'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: { title: { display: true, text: 'Cost (USD)' } },
+      y: { title: { display: true, text: 'Power (W)' } }
+    },
+    plugins: {
+      tooltip: {
+        callbacks: {
+          label: (context) => `${formatCurrency(context.parsed.x)}, ${formatPower(context.parsed.y)}`
+        }
+      }
+    }
+  };
+
+  return (
+    <Grid container spacing={3}>
+      <Grid item xs={12}>
+        <Card>
+          <CardHeader title="Endpoint Requirement" />
+          <Divider />
+          <CardContent>
+            <Grid container spacing={2}>
+              <SizingTargetFields target={target} onChange={handleTargetChange} />
+            </Grid>
+            <Box sx={{ display: 'flex', alignItems: 'center', mt: 2 }}>
+              <Button
+                variant="contained"
+                color="primary"
+                onClick={handleExplore}
+                disabled={spineDevices.length === 0 || leafDevices.length === 0 || progress !== null}
+              >
+                {progress ? 'Exploring...' : 'Explore Design Space'}
+              </Button>
+              <Typography variant="body2" color="text.secondary" sx={{ ml: 2 }}>
+                {progress
+                  ? `${progress.done} of ${progress.total} device pairs explored`
+                  : `${spineDevices.length} spine x ${leafDevices.length} leaf devices, every breakout mode and 1, 2, 4 or 8 parallel links per spine`}
+              </Typography>
+            </Box>
+            {progress && (
+              <LinearProgress
+                variant="determinate"
+                value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0}
+                sx={{ mt: 2 }}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </Grid>
+
+      {promoted && (
+        <Grid item xs={12}>
+          <Alert
+            severity="success"
+            action={
+              <Button color="inherit" size="small" component={Link} to="/builder">
+                Open in Builder
+              </Button>
+            }
+          >
+            Saved "{promoted.name}" as a topology
+          </Alert>
+        </Grid>
+      )}
+
+      {candidates && (
+        candidates.length === 0 ? (
+          <Grid item xs={12}>
+            <Alert severity="warning">
+              No device pair can connect {target.nicSpeed} NICs within {target.targetOversubscription}:1
+            </Alert>
+          </Grid>
+        ) : (
+          <>
+            <Grid item xs={12}>
+              <Card>
+                <CardHeader
+                  title="Cost vs. Power"
+                  subheader={`${paretoCount} Pareto-optimal of ${candidates.length} candidates`}
+                />
+                <Divider />
+                <CardContent>
+                  <Box sx={{ height: 300 }}>
+                    <Scatter data={scatterData} options={scatterOptions} />
+                  </Box>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={12}>
+              <Card>
+                <CardHeader
+                  title="Candidates"
+                  action={
+                    <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                      <FormControlLabel
+                        control={
+                          <Switch
+                            checked={paretoOnly}
+                            onChange={(event: React.ChangeEvent<HTMLInputElement>) => setParetoOnly(event.target.checked)}
+                          />
+                        }
+                        label="Pareto-optimal only"
+                      />
+                      <FormControl size="small" sx={{ minWidth: 160 }}>
+                        <InputLabel id="explorer-sort-label">Sort By</InputLabel>
+                        <Select
+                          labelId="explorer-sort-label"
+                          value={sortBy}
+                          label="Sort By"
+                          onChange={(event: SelectChangeEvent) => setSortBy(event.target.value as DesignObjective)}
+                        >
+                          {(Object.keys(objectiveLabels) as DesignObjective[]).map(objective => (
+                            <MenuItem key={objective} value={objective}>{objectiveLabels[objective]}</MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
+                    </Box>
+                  }
+                />
+                <Divider />
+                <TableContainer>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Spine</TableCell>
+                        <TableCell>Leaf</TableCell>
+                        <TableCell>Fabric</TableCell>
+                        <TableCell>Breakouts</TableCell>
+                        <TableCell align="right">Cost</TableCell>
+                        <TableCell align="right">Power</TableCell>
+                        <TableCell align="right">Oversubscription</TableCell>
+                        <TableCell align="right">Rack Units</TableCell>
+                        <TableCell />
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {visibleCandidates.map(candidate => (
+                        <TableRow key={candidate.id} hover>
+                          <TableCell>{getDeviceName(candidate.spineDevice)}</TableCell>
+                          <TableCell>{getDeviceName(candidate.leafDevice)}</TableCell>
+                          <TableCell>
+                            {candidate.sizing.numLeafs} leafs, {candidate.sizing.numSpines} spines
+                            {candidate.metrics.deviceCount.superSpines > 0 && `, ${candidate.metrics.deviceCount.superSpines} super-spines`}
+                            {candidate.sizing.linksPerSpine > 1 && ` (${candidate.sizing.linksPerSpine} links/spine)`}
+                          </TableCell>
+                          <TableCell>
+                            {candidate.sizing.leafDownlinkBreakout} / {candidate.sizing.spineBreakout}
+                          </TableCell>
+                          <TableCell align="right">{formatCurrency(candidate.objectives.cost)}</TableCell>
+                          <TableCell align="right">{formatPower(candidate.objectives.power)}</TableCell>
+                          <TableCell align="right">{candidate.metrics.oversubscription.ratio}:1</TableCell>
+                          <TableCell align="right">{candidate.objectives.rackUnits}</TableCell>
+                          <TableCell align="right">
+                            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end' }}>
+                              {candidate.paretoOptimal && (
+                                <Chip label="Pareto" size="small" color="primary" sx={{ mr: 1 }} />
+                              )}
+                              <Button size="small" variant="outlined" onClick={() => handlePromote(candidate)}>
+                                Save
+                              </Button>
+                            </Box>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Card>
+            </Grid>
+          </>
+        )
+      )}
+    </Grid>
+  );
+};
+
+export default DesignSpaceExplorer;
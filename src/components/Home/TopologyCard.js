@@ -49,11 +49,11 @@ const TopologyCard = ({
     });
   };
 
-  // Format currency
+  // Format currency in the pricing currency of the topology
   const formatCurrency = (value) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency: metrics.cost.currency,
       maximumFractionDigits: 0
     }).format(value);
   };
@@ -189,6 +189,13 @@ const TopologyCard = ({
         </Grid>
         
         <Box sx={{ mt: 0.5 }}>
+          {metrics.deviceCount.superSpines > 0 && (
+            <Chip
+              size="small"
+              label={`${metrics.deviceCount.superSpines} Super-Spine ${metrics.deviceCount.superSpines > 1 ? 'Switches' : 'Switch'}`}
+              sx={{ mr: 0.5, mb: 0.5 }}
+            />
+          )}
           <Chip
             size="small"
             label={`${metrics.deviceCount.spines} Spine ${metrics.deviceCount.spines > 1 ? 'Switches' : 'Switch'}`}
@@ -22,6 +22,7 @@ import HomeIcon from '@mui/icons-material/Home';
 import BuildIcon from '@mui/icons-material/Build';
 import BarChartIcon from '@mui/icons-material/BarChart';
 import CompareArrowsIcon from '@mui/icons-material/CompareArrows';
+import TravelExploreIcon from '@mui/icons-material/TravelExplore';
 import Brightness4Icon from '@mui/icons-material/Brightness4';
 import Brightness7Icon from '@mui/icons-material/Brightness7';
 import { useTopology } from '../../context/TopologyContext';
@@ -39,6 +40,7 @@ const Navigation = () => {
     { text: 'Home', path: '/', icon: <HomeIcon /> },
     { text: 'Builder', path: '/builder', icon: <BuildIcon /> },
     { text: 'Visualization', path: '/visualization', icon: <BarChartIcon /> },
+    { text: 'Explorer', path: '/explorer', icon: <TravelExploreIcon /> },
     { text: 'Comparison', path: '/comparison', icon: <CompareArrowsIcon />, badge: comparisonTopologies.length > 0 ? comparisonTopologies.length : null }
   ];
 
@@ -0,0 +1,162 @@
+import React from 'react';
+import {
+  Card,
+  CardContent,
+  FormControl,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Select,
+  SelectChangeEvent,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Topology } from '../../types/topology';
+import { AddressingParameters, AsnPool, LeafAsnMode, LinkAddressing } from '../../types/addressing';
+import { getAddressingParameters } from '../../services/AddressingService';
+import { parseIpv4Prefix } from '../../utils/ipv4';
+
+interface AddressingPanelProps {
+  topology: Topology;
+  setTopology: (topology: any) => void;
+}
+
+// ASN pool fields with their labels
+const asnPoolFields: { field: 'leafAsnPool' | 'spineAsnPool'; label: string }[] = [
+  { field: 'leafAsnPool', label: 'Leaf ASNs' },
+  { field: 'spineAsnPool', label: 'Spine ASNs' }
+];
+
+const asnValue = (value: string): number => {
+  const number = Math.round(Number(value));
+  return Number.isFinite(number) ? Math.min(4294967295, Math.max(0, number)) : 0;
+};
+
+/**
+ * Underlay addressing: loopback and link pools, numbered or unnumbered links
+ * and the ASN pools of the leafs and spines
+ */
+const AddressingPanel = ({ topology, setTopology }: AddressingPanelProps) => {
+  const parameters = getAddressingParameters(topology.configuration.addressing);
+
+  const updateParameters = (patch: Partial<AddressingParameters>) => {
+    setTopology({
+      ...topology,
+      configuration: {
+        ...topology.configuration,
+        addressing: {
+          ...parameters,
+          ...patch
+        }
+      }
+    });
+  };
+
+  const updatePool = (field: 'leafAsnPool' | 'spineAsnPool', patch: Partial<AsnPool>) => {
+    updateParameters({ [field]: { ...parameters[field], ...patch } });
+  };
+
+  const loopbackValid = parseIpv4Prefix(parameters.loopbackPool) !== null;
+  const linkPrefix = parseIpv4Prefix(parameters.linkPool);
+  const linkValid = linkPrefix !== null && linkPrefix.prefixLength <= 31;
+
+  return (
+    <Card variant="outlined">
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          IP Addressing and ASNs
+        </Typography>
+        <Typography variant="caption" color="text.secondary" gutterBottom display="block">
+          Every switch gets a /32 loopback and every switch-to-switch link a /31, parallel links and breakout lanes
+          included. Spines share one ASN per plane in each pod and super-spines one per plane.
+        </Typography>
+
+        <Grid container spacing={2} sx={{ mt: 1 }}>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Loopback Pool"
+              value={parameters.loopbackPool}
+              onChange={(event) => updateParameters({ loopbackPool: event.target.value })}
+              error={!loopbackValid}
+              helperText={loopbackValid ? 'IPv4 prefix, e.g. 10.0.0.0/16' : 'Not an IPv4 prefix'}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="link-addressing-label">Links</InputLabel>
+              <Select
+                labelId="link-addressing-label"
+                value={parameters.linkAddressing}
+                label="Links"
+                onChange={(event: SelectChangeEvent) => updateParameters({ linkAddressing: event.target.value as LinkAddressing })}
+              >
+                <MenuItem value="ipv4">IPv4 /31 per link</MenuItem>
+                <MenuItem value="ipv6-unnumbered">Unnumbered (IPv6 link-local)</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Link Pool"
+              value={parameters.linkPool}
+              disabled={parameters.linkAddressing !== 'ipv4'}
+              onChange={(event) => updateParameters({ linkPool: event.target.value })}
+              error={parameters.linkAddressing === 'ipv4' && !linkValid}
+              helperText={linkValid ? 'IPv4 prefix, e.g. 10.1.0.0/16' : 'Not an IPv4 prefix of /31 or larger'}
+            />
+          </Grid>
+
+          <Grid item xs={12} md={4}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="leaf-asn-mode-label">Leaf ASN Scheme</InputLabel>
+              <Select
+                labelId="leaf-asn-mode-label"
+                value={parameters.leafAsnMode}
+                label="Leaf ASN Scheme"
+                onChange={(event: SelectChangeEvent) => updateParameters({ leafAsnMode: event.target.value as LeafAsnMode })}
+              >
+                <MenuItem value="per-leaf">One ASN per leaf</MenuItem>
+                <MenuItem value="per-rack">One ASN per rack</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+          {asnPoolFields.map(({ field, label }) => (
+            <Grid item xs={12} md={4} key={field}>
+              <Grid container spacing={1}>
+                <Grid item xs={6}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    type="number"
+                    label={`${label} From`}
+                    value={parameters[field].first}
+                    onChange={(event) => updatePool(field, { first: asnValue(event.target.value) })}
+                    inputProps={{ min: 0 }}
+                  />
+                </Grid>
+                <Grid item xs={6}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    type="number"
+                    label="To"
+                    value={parameters[field].last}
+                    onChange={(event) => updatePool(field, { last: asnValue(event.target.value) })}
+                    error={parameters[field].last < parameters[field].first}
+                    inputProps={{ min: 0 }}
+                  />
+                </Grid>
+              </Grid>
+            </Grid>
+          ))}
+        </Grid>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AddressingPanel;
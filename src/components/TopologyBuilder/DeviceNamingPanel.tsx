@@ -0,0 +1,233 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  CardContent,
+  Grid,
+  MenuItem,
+  Select,
+  SelectChangeEvent,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Topology } from '../../types/topology';
+import { TierRole } from '../../types/metrics';
+import { DeviceInstance, DeviceOverride, NamingScheme } from '../../types/inventory';
+import {
+  buildInventory,
+  formatDeviceName,
+  getNamingScheme,
+  setDeviceOverride
+} from '../../services/InventoryService';
+import { getDevicesByType } from '../../data/deviceCatalog';
+
+interface DeviceNamingPanelProps {
+  topology: Topology;
+  setTopology: (topology: any) => void;
+}
+
+const roleLabels: Record<TierRole, string> = {
+  leaf: 'Leaf',
+  spine: 'Spine',
+  'super-spine': 'Super-Spine'
+};
+
+/**
+ * Naming scheme of the switches, with name and model overrides per switch
+ */
+const DeviceNamingPanel = ({ topology, setTopology }: DeviceNamingPanelProps) => {
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(10);
+  const scheme = getNamingScheme(topology.configuration.namingScheme);
+  const overrides = topology.configuration.deviceOverrides || {};
+  const inventory = useMemo(() => buildInventory(topology), [topology]);
+
+  if (!inventory) {
+    return null;
+  }
+
+  const updateScheme = (patch: Partial<NamingScheme>) => {
+    setTopology({
+      ...topology,
+      configuration: {
+        ...topology.configuration,
+        namingScheme: { ...scheme, ...patch }
+      }
+    });
+  };
+
+  const updateOverride = (key: string, patch: DeviceOverride) => {
+    setTopology({
+      ...topology,
+      configuration: setDeviceOverride(topology.configuration, key, patch)
+    });
+  };
+
+  const removeUnusedOverrides = () => {
+    const unused = new Set(inventory.unusedOverrides);
+    setTopology({
+      ...topology,
+      configuration: {
+        ...topology.configuration,
+        deviceOverrides: Object.fromEntries(Object.entries(overrides).filter(([key]) => !unused.has(key)))
+      }
+    });
+  };
+
+  // Name from the scheme alone, shown until the name is overridden
+  const getSchemeName = (device: DeviceInstance): string =>
+    formatDeviceName(scheme.template, {
+      site: scheme.site,
+      role: scheme.roleCodes[device.role],
+      index: device.index,
+      pod: device.pod,
+      member: device.member,
+      tier: device.tier,
+      rack: device.rack
+    });
+
+  const currentPage = Math.min(page, Math.max(0, Math.ceil(inventory.devices.length / rowsPerPage) - 1));
+  const visibleDevices = inventory.devices.slice(currentPage * rowsPerPage, (currentPage + 1) * rowsPerPage);
+
+  return (
+    <Card variant="outlined">
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          Device Naming
+        </Typography>
+        <Typography variant="caption" color="text.secondary" gutterBottom display="block">
+          Switch names are built from the template. Tokens: {'{site}'}, {'{role}'}, {'{index}'} (per role),
+          {' {pod}'} (scalable unit of a rail leaf, plane of a super-spine), {'{member}'} (within the pod or plane),
+          {' {tier}'} and {'{rack}'}; {'{index:03}'} pads with zeros. Overrides stay with their switch when the
+          topology changes. Costs follow the model selected for each role.
+        </Typography>
+
+        <Grid container spacing={2} sx={{ mt: 1 }}>
+          <Grid item xs={12} md={3}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Site"
+              value={scheme.site}
+              onChange={(event) => updateScheme({ site: event.target.value })}
+            />
+          </Grid>
+          <Grid item xs={12} md={9}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Template"
+              value={scheme.template}
+              onChange={(event) => updateScheme({ template: event.target.value })}
+              InputProps={{ sx: { fontFamily: 'monospace' } }}
+            />
+          </Grid>
+          {(Object.keys(roleLabels) as TierRole[]).map(role => (
+            <Grid item xs={12} md={4} key={role}>
+              <TextField
+                fullWidth
+                size="small"
+                label={`${roleLabels[role]} Code`}
+                value={scheme.roleCodes[role]}
+                onChange={(event) => updateScheme({ roleCodes: { ...scheme.roleCodes, [role]: event.target.value } })}
+              />
+            </Grid>
+          ))}
+        </Grid>
+
+        {inventory.duplicateNames.length > 0 && (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            Names used by more than one switch: {inventory.duplicateNames.slice(0, 5).join(', ')}
+            {inventory.duplicateNames.length > 5 ? ` and ${inventory.duplicateNames.length - 5} more` : ''}.
+            Add {'{index}'} to the template or change the overrides.
+          </Alert>
+        )}
+        {inventory.unusedOverrides.length > 0 && (
+          <Alert
+            severity="info"
+            sx={{ mt: 2 }}
+            action={<Button color="inherit" size="small" onClick={removeUnusedOverrides}>Remove</Button>}
+          >
+            {inventory.unusedOverrides.length} override{inventory.unusedOverrides.length === 1 ? ' is' : 's are'} kept
+            for switches the topology no longer has.
+          </Alert>
+        )}
+
+        {inventory.devices.length > 0 && (
+          <>
+            <Table size="small" sx={{ mt: 2 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Role</TableCell>
+                  <TableCell align="right">Pod</TableCell>
+                  <TableCell>Rack</TableCell>
+                  <TableCell>Model</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {visibleDevices.map(device => {
+                  const override = overrides[device.key];
+                  const catalogRole = device.role === 'leaf' ? 'leaf' : 'spine';
+                  return (
+                    <TableRow key={device.key}>
+                      <TableCell>
+                        <TextField
+                          size="small"
+                          fullWidth
+                          value={override?.name ?? ''}
+                          placeholder={getSchemeName(device)}
+                          onChange={(event) => updateOverride(device.key, { name: event.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell>{roleLabels[device.role]} {device.index}</TableCell>
+                      <TableCell align="right">{device.pod}</TableCell>
+                      <TableCell>{device.rack ? `${device.rack} U${device.position}` : '-'}</TableCell>
+                      <TableCell sx={{ minWidth: 200 }}>
+                        <Select
+                          size="small"
+                          fullWidth
+                          value={override?.deviceId ?? ''}
+                          displayEmpty
+                          onChange={(event: SelectChangeEvent) => updateOverride(device.key, { deviceId: event.target.value })}
+                        >
+                          <MenuItem value="">{roleLabels[device.role]} selection</MenuItem>
+                          {getDevicesByType(catalogRole).map(catalogDevice => (
+                            <MenuItem key={catalogDevice.id} value={catalogDevice.id}>
+                              {catalogDevice.manufacturer} {catalogDevice.model}
+                            </MenuItem>
+                          ))}
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            <TablePagination
+              component="div"
+              count={inventory.devices.length}
+              page={currentPage}
+              rowsPerPage={rowsPerPage}
+              rowsPerPageOptions={[10, 25, 50]}
+              onPageChange={(event, newPage) => setPage(newPage)}
+              onRowsPerPageChange={(event) => {
+                setRowsPerPage(parseInt(event.target.value, 10));
+                setPage(0);
+              }}
+            />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DeviceNamingPanel;
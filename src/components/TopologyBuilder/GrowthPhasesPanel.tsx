@@ -0,0 +1,138 @@
+import React from 'react';
+import {
+  Button,
+  Card,
+  CardContent,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { Topology } from '../../types/topology';
+import { GrowthPhase } from '../../types/growth';
+
+interface GrowthPhasesPanelProps {
+  topology: Topology;
+  setTopology: (topology: any) => void;
+}
+
+/**
+ * Build phases ahead of the full build: leafs and spines deployed by the end
+ * of each phase
+ */
+const GrowthPhasesPanel = ({ topology, setTopology }: GrowthPhasesPanelProps) => {
+  const phases = topology.configuration.growthPhases || [];
+
+  const updatePhases = (growthPhases: GrowthPhase[]) => {
+    setTopology({
+      ...topology,
+      configuration: {
+        ...topology.configuration,
+        growthPhases
+      }
+    });
+  };
+
+  const updatePhase = (index: number, patch: Partial<GrowthPhase>) => {
+    updatePhases(phases.map((phase, phaseIndex) => phaseIndex === index ? { ...phase, ...patch } : phase));
+  };
+
+  // A new phase starts halfway between the last phase and the full build
+  const handleAddPhase = () => {
+    const previousLeafs = phases.length > 0 ? phases[phases.length - 1].numLeafs : 0;
+    updatePhases([
+      ...phases,
+      {
+        name: `Day ${phases.length + 1}`,
+        numLeafs: Math.max(1, Math.ceil((previousLeafs + topology.configuration.numLeafs) / 2))
+      }
+    ]);
+  };
+
+  const handleSpinesChange = (index: number) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Number(event.target.value);
+    updatePhase(index, {
+      numSpines: event.target.value === '' || !Number.isFinite(value) ? undefined : Math.max(0, Math.round(value))
+    });
+  };
+
+  return (
+    <Card variant="outlined">
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          Growth Phases
+        </Typography>
+        <Typography variant="caption" color="text.secondary" gutterBottom display="block">
+          Phases are built in order and the topology as configured is the full build. Leave the spines empty to
+          deploy all spines up front (or, in pods, the spines of the pods in use).
+        </Typography>
+
+        {phases.length > 0 && (
+          <Table size="small" sx={{ mt: 1 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell>Phase</TableCell>
+                <TableCell>Leafs</TableCell>
+                <TableCell>Spines</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {phases.map((phase, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      value={phase.name}
+                      onChange={(event) => updatePhase(index, { name: event.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      type="number"
+                      value={phase.numLeafs}
+                      onChange={(event) => updatePhase(index, { numLeafs: Math.max(1, Math.round(Number(event.target.value) || 1)) })}
+                      inputProps={{ min: 1 }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      type="number"
+                      value={phase.numSpines ?? ''}
+                      placeholder="All"
+                      onChange={handleSpinesChange(index)}
+                      inputProps={{ min: 0 }}
+                    />
+                  </TableCell>
+                  <TableCell align="right">
+                    <IconButton
+                      size="small"
+                      aria-label="Remove phase"
+                      onClick={() => updatePhases(phases.filter((_, phaseIndex) => phaseIndex !== index))}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <Button size="small" startIcon={<AddIcon />} onClick={handleAddPhase} sx={{ mt: 1 }}>
+          Add Phase
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GrowthPhasesPanel;
@@ -0,0 +1,128 @@
+import React from 'react';
+import {
+  Card,
+  CardContent,
+  FormControl,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Select,
+  SelectChangeEvent,
+  Typography
+} from '@mui/material';
+import { Topology } from '../../types/topology';
+import { OpticAssignment, OpticsSelection, OpticsSelectionMode } from '../../types/optics';
+import { assignOptics } from '../../services/CalculationService';
+import { getOpticsBySpeed } from '../../data/opticsCatalog';
+
+interface OpticsSelectionPanelProps {
+  topology: Topology;
+  setTopology: (topology: any) => void;
+}
+
+const AUTO_OPTIC = 'auto';
+
+const getGroupLabel = (assignment: OpticAssignment): string =>
+  assignment.linkType === 'server'
+    ? 'Server NICs to leafs'
+    : `Tier ${assignment.tier} (${assignment.role}) uplinks`;
+
+/**
+ * Choose how optics are priced: flat per link speed, or from the optics catalog
+ * with an optional optic per link group
+ */
+const OpticsSelectionPanel = ({ topology, setTopology }: OpticsSelectionPanelProps) => {
+  const selection: OpticsSelection = topology.configuration.opticsSelection || { mode: 'flat' };
+  const assignments = assignOptics(topology.configuration);
+
+  const updateSelection = (updatedSelection: OpticsSelection) => {
+    setTopology({
+      ...topology,
+      configuration: {
+        ...topology.configuration,
+        opticsSelection: updatedSelection
+      }
+    });
+  };
+
+  const handleModeChange = (event: SelectChangeEvent) => {
+    updateSelection({ ...selection, mode: event.target.value as OpticsSelectionMode });
+  };
+
+  const handleOpticChange = (group: string, opticId: string) => {
+    const tierOptics = { ...(selection.tierOptics || {}) };
+    if (opticId === AUTO_OPTIC) {
+      delete tierOptics[group];
+    } else {
+      tierOptics[group] = opticId;
+    }
+    updateSelection({ ...selection, tierOptics });
+  };
+
+  return (
+    <Card variant="outlined">
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          Optics
+        </Typography>
+        <Typography variant="caption" color="text.secondary" gutterBottom display="block">
+          Catalog optics are picked per link group as the cheapest optic that reaches the longest cable,
+          unless one is chosen below. Flat pricing uses the per-speed optics cost and power.
+        </Typography>
+
+        <Grid container spacing={2} sx={{ mt: 1 }}>
+          <Grid item xs={12}>
+            <FormControl fullWidth size="small" sx={{ maxWidth: 320 }}>
+              <InputLabel id="optics-mode-label">Optics Pricing</InputLabel>
+              <Select
+                labelId="optics-mode-label"
+                value={selection.mode}
+                label="Optics Pricing"
+                onChange={handleModeChange}
+              >
+                <MenuItem value="catalog">Optics catalog</MenuItem>
+                <MenuItem value="flat">Flat per link speed</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+
+          {selection.mode === 'catalog' && assignments.map(assignment => {
+            const optics = getOpticsBySpeed(assignment.speed);
+            const chosenId = selection.tierOptics?.[assignment.group];
+            const value = chosenId && optics.some(optic => optic.id === chosenId) ? chosenId : AUTO_OPTIC;
+
+            return (
+              <Grid item xs={12} md={6} key={assignment.group}>
+                <FormControl fullWidth size="small" disabled={optics.length === 0}>
+                  <InputLabel id={`optic-${assignment.group}-label`}>
+                    {getGroupLabel(assignment)} ({assignment.speed}, up to {assignment.cableLength.toFixed(1)} m)
+                  </InputLabel>
+                  <Select
+                    labelId={`optic-${assignment.group}-label`}
+                    value={optics.length > 0 ? value : AUTO_OPTIC}
+                    label={`${getGroupLabel(assignment)} (${assignment.speed}, up to ${assignment.cableLength.toFixed(1)} m)`}
+                    onChange={(event: SelectChangeEvent) => handleOpticChange(assignment.group, event.target.value)}
+                  >
+                    <MenuItem value={AUTO_OPTIC}>
+                      {optics.length > 0
+                        ? `Auto${assignment.automatic && assignment.optic ? ` (${assignment.optic.name})` : ''}`
+                        : `No catalog optics for ${assignment.speed}, flat pricing applies`}
+                    </MenuItem>
+                    {optics.map(optic => (
+                      <MenuItem key={optic.id} value={optic.id}>
+                        {optic.name}: {optic.maxDistance} m, {optic.cost > 0 ? `$${optic.cost}` : 'priced as cable'}, {optic.power} W
+                        {optic.maxDistance < assignment.cableLength ? ' (too short)' : ''}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+            );
+          })}
+        </Grid>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OpticsSelectionPanel;
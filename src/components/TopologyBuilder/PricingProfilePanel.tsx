@@ -0,0 +1,181 @@
+import React from 'react';
+import {
+  Card,
+  CardContent,
+  FormControl,
+  Grid,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Select,
+  SelectChangeEvent,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Topology } from '../../types/topology';
+import { Currency, PriceCategory, PricingProfile } from '../../types/pricing';
+import { CURRENCIES, getPricingProfile } from '../../services/PricingService';
+import { getManufacturers } from '../../data/deviceCatalog';
+
+interface PricingProfilePanelProps {
+  topology: Topology;
+  setTopology: (topology: any) => void;
+}
+
+const categoryLabels: Record<PriceCategory, string> = {
+  switches: 'Switch Discount',
+  optics: 'Optics Discount',
+  cables: 'Cable Discount'
+};
+
+const clampDiscount = (value: number): number => (Number.isFinite(value) ? Math.min(100, Math.max(0, value)) : 0);
+
+/**
+ * Pricing profile: reporting currency, exchange rates, and discounts off list
+ * price per category and per switch manufacturer
+ */
+const PricingProfilePanel = ({ topology, setTopology }: PricingProfilePanelProps) => {
+  const profile = getPricingProfile(topology.configuration.pricingProfile);
+  const manufacturers = [...new Set([
+    ...getManufacturers('spine'),
+    ...getManufacturers('leaf'),
+    ...Object.keys(profile.manufacturerDiscounts)
+  ])];
+
+  const updateProfile = (patch: Partial<PricingProfile>) => {
+    setTopology({
+      ...topology,
+      configuration: {
+        ...topology.configuration,
+        pricingProfile: {
+          ...profile,
+          ...patch
+        }
+      }
+    });
+  };
+
+  const handleCurrencyChange = (event: SelectChangeEvent) => {
+    updateProfile({ currency: event.target.value as Currency });
+  };
+
+  const handleRateChange = (currency: Currency) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Number(event.target.value);
+    updateProfile({
+      exchangeRates: {
+        ...profile.exchangeRates,
+        [currency]: Number.isFinite(value) && value > 0 ? value : profile.exchangeRates[currency]
+      }
+    });
+  };
+
+  const handleCategoryChange = (category: PriceCategory) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    updateProfile({
+      categoryDiscounts: {
+        ...profile.categoryDiscounts,
+        [category]: clampDiscount(Number(event.target.value))
+      }
+    });
+  };
+
+  // An empty manufacturer discount falls back to the switch category discount
+  const handleManufacturerChange = (manufacturer: string) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const { [manufacturer]: _previous, ...others } = profile.manufacturerDiscounts;
+    updateProfile({
+      manufacturerDiscounts: event.target.value === ''
+        ? others
+        : { ...others, [manufacturer]: clampDiscount(Number(event.target.value)) }
+    });
+  };
+
+  return (
+    <Card variant="outlined">
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          Pricing
+        </Typography>
+        <Typography variant="caption" color="text.secondary" gutterBottom display="block">
+          Configured and catalog prices are USD list prices. Costs are converted into the reporting currency and
+          the discounts are taken off list price. A manufacturer discount replaces the switch discount for the
+          switches of that manufacturer; leave it empty to use the switch discount.
+        </Typography>
+
+        <Grid container spacing={2} sx={{ mt: 1 }}>
+          <Grid item xs={12} sm={6} md={4}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="pricing-currency-label">Currency</InputLabel>
+              <Select
+                labelId="pricing-currency-label"
+                value={profile.currency}
+                label="Currency"
+                onChange={handleCurrencyChange}
+              >
+                {CURRENCIES.map(currency => (
+                  <MenuItem key={currency} value={currency}>{currency}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+
+          {CURRENCIES.filter(currency => currency !== 'USD').map(currency => (
+            <Grid item xs={12} sm={6} md={4} key={currency}>
+              <TextField
+                fullWidth
+                size="small"
+                type="number"
+                label={`${currency} Exchange Rate`}
+                value={profile.exchangeRates[currency]}
+                onChange={handleRateChange(currency)}
+                inputProps={{ min: 0, step: 0.01 }}
+                InputProps={{ endAdornment: <InputAdornment position="end">{currency}/USD</InputAdornment> }}
+              />
+            </Grid>
+          ))}
+        </Grid>
+
+        <Typography variant="subtitle2" sx={{ mt: 2 }}>
+          Discounts by Category
+        </Typography>
+        <Grid container spacing={2} sx={{ mt: 0 }}>
+          {(Object.keys(categoryLabels) as PriceCategory[]).map(category => (
+            <Grid item xs={12} sm={6} md={4} key={category}>
+              <TextField
+                fullWidth
+                size="small"
+                type="number"
+                label={categoryLabels[category]}
+                value={profile.categoryDiscounts[category]}
+                onChange={handleCategoryChange(category)}
+                inputProps={{ min: 0, max: 100 }}
+                InputProps={{ endAdornment: <InputAdornment position="end">%</InputAdornment> }}
+              />
+            </Grid>
+          ))}
+        </Grid>
+
+        <Typography variant="subtitle2" sx={{ mt: 2 }}>
+          Switch Discounts by Manufacturer
+        </Typography>
+        <Grid container spacing={2} sx={{ mt: 0 }}>
+          {manufacturers.map(manufacturer => (
+            <Grid item xs={12} sm={6} md={3} key={manufacturer}>
+              <TextField
+                fullWidth
+                size="small"
+                type="number"
+                label={manufacturer}
+                value={profile.manufacturerDiscounts[manufacturer] ?? ''}
+                placeholder={String(profile.categoryDiscounts.switches)}
+                onChange={handleManufacturerChange(manufacturer)}
+                inputProps={{ min: 0, max: 100 }}
+                InputProps={{ endAdornment: <InputAdornment position="end">%</InputAdornment> }}
+              />
+            </Grid>
+          ))}
+        </Grid>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PricingProfilePanel;
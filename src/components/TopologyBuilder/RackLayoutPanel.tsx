@@ -0,0 +1,114 @@
+import React from 'react';
+import {
+  Card,
+  CardContent,
+  FormControl,
+  Grid,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Select,
+  SelectChangeEvent,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Topology, RackSpaceParameters } from '../../types/topology';
+import { LeafPlacement, RackLayoutParameters } from '../../types/layout';
+import { getRackLayoutParameters } from '../../services/RackLayoutService';
+
+interface RackLayoutPanelProps {
+  topology: Topology;
+  setTopology: (topology: any) => void;
+}
+
+// Numeric layout fields with their labels, units and lower bounds; scale converts the shown unit to the stored one
+const numberFields: { field: keyof RackLayoutParameters; label: string; unit: string; min: number; scale?: number }[] = [
+  { field: 'rackHeight', label: 'Rack Height', unit: 'U', min: 1 },
+  { field: 'reservedRackUnits', label: 'Reserved per Rack', unit: 'U', min: 0 },
+  { field: 'rackPowerBudget', label: 'Power Budget per Rack', unit: 'kW', min: 0, scale: 1000 },
+  { field: 'rackCoolingBudget', label: 'Cooling Budget per Rack', unit: 'BTU/hr', min: 0 },
+  { field: 'racksPerRow', label: 'Server Racks per Row', unit: 'racks', min: 1 },
+  { field: 'serverRackUnits', label: 'Server Height', unit: 'U', min: 1 },
+  { field: 'serverPower', label: 'Server Power', unit: 'W', min: 0 }
+];
+
+/**
+ * Rack and row layout parameters: rack size, power and cooling budgets, leaf placement
+ * and the servers that share the racks with the leafs
+ */
+const RackLayoutPanel = ({ topology, setTopology }: RackLayoutPanelProps) => {
+  const parameters = getRackLayoutParameters(topology.configuration.rackSpaceParameters);
+
+  const updateParameters = (patch: Partial<RackSpaceParameters>) => {
+    setTopology({
+      ...topology,
+      configuration: {
+        ...topology.configuration,
+        rackSpaceParameters: {
+          ...topology.configuration.rackSpaceParameters,
+          ...patch
+        }
+      }
+    });
+  };
+
+  const handleNumberChange = (field: keyof RackLayoutParameters, min: number, scale = 1) =>
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const value = Number(event.target.value);
+      updateParameters({ [field]: (Number.isFinite(value) ? Math.max(min, value) : min) * scale });
+    };
+
+  const handlePlacementChange = (event: SelectChangeEvent) => {
+    updateParameters({ leafPlacement: event.target.value as LeafPlacement });
+  };
+
+  return (
+    <Card variant="outlined">
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          Rack Layout
+        </Typography>
+        <Typography variant="caption" color="text.secondary" gutterBottom display="block">
+          Devices are placed into racks and rows, and cable lengths are measured on that floor plan
+          unless they are set in the latency parameters. Spines and super-spines always get dedicated network racks.
+          Racks are filled up to the power budget at the maximum power of the equipment and up to the cooling budget.
+        </Typography>
+
+        <Grid container spacing={2} sx={{ mt: 1 }}>
+          <Grid item xs={12} sm={6} md={4}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="leaf-placement-label">Leaf Placement</InputLabel>
+              <Select
+                labelId="leaf-placement-label"
+                value={parameters.leafPlacement}
+                label="Leaf Placement"
+                onChange={handlePlacementChange}
+              >
+                <MenuItem value="tor">Top of rack (ToR)</MenuItem>
+                <MenuItem value="mor">Middle of row (MoR)</MenuItem>
+                <MenuItem value="eor">End of row (EoR)</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+
+          {numberFields.map(({ field, label, unit, min, scale = 1 }) => (
+            <Grid item xs={12} sm={6} md={4} key={field}>
+              <TextField
+                fullWidth
+                size="small"
+                type="number"
+                label={label}
+                value={Number(parameters[field]) / scale}
+                onChange={handleNumberChange(field, min, scale)}
+                inputProps={{ min }}
+                InputProps={{ endAdornment: <InputAdornment position="end">{unit}</InputAdornment> }}
+              />
+            </Grid>
+          ))}
+        </Grid>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RackLayoutPanel;
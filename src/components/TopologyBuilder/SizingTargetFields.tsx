@@ -0,0 +1,147 @@
+import React from 'react';
+import {
+  FormControl,
+  FormControlLabel,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Select,
+  SelectChangeEvent,
+  Switch,
+  TextField
+} from '@mui/material';
+import { SizingTarget, SizingTargetType } from '../../types/sizing';
+
+interface SizingTargetFieldsProps {
+  target: SizingTarget;
+  onChange: (target: SizingTarget) => void;
+}
+
+const nicSpeeds = ['25G', '50G', '100G', '200G', '400G', '800G'];
+
+export const defaultSizingTarget: SizingTarget = {
+  targetType: 'servers',
+  count: 512,
+  gpusPerServer: 8,
+  nicsPerServer: 2,
+  nicSpeed: '100G',
+  targetOversubscription: 3,
+  railOptimized: false
+};
+
+// Endpoint requirement inputs shared by the sizing wizard and the design explorer
+const SizingTargetFields = ({ target, onChange }: SizingTargetFieldsProps) => {
+  const updateTarget = (patch: Partial<SizingTarget>): void => {
+    onChange({ ...target, ...patch });
+  };
+
+  const handleNumberChange = (field: keyof SizingTarget, min: number) =>
+    (event: React.ChangeEvent<HTMLInputElement>): void => {
+      const value = Number(event.target.value);
+      updateTarget({ [field]: Number.isFinite(value) ? Math.max(min, value) : min });
+    };
+
+  const handleTargetTypeChange = (event: SelectChangeEvent): void => {
+    updateTarget({ targetType: event.target.value as SizingTargetType });
+  };
+
+  const handleNicSpeedChange = (event: SelectChangeEvent): void => {
+    updateTarget({ nicSpeed: event.target.value });
+  };
+
+  const handleRailOptimizedChange = (event: React.ChangeEvent<HTMLInputElement>): void => {
+    const railOptimized = event.target.checked;
+    // Rail fabrics give every GPU its own NIC
+    updateTarget(railOptimized
+      ? { railOptimized, nicsPerServer: target.gpusPerServer, targetOversubscription: 1 }
+      : { railOptimized });
+  };
+
+  return (
+    <>
+      <Grid item xs={12} sm={4}>
+        <FormControl fullWidth>
+          <InputLabel id="sizing-target-type-label">Target</InputLabel>
+          <Select
+            labelId="sizing-target-type-label"
+            value={target.targetType}
+            label="Target"
+            onChange={handleTargetTypeChange}
+          >
+            <MenuItem value="servers">Servers</MenuItem>
+            <MenuItem value="gpus">GPUs</MenuItem>
+          </Select>
+        </FormControl>
+      </Grid>
+      <Grid item xs={12} sm={4}>
+        <TextField
+          fullWidth
+          type="number"
+          label={target.targetType === 'gpus' ? 'Number of GPUs' : 'Number of Servers'}
+          value={target.count}
+          onChange={handleNumberChange('count', 1)}
+          inputProps={{ min: 1 }}
+        />
+      </Grid>
+      <Grid item xs={12} sm={4}>
+        <TextField
+          fullWidth
+          type="number"
+          label="GPUs per Server"
+          value={target.gpusPerServer}
+          onChange={handleNumberChange('gpusPerServer', 1)}
+          inputProps={{ min: 1 }}
+          disabled={target.targetType !== 'gpus' && !target.railOptimized}
+        />
+      </Grid>
+      <Grid item xs={12} sm={4}>
+        <TextField
+          fullWidth
+          type="number"
+          label="NICs per Server"
+          value={target.nicsPerServer}
+          onChange={handleNumberChange('nicsPerServer', 1)}
+          inputProps={{ min: 1 }}
+        />
+      </Grid>
+      <Grid item xs={12} sm={4}>
+        <FormControl fullWidth>
+          <InputLabel id="sizing-nic-speed-label">NIC Speed</InputLabel>
+          <Select
+            labelId="sizing-nic-speed-label"
+            value={target.nicSpeed}
+            label="NIC Speed"
+            onChange={handleNicSpeedChange}
+          >
+            {nicSpeeds.map(speed => (
+              <MenuItem key={speed} value={speed}>{speed}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Grid>
+      <Grid item xs={12} sm={4}>
+        <TextField
+          fullWidth
+          type="number"
+          label="Target Oversubscription (x:1)"
+          value={target.targetOversubscription}
+          onChange={handleNumberChange('targetOversubscription', 1)}
+          inputProps={{ min: 1, step: 0.5 }}
+        />
+      </Grid>
+      <Grid item xs={12}>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={target.railOptimized}
+              onChange={handleRailOptimizedChange}
+            />
+          }
+          label="Rail Optimized (one leaf per NIC rail in each scalable unit)"
+        />
+      </Grid>
+    </>
+  );
+};
+
+export default SizingTargetFields;
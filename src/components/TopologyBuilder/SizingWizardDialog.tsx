@@ -0,0 +1,160 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  FormControl,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Select,
+  SelectChangeEvent,
+  Typography
+} from '@mui/material';
+import { Link } from 'react-router-dom';
+import { Device } from '../../types/devices';
+import { TopologyConfiguration } from '../../types/topology';
+import { SizingTarget, SizingResult } from '../../types/sizing';
+import { solveSizing } from '../../services/SizingService';
+import { getDevicesByType } from '../../services/DeviceManagementService';
+import SizingTargetFields, { defaultSizingTarget } from './SizingTargetFields';
+
+interface SizingWizardDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onCreate: (result: SizingResult, target: SizingTarget) => void;
+  baseConfig: TopologyConfiguration;
+}
+
+const SizingWizardDialog = ({ open, onClose, onCreate, baseConfig }: SizingWizardDialogProps) => {
+  const [target, setTarget] = useState<SizingTarget>(defaultSizingTarget);
+  const [spineDevices, setSpineDevices] = useState<Device[]>([]);
+  const [leafDevices, setLeafDevices] = useState<Device[]>([]);
+  const [spineDeviceId, setSpineDeviceId] = useState<string>('');
+  const [leafDeviceId, setLeafDeviceId] = useState<string>('');
+
+  // Load the device catalog when the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    const loadDevices = async () => {
+      try {
+        const [spines, leafs] = await Promise.all([
+          getDevicesByType('spine'),
+          getDevicesByType('leaf')
+        ]);
+        setSpineDevices(spines);
+        setLeafDevices(leafs);
+        setSpineDeviceId(prev => prev || baseConfig.deviceSelection?.spine?.deviceId || spines[0]?.id || '');
+        setLeafDeviceId(prev => prev || baseConfig.deviceSelection?.leaf?.deviceId || leafs[0]?.id || '');
+      } catch (error) {
+        console.error('Error loading devices:', error);
+      }
+    };
+
+    loadDevices();
+  }, [open, baseConfig]);
+
+  const spineDevice = spineDevices.find(device => device.id === spineDeviceId);
+  const leafDevice = leafDevices.find(device => device.id === leafDeviceId);
+
+  // Re-solve whenever the target or the devices change
+  const result = useMemo<SizingResult | null>(() => {
+    if (!spineDevice || !leafDevice) return null;
+    return solveSizing(target, spineDevice, leafDevice, baseConfig);
+  }, [target, spineDevice, leafDevice, baseConfig]);
+
+  const handleCreate = (): void => {
+    if (result && result.valid) {
+      onCreate(result, target);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Size From Requirements</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          Describe the endpoints to connect and the acceptable oversubscription. The smallest
+          fabric built from the selected devices is derived automatically.
+        </DialogContentText>
+
+        <Grid container spacing={2} sx={{ mt: 1 }}>
+          <SizingTargetFields target={target} onChange={setTarget} />
+          <Grid item xs={12} sm={6}>
+            <FormControl fullWidth>
+              <InputLabel id="sizing-spine-device-label">Spine Device</InputLabel>
+              <Select
+                labelId="sizing-spine-device-label"
+                value={spineDevice ? spineDeviceId : ''}
+                label="Spine Device"
+                onChange={(event: SelectChangeEvent) => setSpineDeviceId(event.target.value)}
+              >
+                {spineDevices.map(device => (
+                  <MenuItem key={device.id} value={device.id}>
+                    {device.manufacturer} {device.model}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <FormControl fullWidth>
+              <InputLabel id="sizing-leaf-device-label">Leaf Device</InputLabel>
+              <Select
+                labelId="sizing-leaf-device-label"
+                value={leafDevice ? leafDeviceId : ''}
+                label="Leaf Device"
+                onChange={(event: SelectChangeEvent) => setLeafDeviceId(event.target.value)}
+              >
+                {leafDevices.map(device => (
+                  <MenuItem key={device.id} value={device.id}>
+                    {device.manufacturer} {device.model}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+        </Grid>
+
+        {result && (
+          <Box sx={{ mt: 2 }}>
+            {result.valid ? (
+              <>
+                <Alert severity="success" sx={{ mb: 1 }}>
+                  {result.numLeafs} leafs, {result.numSpines} spines, {result.numTiers} tiers
+                  at {result.oversubscription.toFixed(2)}:1 for {result.endpoints} endpoints
+                </Alert>
+                <Typography variant="subtitle2">How it was derived:</Typography>
+                {result.steps.map(step => (
+                  <Typography key={step} variant="body2">{step}</Typography>
+                ))}
+              </>
+            ) : (
+              <Alert severity="error">{result.error}</Alert>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          onClick={handleCreate}
+          color="primary"
+          disabled={!result || !result.valid}
+          component={Link}
+          to="/builder"
+        >
+          Create Topology
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SizingWizardDialog;
@@ -0,0 +1,184 @@
+import React, { useMemo } from 'react';
+import {
+  Card,
+  CardContent,
+  FormControl,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Select,
+  SelectChangeEvent,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Topology } from '../../types/topology';
+import { PriceCategory } from '../../types/pricing';
+import { SpareMode, SpareRule, SparesPolicy } from '../../types/spares';
+import { getSparesPolicy } from '../../services/SparesService';
+import { calculateSpares } from '../../services/CalculationService';
+
+interface SparesPolicyPanelProps {
+  topology: Topology;
+  setTopology: (topology: any) => void;
+}
+
+const categoryLabels: Record<PriceCategory, string> = {
+  switches: 'Switches',
+  optics: 'Optics',
+  cables: 'Cables'
+};
+
+const ruleValue = (value: string): number => {
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.max(0, number) : 0;
+};
+
+/**
+ * Sparing policy: spares per category as a share of the installed quantity or
+ * a fixed number, with overrides per device model, optic type and cable SKU
+ */
+const SparesPolicyPanel = ({ topology, setTopology }: SparesPolicyPanelProps) => {
+  const policy = getSparesPolicy(topology.configuration.sparesPolicy);
+  const spares = useMemo(() => calculateSpares(topology.configuration), [topology.configuration]);
+
+  const updatePolicy = (patch: Partial<SparesPolicy>) => {
+    setTopology({
+      ...topology,
+      configuration: {
+        ...topology.configuration,
+        sparesPolicy: {
+          ...policy,
+          ...patch
+        }
+      }
+    });
+  };
+
+  const updateCategory = (category: PriceCategory, patch: Partial<SpareRule>) => {
+    updatePolicy({ [category]: { ...policy[category], ...patch } });
+  };
+
+  // 'default' removes the override so the category rule applies
+  const updateOverride = (key: string, category: PriceCategory, mode: SpareMode | 'default', value?: number) => {
+    const { [key]: previous, ...others } = policy.overrides;
+    if (mode === 'default') {
+      updatePolicy({ overrides: others });
+      return;
+    }
+    const base = previous ?? policy[category];
+    updatePolicy({ overrides: { ...others, [key]: { mode, value: value ?? base.value } } });
+  };
+
+  return (
+    <Card variant="outlined">
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          Spares
+        </Typography>
+        <Typography variant="caption" color="text.secondary" gutterBottom display="block">
+          Spares are added to the device counts, the cost and the bill of materials. A percentage is taken of the
+          installed quantity of each item and rounded up; a count is the number of spares held per item.
+        </Typography>
+
+        <Grid container spacing={2} sx={{ mt: 1 }}>
+          {(Object.keys(categoryLabels) as PriceCategory[]).map(category => (
+            <Grid item xs={12} md={4} key={category}>
+              <Grid container spacing={1}>
+                <Grid item xs={6}>
+                  <FormControl fullWidth size="small">
+                    <InputLabel id={`spares-${category}-label`}>{categoryLabels[category]}</InputLabel>
+                    <Select
+                      labelId={`spares-${category}-label`}
+                      value={policy[category].mode}
+                      label={categoryLabels[category]}
+                      onChange={(event: SelectChangeEvent) => updateCategory(category, { mode: event.target.value as SpareMode })}
+                    >
+                      <MenuItem value="percent">Percent</MenuItem>
+                      <MenuItem value="count">Count per item</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Grid>
+                <Grid item xs={6}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    type="number"
+                    label={policy[category].mode === 'percent' ? 'Spares %' : 'Spares'}
+                    value={policy[category].value}
+                    onChange={(event) => updateCategory(category, { value: ruleValue(event.target.value) })}
+                    inputProps={{ min: 0 }}
+                  />
+                </Grid>
+              </Grid>
+            </Grid>
+          ))}
+        </Grid>
+
+        {spares.items.length > 0 && (
+          <>
+            <Typography variant="subtitle2" sx={{ mt: 3 }}>
+              Per Item
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Item</TableCell>
+                  <TableCell align="right">Installed</TableCell>
+                  <TableCell>Rule</TableCell>
+                  <TableCell>Value</TableCell>
+                  <TableCell align="right">Spares</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {spares.items.map(item => {
+                  const override = policy.overrides[item.key];
+                  return (
+                    <TableRow key={item.key}>
+                      <TableCell>
+                        <Typography variant="body2">{item.model}</Typography>
+                        <Typography variant="caption" color="text.secondary">{categoryLabels[item.category]}</Typography>
+                      </TableCell>
+                      <TableCell align="right">{item.installed.toLocaleString()}</TableCell>
+                      <TableCell sx={{ minWidth: 140 }}>
+                        <Select
+                          size="small"
+                          fullWidth
+                          value={override ? override.mode : 'default'}
+                          onChange={(event: SelectChangeEvent) =>
+                            updateOverride(item.key, item.category, event.target.value as SpareMode | 'default')}
+                        >
+                          <MenuItem value="default">{categoryLabels[item.category]} default</MenuItem>
+                          <MenuItem value="percent">Percent</MenuItem>
+                          <MenuItem value="count">Count</MenuItem>
+                        </Select>
+                      </TableCell>
+                      <TableCell sx={{ width: 120 }}>
+                        <TextField
+                          size="small"
+                          type="number"
+                          disabled={!override}
+                          value={(override ?? policy[item.category]).value}
+                          onChange={(event) =>
+                            override && updateOverride(item.key, item.category, override.mode, ruleValue(event.target.value))}
+                          inputProps={{ min: 0 }}
+                        />
+                      </TableCell>
+                      <TableCell align="right">{item.spares.toLocaleString()}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SparesPolicyPanel;
@@ -0,0 +1,86 @@
+import React from 'react';
+import {
+  Card,
+  CardContent,
+  Grid,
+  InputAdornment,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Topology } from '../../types/topology';
+import { TcoParameters } from '../../types/tco';
+import { getTcoParameters } from '../../services/TcoService';
+import { getPricingProfile } from '../../services/PricingService';
+
+interface TcoParametersPanelProps {
+  topology: Topology;
+  setTopology: (topology: any) => void;
+}
+
+// TCO fields with their labels, units, lower bounds and input steps; priced units follow the pricing currency
+const tcoFields: { field: keyof TcoParameters; label: string; unit: string; min: number; step: number; priced?: boolean }[] = [
+  { field: 'years', label: 'Horizon', unit: 'years', min: 1, step: 1 },
+  { field: 'amortisationYears', label: 'Amortisation Period', unit: 'years', min: 1, step: 1 },
+  { field: 'electricityPrice', label: 'Electricity Price', unit: '/kWh', min: 0, step: 0.01, priced: true },
+  { field: 'pue', label: 'PUE', unit: '', min: 1, step: 0.05 },
+  { field: 'supportRate', label: 'Support Contract', unit: '% / year', min: 0, step: 1 },
+  { field: 'opticsFailureRate', label: 'Optics Replaced', unit: '% / year', min: 0, step: 0.5 },
+  { field: 'rackCostPerMonth', label: 'Rack Cost', unit: '/rack/month', min: 0, step: 50, priced: true }
+];
+
+/**
+ * Total cost of ownership parameters: horizon, energy, support, optics
+ * replacement and rack costs
+ */
+const TcoParametersPanel = ({ topology, setTopology }: TcoParametersPanelProps) => {
+  const parameters = getTcoParameters(topology.configuration.tcoParameters);
+  const { currency } = getPricingProfile(topology.configuration.pricingProfile);
+
+  const handleNumberChange = (field: keyof TcoParameters, min: number) =>
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const value = Number(event.target.value);
+      setTopology({
+        ...topology,
+        configuration: {
+          ...topology.configuration,
+          tcoParameters: {
+            ...parameters,
+            [field]: Number.isFinite(value) ? Math.max(min, value) : min
+          }
+        }
+      });
+    };
+
+  return (
+    <Card variant="outlined">
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          Total Cost of Ownership
+        </Typography>
+        <Typography variant="caption" color="text.secondary" gutterBottom display="block">
+          Energy is charged on the typical power of the switches and optics times the PUE. Support is a share of
+          the switch cost, and rack cost applies to the rack space the switches take up. Hardware is bought again once it is amortised.
+        </Typography>
+
+        <Grid container spacing={2} sx={{ mt: 1 }}>
+          {tcoFields.map(({ field, label, unit, min, step, priced }) => (
+            <Grid item xs={12} sm={6} md={4} key={field}>
+              <TextField
+                fullWidth
+                size="small"
+                type="number"
+                label={label}
+                value={parameters[field]}
+                onChange={handleNumberChange(field, min)}
+                inputProps={{ min, step }}
+                InputProps={unit ? { endAdornment: <InputAdornment position="end">{priced ? `${currency}${unit}` : unit}</InputAdornment> } : undefined}
+              />
+            </Grid>
+          ))}
+        </Grid>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TcoParametersPanel;
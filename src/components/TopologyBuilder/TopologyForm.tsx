@@ -3,6 +3,14 @@ import { useTopology } from '../../context/TopologyContext';
 import { exportTopology } from '../../utils/importExport';
 import DeviceSelection from './DeviceSelection';
 import CostPowerConfigPanel from './CostPowerConfigPanel';
+import OpticsSelectionPanel from './OpticsSelectionPanel';
+import RackLayoutPanel from './RackLayoutPanel';
+import TcoParametersPanel from './TcoParametersPanel';
+import PricingProfilePanel from './PricingProfilePanel';
+import SparesPolicyPanel from './SparesPolicyPanel';
+import GrowthPhasesPanel from './GrowthPhasesPanel';
+import DeviceNamingPanel from './DeviceNamingPanel';
+import AddressingPanel from './AddressingPanel';
 import DeviceManagementService from '../../services/DeviceManagementService';
 import { 
   Box, 
@@ -36,10 +44,25 @@ import {
   TopologyConfiguration, 
   BreakoutOption,
   SpineConfig,
-  LeafConfig
+  LeafConfig,
+  PodConfig,
+  SuperSpineConfig,
+  RailConfig
 } from '../../types/topology';
 import { LeafDevice } from '../../types/devices';
-import { validateParallelLinks } from '../../services/CalculationService';
+import { 
+  validateParallelLinks,
+  validatePortAllocation,
+  validateClosTiers,
+  getLeafPortAllocation,
+  getPodLayout,
+  getRailConfig,
+  resolveRailFabric,
+  calculateRailMetrics,
+  calculateSpinePlanes,
+  calculateHeadroom,
+  validateSpinePlanes
+} from '../../services/CalculationService';
 
 // Interface for TabPanel props
 interface TabPanelProps {
@@ -166,6 +189,15 @@ const TopologyForm = () => {
       updatedTopology.configuration = ensureMinimumTiers(updatedTopology.configuration);
     }
     
+    // Keep rail-optimized fabrics on whole scalable units
+    if (updatedTopology.configuration.railOptimized && (field === 'railOptimized' || field === 'numLeafs')) {
+      const railConfig = getRailConfig(updatedTopology.configuration);
+      updatedTopology.configuration = resolveRailFabric({
+        ...updatedTopology.configuration,
+        railConfig: field === 'numLeafs' ? { ...railConfig, scalableUnits: undefined } : railConfig
+      });
+    }
+    
     // Validate the updated topology
     validateTopology(updatedTopology);
     
@@ -240,6 +272,59 @@ const TopologyForm = () => {
     }
   };
   
+  // Update the pod layout and keep the spine count in step with it
+  const updatePodConfig = (patch: Partial<PodConfig>): void => {
+    if (!topology) return;
+    const podConfig = {
+      ...topology.configuration.podConfig,
+      ...patch
+    } as PodConfig;
+    const configuration = {
+      ...topology.configuration,
+      podConfig
+    };
+    const { pods, spinesPerPod } = getPodLayout(configuration);
+
+    const updatedTopology: Topology = {
+      ...topology,
+      configuration: {
+        ...configuration,
+        numSpines: pods * spinesPerPod
+      }
+    };
+
+    validateTopology(updatedTopology);
+    setTopology(updatedTopology);
+
+    if (autoSave) {
+      updateTopologyWithAutoSave(updatedTopology);
+    }
+  };
+  
+  // Update the rail layout and derive the leaf layout from it
+  const updateRailConfig = (patch: Partial<RailConfig>): void => {
+    if (!topology) return;
+    const railConfig = {
+      ...getRailConfig(topology.configuration),
+      ...patch
+    };
+
+    const updatedTopology: Topology = {
+      ...topology,
+      configuration: resolveRailFabric({
+        ...topology.configuration,
+        railConfig
+      })
+    };
+
+    validateTopology(updatedTopology);
+    setTopology(updatedTopology);
+
+    if (autoSave) {
+      updateTopologyWithAutoSave(updatedTopology);
+    }
+  };
+  
   // Validate the topology configuration
   const validateTopology = (topologyToValidate: Topology): boolean => {
     const errors: ValidationErrors = {};
@@ -258,7 +343,7 @@ const TopologyForm = () => {
     }
     
     // Check if leaf count exceeds maximum
-    const { portCount, portSpeed, breakoutMode } = topologyConfig.spineConfig;
+    const { portSpeed } = topologyConfig.spineConfig;
     
     // Ensure breakoutOptions exists
     if (!topologyConfig.breakoutOptions) {
@@ -275,14 +360,15 @@ const TopologyForm = () => {
       return Object.keys(errors).length === 0;
     }
     
-    const breakoutOption = breakoutOptions[portSpeed].find(
-      option => option.type === breakoutMode
-    );
-    const breakoutFactor = breakoutOption ? breakoutOption.factor : 1;
-    const maxLeafSwitches = portCount * breakoutFactor;
-    
-    if (topologyConfig.numLeafs > maxLeafSwitches) {
-      errors.numLeafs = `Leaf count exceeds maximum of ${maxLeafSwitches} supported by current spine configuration`;
+    // In an N-tier Clos the spine radix only limits the leafs of a single pod
+    const { leafs } = calculateHeadroom(topologyConfig);
+    if (topologyConfig.numTiers >= 3) {
+      const closValidation = validateClosTiers(topologyConfig);
+      if (!closValidation.valid) {
+        errors.podConfig = closValidation.error || 'Invalid pod layout';
+      }
+    } else if (topologyConfig.numSpines > 0 && leafs.current > leafs.max) {
+      errors.numLeafs = `Leaf count exceeds maximum of ${leafs.max} supported by current spine configuration`;
     }
     
     // Check if spine count is valid - only for multi-tier topologies
@@ -296,8 +382,20 @@ const TopologyForm = () => {
     }
     
     // Check if tier count is valid
-    if (topologyConfig.numTiers < 1 || topologyConfig.numTiers > 3) {
-      errors.numTiers = 'Tier count must be between 1 and 3';
+    if (topologyConfig.numTiers < 1 || topologyConfig.numTiers > 5) {
+      errors.numTiers = 'Tier count must be between 1 and 5';
+    }
+    
+    // Check that the leaf port allocation fits the leaf switch
+    const portAllocationValidation = validatePortAllocation(topologyConfig);
+    if (!portAllocationValidation.valid) {
+      errors.leafConfig = portAllocationValidation.error || 'Invalid leaf port allocation';
+    }
+    
+    // Check that the spines split evenly into disjoint planes
+    const spinePlanesValidation = validateSpinePlanes(topologyConfig);
+    if (!spinePlanesValidation.valid) {
+      errors.spinePlanes = spinePlanesValidation.error || 'Invalid spine plane layout';
     }
     
     setValidationErrors(errors);
@@ -404,27 +502,13 @@ const TopologyForm = () => {
       return null;
     }
     
-    const { numSpines, leafConfig, parallelLinksMode, parallelLinksPerSpine } = topology.configuration;
-    
-    if (numSpines === 0) {
+    if (topology.configuration.numSpines === 0) {
       return "N/A (single-tier)";
     }
     
-    let linksPerSpine = 1;
-    if (parallelLinksMode === 'manual' && parallelLinksPerSpine) {
-      linksPerSpine = parallelLinksPerSpine;
-    } else {
-      // Auto mode calculation
-      const leafPortCount = leafConfig?.portCount || 48;
-      const estimatedDownlinkPorts = Math.floor(leafPortCount * 0.5);
-      const availableUplinkPorts = leafPortCount - estimatedDownlinkPorts;
-      linksPerSpine = Math.max(1, Math.floor(availableUplinkPorts / numSpines));
-    }
-    
-    const totalUplinksUsed = linksPerSpine * numSpines;
-    const leafPortCount = leafConfig?.portCount || 48;
+    const { uplinkPortsUsed, uplinkPorts, linksPerSpine } = getLeafPortAllocation(topology.configuration);
     
-    return `Using ${totalUplinksUsed}/${leafPortCount} uplink ports per leaf (${linksPerSpine} links per spine)`;
+    return `Using ${uplinkPortsUsed}/${uplinkPorts} uplink ports per leaf (${linksPerSpine} links per spine)`;
   };
 
   // Render advanced configuration tab
@@ -444,6 +528,24 @@ const TopologyForm = () => {
               }
               label="Disjointed Spines (Multiple Fabrics)"
             />
+            {topology.configuration.disjointedSpines && (() => {
+              const spinePlanes = calculateSpinePlanes(topology.configuration);
+              return (
+                <TextField
+                  label="Spine Planes"
+                  type="number"
+                  size="small"
+                  fullWidth
+                  value={topology.configuration.spinePlanes || 2}
+                  onChange={(e) => handleConfigChange('spinePlanes', parseInt(e.target.value) || 2)}
+                  inputProps={{ min: 2 }}
+                  error={!!validationErrors.spinePlanes}
+                  helperText={validationErrors.spinePlanes || 
+                    spinePlanes.planes.map(plane => `Plane ${plane.plane}: ${plane.spines} spines`).join(', ')}
+                  sx={{ mt: 1 }}
+                />
+              );
+            })()}
           </Grid>
           
           <Grid item xs={12} md={6}>
@@ -458,6 +560,81 @@ const TopologyForm = () => {
             />
           </Grid>
           
+          {topology.configuration.railOptimized && (() => {
+            const railConfig = getRailConfig(topology.configuration);
+            const rail = calculateRailMetrics(topology.configuration);
+            
+            return (
+              <>
+                <Grid item xs={6} md={3}>
+                  <TextField
+                    label="GPUs per Server"
+                    type="number"
+                    size="small"
+                    fullWidth
+                    value={railConfig.gpusPerServer}
+                    onChange={(e) => updateRailConfig({ gpusPerServer: parseInt(e.target.value) || 1 })}
+                    inputProps={{ min: 1 }}
+                  />
+                </Grid>
+                <Grid item xs={6} md={3}>
+                  <TextField
+                    label="NICs (Rails) per Server"
+                    type="number"
+                    size="small"
+                    fullWidth
+                    value={railConfig.nicsPerServer}
+                    onChange={(e) => updateRailConfig({ nicsPerServer: parseInt(e.target.value) || 1 })}
+                    inputProps={{ min: 1 }}
+                  />
+                </Grid>
+                <Grid item xs={6} md={3}>
+                  <TextField
+                    label="Servers per Scalable Unit"
+                    type="number"
+                    size="small"
+                    fullWidth
+                    value={railConfig.serversPerScalableUnit || ''}
+                    placeholder={`Auto (${rail?.serversPerScalableUnit})`}
+                    InputLabelProps={{ shrink: true }}
+                    onChange={(e) => updateRailConfig({ serversPerScalableUnit: parseInt(e.target.value) || undefined })}
+                    inputProps={{ min: 1 }}
+                  />
+                </Grid>
+                <Grid item xs={6} md={3}>
+                  <TextField
+                    label="Scalable Units"
+                    type="number"
+                    size="small"
+                    fullWidth
+                    value={railConfig.scalableUnits || ''}
+                    placeholder={`Auto (${rail?.scalableUnits})`}
+                    InputLabelProps={{ shrink: true }}
+                    onChange={(e) => updateRailConfig({ scalableUnits: parseInt(e.target.value) || undefined })}
+                    inputProps={{ min: 1 }}
+                  />
+                </Grid>
+                <Grid item xs={12}>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={railConfig.spineInterconnect}
+                        onChange={(e) => updateRailConfig({ spineInterconnect: e.target.checked })}
+                      />
+                    }
+                    label="Spine Interconnect Across Rails"
+                  />
+                  {rail && (
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      {rail.scalableUnits} scalable units × {rail.rails} rail leafs = {rail.railLeafs} leafs, 
+                      {' '}{rail.servers} servers ({rail.gpus} GPUs), {rail.nicLinks} NIC links at {rail.nicSpeed}
+                    </Typography>
+                  )}
+                </Grid>
+              </>
+            );
+          })()}
+          
           <Grid item xs={12}>
             <FormControlLabel
               control={
@@ -552,7 +729,28 @@ const TopologyForm = () => {
         <Typography variant="h6">Additional Parameters</Typography>
         <Grid container spacing={3}>
           <Grid item xs={12}>
-            <Typography>Additional configuration parameters.</Typography>
+            <OpticsSelectionPanel topology={topology} setTopology={setTopology} />
+          </Grid>
+          <Grid item xs={12}>
+            <RackLayoutPanel topology={topology} setTopology={setTopology} />
+          </Grid>
+          <Grid item xs={12}>
+            <PricingProfilePanel topology={topology} setTopology={setTopology} />
+          </Grid>
+          <Grid item xs={12}>
+            <SparesPolicyPanel topology={topology} setTopology={setTopology} />
+          </Grid>
+          <Grid item xs={12}>
+            <GrowthPhasesPanel topology={topology} setTopology={setTopology} />
+          </Grid>
+          <Grid item xs={12}>
+            <DeviceNamingPanel topology={topology} setTopology={setTopology} />
+          </Grid>
+          <Grid item xs={12}>
+            <AddressingPanel topology={topology} setTopology={setTopology} />
+          </Grid>
+          <Grid item xs={12}>
+            <TcoParametersPanel topology={topology} setTopology={setTopology} />
           </Grid>
         </Grid>
       </TabPanel>
@@ -650,19 +848,7 @@ const TopologyForm = () => {
               
               {topology.configuration.parallelLinksEnabled && topology.configuration.numSpines > 0 && (
                 <Chip 
-                  label={`Parallel Links (${(() => {
-                    const { numSpines, leafConfig, parallelLinksMode, parallelLinksPerSpine } = topology.configuration;
-                    let linksPerSpine = 1;
-                    if (parallelLinksMode === 'manual' && parallelLinksPerSpine) {
-                      linksPerSpine = parallelLinksPerSpine;
-                    } else {
-                      const leafPortCount = leafConfig?.portCount || 48;
-                      const estimatedDownlinkPorts = Math.floor(leafPortCount * 0.5);
-                      const availableUplinkPorts = leafPortCount - estimatedDownlinkPorts;
-                      linksPerSpine = Math.max(1, Math.floor(availableUplinkPorts / numSpines));
-                    }
-                    return `${linksPerSpine}x`;
-                  })()})`}
+                  label={`Parallel Links (${getLeafPortAllocation(topology.configuration).linksPerSpine}x)`}
                   color="secondary" 
                   size="small"
                   sx={{ mr: 1, mb: 1 }}
@@ -671,7 +857,7 @@ const TopologyForm = () => {
               
               <Typography variant="caption" color="text.secondary" display="block">
                 {topology.configuration.numTiers === 1 && topology.configuration.numSpines === 0 && 
-                  "In Rail-Only mode, leaf switches connect directly to each other without spine switches."
+                  "In Rail-Only mode, each server NIC connects to the leaf switch of its rail and there are no spine switches."
                 }
                 {topology.configuration.parallelLinksEnabled && topology.configuration.numSpines > 0 && 
                   " Multiple parallel links between each leaf-spine pair for higher bandwidth and redundancy."
@@ -757,7 +943,7 @@ const TopologyForm = () => {
             <Grid item xs={12} md={6}>
               <Typography gutterBottom>
                 Number of Tiers
-                <Tooltip title="1 tier = Rail-Only (leaf only), 2 tiers = Spine-Leaf, 3 tiers = Super-Spine-Spine-Leaf">
+                <Tooltip title="1 tier = Rail-Only (leaf only), 2 tiers = Spine-Leaf, 3+ tiers = pods of spines and leafs joined by super-spine tiers">
                   <IconButton size="small" sx={{ ml: 1 }}>
                     <InfoIcon fontSize="small" />
                   </IconButton>
@@ -783,10 +969,11 @@ const TopologyForm = () => {
                 marks={[
                   { value: 1, label: 'Rail-Only' },
                   { value: 2, label: 'Spine-Leaf' },
-                  { value: 3, label: '3-Tier' }
+                  { value: 3, label: '3-Tier' },
+                  { value: 5, label: '5-Tier' }
                 ]}
                 min={1}
-                max={3}
+                max={5}
                 valueLabelDisplay="auto"
               />
               <TextField
@@ -806,7 +993,7 @@ const TopologyForm = () => {
                 }}
                 inputProps={{
                   min: topology.configuration.numSpines > 0 ? 2 : 1,
-                  max: 3
+                  max: 5
                 }}
                 margin="dense"
                 size="small"
@@ -935,6 +1122,75 @@ const TopologyForm = () => {
                   sx={{ mb: 2 }}
                 />
 
+                {/* Leaf Port Allocation */}
+                {(() => {
+                  const allocation = getLeafPortAllocation(topology.configuration);
+                  return (
+                    <Box sx={{ mb: 2 }}>
+                      <FormControl fullWidth size="small" sx={{ mb: 2 }}>
+                        <InputLabel id="leaf-uplink-speed-label">Uplink Speed</InputLabel>
+                        <Select
+                          labelId="leaf-uplink-speed-label"
+                          id="leaf-uplink-speed"
+                          label="Uplink Speed"
+                          value={topology.configuration.leafConfig.uplinkSpeed || ''}
+                          onChange={(e) =>
+                            handleNestedConfigChange('leafConfig', 'uplinkSpeed', e.target.value ? String(e.target.value) : undefined)
+                          }
+                        >
+                          <MenuItem value="">Match spine links ({allocation.uplinkSpeed})</MenuItem>
+                          {Object.keys((topology.configuration.breakoutOptions as any) || {}).map((speed) => (
+                            <MenuItem key={speed} value={speed}>{speed}</MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
+                      <Grid container spacing={2}>
+                        <Grid item xs={6}>
+                          <TextField
+                            label="Uplink Ports"
+                            type="number"
+                            size="small"
+                            fullWidth
+                            value={topology.configuration.leafConfig.uplinkPorts ?? ''}
+                            placeholder={`Auto (${allocation.uplinkPorts})`}
+                            InputLabelProps={{ shrink: true }}
+                            onChange={(e) =>
+                              handleNestedConfigChange('leafConfig', 'uplinkPorts', e.target.value === '' ? undefined : parseInt(e.target.value) || 0)
+                            }
+                            inputProps={{ min: 0 }}
+                          />
+                        </Grid>
+                        <Grid item xs={6}>
+                          <TextField
+                            label="Downlink Ports"
+                            type="number"
+                            size="small"
+                            fullWidth
+                            value={topology.configuration.leafConfig.downlinkPorts ?? ''}
+                            placeholder={`Auto (${allocation.downlinkPorts})`}
+                            InputLabelProps={{ shrink: true }}
+                            onChange={(e) =>
+                              handleNestedConfigChange('leafConfig', 'downlinkPorts', e.target.value === '' ? undefined : parseInt(e.target.value) || 0)
+                            }
+                            inputProps={{ min: 0 }}
+                          />
+                        </Grid>
+                      </Grid>
+                      <Typography 
+                        variant="caption" 
+                        color={validationErrors.leafConfig ? 'error' : 'text.secondary'} 
+                        display="block" 
+                        sx={{ mt: 1 }}
+                      >
+                        {validationErrors.leafConfig || 
+                          `${allocation.uplinkPortsUsed}/${allocation.uplinkPorts} uplink ports cabled at ${allocation.uplinkSpeed}, ` +
+                          `${allocation.downlinkPorts} downlink ports at ${allocation.downlinkSpeed}, ` +
+                          `${Math.max(0, allocation.unallocatedPorts)} unallocated`}
+                      </Typography>
+                    </Box>
+                  );
+                })()}
+
                 {/* Leaf Breakout Mode (optional) */}
                 {(((topology.configuration.breakoutOptions as any) || {})[
                   topology.configuration.leafConfig.downlinkSpeed
@@ -961,6 +1217,143 @@ const TopologyForm = () => {
               </Grid>
             </Grid>
           </Box>
+
+          {/* Pod and Super-Spine Configuration */}
+          {topology.configuration.numTiers >= 3 && (() => {
+            const podLayout = getPodLayout(topology.configuration);
+            const spineConfig = topology.configuration.spineConfig;
+            const superSpineConfig: SuperSpineConfig = topology.configuration.superSpineConfig || {
+              portCount: spineConfig.portCount,
+              portSpeed: spineConfig.portSpeed,
+              breakoutMode: spineConfig.breakoutMode
+            };
+            const updateSuperSpineConfig = (patch: Partial<SuperSpineConfig>): void =>
+              updateNestedConfig('superSpineConfig', { ...superSpineConfig, ...patch });
+            const breakoutOptions: Record<string, BreakoutOption[]> =
+              (topology.configuration.breakoutOptions as any) || {};
+
+            return (
+              <Box sx={{ mt: 4 }}>
+                <Typography variant="subtitle1" gutterBottom>Pods &amp; Super-Spines</Typography>
+                <Divider />
+                <Grid container spacing={3} sx={{ mt: 2 }}>
+                  {/* Pod Layout */}
+                  <Grid item xs={12} md={6}>
+                    <Typography variant="subtitle2" gutterBottom>Pod Layout</Typography>
+                    <Grid container spacing={2}>
+                      <Grid item xs={6}>
+                        <TextField
+                          label="Leafs per Pod"
+                          type="number"
+                          size="small"
+                          fullWidth
+                          value={topology.configuration.podConfig?.leafsPerPod || ''}
+                          placeholder={`Auto (${podLayout.leafsPerPod})`}
+                          InputLabelProps={{ shrink: true }}
+                          onChange={(e) => updatePodConfig({ leafsPerPod: parseInt(e.target.value) || 0 })}
+                          inputProps={{ min: 1 }}
+                        />
+                      </Grid>
+                      <Grid item xs={6}>
+                        <TextField
+                          label="Spines per Pod"
+                          type="number"
+                          size="small"
+                          fullWidth
+                          value={topology.configuration.podConfig?.spinesPerPod || ''}
+                          placeholder={`Auto (${podLayout.spinesPerPod})`}
+                          InputLabelProps={{ shrink: true }}
+                          onChange={(e) => updatePodConfig({ spinesPerPod: parseInt(e.target.value) || 0 })}
+                          inputProps={{ min: 1 }}
+                        />
+                      </Grid>
+                    </Grid>
+                    <Typography 
+                      variant="caption" 
+                      color={validationErrors.podConfig ? 'error' : 'text.secondary'} 
+                      display="block" 
+                      sx={{ mt: 1 }}
+                    >
+                      {validationErrors.podConfig || 
+                        `${podLayout.pods} pods of ${podLayout.leafsPerPod} leafs and ${podLayout.spinesPerPod} spines ` +
+                        `(${podLayout.pods * podLayout.spinesPerPod} spines in total)`}
+                    </Typography>
+                  </Grid>
+
+                  {/* Super-Spine Interfaces */}
+                  <Grid item xs={12} md={6}>
+                    <Typography variant="subtitle2" gutterBottom>Super-Spine Interfaces</Typography>
+
+                    <FormControl fullWidth size="small" sx={{ mb: 2 }}>
+                      <InputLabel id="super-spine-port-speed-label">Port Speed</InputLabel>
+                      <Select
+                        labelId="super-spine-port-speed-label"
+                        id="super-spine-port-speed"
+                        label="Port Speed"
+                        value={superSpineConfig.portSpeed}
+                        onChange={(e) => {
+                          const newSpeed = String(e.target.value);
+                          const options = breakoutOptions[newSpeed] || [];
+                          const nextMode =
+                            options.length > 0 && !options.find((o) => o.type === superSpineConfig.breakoutMode)
+                              ? options[0].type
+                              : superSpineConfig.breakoutMode;
+
+                          updateSuperSpineConfig({ portSpeed: newSpeed, breakoutMode: nextMode });
+                        }}
+                      >
+                        {Object.keys(breakoutOptions).map((speed) => (
+                          <MenuItem key={speed} value={speed}>{speed}</MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+
+                    <Grid container spacing={2} sx={{ mb: 2 }}>
+                      <Grid item xs={6}>
+                        <TextField
+                          label="Port Count"
+                          type="number"
+                          size="small"
+                          fullWidth
+                          value={superSpineConfig.portCount}
+                          onChange={(e) => updateSuperSpineConfig({ portCount: parseInt(e.target.value) || 0 })}
+                          inputProps={{ min: 1 }}
+                        />
+                      </Grid>
+                      <Grid item xs={6}>
+                        <TextField
+                          label="Super-Spine Count"
+                          type="number"
+                          size="small"
+                          fullWidth
+                          value={superSpineConfig.count || ''}
+                          placeholder="Auto"
+                          InputLabelProps={{ shrink: true }}
+                          onChange={(e) => updateSuperSpineConfig({ count: parseInt(e.target.value) || undefined })}
+                          inputProps={{ min: 1 }}
+                        />
+                      </Grid>
+                    </Grid>
+
+                    <FormControl fullWidth size="small">
+                      <InputLabel id="super-spine-breakout-mode-label">Breakout Mode</InputLabel>
+                      <Select
+                        labelId="super-spine-breakout-mode-label"
+                        id="super-spine-breakout-mode"
+                        label="Breakout Mode"
+                        value={superSpineConfig.breakoutMode}
+                        onChange={(e) => updateSuperSpineConfig({ breakoutMode: String(e.target.value) })}
+                      >
+                        {(breakoutOptions[superSpineConfig.portSpeed] || []).map((opt) => (
+                          <MenuItem key={opt.type} value={opt.type}>{opt.type}</MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                  </Grid>
+                </Grid>
+              </Box>
+            );
+          })()}
         </TabPanel>
         
         {/* Render other tabs */}
@@ -0,0 +1,235 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Divider,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  Typography
+} from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
+import { useTopology } from '../../context/TopologyContext';
+import {
+  formatAddressPlanCsv,
+  formatAddressPlanJson,
+  generateAddressPlan,
+  LOOPBACK_INTERFACE
+} from '../../services/AddressingService';
+import { downloadFile, getExportFileName } from '../../utils/fileExport';
+import { TierRole } from '../../types/metrics';
+
+const roleLabels: Record<TierRole, string> = {
+  leaf: 'Leaf',
+  spine: 'Spine',
+  'super-spine': 'Super-Spine'
+};
+
+const monospace = { fontFamily: '"JetBrains Mono", monospace', fontSize: 12 };
+
+/**
+ * Keep a page within the rows of another topology
+ * @param page - The selected page
+ * @param rows - Number of rows
+ * @param rowsPerPage - Rows per page
+ * @returns The page to show
+ */
+const clampPage = (page: number, rows: number, rowsPerPage: number): number =>
+  Math.min(page, Math.max(0, Math.ceil(rows / rowsPerPage) - 1));
+
+/**
+ * Loopbacks, ASNs and link addresses of the current topology with JSON and
+ * CSV downloads
+ */
+const AddressingPlan = () => {
+  const { currentTopology } = useTopology();
+  const [devicePage, setDevicePage] = useState(0);
+  const [interfacePage, setInterfacePage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+  const plan = useMemo(
+    () => currentTopology ? generateAddressPlan(currentTopology) : null,
+    [currentTopology]
+  );
+  const links = useMemo(
+    () => plan ? plan.interfaces.filter(entry => entry.interface !== LOOPBACK_INTERFACE) : [],
+    [plan]
+  );
+
+  if (!currentTopology || !plan) {
+    return (
+      <Card>
+        <CardContent>
+          <Typography variant="body1">
+            Select or create a topology to view its addressing plan.
+          </Typography>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const unnumbered = plan.parameters.linkAddressing === 'ipv6-unnumbered';
+  const formatAddress = (address: string | null): string => address ?? (unnumbered ? 'unnumbered' : '-');
+
+  const handleDownload = (format: 'json' | 'csv' | 'excel') => {
+    if (format === 'json') {
+      downloadFile(
+        formatAddressPlanJson(plan),
+        getExportFileName(currentTopology.name, 'addressing', 'json'),
+        'application/json'
+      );
+      return;
+    }
+    downloadFile(
+      formatAddressPlanCsv(plan, { excel: format === 'excel' }),
+      getExportFileName(currentTopology.name, format === 'excel' ? 'addressing_excel' : 'addressing', 'csv'),
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  const handleRowsPerPageChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setRowsPerPage(parseInt(event.target.value, 10));
+    setDevicePage(0);
+    setInterfacePage(0);
+  };
+
+  const currentDevicePage = clampPage(devicePage, plan.devices.length, rowsPerPage);
+  const currentInterfacePage = clampPage(interfacePage, links.length, rowsPerPage);
+  const visibleDevices = plan.devices.slice(currentDevicePage * rowsPerPage, (currentDevicePage + 1) * rowsPerPage);
+  const visibleLinks = links.slice(currentInterfacePage * rowsPerPage, (currentInterfacePage + 1) * rowsPerPage);
+
+  return (
+    <Card sx={{ mb: 4 }}>
+      <CardHeader
+        title="Addressing Plan"
+        subheader={`${plan.devices.length.toLocaleString()} loopbacks, ${(links.length / 2).toLocaleString()} links${unnumbered ? ' (unnumbered)' : ''}`}
+        action={
+          <Box sx={{ display: 'flex', gap: 1, mt: 1, mr: 1 }}>
+            {(['json', 'csv', 'excel'] as const).map(format => (
+              <Button
+                key={format}
+                variant="outlined"
+                size="small"
+                startIcon={<DownloadIcon />}
+                disabled={plan.devices.length === 0}
+                onClick={() => handleDownload(format)}
+              >
+                {format === 'json' ? 'JSON' : format === 'csv' ? 'CSV' : 'CSV for Excel'}
+              </Button>
+            ))}
+          </Box>
+        }
+      />
+      <Divider />
+      <CardContent>
+        <Typography variant="body2" color="textSecondary" paragraph>
+          Underlay addresses and BGP ASNs from the pools set in the topology builder. Each link of the cabling plan
+          gets a /31 with the even address on the upper switch, or peers over IPv6 link-local addresses when links
+          are unnumbered.
+        </Typography>
+
+        {plan.issues.length > 0 && (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mb: 3 }}>
+            {plan.issues.map(issue => (
+              <Alert key={issue} severity="warning">{issue}</Alert>
+            ))}
+          </Box>
+        )}
+
+        <Typography variant="h6" gutterBottom>
+          Switches
+        </Typography>
+        <TableContainer component={Paper} elevation={2} sx={{ mb: 3 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Switch</TableCell>
+                <TableCell>Role</TableCell>
+                <TableCell>Rack</TableCell>
+                <TableCell>Loopback</TableCell>
+                <TableCell align="right">ASN</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {visibleDevices.map(device => (
+                <TableRow key={device.key}>
+                  <TableCell sx={monospace}>{device.device}</TableCell>
+                  <TableCell>{roleLabels[device.role]}</TableCell>
+                  <TableCell>{device.rack || '-'}</TableCell>
+                  <TableCell sx={monospace}>{device.loopback ?? '-'}</TableCell>
+                  <TableCell align="right" sx={monospace}>{device.asn ?? '-'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <TablePagination
+            component="div"
+            count={plan.devices.length}
+            page={currentDevicePage}
+            rowsPerPage={rowsPerPage}
+            rowsPerPageOptions={[25, 50, 100]}
+            onPageChange={(event, newPage) => setDevicePage(newPage)}
+            onRowsPerPageChange={handleRowsPerPageChange}
+          />
+        </TableContainer>
+
+        <Typography variant="h6" gutterBottom>
+          Interfaces
+        </Typography>
+        {links.length === 0 ? (
+          <Typography variant="body2">
+            This topology has no switch-to-switch links.
+          </Typography>
+        ) : (
+          <TableContainer component={Paper} elevation={2}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Switch</TableCell>
+                  <TableCell>Interface</TableCell>
+                  <TableCell>Address</TableCell>
+                  <TableCell>Peer</TableCell>
+                  <TableCell>Peer Interface</TableCell>
+                  <TableCell>Peer Address</TableCell>
+                  <TableCell align="right">Peer ASN</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {visibleLinks.map((entry, index) => (
+                  <TableRow key={`${entry.cable}-${entry.interface}-${currentInterfacePage * rowsPerPage + index}`}>
+                    <TableCell sx={monospace}>{entry.device}</TableCell>
+                    <TableCell sx={monospace}>{entry.interface}</TableCell>
+                    <TableCell sx={monospace}>{formatAddress(entry.address)}</TableCell>
+                    <TableCell sx={monospace}>{entry.peerDevice}</TableCell>
+                    <TableCell sx={monospace}>{entry.peerInterface}</TableCell>
+                    <TableCell sx={monospace}>{formatAddress(entry.peerAddress)}</TableCell>
+                    <TableCell align="right" sx={monospace}>{entry.peerAsn ?? '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <TablePagination
+              component="div"
+              count={links.length}
+              page={currentInterfacePage}
+              rowsPerPage={rowsPerPage}
+              rowsPerPageOptions={[25, 50, 100]}
+              onPageChange={(event, newPage) => setInterfacePage(newPage)}
+              onRowsPerPageChange={handleRowsPerPageChange}
+            />
+          </TableContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AddressingPlan;
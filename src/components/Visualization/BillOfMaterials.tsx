@@ -0,0 +1,138 @@
+import React, { useMemo } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Divider,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
+import { useTopology } from '../../context/TopologyContext';
+import { generateBom, formatBomCsv } from '../../services/BomService';
+import { downloadFile, getExportFileName } from '../../utils/fileExport';
+import { BomCategory } from '../../types/bom';
+
+const categoryLabels: Record<BomCategory, string> = {
+  switches: 'Switches',
+  optics: 'Optics',
+  cables: 'Cables',
+  spares: 'Spares'
+};
+
+/**
+ * Bill of materials of the current topology with CSV downloads
+ */
+const BillOfMaterials = () => {
+  const { currentTopology } = useTopology();
+  const bom = useMemo(
+    () => currentTopology ? generateBom(currentTopology) : null,
+    [currentTopology]
+  );
+
+  if (!currentTopology || !bom) {
+    return (
+      <Card>
+        <CardContent>
+          <Typography variant="body1">
+            Select or create a topology to view its bill of materials.
+          </Typography>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const formatCurrency = (value: number): string => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: bom.currency,
+      maximumFractionDigits: 0
+    }).format(value);
+  };
+
+  const formatPower = (watts: number): string => {
+    return watts < 1000 ? `${Math.round(watts)} W` : `${(watts / 1000).toFixed(2)} kW`;
+  };
+
+  const handleDownload = (excel: boolean) => {
+    downloadFile(
+      formatBomCsv(bom, { excel }),
+      getExportFileName(currentTopology.name, excel ? 'bom_excel' : 'bom', 'csv'),
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  return (
+    <Card sx={{ mb: 4 }}>
+      <CardHeader
+        title="Bill of Materials"
+        subheader={`${bom.lines.length} line items, ${formatCurrency(bom.totalPrice)} net, ${formatPower(bom.totalPower)} typical`}
+        action={
+          <Box sx={{ display: 'flex', gap: 1, mt: 1, mr: 1 }}>
+            <Button variant="outlined" size="small" startIcon={<DownloadIcon />} onClick={() => handleDownload(false)}>
+              CSV
+            </Button>
+            <Button variant="outlined" size="small" startIcon={<DownloadIcon />} onClick={() => handleDownload(true)}>
+              CSV for Excel
+            </Button>
+          </Box>
+        }
+      />
+      <Divider />
+      <CardContent>
+        <Typography variant="body2" color="textSecondary" paragraph>
+          Net prices in {bom.currency} after the discounts of the pricing profile. Models come from the device
+          selection; switches without a selected device and optics and cables without a catalog entry are listed as generic items.
+        </Typography>
+        <TableContainer component={Paper} elevation={2}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Category</TableCell>
+                <TableCell>Manufacturer</TableCell>
+                <TableCell>Model</TableCell>
+                <TableCell>SKU</TableCell>
+                <TableCell align="right">Quantity</TableCell>
+                <TableCell align="right">Unit Price</TableCell>
+                <TableCell align="right">Extended Price</TableCell>
+                <TableCell align="right">Power</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {bom.lines.map((line, index) => (
+                <TableRow key={`${line.category}-${line.sku || line.model}-${index}`}>
+                  <TableCell>{categoryLabels[line.category]}</TableCell>
+                  <TableCell>{line.manufacturer}</TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{line.model}</Typography>
+                    <Typography variant="caption" color="textSecondary">{line.description}</Typography>
+                  </TableCell>
+                  <TableCell sx={{ fontFamily: '"JetBrains Mono", monospace', fontSize: 12 }}>{line.sku || '-'}</TableCell>
+                  <TableCell align="right">{line.quantity.toLocaleString()}</TableCell>
+                  <TableCell align="right">{formatCurrency(line.unitPrice)}</TableCell>
+                  <TableCell align="right">{formatCurrency(line.extendedPrice)}</TableCell>
+                  <TableCell align="right">{formatPower(line.power)}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell colSpan={6} sx={{ fontWeight: 'bold' }}>Total</TableCell>
+                <TableCell align="right" sx={{ fontWeight: 'bold' }}>{formatCurrency(bom.totalPrice)}</TableCell>
+                <TableCell align="right" sx={{ fontWeight: 'bold' }}>{formatPower(bom.totalPower)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BillOfMaterials;
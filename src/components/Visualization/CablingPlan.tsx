@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Divider,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  Typography
+} from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
+import { useTopology } from '../../context/TopologyContext';
+import { generateCablingPlan, formatCablingPlanCsv, formatPort } from '../../services/CablingPlanService';
+import { downloadFile, getExportFileName } from '../../utils/fileExport';
+import { CableEndpoint } from '../../types/cablingPlan';
+
+const monospace = { fontFamily: '"JetBrains Mono", monospace', fontSize: 12 };
+
+const EndpointCell = ({ endpoint }: { endpoint: CableEndpoint }) => (
+  <TableCell>
+    <Typography variant="body2">{endpoint.device}</Typography>
+    {endpoint.rack && (
+      <Typography variant="caption" color="textSecondary">
+        Rack {endpoint.rack}, U{endpoint.position}
+      </Typography>
+    )}
+  </TableCell>
+);
+
+/**
+ * Port-to-port cabling plan of the current topology with CSV downloads
+ */
+const CablingPlan = () => {
+  const { currentTopology } = useTopology();
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(50);
+  const plan = useMemo(
+    () => currentTopology ? generateCablingPlan(currentTopology) : null,
+    [currentTopology]
+  );
+
+  if (!currentTopology || !plan) {
+    return (
+      <Card>
+        <CardContent>
+          <Typography variant="body1">
+            Select or create a topology to view its cabling plan.
+          </Typography>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const handleDownload = (excel: boolean) => {
+    downloadFile(
+      formatCablingPlanCsv(plan, { excel }),
+      getExportFileName(currentTopology.name, excel ? 'cabling_excel' : 'cabling', 'csv'),
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  // Another topology may have fewer pages than the one viewed before
+  const currentPage = Math.min(page, Math.max(0, Math.ceil(plan.links.length / rowsPerPage) - 1));
+  const visibleLinks = plan.links.slice(currentPage * rowsPerPage, (currentPage + 1) * rowsPerPage);
+
+  return (
+    <Card sx={{ mb: 4 }}>
+      <CardHeader
+        title="Cabling Plan"
+        subheader={`${plan.links.length.toLocaleString()} links on ${plan.cables.toLocaleString()} cables`}
+        action={
+          <Box sx={{ display: 'flex', gap: 1, mt: 1, mr: 1 }}>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<DownloadIcon />}
+              disabled={plan.links.length === 0}
+              onClick={() => handleDownload(false)}
+            >
+              CSV
+            </Button>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<DownloadIcon />}
+              disabled={plan.links.length === 0}
+              onClick={() => handleDownload(true)}
+            >
+              CSV for Excel
+            </Button>
+          </Box>
+        }
+      />
+      <Divider />
+      <CardContent>
+        <Typography variant="body2" color="textSecondary" paragraph>
+          Every switch-to-switch link with the port at each end. Leaf uplinks are striped across the spines of
+          their pod and spine uplinks across the super-spines of their plane; a port shown as 3/2 is lane 2 of
+          breakout port 3, and all lanes of a breakout port share one cable. In rail fabrics each server connects
+          NIC n to the rail leaf of rail n in its scalable unit; other server cabling is not listed and follows
+          the leaf server ports.
+        </Typography>
+        {plan.issues.length > 0 && (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mb: 3 }}>
+            {plan.issues.map(issue => (
+              <Alert key={issue} severity="warning">{issue}</Alert>
+            ))}
+          </Box>
+        )}
+        {plan.links.length === 0 ? (
+          <Typography variant="body2">
+            This topology has no switch-to-switch links.
+          </Typography>
+        ) : (
+          <TableContainer component={Paper} elevation={2}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Cable</TableCell>
+                  <TableCell>A End</TableCell>
+                  <TableCell align="right">Port</TableCell>
+                  <TableCell>B End</TableCell>
+                  <TableCell align="right">Port</TableCell>
+                  <TableCell>Cable Type</TableCell>
+                  <TableCell>SKU</TableCell>
+                  <TableCell>Label</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {visibleLinks.map(link => (
+                  <TableRow key={`${link.cable}-${formatPort(link.b)}`}>
+                    <TableCell sx={monospace}>{link.cable}</TableCell>
+                    <EndpointCell endpoint={link.a} />
+                    <TableCell align="right" sx={monospace}>{formatPort(link.a)}</TableCell>
+                    <EndpointCell endpoint={link.b} />
+                    <TableCell align="right" sx={monospace}>{formatPort(link.b)}</TableCell>
+                    <TableCell>
+                      <Typography variant="body2">{link.speed} {link.media}</Typography>
+                      <Typography variant="caption" color="textSecondary">
+                        {link.harness === '1:1' ? '' : `Breakout ${link.harness}, `}{link.length} m
+                      </Typography>
+                    </TableCell>
+                    <TableCell sx={monospace}>{link.sku || '-'}</TableCell>
+                    <TableCell>
+                      <Typography variant="body2" sx={monospace}>{link.label}</Typography>
+                      {link.issue && (
+                        <Typography variant="caption" color="error">{link.issue}</Typography>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <TablePagination
+              component="div"
+              count={plan.links.length}
+              page={currentPage}
+              rowsPerPage={rowsPerPage}
+              rowsPerPageOptions={[25, 50, 100, 250]}
+              onPageChange={(event, newPage) => setPage(newPage)}
+              onRowsPerPageChange={(event) => {
+                setRowsPerPage(parseInt(event.target.value, 10));
+                setPage(0);
+              }}
+            />
+          </TableContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CablingPlan;
@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  Divider,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  Typography
+} from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
+import { useTopology } from '../../context/TopologyContext';
+import { buildInventory, formatInventoryCsv } from '../../services/InventoryService';
+import { downloadFile, getExportFileName } from '../../utils/fileExport';
+import { TierRole } from '../../types/metrics';
+
+const roleLabels: Record<TierRole, string> = {
+  leaf: 'Leaf',
+  spine: 'Spine',
+  'super-spine': 'Super-Spine'
+};
+
+const monospace = { fontFamily: '"JetBrains Mono", monospace', fontSize: 12 };
+
+/**
+ * Named switches of the current topology with their pod, rack and model
+ */
+const DeviceInventory = () => {
+  const { currentTopology } = useTopology();
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(50);
+  const inventory = useMemo(
+    () => currentTopology ? buildInventory(currentTopology) : null,
+    [currentTopology]
+  );
+
+  if (!currentTopology || !inventory) {
+    return (
+      <Card>
+        <CardContent>
+          <Typography variant="body1">
+            Select or create a topology to view its device inventory.
+          </Typography>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const handleDownload = (excel: boolean) => {
+    downloadFile(
+      formatInventoryCsv(inventory, { excel }),
+      getExportFileName(currentTopology.name, excel ? 'inventory_excel' : 'inventory', 'csv'),
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  const currentPage = Math.min(page, Math.max(0, Math.ceil(inventory.devices.length / rowsPerPage) - 1));
+  const visibleDevices = inventory.devices.slice(currentPage * rowsPerPage, (currentPage + 1) * rowsPerPage);
+
+  return (
+    <Card sx={{ mb: 4 }}>
+      <CardHeader
+        title="Device Inventory"
+        subheader={`${inventory.devices.length.toLocaleString()} switches`}
+        action={
+          <Box sx={{ display: 'flex', gap: 1, mt: 1, mr: 1 }}>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<DownloadIcon />}
+              disabled={inventory.devices.length === 0}
+              onClick={() => handleDownload(false)}
+            >
+              CSV
+            </Button>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<DownloadIcon />}
+              disabled={inventory.devices.length === 0}
+              onClick={() => handleDownload(true)}
+            >
+              CSV for Excel
+            </Button>
+          </Box>
+        }
+      />
+      <Divider />
+      <CardContent>
+        <Typography variant="body2" color="textSecondary" paragraph>
+          Every switch of the topology, named by the naming scheme set in the topology builder. The pod of a rail leaf
+          is its scalable unit and the pod of a super-spine its plane. Switches marked as overridden have a name or
+          model of their own.
+        </Typography>
+        {inventory.duplicateNames.length > 0 && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {inventory.duplicateNames.length} name{inventory.duplicateNames.length === 1 ? ' is' : 's are'} used by
+            more than one switch, such as {inventory.duplicateNames[0]}.
+          </Alert>
+        )}
+        {inventory.devices.length === 0 ? (
+          <Typography variant="body2">
+            This topology has no switches.
+          </Typography>
+        ) : (
+          <TableContainer component={Paper} elevation={2}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Role</TableCell>
+                  <TableCell align="right">Tier</TableCell>
+                  <TableCell align="right">Pod</TableCell>
+                  <TableCell align="right">Member</TableCell>
+                  <TableCell>Rack</TableCell>
+                  <TableCell>Model</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {visibleDevices.map(device => (
+                  <TableRow key={device.key}>
+                    <TableCell sx={monospace}>
+                      {device.name}
+                      {device.overridden && <Chip label="Overridden" size="small" variant="outlined" sx={{ ml: 1 }} />}
+                    </TableCell>
+                    <TableCell>{roleLabels[device.role]} {device.index}</TableCell>
+                    <TableCell align="right">{device.tier}</TableCell>
+                    <TableCell align="right">{device.pod}</TableCell>
+                    <TableCell align="right">{device.member}</TableCell>
+                    <TableCell>{device.rack ? `${device.rack} U${device.position}` : '-'}</TableCell>
+                    <TableCell>
+                      <Typography variant="body2">{device.manufacturer} {device.model}</Typography>
+                      {device.deviceId && (
+                        <Typography variant="caption" color="textSecondary">{device.deviceId}</Typography>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <TablePagination
+              component="div"
+              count={inventory.devices.length}
+              page={currentPage}
+              rowsPerPage={rowsPerPage}
+              rowsPerPageOptions={[25, 50, 100, 250]}
+              onPageChange={(event, newPage) => setPage(newPage)}
+              onRowsPerPageChange={(event) => {
+                setRowsPerPage(parseInt(event.target.value, 10));
+                setPage(0);
+              }}
+            />
+          </TableContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DeviceInventory;
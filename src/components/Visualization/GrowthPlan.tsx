@@ -0,0 +1,136 @@
+import React, { useMemo } from 'react';
+import {
+  Alert,
+  Box,
+  Card,
+  CardContent,
+  CardHeader,
+  Divider,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { useTopology } from '../../context/TopologyContext';
+import { planGrowth } from '../../services/GrowthService';
+import { PhaseTotals } from '../../types/growth';
+
+const issueLabels = {
+  recabling: 'Re-cabling',
+  capacity: 'Capacity'
+};
+
+/**
+ * Build phases of the current topology with what each phase adds and the
+ * issues met on the way to the full build
+ */
+const GrowthPlan = () => {
+  const { currentTopology } = useTopology();
+  const plan = useMemo(
+    () => currentTopology ? planGrowth(currentTopology) : null,
+    [currentTopology]
+  );
+
+  if (!currentTopology || !plan) {
+    return (
+      <Card>
+        <CardContent>
+          <Typography variant="body1">
+            Select or create a topology to view its growth plan.
+          </Typography>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const formatCurrency = (value: number): string => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: plan.currency,
+      maximumFractionDigits: 0
+    }).format(value);
+  };
+
+  const formatPower = (watts: number): string => {
+    return Math.abs(watts) < 1000 ? `${Math.round(watts)} W` : `${(watts / 1000).toFixed(2)} kW`;
+  };
+
+  const columns: { label: string; format: (totals: PhaseTotals) => string }[] = [
+    { label: 'Leafs', format: totals => totals.leafs.toLocaleString() },
+    { label: 'Spines', format: totals => totals.spines.toLocaleString() },
+    { label: 'Super-Spines', format: totals => totals.superSpines.toLocaleString() },
+    { label: 'Optics', format: totals => totals.optics.toLocaleString() },
+    { label: 'Cables', format: totals => totals.cables.toLocaleString() },
+    { label: 'Cost', format: totals => formatCurrency(totals.cost) },
+    { label: 'Power', format: totals => formatPower(totals.power) }
+  ];
+
+  return (
+    <Card sx={{ mb: 4 }}>
+      <CardHeader
+        title="Growth Plan"
+        subheader={`${plan.phases.length} phase${plan.phases.length === 1 ? '' : 's'}, ${plan.issues.length === 0 ? 'no issues' : `${plan.issues.length} issue${plan.issues.length === 1 ? '' : 's'}`}`}
+      />
+      <Divider />
+      <CardContent>
+        <Typography variant="body2" color="textSecondary" paragraph>
+          Each phase shows what is deployed by its end, with what the phase adds below it. Costs are net in {plan.currency}.
+          Build phases are set in the topology builder; without them the plan is the full build alone.
+        </Typography>
+
+        {plan.issues.length > 0 ? (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mb: 3 }}>
+            {plan.issues.map((issue, index) => (
+              <Alert key={`${issue.phase}-${index}`} severity={issue.type === 'capacity' ? 'error' : 'warning'}>
+                <strong>{issueLabels[issue.type]} ({issue.phase}):</strong> {issue.message}
+              </Alert>
+            ))}
+          </Box>
+        ) : plan.phases.length > 1 && (
+          <Alert severity="success" sx={{ mb: 3 }}>
+            Every phase grows into the full build by adding switches and cables only.
+          </Alert>
+        )}
+
+        <TableContainer component={Paper} elevation={2}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Phase</TableCell>
+                {columns.map(column => (
+                  <TableCell key={column.label} align="right">{column.label}</TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {plan.phases.map((phase, index) => (
+                <React.Fragment key={`${phase.name}-${index}`}>
+                  <TableRow>
+                    <TableCell sx={{ fontWeight: phase.final ? 'bold' : undefined }}>{phase.name}</TableCell>
+                    {columns.map(column => (
+                      <TableCell key={column.label} align="right">{column.format(phase.totals)}</TableCell>
+                    ))}
+                  </TableRow>
+                  <TableRow>
+                    <TableCell sx={{ color: 'text.secondary', pl: 4 }}>Added</TableCell>
+                    {columns.map(column => (
+                      <TableCell key={column.label} align="right" sx={{ color: 'text.secondary' }}>
+                        {column.format(phase.delta)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </React.Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GrowthPlan;
@@ -0,0 +1,195 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Checkbox,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  FormGroup,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  SelectChangeEvent,
+  Typography
+} from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
+import { useTopology } from '../../context/TopologyContext';
+import { buildConfigContexts, createConfigArchive, getConfigRenderers } from '../../services/NosConfigService';
+import { downloadFile, getExportFileName } from '../../utils/fileExport';
+
+/**
+ * Day-0 underlay configurations of the current topology, previewed per switch
+ * and downloaded as a ZIP archive
+ */
+const NosConfigs = () => {
+  const { currentTopology } = useTopology();
+  const renderers = getConfigRenderers();
+  const [selectedRenderers, setSelectedRenderers] = useState<string[]>(renderers.map(renderer => renderer.id));
+  const [previewRenderer, setPreviewRenderer] = useState(renderers[0]?.id ?? '');
+  const [previewDevice, setPreviewDevice] = useState('');
+  const built = useMemo(
+    () => currentTopology ? buildConfigContexts(currentTopology) : null,
+    [currentTopology]
+  );
+
+  if (!currentTopology || !built) {
+    return (
+      <Card>
+        <CardContent>
+          <Typography variant="body1">
+            Select or create a topology to view its switch configurations.
+          </Typography>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { contexts, issues } = built;
+
+  // Another topology may not have the switch viewed before
+  const context = contexts.find(entry => entry.device === previewDevice) ?? contexts[0];
+  const renderer = renderers.find(entry => entry.id === previewRenderer) ?? renderers[0];
+  const preview = context && renderer ? renderer.render(context) : [];
+
+  const toggleRenderer = (id: string) => {
+    setSelectedRenderers(selected => selected.includes(id)
+      ? selected.filter(entry => entry !== id)
+      : [...selected, id]);
+  };
+
+  const handleDownload = () => {
+    downloadFile(
+      createConfigArchive(currentTopology, selectedRenderers),
+      getExportFileName(currentTopology.name, 'configs', 'zip'),
+      'application/zip'
+    );
+  };
+
+  return (
+    <Card sx={{ mb: 4 }}>
+      <CardHeader
+        title="Switch Configurations"
+        subheader={issues.length > 0 ? 'Not generated' : `${contexts.length.toLocaleString()} switches`}
+        action={
+          <Box sx={{ mt: 1, mr: 1 }}>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<DownloadIcon />}
+              disabled={contexts.length === 0 || selectedRenderers.length === 0}
+              onClick={handleDownload}
+            >
+              ZIP
+            </Button>
+          </Box>
+        }
+      />
+      <Divider />
+      <CardContent>
+        <Typography variant="body2" color="textSecondary" paragraph>
+          Starting underlay configurations built from the inventory, cabling plan and addressing plan: ports and
+          breakouts, routed fabric interfaces, the loopback and eBGP peers with ECMP across the uplinks. The ZIP
+          holds one folder per network OS with a folder per switch. Review them before use; port names and
+          platform defaults vary by hardware.
+        </Typography>
+
+        <FormGroup row sx={{ mb: 2 }}>
+          {renderers.map(entry => (
+            <FormControlLabel
+              key={entry.id}
+              control={
+                <Checkbox
+                  checked={selectedRenderers.includes(entry.id)}
+                  onChange={() => toggleRenderer(entry.id)}
+                />
+              }
+              label={`${entry.name} (${entry.description})`}
+            />
+          ))}
+        </FormGroup>
+
+        {issues.length > 0 && (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mb: 3 }}>
+            <Alert severity="error">
+              No configurations are generated while the cabling plan uses ports the switches do not have.
+            </Alert>
+            {issues.map(issue => (
+              <Alert key={issue} severity="warning">{issue}</Alert>
+            ))}
+          </Box>
+        )}
+
+        {issues.length > 0 ? null : contexts.length === 0 ? (
+          <Typography variant="body2">
+            This topology has no switches.
+          </Typography>
+        ) : (
+          <>
+            <Grid container spacing={2} sx={{ mb: 2 }}>
+              <Grid item xs={12} md={4}>
+                <FormControl fullWidth size="small">
+                  <InputLabel id="config-renderer-label">Network OS</InputLabel>
+                  <Select
+                    labelId="config-renderer-label"
+                    value={renderer?.id ?? ''}
+                    label="Network OS"
+                    onChange={(event: SelectChangeEvent) => setPreviewRenderer(event.target.value)}
+                  >
+                    {renderers.map(entry => (
+                      <MenuItem key={entry.id} value={entry.id}>{entry.name}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid item xs={12} md={8}>
+                <FormControl fullWidth size="small">
+                  <InputLabel id="config-device-label">Switch</InputLabel>
+                  <Select
+                    labelId="config-device-label"
+                    value={context?.device ?? ''}
+                    label="Switch"
+                    onChange={(event: SelectChangeEvent) => setPreviewDevice(event.target.value)}
+                    MenuProps={{ PaperProps: { sx: { maxHeight: 400 } } }}
+                  >
+                    {contexts.map(entry => (
+                      <MenuItem key={entry.device} value={entry.device}>{entry.device}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+            </Grid>
+
+            {preview.map(file => (
+              <Box key={file.path} sx={{ mb: 2 }}>
+                <Typography variant="subtitle2" gutterBottom>{file.path}</Typography>
+                <Paper
+                  variant="outlined"
+                  component="pre"
+                  sx={{
+                    m: 0,
+                    p: 2,
+                    maxHeight: 500,
+                    overflow: 'auto',
+                    fontFamily: '"JetBrains Mono", monospace',
+                    fontSize: 12
+                  }}
+                >
+                  {file.content}
+                </Paper>
+              </Box>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NosConfigs;
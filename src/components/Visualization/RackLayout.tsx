@@ -0,0 +1,283 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  Divider,
+  Grid,
+  Paper,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { alpha, useTheme } from '@mui/material/styles';
+import { useTopology } from '../../context/TopologyContext';
+import { calculateRackLayout, calculateRackPower } from '../../services/CalculationService';
+import { summariseCableRuns } from '../../services/RackLayoutService';
+import { Rack, RackItem, RackItemRole, CableRun } from '../../types/layout';
+
+const UNIT_HEIGHT_PX = 14;
+
+const placementLabels = {
+  tor: 'Top of rack',
+  mor: 'Middle of row',
+  eor: 'End of row'
+};
+
+const roleLabels: Record<RackItemRole, string> = {
+  server: 'Servers',
+  leaf: 'Leaf',
+  spine: 'Spine',
+  'super-spine': 'Super-Spine'
+};
+
+// One U slot or device block of a rack elevation, from the top of the rack down
+interface ElevationSlot {
+  position: number;
+  rackUnits: number;
+  item: RackItem | null;
+  reserved: boolean;
+}
+
+const getElevation = (rack: Rack, rackHeight: number, reservedRackUnits: number): ElevationSlot[] => {
+  // The item occupying each U
+  const itemAt = new Map<number, RackItem>();
+  rack.items.forEach(item => {
+    for (let unit = item.position; unit < item.position + item.rackUnits; unit++) {
+      itemAt.set(unit, item);
+    }
+  });
+
+  const slots: ElevationSlot[] = [];
+  let unit = rackHeight;
+  while (unit >= 1) {
+    const item = itemAt.get(unit) || null;
+    const bottom = item ? Math.max(1, item.position) : unit;
+    slots.push({
+      position: bottom,
+      rackUnits: unit - bottom + 1,
+      item,
+      reserved: !item && unit > rackHeight - reservedRackUnits
+    });
+    unit = bottom - 1;
+  }
+  return slots;
+};
+
+const formatRuns = (runs: CableRun[]): string => {
+  if (runs.length === 0) {
+    return 'none';
+  }
+  const { best, average, worst } = summariseCableRuns(runs);
+  return `${best} / ${average} / ${worst} m`;
+};
+
+/**
+ * Row plan and rack elevations of the current topology
+ */
+const RackLayout = () => {
+  const theme = useTheme();
+  const { currentTopology } = useTopology();
+  const layout = useMemo(
+    () => currentTopology ? calculateRackLayout(currentTopology.configuration) : null,
+    [currentTopology]
+  );
+  const rackPower = useMemo(
+    () => currentTopology ? calculateRackPower(currentTopology.configuration) : null,
+    [currentTopology]
+  );
+  const [selectedRackId, setSelectedRackId] = useState<string | null>(null);
+
+  const roleColors: Record<RackItemRole, string> = {
+    server: theme.palette.grey[500],
+    leaf: theme.palette.primary.main,
+    spine: theme.palette.secondary.main,
+    'super-spine': theme.palette.warning.main
+  };
+
+  if (!currentTopology || !layout || !rackPower) {
+    return (
+      <Card>
+        <CardContent>
+          <Typography variant="body1">
+            Select or create a topology to view its rack layout.
+          </Typography>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { parameters } = layout;
+  const usableUnits = parameters.rackHeight - parameters.reservedRackUnits;
+  const selectedRack = layout.racks.find(rack => rack.id === selectedRackId) || layout.racks[0] || null;
+  const selectedStatus = rackPower.racks.find(status => status.id === selectedRack?.id);
+
+  const getRackColor = (rack: Rack): string => {
+    const switchItem = rack.items.find(item => item.role !== 'server');
+    return rack.role === 'network' && switchItem ? roleColors[switchItem.role] : roleColors.server;
+  };
+
+  return (
+    <Card sx={{ mb: 4 }}>
+      <CardHeader
+        title="Rack Layout"
+        subheader={`${layout.racks.length} racks (${layout.serverRacks} server, ${layout.networkRacks} network) in ${layout.rows.length} rows, ${placementLabels[parameters.leafPlacement].toLowerCase()} leafs`}
+      />
+      <Divider />
+      <CardContent>
+        <Grid container spacing={3}>
+          <Grid item xs={12}>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+              {(Object.keys(roleLabels) as RackItemRole[]).map(role => (
+                <Chip
+                  key={role}
+                  size="small"
+                  label={roleLabels[role]}
+                  sx={{ bgcolor: alpha(roleColors[role], 0.2), borderLeft: `4px solid ${roleColors[role]}` }}
+                />
+              ))}
+              <Chip size="small" variant="outlined" label={`${parameters.rackHeight}U racks, ${parameters.reservedRackUnits}U reserved`} />
+              <Chip size="small" variant="outlined" label={`${(parameters.rackPowerBudget / 1000).toFixed(1)} kW and ${parameters.rackCoolingBudget.toLocaleString()} BTU/hr per rack`} />
+              <Chip size="small" variant="outlined" label={`${layout.servers} servers`} />
+              {rackPower.flaggedRacks.length > 0 && (
+                <Chip size="small" color="error" label={`${rackPower.flaggedRacks.length} racks over budget`} />
+              )}
+            </Box>
+          </Grid>
+
+          <Grid item xs={12} md={8}>
+            <Typography variant="h6" gutterBottom>
+              Row Plan
+            </Typography>
+            <Box sx={{ overflowX: 'auto', pb: 1 }}>
+              {layout.rows.map(row => (
+                <Box key={row.row} sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+                  <Typography variant="caption" sx={{ width: 72, flexShrink: 0 }} color={row.network ? 'primary' : 'textSecondary'}>
+                    {row.name}{row.network ? ' (net)' : ''}
+                  </Typography>
+                  <Box sx={{ display: 'flex', gap: 0.5 }}>
+                    {Array.from({ length: row.racks.length > 0 ? row.racks[0].slot : 0 }).map((_, index) => (
+                      <Box key={`empty-${index}`} sx={{ width: 28, height: 36 }} />
+                    ))}
+                    {row.racks.map(rack => {
+                      const color = getRackColor(rack);
+                      const fill = Math.min(1, rack.usedRackUnits / Math.max(1, usableUnits));
+                      const status = rackPower.racks.find(candidate => candidate.id === rack.id);
+                      const overBudget = !!status && (status.overPower || status.overCooling);
+                      return (
+                        <Tooltip
+                          key={rack.id}
+                          title={`${rack.name}: ${rack.usedRackUnits}/${usableUnits} U, ${((status?.maxPower ?? 0) / 1000).toFixed(1)} kW max, ${Math.round(status?.thermalOutput ?? 0).toLocaleString()} BTU/hr${overBudget ? ' (over budget)' : ''}`}
+                        >
+                          <Box
+                            onClick={() => setSelectedRackId(rack.id)}
+                            sx={{
+                              width: 28,
+                              height: 36,
+                              flexShrink: 0,
+                              cursor: 'pointer',
+                              position: 'relative',
+                              border: `2px solid ${selectedRack?.id === rack.id ? theme.palette.text.primary : color}`,
+                              borderRadius: 0.5,
+                              bgcolor: alpha(color, 0.08),
+                              outline: overBudget ? `2px solid ${theme.palette.error.main}` : 'none'
+                            }}
+                          >
+                            <Box
+                              sx={{
+                                position: 'absolute',
+                                bottom: 0,
+                                left: 0,
+                                right: 0,
+                                height: `${fill * 100}%`,
+                                bgcolor: alpha(color, 0.5)
+                              }}
+                            />
+                          </Box>
+                        </Tooltip>
+                      );
+                    })}
+                  </Box>
+                </Box>
+              ))}
+            </Box>
+
+            <Typography variant="h6" gutterBottom sx={{ mt: 2 }}>
+              Measured Cable Lengths
+            </Typography>
+            <Typography variant="body2">
+              Server to leaf (best / average / worst): {formatRuns(layout.cableRuns.server)}
+            </Typography>
+            <Typography variant="body2">
+              Leaf to spine: {formatRuns(layout.cableRuns.leafToSpine)}
+            </Typography>
+            <Typography variant="body2">
+              Spine to super-spine: {formatRuns(layout.cableRuns.spineToSuperSpine)}
+            </Typography>
+            {currentTopology.configuration.latencyParameters.cableLengths && (
+              <Typography variant="caption" color="textSecondary">
+                Cable lengths set in the latency parameters override these measurements.
+              </Typography>
+            )}
+          </Grid>
+
+          <Grid item xs={12} md={4}>
+            <Typography variant="h6" gutterBottom>
+              Rack Elevation
+            </Typography>
+            {selectedRack ? (
+              <Paper variant="outlined" sx={{ p: 1.5 }}>
+                <Typography variant="subtitle2">
+                  {selectedRack.name} ({selectedRack.role === 'network' ? 'network' : 'server'} rack)
+                </Typography>
+                <Typography variant="caption" color="textSecondary" display="block" sx={{ mb: 1 }}>
+                  {selectedRack.usedRackUnits}/{usableUnits} U used, {((selectedStatus?.maxPower ?? 0) / 1000).toFixed(1)} of {(parameters.rackPowerBudget / 1000).toFixed(1)} kW max,
+                  {' '}{Math.round(selectedStatus?.thermalOutput ?? 0).toLocaleString()} of {parameters.rackCoolingBudget.toLocaleString()} BTU/hr
+                </Typography>
+                {selectedStatus && (selectedStatus.overPower || selectedStatus.overCooling) && (
+                  <Typography variant="caption" color="error" display="block" sx={{ mb: 1 }}>
+                    Over its {[selectedStatus.overPower && 'power', selectedStatus.overCooling && 'cooling'].filter(Boolean).join(' and ')} budget
+                  </Typography>
+                )}
+                <Box sx={{ border: `2px solid ${theme.palette.divider}`, borderRadius: 0.5 }}>
+                  {getElevation(selectedRack, parameters.rackHeight, parameters.reservedRackUnits).map(slot => (
+                    <Box
+                      key={slot.position}
+                      sx={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        height: slot.rackUnits * UNIT_HEIGHT_PX,
+                        borderBottom: `1px solid ${theme.palette.divider}`,
+                        bgcolor: slot.item
+                          ? alpha(roleColors[slot.item.role], 0.35)
+                          : slot.reserved ? theme.palette.action.hover : 'transparent'
+                      }}
+                    >
+                      <Typography
+                        variant="caption"
+                        color="textSecondary"
+                        sx={{ width: 28, textAlign: 'right', pr: 0.5, fontSize: 9, fontFamily: '"JetBrains Mono", monospace' }}
+                      >
+                        {slot.position + slot.rackUnits - 1}
+                      </Typography>
+                      <Typography variant="caption" sx={{ fontSize: 10, lineHeight: 1 }}>
+                        {slot.item ? slot.item.name : slot.reserved ? 'Reserved' : ''}
+                      </Typography>
+                    </Box>
+                  ))}
+                </Box>
+              </Paper>
+            ) : (
+              <Typography variant="body2" color="textSecondary">
+                The topology has no devices to place.
+              </Typography>
+            )}
+          </Grid>
+        </Grid>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RackLayout;
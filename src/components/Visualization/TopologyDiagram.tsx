@@ -0,0 +1,343 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  Divider,
+  FormControlLabel,
+  Grid,
+  Paper,
+  Switch,
+  Typography
+} from '@mui/material';
+import { useTopology } from '../../context/TopologyContext';
+import { buildTopologyGraph, DEFAULT_MAX_NODES_PER_ROW } from '../../services/TopologyGraphService';
+import { getDeviceById } from '../../data/deviceCatalog';
+import DeviceSpecificationVisualizer from '../TopologyBuilder/DeviceSpecificationVisualizer';
+import { GraphEdge, GraphNode, GraphNodeKind } from '../../types/graph';
+
+const NODE_WIDTH = 136;
+const NODE_HEIGHT = 48;
+const NODE_GAP = 16;
+const ROW_HEIGHT = 150;
+const PADDING = 32;
+const ROW_LABEL_HEIGHT = 20;
+
+// Rows longer than this are always collapsed to keep the page responsive
+const MAX_EXPANDED_ROW = 256;
+// Edge labels are drawn for every bundle up to this many, above it only for the selection
+const MAX_LABELLED_EDGES = 40;
+
+const nodeColors: Record<GraphNodeKind, string> = {
+  'super-spine': '#ede7f6',
+  spine: '#e3f2fd',
+  leaf: '#e8f5e9',
+  servers: '#fff3e0'
+};
+
+const planeColors = ['#1976d2', '#d32f2f', '#388e3c', '#f57c00', '#7b1fa2', '#0097a7', '#5d4037', '#c2185b'];
+
+const getPlaneColor = (plane: number | null): string | null =>
+  plane === null ? null : planeColors[(plane - 1) % planeColors.length];
+
+const truncate = (text: string, length: number): string =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+/**
+ * Catalog spec of the switches of a node, when they share one catalog device
+ */
+const NodeSpec = ({ node }: { node: GraphNode }) => {
+  if (node.kind === 'servers') {
+    return null;
+  }
+  const deviceType = node.kind === 'leaf' ? 'leaf' : 'spine';
+  const device = node.deviceIds.length === 1 ? getDeviceById(deviceType, node.deviceIds[0]) : null;
+  if (!device) {
+    return (
+      <Typography variant="body2" color="textSecondary">
+        {node.deviceIds.length > 1
+          ? 'The switches of this group are different catalog models.'
+          : `${node.models.join(', ')}: no catalog device is selected, so there is no spec to show.`}
+      </Typography>
+    );
+  }
+  return <DeviceSpecificationVisualizer device={device} deviceType={deviceType} />;
+};
+
+/**
+ * Node-link diagram of the current topology with tiers in rows, bundled
+ * links and the spec of the selected switch or link
+ */
+const TopologyDiagram = () => {
+  const { currentTopology } = useTopology();
+  const [collapse, setCollapse] = useState(true);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const groupedGraph = useMemo(
+    () => currentTopology ? buildTopologyGraph(currentTopology) : null,
+    [currentTopology]
+  );
+  const expandable = !!groupedGraph && groupedGraph.aggregated
+    && groupedGraph.rows.every(row => row.devices <= MAX_EXPANDED_ROW);
+  const expandedGraph = useMemo(
+    () => currentTopology && expandable && !collapse
+      ? buildTopologyGraph(currentTopology, MAX_EXPANDED_ROW)
+      : null,
+    [currentTopology, expandable, collapse]
+  );
+  const graph = expandedGraph ?? groupedGraph;
+
+  const layout = useMemo(() => {
+    if (!graph) {
+      return null;
+    }
+    const rowNodes = graph.rows.map((_, row) => graph.nodes.filter(node => node.row === row));
+    const widest = Math.max(1, ...rowNodes.map(nodes => nodes.length));
+    const width = PADDING * 2 + widest * (NODE_WIDTH + NODE_GAP) - NODE_GAP;
+    const positions = new Map<string, { x: number; y: number }>();
+    rowNodes.forEach((nodes, row) => {
+      const rowWidth = nodes.length * (NODE_WIDTH + NODE_GAP) - NODE_GAP;
+      const start = (width - rowWidth) / 2;
+      nodes.forEach((node, index) => {
+        positions.set(node.id, {
+          x: start + index * (NODE_WIDTH + NODE_GAP),
+          y: PADDING + ROW_LABEL_HEIGHT + row * ROW_HEIGHT
+        });
+      });
+    });
+    return {
+      width,
+      height: PADDING * 2 + ROW_LABEL_HEIGHT + (graph.rows.length - 1) * ROW_HEIGHT + NODE_HEIGHT,
+      positions
+    };
+  }, [graph]);
+
+  if (!currentTopology || !graph || !layout) {
+    return (
+      <Card>
+        <CardContent>
+          <Typography variant="body1">
+            Select or create a topology to view its diagram.
+          </Typography>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const nodesById = new Map(graph.nodes.map(node => [node.id, node]));
+  const selectedNode = selected ? nodesById.get(selected) : undefined;
+  const selectedEdge = selected ? graph.edges.find(edge => edge.id === selected) : undefined;
+  const focus = hovered ?? selected;
+  const isEdgeInFocus = (edge: GraphEdge): boolean =>
+    focus === edge.id || focus === edge.source || focus === edge.target;
+  const showAllLabels = graph.edges.length <= MAX_LABELLED_EDGES;
+
+  const handleSelect = (id: string) => (event: React.MouseEvent) => {
+    event.stopPropagation();
+    setSelected(current => current === id ? null : id);
+  };
+
+  return (
+    <Card sx={{ mb: 4 }}>
+      <CardHeader
+        title="Topology Diagram"
+        subheader={`${graph.nodes.length.toLocaleString()} nodes, ${graph.edges.length.toLocaleString()} link bundles`}
+        action={groupedGraph?.aggregated && (
+          <FormControlLabel
+            sx={{ mt: 1, mr: 1 }}
+            control={
+              <Switch
+                checked={graph.aggregated}
+                disabled={!expandable}
+                onChange={(event) => setCollapse(event.target.checked)}
+              />
+            }
+            label="Group large tiers"
+          />
+        )}
+      />
+      <Divider />
+      <CardContent>
+        <Typography variant="body2" color="textSecondary" paragraph>
+          Tiers are drawn top to bottom; each line bundles the links between two boxes, wider for more links.
+          Tiers with more than {DEFAULT_MAX_NODES_PER_ROW} switches are grouped by pod, plane or scalable unit.
+          Click a switch or a bundle for its details.
+          {graph.planes > 1 && ' Colours mark the disjoint spine planes.'}
+        </Typography>
+
+        {graph.planes > 1 && (
+          <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+            {Array.from({ length: graph.planes }, (_, index) => (
+              <Chip
+                key={index}
+                size="small"
+                label={`Plane ${index + 1}`}
+                sx={{ bgcolor: getPlaneColor(index + 1) ?? undefined, color: 'common.white' }}
+              />
+            ))}
+          </Box>
+        )}
+
+        <Paper variant="outlined" sx={{ overflow: 'auto', mb: 3 }}>
+          <svg
+            width={layout.width}
+            height={layout.height}
+            role="img"
+            aria-label={`Diagram of ${currentTopology.name}`}
+            onClick={() => setSelected(null)}
+            style={{ display: 'block', margin: '0 auto' }}
+          >
+            {graph.rows.map((row, index) => (
+              <text
+                key={row.label}
+                x={8}
+                y={PADDING + index * ROW_HEIGHT + 12}
+                fontSize={12}
+                fill="#757575"
+              >
+                {row.label}
+              </text>
+            ))}
+
+            {graph.edges.map(edge => {
+              const source = layout.positions.get(edge.source);
+              const target = layout.positions.get(edge.target);
+              if (!source || !target) {
+                return null;
+              }
+              const x1 = source.x + NODE_WIDTH / 2;
+              const y1 = source.y;
+              const x2 = target.x + NODE_WIDTH / 2;
+              const y2 = target.y + NODE_HEIGHT;
+              const inFocus = isEdgeInFocus(edge);
+              const color = getPlaneColor(edge.plane) ?? (edge.kind === 'rail' ? '#8d6e63' : '#78909c');
+              return (
+                <g key={edge.id} onClick={handleSelect(edge.id)} style={{ cursor: 'pointer' }}>
+                  {/* Wide transparent line to make thin bundles easy to click */}
+                  <line
+                    x1={x1}
+                    y1={y1}
+                    x2={x2}
+                    y2={y2}
+                    stroke="transparent"
+                    strokeWidth={10}
+                    onMouseEnter={() => setHovered(edge.id)}
+                    onMouseLeave={() => setHovered(null)}
+                  />
+                  <line
+                    x1={x1}
+                    y1={y1}
+                    x2={x2}
+                    y2={y2}
+                    stroke={color}
+                    strokeWidth={Math.min(8, 1 + Math.log2(edge.links))}
+                    strokeDasharray={edge.kind === 'rail' ? '6 4' : undefined}
+                    opacity={focus && !inFocus ? 0.12 : 0.7}
+                    pointerEvents="none"
+                  />
+                  {(showAllLabels || inFocus) && (
+                    <text
+                      x={x2 + (x1 - x2) * 0.3}
+                      y={y2 + (y1 - y2) * 0.3}
+                      fontSize={10}
+                      textAnchor="middle"
+                      fill="#37474f"
+                      stroke="#ffffff"
+                      strokeWidth={3}
+                      paintOrder="stroke"
+                      pointerEvents="none"
+                    >
+                      {edge.label}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+
+            {graph.nodes.map(node => {
+              const position = layout.positions.get(node.id);
+              if (!position) {
+                return null;
+              }
+              const isSelected = selected === node.id;
+              const stroke = getPlaneColor(node.plane) ?? '#607d8b';
+              return (
+                <g
+                  key={node.id}
+                  transform={`translate(${position.x}, ${position.y})`}
+                  onClick={handleSelect(node.id)}
+                  onMouseEnter={() => setHovered(node.id)}
+                  onMouseLeave={() => setHovered(null)}
+                  style={{ cursor: 'pointer' }}
+                >
+                  {/* A group is drawn as a stack */}
+                  {node.devices > 1 && node.kind !== 'servers' && (
+                    <rect x={4} y={-4} width={NODE_WIDTH} height={NODE_HEIGHT} rx={6} fill={nodeColors[node.kind]} stroke={stroke} />
+                  )}
+                  <rect
+                    width={NODE_WIDTH}
+                    height={NODE_HEIGHT}
+                    rx={6}
+                    fill={nodeColors[node.kind]}
+                    stroke={stroke}
+                    strokeWidth={isSelected ? 3 : 1.5}
+                  />
+                  <text x={NODE_WIDTH / 2} y={20} fontSize={12} fontWeight={600} textAnchor="middle" fill="#263238">
+                    {truncate(node.label, 20)}
+                  </text>
+                  <text x={NODE_WIDTH / 2} y={36} fontSize={10} textAnchor="middle" fill="#546e7a">
+                    {truncate(node.detail, 24)}
+                  </text>
+                  <title>{`${node.label} (${node.detail})`}</title>
+                </g>
+              );
+            })}
+          </svg>
+        </Paper>
+
+        {selectedNode && (
+          <Box>
+            <Typography variant="h6" gutterBottom>{selectedNode.label}</Typography>
+            <Typography variant="body2" color="textSecondary" paragraph>
+              {selectedNode.detail}
+              {selectedNode.kind !== 'servers' && selectedNode.devices > 1 && `, ${selectedNode.devices} switches`}
+              {selectedNode.models.length > 0 && ` · ${selectedNode.models.join(', ')}`}
+            </Typography>
+            <NodeSpec node={selectedNode} />
+          </Box>
+        )}
+
+        {selectedEdge && (() => {
+          const ends = [nodesById.get(selectedEdge.source), nodesById.get(selectedEdge.target)];
+          return (
+            <Box>
+              <Typography variant="h6" gutterBottom>
+                {ends.map(end => end?.label).join(' to ')}
+              </Typography>
+              <Typography variant="body2" color="textSecondary" paragraph>
+                {selectedEdge.links.toLocaleString()} link{selectedEdge.links === 1 ? '' : 's'} at {selectedEdge.speed}
+                {selectedEdge.media && ` over ${selectedEdge.media}`}
+                {selectedEdge.harness && selectedEdge.harness !== '1:1' && `, ${selectedEdge.harness} breakout cables at the upper end`}
+                {selectedEdge.kind === 'rail' && ` (${selectedEdge.label})`}
+                {selectedEdge.plane !== null && `, spine plane ${selectedEdge.plane}`}
+              </Typography>
+              <Grid container spacing={2}>
+                {ends.map(end => end && end.kind !== 'servers' && (
+                  <Grid item xs={12} md={6} key={end.id}>
+                    <Typography variant="subtitle2" gutterBottom>{end.label}</Typography>
+                    <NodeSpec node={end} />
+                  </Grid>
+                ))}
+              </Grid>
+            </Box>
+          );
+        })()}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TopologyDiagram;
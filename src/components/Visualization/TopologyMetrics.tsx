@@ -1,6 +1,8 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { useTopology } from '../../context/TopologyContext';
 import { calculateAllMetrics } from '../../services/CalculationService';
+import { getAnnualEnergyCost } from '../../services/TcoService';
+import { getPricingProfile, getNetPrice } from '../../services/PricingService';
 import { getDeviceById } from '../../data/deviceCatalog';
 import {
   Box,
@@ -14,7 +16,14 @@ import {
   Tooltip,
   Zoom,
   Fade,
-  Skeleton
+  Skeleton,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow
 } from '@mui/material';
 import {
   Chart as ChartJS,
@@ -32,8 +41,9 @@ import {
   ChartData
 } from 'chart.js';
 import { Bar, Doughnut, Radar } from 'react-chartjs-2';
-import { TopologyMetrics as TopologyMetricsType } from '../../types/metrics';
-import { Topology, BreakoutOption } from '../../types/topology';
+import { TopologyMetrics as TopologyMetricsType, HeadroomResource } from '../../types/metrics';
+import { CableMedia } from '../../types/cables';
+import { Topology } from '../../types/topology';
 
 // Register ChartJS components
 ChartJS.register(
@@ -60,6 +70,12 @@ type BarChartData = ChartData<'bar', number[], string>;
 type DoughnutChartData = ChartData<'doughnut', number[], string>;
 type RadarChartData = ChartData<'radar', number[], string>;
 
+const headroomLabels: Record<HeadroomResource, string> = {
+  leafs: 'Leafs',
+  servers: 'Servers',
+  spines: 'Spines'
+};
+
 const TopologyMetrics = () => {
   const { currentTopology } = useTopology();
   const [metrics, setMetrics] = useState<TopologyMetricsType | null>(null);
@@ -152,11 +168,11 @@ const TopologyMetrics = () => {
     );
   }
 
-  // Format currency
+  // Format currency in the currency of the pricing profile
   const formatCurrency = (value: number): string => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency: metrics.cost.currency,
       maximumFractionDigits: 0
     }).format(value);
   };
@@ -175,63 +191,129 @@ const TopologyMetrics = () => {
     }
   };
 
+  // Optics and cable unit prices are list prices in USD
+  const pricing = getPricingProfile(currentTopology.configuration.pricingProfile);
+
+  // List and net price of each part of the build
+  const priceRows = [
+    { label: 'Switches', list: metrics.cost.list.switches, net: metrics.cost.switches.total },
+    { label: 'Optics', list: metrics.cost.list.optics, net: metrics.cost.optics },
+    { label: 'Cables', list: metrics.cost.list.cables, net: metrics.cost.cables },
+    ...(metrics.cost.spares > 0 ? [{ label: 'Spares', list: metrics.cost.list.spares, net: metrics.cost.spares }] : []),
+    { label: 'Total', list: metrics.cost.list.total, net: metrics.cost.total }
+  ];
+
   // Check if this is a Rail-Only (single-tier) topology
   const isRailOnly = currentTopology.configuration.numTiers === 1 && currentTopology.configuration.numSpines === 0;
 
-  // Device count chart data - conditionally include spine data
+  // Super-spines only exist in N-tier (3+) Clos topologies
+  const hasSuperSpines = metrics.deviceCount.superSpines > 0;
+
+  // Switch groups shown in the charts - conditionally include spine and super-spine data
+  const switchGroups = [
+    ...(hasSuperSpines ? [{
+      label: 'Super-Spine Switches',
+      devices: metrics.deviceCount.superSpines,
+      cost: metrics.cost.switches.superSpine,
+      power: metrics.power.switches.superSpine,
+      color: '153, 102, 255'
+    }] : []),
+    ...(!isRailOnly ? [{
+      label: 'Spine Switches',
+      devices: metrics.deviceCount.spines,
+      cost: metrics.cost.switches.spine,
+      power: metrics.power.switches.spine,
+      color: '54, 162, 235'
+    }] : []),
+    {
+      label: 'Leaf Switches',
+      devices: metrics.deviceCount.leafs,
+      cost: metrics.cost.switches.leaf,
+      power: metrics.power.switches.leaf,
+      color: '75, 192, 192'
+    }
+  ];
+  const opticsColor = '255, 159, 64';
+  const cablesColor = '255, 205, 86';
+  const sparesColor = '201, 203, 207';
+  const hasSpares = metrics.cost.spares > 0;
+
+  // Device count chart data
   const deviceCountData: BarChartData = {
-    labels: isRailOnly ? ['Leaf Switches'] : ['Spine Switches', 'Leaf Switches'],
+    labels: switchGroups.map(group => group.label),
     datasets: [
       {
         label: 'Number of Devices',
-        data: isRailOnly ? [metrics.deviceCount.leafs] : [metrics.deviceCount.spines, metrics.deviceCount.leafs],
-        backgroundColor: isRailOnly ? ['rgba(75, 192, 192, 0.6)'] : ['rgba(54, 162, 235, 0.6)', 'rgba(75, 192, 192, 0.6)'],
-        borderColor: isRailOnly ? ['rgba(75, 192, 192, 1)'] : ['rgba(54, 162, 235, 1)', 'rgba(75, 192, 192, 1)'],
+        data: switchGroups.map(group => group.devices),
+        backgroundColor: switchGroups.map(group => `rgba(${group.color}, 0.6)`),
+        borderColor: switchGroups.map(group => `rgba(${group.color}, 1)`),
         borderWidth: 1
       }
     ]
   };
 
-  // Cost breakdown chart data - conditionally include spine data
+  // Cost breakdown chart data
   const costData: DoughnutChartData = {
-    labels: isRailOnly ? ['Leaf Switches', 'Optics'] : ['Spine Switches', 'Leaf Switches', 'Optics'],
+    labels: [...switchGroups.map(group => group.label), 'Optics', 'Cables', ...(hasSpares ? ['Spares'] : [])],
     datasets: [
       {
         label: 'Cost Breakdown',
-        data: isRailOnly 
-          ? [metrics.cost.switches.leaf, metrics.cost.optics]
-          : [metrics.cost.switches.spine, metrics.cost.switches.leaf, metrics.cost.optics],
-        backgroundColor: isRailOnly
-          ? ['rgba(75, 192, 192, 0.6)', 'rgba(255, 159, 64, 0.6)']
-          : ['rgba(54, 162, 235, 0.6)', 'rgba(75, 192, 192, 0.6)', 'rgba(255, 159, 64, 0.6)'],
-        borderColor: isRailOnly
-          ? ['rgba(75, 192, 192, 1)', 'rgba(255, 159, 64, 1)']
-          : ['rgba(54, 162, 235, 1)', 'rgba(75, 192, 192, 1)', 'rgba(255, 159, 64, 1)'],
+        data: [
+          ...switchGroups.map(group => group.cost),
+          metrics.cost.optics,
+          metrics.cost.cables,
+          ...(hasSpares ? [metrics.cost.spares] : [])
+        ],
+        backgroundColor: [
+          ...switchGroups.map(group => `rgba(${group.color}, 0.6)`),
+          `rgba(${opticsColor}, 0.6)`,
+          `rgba(${cablesColor}, 0.6)`,
+          ...(hasSpares ? [`rgba(${sparesColor}, 0.6)`] : [])
+        ],
+        borderColor: [
+          ...switchGroups.map(group => `rgba(${group.color}, 1)`),
+          `rgba(${opticsColor}, 1)`,
+          `rgba(${cablesColor}, 1)`,
+          ...(hasSpares ? [`rgba(${sparesColor}, 1)`] : [])
+        ],
         borderWidth: 1
       }
     ]
   };
 
-  // Power usage chart data - conditionally include spine data
+  // Power usage chart data
   const powerData: DoughnutChartData = {
-    labels: isRailOnly ? ['Leaf Switches', 'Optics'] : ['Spine Switches', 'Leaf Switches', 'Optics'],
+    labels: [...switchGroups.map(group => group.label), 'Optics'],
     datasets: [
       {
         label: 'Power Usage (Watts)',
-        data: isRailOnly
-          ? [metrics.power.switches.leaf, metrics.power.optics]
-          : [metrics.power.switches.spine, metrics.power.switches.leaf, metrics.power.optics],
-        backgroundColor: isRailOnly
-          ? ['rgba(75, 192, 192, 0.6)', 'rgba(255, 159, 64, 0.6)']
-          : ['rgba(54, 162, 235, 0.6)', 'rgba(75, 192, 192, 0.6)', 'rgba(255, 159, 64, 0.6)'],
-        borderColor: isRailOnly
-          ? ['rgba(75, 192, 192, 1)', 'rgba(255, 159, 64, 1)']
-          : ['rgba(54, 162, 235, 1)', 'rgba(75, 192, 192, 1)', 'rgba(255, 159, 64, 1)'],
+        data: [...switchGroups.map(group => group.power), metrics.power.optics],
+        backgroundColor: [...switchGroups.map(group => `rgba(${group.color}, 0.6)`), `rgba(${opticsColor}, 0.6)`],
+        borderColor: [...switchGroups.map(group => `rgba(${group.color}, 1)`), `rgba(${opticsColor}, 1)`],
         borderWidth: 1
       }
     ]
   };
 
+  // TCO chart data: one stacked bar per year
+  const tcoCategories: { label: string; key: 'hardware' | 'energy' | 'support' | 'opticsReplacement' | 'colocation'; color: string }[] = [
+    { label: 'Hardware', key: 'hardware', color: '54, 162, 235' },
+    { label: 'Energy', key: 'energy', color: '255, 99, 132' },
+    { label: 'Support', key: 'support', color: '75, 192, 192' },
+    { label: 'Optics Replacement', key: 'opticsReplacement', color: opticsColor },
+    { label: 'Rack Space', key: 'colocation', color: '153, 102, 255' }
+  ];
+  const tcoData: BarChartData = {
+    labels: metrics.tco.years.map(year => `Year ${year.year}`),
+    datasets: tcoCategories.map(category => ({
+      label: category.label,
+      data: metrics.tco.years.map(year => year[category.key]),
+      backgroundColor: `rgba(${category.color}, 0.6)`,
+      borderColor: `rgba(${category.color}, 1)`,
+      borderWidth: 1
+    }))
+  };
+
   // Radar chart data for overall metrics
   const radarData: RadarChartData = {
     labels: [
@@ -250,8 +332,8 @@ const TopologyMetrics = () => {
           100 - Math.min(100, (metrics.cost.total / 1000000) * 20),
           // Lower is better for power, so invert the scale
           100 - Math.min(100, (metrics.power.total / 10000) * 20),
-          // Lower is better for latency, so invert the scale
-          100 - Math.min(100, metrics.latency.total * 20),
+          // Lower is better for latency, so invert the scale (worst-case path)
+          100 - Math.min(100, metrics.latency.worst.total * 10),
           // Lower is better for rack space, so invert the scale
           100 - Math.min(100, metrics.rackSpace.totalRackUnits / 2),
           // Lower is better for cabling, so invert the scale
@@ -354,7 +436,7 @@ const TopologyMetrics = () => {
               case 'Power Efficiency':
                 return `Actual power: ${formatPower(metrics.power.total)}`;
               case 'Latency':
-                return `Actual latency: ${metrics.latency.total.toFixed(2)} μs`;
+                return `Worst-case latency: ${metrics.latency.worst.total.toFixed(2)} μs`;
               case 'Rack Space':
                 return `Actual space: ${metrics.rackSpace.totalRackUnits} U`;
               case 'Cabling Complexity':
@@ -396,22 +478,13 @@ const TopologyMetrics = () => {
             const label = context.dataset.label || '';
             const value = context.raw as number;
             
-            if (context.label === 'Spine Switches') {
-              return `${label}: ${value} (${(value / metrics.deviceCount.total * 100).toFixed(1)}% of total)`;
-            } else {
-              return `${label}: ${value} (${(value / metrics.deviceCount.total * 100).toFixed(1)}% of total)`;
-            }
+            return `${label}: ${value} (${(value / metrics.deviceCount.total * 100).toFixed(1)}% of total)`;
           },
           afterLabel: function(context) {
-            if (context.label === 'Spine Switches') {
-              const cost = metrics.cost.switches.spine;
-              const costPerDevice = metrics.deviceCount.spines > 0 ? cost / metrics.deviceCount.spines : 0;
-              return `Cost: ${formatCurrency(cost)} (${formatCurrency(costPerDevice)} per device)`;
-            } else {
-              const cost = metrics.cost.switches.leaf;
-              const costPerDevice = metrics.deviceCount.leafs > 0 ? cost / metrics.deviceCount.leafs : 0;
-              return `Cost: ${formatCurrency(cost)} (${formatCurrency(costPerDevice)} per device)`;
-            }
+            const group = switchGroups.find(switchGroup => switchGroup.label === context.label);
+            if (!group) return '';
+            const costPerDevice = group.devices > 0 ? group.cost / group.devices : 0;
+            return `Cost: ${formatCurrency(group.cost)} (${formatCurrency(costPerDevice)} per device)`;
           }
         },
         backgroundColor: 'rgba(0, 0, 0, 0.8)',
@@ -449,13 +522,14 @@ const TopologyMetrics = () => {
             return `${label}: ${formatCurrency(value)} (${percentage}%)`;
           },
           afterLabel: function(context) {
-            if (context.label === 'Spine Switches') {
-              return `${metrics.deviceCount.spines} devices at ${formatCurrency(metrics.deviceCount.spines > 0 ? (context.raw as number) / metrics.deviceCount.spines : 0)} each`;
-            } else if (context.label === 'Leaf Switches') {
-              return `${metrics.deviceCount.leafs} devices at ${formatCurrency(metrics.deviceCount.leafs > 0 ? (context.raw as number) / metrics.deviceCount.leafs : 0)} each`;
+            const group = switchGroups.find(switchGroup => switchGroup.label === context.label);
+            if (group) {
+              return `${group.devices} devices at ${formatCurrency(group.devices > 0 ? (context.raw as number) / group.devices : 0)} each`;
             } else if (context.label === 'Optics') {
-              const totalPorts = metrics.cabling.total;
-              return `${totalPorts} optics at ${formatCurrency(totalPorts > 0 ? (context.raw as number) / totalPorts : 0)} each`;
+              const totalOptics = metrics.optics.reduce((sum, assignment) => sum + assignment.optics, 0);
+              return `${totalOptics} optics at ${formatCurrency(totalOptics > 0 ? (context.raw as number) / totalOptics : 0)} each`;
+            } else if (context.label === 'Cables') {
+              return `${metrics.cabling.total} cables, ${metrics.cabling.weight.toFixed(0)} kg`;
             }
             return '';
           }
@@ -492,9 +566,8 @@ const TopologyMetrics = () => {
             return `${label}: ${formatPower(value)} (${percentage}%)`;
           },
           afterLabel: function(context) {
-            // Calculate annual energy cost (assuming $0.12 per kWh)
-            const rawValue = context.raw as number;
-            const annualCost = (rawValue * 24 * 365 * 0.12 / 1000);
+            // Annual energy cost at the electricity price and PUE of the TCO model
+            const annualCost = getAnnualEnergyCost(context.raw as number, metrics.tco.parameters);
             return `Annual cost: ${formatCurrency(annualCost)}`;
           }
         },
@@ -512,49 +585,44 @@ const TopologyMetrics = () => {
     }
   };
 
-  // Helper function to get max leaf switches based on spine configuration
-  const getMaxLeafSwitches = (): string => {
-    // Ensure spineConfig exists
-    if (!currentTopology.configuration.spineConfig) {
-      return 'Max Leaf Switches: N/A (Invalid spine configuration)';
-    }
-    
-    const { portCount, portSpeed, breakoutMode } = currentTopology.configuration.spineConfig;
-    
-    // Ensure breakoutOptions exists and has the right structure
-    if (!currentTopology.configuration.breakoutOptions || 
-        typeof currentTopology.configuration.breakoutOptions !== 'object') {
-      return `Max Leaf Switches: N/A (No breakout options for ${portSpeed})`;
-    }
-    
-    // Add type guard for breakoutOptions type
-    const breakoutOpts = currentTopology.configuration.breakoutOptions;
-    
-    // Check if it's the modern BreakoutOptions type (object with string keys)
-    if (!Array.isArray(breakoutOpts) && typeof breakoutOpts === 'object') {
-      const options = breakoutOpts[portSpeed];
-      if (!options) {
-        return `Max Leaf Switches: N/A (No breakout options for ${portSpeed})`;
+  const tcoOptions: ChartOptions<'bar'> = {
+    plugins: {
+      legend: {
+        position: 'top'
+      },
+      tooltip: {
+        callbacks: {
+          label: function(context) {
+            return `${context.dataset.label}: ${formatCurrency(context.raw as number)}`;
+          },
+          footer: function(context) {
+            const year = metrics.tco.years[context[0].dataIndex];
+            return year ? `Year total: ${formatCurrency(year.total)}\nCumulative: ${formatCurrency(year.cumulative)}` : '';
+          }
+        },
+        backgroundColor: 'rgba(0, 0, 0, 0.8)',
+        padding: 12,
+        cornerRadius: 6
       }
-      
-      const breakoutOption = options.find(
-        (option: BreakoutOption) => option.type === breakoutMode
-      );
-      
-      if (!breakoutOption) {
-        return `Max Leaf Switches: N/A (Invalid breakout mode: ${breakoutMode})`;
+    },
+    scales: {
+      x: {
+        stacked: true
+      },
+      y: {
+        stacked: true,
+        beginAtZero: true
       }
-      
-      const breakoutFactor = breakoutOption.factor;
-      const maxLeafSwitches = portCount * breakoutFactor;
-      
-      return `Max Leaf Switches: ${maxLeafSwitches}`;
+    },
+    maintainAspectRatio: false,
+    animation: {
+      duration: 1500,
+      easing: 'easeOutQuart'
     }
-    
-    // For legacy breakout options (array of objects)
-    return `Max Leaf Switches: ${portCount} (using legacy configuration)`;
   };
 
+  const headroomLimits = [metrics.headroom.leafs, metrics.headroom.servers, metrics.headroom.spines];
+
   return (
     <Box>
       <Card sx={{ mb: 4 }}>
@@ -577,6 +645,9 @@ const TopologyMetrics = () => {
                       title={
                         <React.Fragment>
                           <Typography color="inherit" variant="subtitle2">Device Breakdown</Typography>
+                          {hasSuperSpines && (
+                            <Typography variant="body2">Super-Spine Switches: {metrics.deviceCount.superSpines}</Typography>
+                          )}
                           {!isRailOnly && (
                             <Typography variant="body2">Spine Switches: {metrics.deviceCount.spines}</Typography>
                           )}
@@ -610,9 +681,16 @@ const TopologyMetrics = () => {
                         <Typography variant="body2">
                           {isRailOnly 
                             ? `${metrics.deviceCount.leafs} leaf switches`
-                            : `${metrics.deviceCount.spines} spine, ${metrics.deviceCount.leafs} leaf`
+                            : hasSuperSpines
+                              ? `${metrics.deviceCount.superSpines} super-spine, ${metrics.deviceCount.spines} spine, ${metrics.deviceCount.leafs} leaf`
+                              : `${metrics.deviceCount.spines} spine, ${metrics.deviceCount.leafs} leaf`
                           }
                         </Typography>
+                        {metrics.deviceCount.spares > 0 && (
+                          <Typography variant="body2" color="textSecondary">
+                            + {formatNumber(metrics.deviceCount.spares)} spare switches
+                          </Typography>
+                        )}
                       </Paper>
                     </Tooltip>
                   </Zoom>
@@ -623,12 +701,24 @@ const TopologyMetrics = () => {
                       title={
                         <React.Fragment>
                           <Typography color="inherit" variant="subtitle2">Cost Breakdown</Typography>
+                          {hasSuperSpines && (
+                            <Typography variant="body2">Super-Spine Switches: {formatCurrency(metrics.cost.switches.superSpine)}</Typography>
+                          )}
                           {!isRailOnly && (
                             <Typography variant="body2">Spine Switches: {formatCurrency(metrics.cost.switches.spine)}</Typography>
                           )}
                           <Typography variant="body2">Leaf Switches: {formatCurrency(metrics.cost.switches.leaf)}</Typography>
                           <Typography variant="body2">Optics: {formatCurrency(metrics.cost.optics)}</Typography>
+                          <Typography variant="body2">Cables: {formatCurrency(metrics.cost.cables)}</Typography>
+                          {hasSpares && (
+                            <Typography variant="body2">
+                              Spares: {formatCurrency(metrics.cost.spares)} ({metrics.spares.switches} switches, {metrics.spares.optics} optics, {metrics.spares.cables} cables)
+                            </Typography>
+                          )}
                           <Typography variant="body2">Per Port Cost: {formatCurrency(metrics.cost.total / (metrics.deviceCount.total || 1))}</Typography>
+                          {metrics.cost.discount > 0 && (
+                            <Typography variant="body2">List Price: {formatCurrency(metrics.cost.list.total)} (saving {formatCurrency(metrics.cost.discount)})</Typography>
+                          )}
                         </React.Fragment>
                       } 
                       arrow 
@@ -658,6 +748,19 @@ const TopologyMetrics = () => {
                         <Typography variant="body2">
                           Optics: {formatCurrency(metrics.cost.optics)}
                         </Typography>
+                        <Typography variant="body2">
+                          Cables: {formatCurrency(metrics.cost.cables)}
+                        </Typography>
+                        {hasSpares && (
+                          <Typography variant="body2">
+                            Spares: {formatCurrency(metrics.cost.spares)}
+                          </Typography>
+                        )}
+                        {metrics.cost.discount > 0 && (
+                          <Typography variant="body2" color="textSecondary">
+                            List: {formatCurrency(metrics.cost.list.total)}
+                          </Typography>
+                        )}
                       </Paper>
                     </Tooltip>
                   </Zoom>
@@ -668,12 +771,15 @@ const TopologyMetrics = () => {
                       title={
                         <React.Fragment>
                           <Typography color="inherit" variant="subtitle2">Power Breakdown</Typography>
+                          {hasSuperSpines && (
+                            <Typography variant="body2">Super-Spine Switches: {formatPower(metrics.power.switches.superSpine)}</Typography>
+                          )}
                           {!isRailOnly && (
                             <Typography variant="body2">Spine Switches: {formatPower(metrics.power.switches.spine)}</Typography>
                           )}
                           <Typography variant="body2">Leaf Switches: {formatPower(metrics.power.switches.leaf)}</Typography>
                           <Typography variant="body2">Optics: {formatPower(metrics.power.optics)}</Typography>
-                          <Typography variant="body2">Annual Energy Cost: {formatCurrency(metrics.power.total * 24 * 365 * 0.12 / 1000)}</Typography>
+                          <Typography variant="body2">Annual Energy Cost: {formatCurrency(metrics.tco.years[0].energy)}</Typography>
                         </React.Fragment>
                       } 
                       arrow 
@@ -708,7 +814,46 @@ const TopologyMetrics = () => {
                   </Zoom>
                 </Grid>
                 <Grid item xs={12} sm={6} md={3}>
-                  {/* Oversubscription ratio card removed */}
+                  <Zoom in={!loading} style={{ transitionDelay: '400ms' }}>
+                    <Tooltip 
+                      title={
+                        <React.Fragment>
+                          <Typography color="inherit" variant="subtitle2">How the ratio is derived</Typography>
+                          {metrics.oversubscription.explanation.steps.map((step, index) => (
+                            <Typography variant="body2" key={index}>{step}</Typography>
+                          ))}
+                        </React.Fragment>
+                      } 
+                      arrow 
+                      placement="top"
+                    >
+                      <Paper 
+                        elevation={2} 
+                        sx={{ 
+                          p: 2, 
+                          height: '100%', 
+                          transition: 'all 0.3s ease',
+                          '&:hover': {
+                            transform: 'translateY(-4px)',
+                            boxShadow: 4
+                          }
+                        }}
+                      >
+                        <Typography variant="subtitle2" color="textSecondary">
+                          Oversubscription
+                        </Typography>
+                        <Typography variant="h4" sx={{ fontFamily: '"JetBrains Mono", monospace' }}>
+                          {metrics.oversubscription.ratio === 'N/A' ? 'N/A' : `${metrics.oversubscription.ratio}:1`}
+                        </Typography>
+                        <Typography variant="body2">
+                          Uplink: {formatNumber(metrics.oversubscription.uplinkCapacityPerLeaf)} Gbps per leaf
+                        </Typography>
+                        <Typography variant="body2">
+                          Downlink: {formatNumber(metrics.oversubscription.downlinkCapacityPerLeaf)} Gbps per leaf
+                        </Typography>
+                      </Paper>
+                    </Tooltip>
+                  </Zoom>
                 </Grid>
                 {/* Only show spine configuration for non-Rail-Only topologies */}
                 {!isRailOnly && currentTopology.configuration.deviceSelection?.spine?.deviceId ? (
@@ -748,7 +893,7 @@ const TopologyMetrics = () => {
                         );
                       })()}
                       <Typography variant="body2" sx={{ mt: 1 }}>
-                        {getMaxLeafSwitches()}
+                        <strong>Max Leafs:</strong> {formatNumber(metrics.headroom.leafs.max)}
                       </Typography>
                     </Paper>
                   </Grid>
@@ -801,6 +946,9 @@ const TopologyMetrics = () => {
                             <Typography variant="body2">
                               <strong>Downlink Speed:</strong> {currentTopology.configuration.leafConfig?.downlinkSpeed || 'N/A'}
                             </Typography>
+                            <Typography variant="body2">
+                              <strong>Port Allocation:</strong> {metrics.portAllocation.uplinkPortsUsed} × {metrics.portAllocation.uplinkSpeed} up, {metrics.portAllocation.downlinkPorts} × {metrics.portAllocation.downlinkSpeed} down
+                            </Typography>
                           </>
                         );
                       })()}
@@ -818,6 +966,9 @@ const TopologyMetrics = () => {
                       <Typography variant="body2">
                         <strong>Downlink Speed:</strong> {currentTopology.configuration.leafConfig.downlinkSpeed}
                       </Typography>
+                      <Typography variant="body2">
+                        <strong>Port Allocation:</strong> {metrics.portAllocation.uplinkPortsUsed} × {metrics.portAllocation.uplinkSpeed} up, {metrics.portAllocation.downlinkPorts} × {metrics.portAllocation.downlinkSpeed} down
+                      </Typography>
                     </Paper>
                   </Grid>
                 ) : null}
@@ -888,6 +1039,22 @@ const TopologyMetrics = () => {
               </Fade>
             </Grid>
 
+            {/* Total cost of ownership chart */}
+            <Grid item xs={12}>
+              <Typography variant="h6" gutterBottom>
+                {metrics.tco.parameters.years}-Year Cost of Ownership
+              </Typography>
+              <Fade in={!loading} timeout={1000} style={{ transitionDelay: '500ms' }}>
+                <Box sx={{ height: 400 }}>
+                  <Bar
+                    ref={(ref) => registerChartRef('tco', ref)}
+                    data={tcoData}
+                    options={tcoOptions}
+                  />
+                </Box>
+              </Fade>
+            </Grid>
+
             {/* Additional metrics */}
             <Grid item xs={12}>
               <Typography variant="h6" gutterBottom>
@@ -900,16 +1067,30 @@ const TopologyMetrics = () => {
                       Latency
                     </Typography>
                     <Typography variant="h5" sx={{ fontFamily: '"JetBrains Mono", monospace' }}>
-                      {metrics.latency.total.toFixed(2)} μs
+                      {metrics.latency.average.total.toFixed(2)} μs
                     </Typography>
                     <Typography variant="body2">
-                      Switch Latency: {metrics.latency.switchLatency.toFixed(2)} μs
+                      Best / Worst: {metrics.latency.best.total.toFixed(2)} / {metrics.latency.worst.total.toFixed(2)} μs
                     </Typography>
                     <Typography variant="body2">
-                      Fiber Latency: {metrics.latency.fiberLatency.toFixed(2)} μs
+                      Worst Path: {metrics.latency.worst.switches} switches, {metrics.latency.worst.cableLength.toFixed(1)} m of cable
                     </Typography>
                     <Typography variant="body2">
-                      Hops: {metrics.latency.hops}
+                      Switching: {metrics.latency.worst.switchLatency.toFixed(2)} μs
+                      {' '}(leaf {metrics.latency.leafSwitching}
+                      {!isRailOnly && `, spine ${metrics.latency.spineSwitching}`})
+                    </Typography>
+                    <Typography variant="body2">
+                      Serialization: {metrics.latency.worst.serializationLatency.toFixed(2)} μs ({metrics.latency.frameSize} B frames)
+                    </Typography>
+                    {metrics.latency.worst.fecLatency > 0 && (
+                      <Typography variant="body2">
+                        FEC: {metrics.latency.worst.fecLatency.toFixed(2)} μs
+                      </Typography>
+                    )}
+                    <Typography variant="body2">
+                      Fiber: {metrics.latency.worst.fiberLatency.toFixed(3)} μs
+                      {metrics.latency.cableLengths.estimated && ' (cable lengths estimated from rack layout)'}
                     </Typography>
                   </Paper>
                 </Grid>
@@ -921,6 +1102,11 @@ const TopologyMetrics = () => {
                     <Typography variant="h5" sx={{ fontFamily: '"JetBrains Mono", monospace' }}>
                       {metrics.rackSpace.totalRackUnits} U
                     </Typography>
+                    {hasSuperSpines && (
+                      <Typography variant="body2">
+                        Super-Spine: {metrics.rackSpace.superSpineRackUnits} U
+                      </Typography>
+                    )}
                     {!isRailOnly && (
                       <Typography variant="body2">
                         Spine: {metrics.rackSpace.spineRackUnits} U
@@ -932,6 +1118,38 @@ const TopologyMetrics = () => {
                     <Typography variant="body2">
                       Racks Needed: {metrics.rackSpace.racksNeeded}
                     </Typography>
+                    <Typography variant="body2" color="textSecondary">
+                      {metrics.rackSpace.serverRacks} server + {metrics.rackSpace.networkRacks} network racks in {metrics.rackSpace.rows} rows
+                    </Typography>
+                  </Paper>
+                </Grid>
+                <Grid item xs={12} sm={6} md={4}>
+                  <Paper elevation={2} sx={{ p: 2, height: '100%' }}>
+                    <Typography variant="subtitle2" color="textSecondary">
+                      Power & Cooling
+                    </Typography>
+                    <Typography variant="h5" sx={{ fontFamily: '"JetBrains Mono", monospace' }}>
+                      {formatNumber(Math.round(metrics.rackPower.thermalOutput))} BTU/hr
+                    </Typography>
+                    <Typography variant="body2">
+                      Cooling: {metrics.rackPower.coolingTons.toFixed(1)} tons
+                    </Typography>
+                    <Typography variant="body2">
+                      Maximum Power: {(metrics.rackPower.maxPower / 1000).toFixed(1)} kW
+                    </Typography>
+                    <Typography variant="body2">
+                      Racks for space / power / cooling: {metrics.rackPower.racksForSpace} / {metrics.rackPower.racksForPower} / {metrics.rackPower.racksForCooling}
+                    </Typography>
+                    {metrics.rackPower.limitedBy !== 'space' && (
+                      <Typography variant="body2" color="warning.main">
+                        Rack count is set by {metrics.rackPower.limitedBy}, not space
+                      </Typography>
+                    )}
+                    {metrics.rackPower.flaggedRacks.length > 0 && (
+                      <Typography variant="body2" color="error">
+                        {metrics.rackPower.flaggedRacks.length} racks over budget
+                      </Typography>
+                    )}
                   </Paper>
                 </Grid>
                 <Grid item xs={12} sm={6} md={4}>
@@ -948,9 +1166,448 @@ const TopologyMetrics = () => {
                     <Typography variant="body2">
                       Breakout: {metrics.cabling.breakout} cables
                     </Typography>
+                    {metrics.rail && (
+                      <Typography variant="body2">
+                        NIC-to-Leaf: {metrics.cabling.server} cables
+                      </Typography>
+                    )}
+                    <Typography variant="body2">
+                      Media: {(Object.keys(metrics.cabling.media) as CableMedia[])
+                        .filter(media => metrics.cabling.media[media] > 0)
+                        .map(media => `${metrics.cabling.media[media]} ${media}`)
+                        .join(', ') || 'none'}
+                    </Typography>
+                    <Typography variant="body2">
+                      Cost: {formatCurrency(metrics.cost.cables)} · Weight: {formatNumber(Math.round(metrics.cabling.weight))} kg
+                    </Typography>
                   </Paper>
                 </Grid>
+                <Grid item xs={12} sm={6} md={4}>
+                  <Paper elevation={2} sx={{ p: 2, height: '100%' }}>
+                    <Typography variant="subtitle2" color="textSecondary">
+                      Throughput
+                    </Typography>
+                    <Typography variant="h5" sx={{ fontFamily: '"JetBrains Mono", monospace' }}>
+                      {formatNumber(metrics.throughput.bisectionBandwidth)} Gbps
+                    </Typography>
+                    <Typography variant="body2">
+                      Bisection: {metrics.throughput.fullBisection
+                        ? 'full'
+                        : `${(metrics.throughput.bisectionRatio * 100).toFixed(1)}% of full`}
+                    </Typography>
+                    <Typography variant="body2">
+                      Endpoint Capacity: {formatNumber(metrics.throughput.endpointCapacity)} Gbps ({formatNumber(metrics.throughput.endpoints)} × {metrics.throughput.endpointSpeed}G)
+                    </Typography>
+                    {!isRailOnly && (
+                      <Typography variant="body2">
+                        Fabric Capacity: {formatNumber(metrics.throughput.fabricCapacity)} Gbps
+                      </Typography>
+                    )}
+                    <Typography variant="body2">
+                      Guaranteed per Endpoint: {metrics.throughput.guaranteedPerEndpoint.toFixed(1)} Gbps
+                    </Typography>
+                    <Typography variant="body2">
+                      Per Server: {metrics.throughput.perServerBandwidth.toFixed(1)} Gbps
+                    </Typography>
+                    {metrics.throughput.spineCapacity > 0 && (
+                      <Typography variant="body2">
+                        Spine Utilization: {metrics.throughput.spineUtilization.toFixed(1)}% of {formatNumber(metrics.throughput.spineCapacity)} Gbps
+                      </Typography>
+                    )}
+                  </Paper>
+                </Grid>
+                {metrics.spinePlanes.planes.length > 0 && (
+                  <Grid item xs={12} sm={6} md={4}>
+                    <Paper elevation={2} sx={{ p: 2, height: '100%' }}>
+                      <Typography variant="subtitle2" color="textSecondary">
+                        {metrics.spinePlanes.disjoint ? 'Disjoint Spine Planes' : 'Spine Plane'}
+                      </Typography>
+                      <Typography variant="h5" sx={{ fontFamily: '"JetBrains Mono", monospace' }}>
+                        {metrics.spinePlanes.planes.length} {metrics.spinePlanes.planes.length > 1 ? 'planes' : 'plane'}
+                      </Typography>
+                      {metrics.spinePlanes.planes.map(plane => (
+                        <Typography variant="body2" key={plane.plane}>
+                          Plane {plane.plane}: {plane.spines} spines, {formatNumber(plane.links)} links ({formatNumber(plane.capacity)} Gbps)
+                        </Typography>
+                      ))}
+                      <Typography variant="body2" sx={{ mt: 1 }}>
+                        Spine failure: -{metrics.spinePlanes.spineFailureImpact.toFixed(1)}% uplink capacity on {metrics.spinePlanes.leafsPerFailureDomain} leafs
+                      </Typography>
+                      <Typography variant="body2">
+                        Plane failure: -{metrics.spinePlanes.planeFailureImpact.toFixed(1)}% uplink capacity
+                      </Typography>
+                      <Typography variant="body2">
+                        ECMP paths per plane: {metrics.spinePlanes.ecmpPathsPerPlane}
+                      </Typography>
+                    </Paper>
+                  </Grid>
+                )}
+                {metrics.rail && (
+                  <Grid item xs={12} sm={6} md={4}>
+                    <Paper elevation={2} sx={{ p: 2, height: '100%' }}>
+                      <Typography variant="subtitle2" color="textSecondary">
+                        GPU Fabric
+                      </Typography>
+                      <Typography variant="h5" sx={{ fontFamily: '"JetBrains Mono", monospace' }}>
+                        {formatNumber(metrics.rail.gpus)} GPUs
+                      </Typography>
+                      <Typography variant="body2">
+                        Servers: {formatNumber(metrics.rail.servers)} ({metrics.rail.scalableUnits} scalable units of {metrics.rail.serversPerScalableUnit})
+                      </Typography>
+                      <Typography variant="body2">
+                        Rails: {metrics.rail.rails} ({metrics.rail.railLeafs} rail leafs, {metrics.rail.spineInterconnect ? 'spine interconnect' : 'rail-only'})
+                      </Typography>
+                      <Typography variant="body2">
+                        NIC Links: {formatNumber(metrics.rail.nicLinks)} × {metrics.rail.nicSpeed}
+                      </Typography>
+                      <Typography variant="body2">
+                        Bisection Bandwidth: {formatNumber(metrics.rail.bisectionBandwidth)} Gbps
+                      </Typography>
+                    </Paper>
+                  </Grid>
+                )}
+                {metrics.tiers.length > 2 && (
+                  <Grid item xs={12}>
+                    <Paper elevation={2} sx={{ p: 2, height: '100%' }}>
+                      <Typography variant="subtitle2" color="textSecondary">
+                        Clos Tiers
+                      </Typography>
+                      {metrics.tiers.map(tier => (
+                        <Typography variant="body2" key={tier.tier} sx={{ fontFamily: '"JetBrains Mono", monospace' }}>
+                          Tier {tier.tier} ({tier.role}): {tier.devices} devices in {tier.pods} {tier.role === 'super-spine' ? 'planes' : 'pods'}, 
+                          {' '}{tier.downlinksPerDevice} down / {tier.uplinksPerDevice} × {tier.uplinkSpeed} up per device
+                          {tier.uplinksPerDevice > 0 && `, ${tier.oversubscription.toFixed(2)}:1`}
+                        </Typography>
+                      ))}
+                    </Paper>
+                  </Grid>
+                )}
+              </Grid>
+            </Grid>
+
+            {/* Failure domains and resiliency */}
+            <Grid item xs={12}>
+              <Typography variant="h6" gutterBottom>
+                Failure Domains & Resiliency
+              </Typography>
+              <Typography variant="body2" color="textSecondary" paragraph>
+                Resiliency score: {metrics.resiliency.score.toFixed(0)}/100 · 
+                {' '}{metrics.resiliency.spineFailuresTolerated} spine {metrics.resiliency.spineFailuresTolerated === 1 ? 'failure' : 'failures'} tolerated per pod · 
+                {' '}{formatNumber(metrics.resiliency.serversPerLeaf)} servers per leaf
+              </Typography>
+              <TableContainer component={Paper} elevation={2}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Failure</TableCell>
+                      <TableCell align="right">Remaining Capacity</TableCell>
+                      <TableCell align="right">Worst Leaf Uplinks</TableCell>
+                      <TableCell align="right">Oversubscription</TableCell>
+                      <TableCell align="right">Blast Radius</TableCell>
+                      <TableCell align="right">Degraded Servers</TableCell>
+                      <TableCell align="center">ECMP Coverage</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {metrics.resiliency.scenarios.map(scenario => (
+                      <TableRow key={`${scenario.failure}-${scenario.label}`}>
+                        <TableCell>{scenario.label}</TableCell>
+                        <TableCell align="right">
+                          {formatNumber(scenario.remainingCapacity)} Gbps ({scenario.remainingCapacityPercent.toFixed(1)}%)
+                        </TableCell>
+                        <TableCell align="right">{scenario.worstLeafUplinkPercent.toFixed(1)}%</TableCell>
+                        <TableCell align="right">
+                          {scenario.oversubscription > 0
+                            ? `${scenario.oversubscription.toFixed(2)}:1`
+                            : scenario.ecmpCoverage ? 'N/A' : 'Isolated'}
+                        </TableCell>
+                        <TableCell align="right">{formatNumber(scenario.blastRadius)} servers</TableCell>
+                        <TableCell align="right">{formatNumber(scenario.degradedServers)}</TableCell>
+                        <TableCell align="center">{scenario.ecmpCoverage ? 'Yes' : 'No'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Grid>
+
+            {/* Scale headroom */}
+            <Grid item xs={12}>
+              <Typography variant="h6" gutterBottom>
+                Scale Headroom
+              </Typography>
+              <Typography variant="body2" color="textSecondary" paragraph>
+                How far the fabric can grow with the chosen devices and port plan.
+                {' '}{headroomLabels[metrics.headroom.limitedBy]} run out first.
+              </Typography>
+              <TableContainer component={Paper} elevation={2}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Resource</TableCell>
+                      <TableCell align="right">Current</TableCell>
+                      <TableCell align="right">Maximum</TableCell>
+                      <TableCell sx={{ width: '25%' }}>Utilization</TableCell>
+                      <TableCell>Limited By</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {headroomLimits.map(limit => (
+                      <TableRow key={limit.resource}>
+                        <TableCell sx={{ fontWeight: limit.resource === metrics.headroom.limitedBy ? 'bold' : undefined }}>
+                          {headroomLabels[limit.resource]}
+                        </TableCell>
+                        <TableCell align="right">{formatNumber(limit.current)}</TableCell>
+                        <TableCell align="right">{limit.max > 0 ? formatNumber(limit.max) : 'N/A'}</TableCell>
+                        <TableCell>
+                          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                            <LinearProgress
+                              variant="determinate"
+                              value={Math.min(100, limit.utilization)}
+                              color={limit.utilization > 100 ? 'error' : limit.utilization >= 80 ? 'warning' : 'primary'}
+                              sx={{ flexGrow: 1, height: 8, borderRadius: 4 }}
+                            />
+                            <Typography variant="body2" sx={{ minWidth: 48, textAlign: 'right' }}>
+                              {limit.utilization.toFixed(1)}%
+                            </Typography>
+                          </Box>
+                        </TableCell>
+                        <TableCell>{limit.constraint}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Grid>
+
+            {/* Optics per link group */}
+            {metrics.optics.length > 0 && (
+              <Grid item xs={12}>
+                <Typography variant="h6" gutterBottom>
+                  Optics
+                </Typography>
+                <Typography variant="body2" color="textSecondary" paragraph>
+                  {currentTopology.configuration.opticsSelection?.mode === 'catalog'
+                    ? 'Catalog optics, picked from the longest cable of each link group unless chosen in the builder'
+                    : 'Flat optics pricing per link speed'}
+                </Typography>
+                <TableContainer component={Paper} elevation={2}>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Links</TableCell>
+                        <TableCell align="right">Count</TableCell>
+                        <TableCell align="right">Longest Cable</TableCell>
+                        <TableCell>Optic</TableCell>
+                        <TableCell align="right">Reach</TableCell>
+                        <TableCell align="right">Unit Cost</TableCell>
+                        <TableCell align="right">Unit Power</TableCell>
+                        <TableCell align="right">Total Cost</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {metrics.optics.map(assignment => (
+                        <TableRow key={assignment.group}>
+                          <TableCell>
+                            {assignment.linkType === 'server'
+                              ? 'Server NICs to leafs'
+                              : `Tier ${assignment.tier} (${assignment.role}) uplinks`}
+                          </TableCell>
+                          <TableCell align="right">
+                            {formatNumber(assignment.links)} x {assignment.speed} ({formatNumber(assignment.optics)} optics)
+                          </TableCell>
+                          <TableCell align="right">{assignment.cableLength.toFixed(1)} m</TableCell>
+                          <TableCell>
+                            {assignment.optic
+                              ? `${assignment.optic.name}${assignment.automatic ? ' (auto)' : ''}`
+                              : 'Flat pricing'}
+                          </TableCell>
+                          <TableCell align="right">
+                            {assignment.optic ? (
+                              <Typography
+                                variant="body2"
+                                color={assignment.reachExceeded ? 'error' : 'inherit'}
+                              >
+                                {formatNumber(assignment.optic.maxDistance)} m
+                              </Typography>
+                            ) : '-'}
+                          </TableCell>
+                          <TableCell align="right">{formatCurrency(getNetPrice(assignment.unitCost, pricing, 'optics'))}</TableCell>
+                          <TableCell align="right">{formatPower(assignment.unitPower)}</TableCell>
+                          <TableCell align="right">{formatCurrency(getNetPrice(assignment.optics * assignment.unitCost, pricing, 'optics'))}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Grid>
+            )}
+
+            {/* Cables by media, harness and length */}
+            {metrics.cabling.lines.length > 0 && (
+              <Grid item xs={12}>
+                <Typography variant="h6" gutterBottom>
+                  Cables
+                </Typography>
+                <Typography variant="body2" color="textSecondary" paragraph>
+                  Lengths are rounded up to standard cable lengths
+                  {metrics.latency.cableLengths.estimated && ' and estimated from the rack layout'}
+                </Typography>
+                <TableContainer component={Paper} elevation={2}>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Media</TableCell>
+                        <TableCell>Harness</TableCell>
+                        <TableCell>Speed</TableCell>
+                        <TableCell align="right">Length</TableCell>
+                        <TableCell align="right">Count</TableCell>
+                        <TableCell align="right">Unit Cost</TableCell>
+                        <TableCell align="right">Total Cost</TableCell>
+                        <TableCell align="right">Weight</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {metrics.cabling.lines.map(line => (
+                        <TableRow key={`${line.media}-${line.harness}-${line.speed}-${line.length}`}>
+                          <TableCell>{line.media}</TableCell>
+                          <TableCell>{line.harness === '1:1' ? 'Straight' : `Breakout ${line.harness}`}</TableCell>
+                          <TableCell>{line.speed}</TableCell>
+                          <TableCell align="right">{line.length} m</TableCell>
+                          <TableCell align="right">{formatNumber(line.count)}</TableCell>
+                          <TableCell align="right">{formatCurrency(getNetPrice(line.unitCost, pricing, 'cables'))}</TableCell>
+                          <TableCell align="right">{formatCurrency(getNetPrice(line.cost, pricing, 'cables'))}</TableCell>
+                          <TableCell align="right">{line.weight.toFixed(1)} kg</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
               </Grid>
+            )}
+
+            {/* Racks over their power or cooling budget */}
+            {metrics.rackPower.flaggedRacks.length > 0 && (
+              <Grid item xs={12}>
+                <Typography variant="h6" gutterBottom>
+                  Racks Over Budget
+                </Typography>
+                <Typography variant="body2" color="textSecondary" paragraph>
+                  Budgets are {(metrics.rackPower.rackPowerBudget / 1000).toFixed(1)} kW and{' '}
+                  {formatNumber(metrics.rackPower.rackCoolingBudget)} BTU/hr per rack, against the maximum power of the equipment and its optics
+                </Typography>
+                <TableContainer component={Paper} elevation={2}>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Rack</TableCell>
+                        <TableCell>Role</TableCell>
+                        <TableCell align="right">Typical Power</TableCell>
+                        <TableCell align="right">Maximum Power</TableCell>
+                        <TableCell align="right">Heat</TableCell>
+                        <TableCell>Over</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {metrics.rackPower.flaggedRacks.map(rack => (
+                        <TableRow key={rack.id}>
+                          <TableCell>{rack.name}</TableCell>
+                          <TableCell>{rack.role === 'network' ? 'Network' : 'Server'}</TableCell>
+                          <TableCell align="right">{(rack.power / 1000).toFixed(1)} kW</TableCell>
+                          <TableCell align="right">{(rack.maxPower / 1000).toFixed(1)} kW</TableCell>
+                          <TableCell align="right">{formatNumber(Math.round(rack.thermalOutput))} BTU/hr</TableCell>
+                          <TableCell>
+                            {[rack.overPower && 'Power', rack.overCooling && 'Cooling'].filter(Boolean).join(', ')}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Grid>
+            )}
+
+            {/* List against net price */}
+            <Grid item xs={12}>
+              <Typography variant="h6" gutterBottom>
+                List vs. Net Price
+              </Typography>
+              <Typography variant="body2" color="textSecondary" paragraph>
+                Prices in {metrics.cost.currency}
+                {metrics.cost.currency !== 'USD' && ` at ${pricing.exchangeRates[metrics.cost.currency]} per USD`},
+                {' '}after the manufacturer and category discounts of the pricing profile
+              </Typography>
+              <TableContainer component={Paper} elevation={2}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Category</TableCell>
+                      <TableCell align="right">List Price</TableCell>
+                      <TableCell align="right">Discount</TableCell>
+                      <TableCell align="right">Net Price</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {priceRows.map(row => (
+                      <TableRow key={row.label}>
+                        <TableCell sx={row.label === 'Total' ? { fontWeight: 'bold' } : undefined}>{row.label}</TableCell>
+                        <TableCell align="right">{formatCurrency(row.list)}</TableCell>
+                        <TableCell align="right">
+                          {row.list > 0 ? `${((1 - row.net / row.list) * 100).toFixed(1)}%` : '-'}
+                        </TableCell>
+                        <TableCell align="right">{formatCurrency(row.net)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Grid>
+
+            {/* Year-by-year total cost of ownership */}
+            <Grid item xs={12}>
+              <Typography variant="h6" gutterBottom>
+                Total Cost of Ownership
+              </Typography>
+              <Typography variant="body2" color="textSecondary" paragraph>
+                {formatCurrency(metrics.tco.total)} over {metrics.tco.parameters.years} years ({formatCurrency(metrics.tco.annualised)} per year):
+                {' '}{metrics.tco.parameters.electricityPrice} {metrics.cost.currency}/kWh at a PUE of {metrics.tco.parameters.pue},
+                {' '}support at {metrics.tco.parameters.supportRate}% of the installed switch cost per year,
+                {' '}{metrics.tco.parameters.opticsFailureRate}% of the optics replaced per year,
+                {' '}{formatCurrency(metrics.tco.parameters.rackCostPerMonth)} per rack per month,
+                {' '}and hardware (spares included) amortised and refreshed over {metrics.tco.parameters.amortisationYears} years
+              </Typography>
+              <TableContainer component={Paper} elevation={2}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Year</TableCell>
+                      <TableCell align="right">Hardware</TableCell>
+                      <TableCell align="right">Energy</TableCell>
+                      <TableCell align="right">Support</TableCell>
+                      <TableCell align="right">Optics Replacement</TableCell>
+                      <TableCell align="right">Rack Space</TableCell>
+                      <TableCell align="right">Total</TableCell>
+                      <TableCell align="right">Cumulative</TableCell>
+                      <TableCell align="right">Amortisation</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {metrics.tco.years.map(year => (
+                      <TableRow key={year.year}>
+                        <TableCell>{year.year}</TableCell>
+                        <TableCell align="right">{formatCurrency(year.hardware)}</TableCell>
+                        <TableCell align="right">{formatCurrency(year.energy)}</TableCell>
+                        <TableCell align="right">{formatCurrency(year.support)}</TableCell>
+                        <TableCell align="right">{formatCurrency(year.opticsReplacement)}</TableCell>
+                        <TableCell align="right">{formatCurrency(year.colocation)}</TableCell>
+                        <TableCell align="right">{formatCurrency(year.total)}</TableCell>
+                        <TableCell align="right">{formatCurrency(year.cumulative)}</TableCell>
+                        <TableCell align="right">{formatCurrency(year.amortisation)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
             </Grid>
           </Grid>
         </CardContent>
@@ -2,7 +2,7 @@ import React, { createContext, useContext, useState, useEffect, useCallback } fr
 import { templates, applyTemplate } from '../utils/templates';
 import { importTopology as importTopologyUtil } from '../utils/importExport';
 import StorageService from '../services/StorageService';
-import { Topology } from '../types/topology';
+import { Topology, TopologyConfiguration } from '../types/topology';
 import { TopologyContextType, SaveStatus, ProviderProps } from '../types/context';
 
 // Initialize the context with a proper type
@@ -125,6 +125,9 @@ const defaultTopology: Omit<Topology, 'id' | 'createdAt' | 'updatedAt'> = {
         '800G': 25  // watts
       }
     },
+    opticsSelection: {
+      mode: 'catalog' // Pick catalog optics from the cable lengths
+    },
     
     // Latency parameters
     latencyParameters: {
@@ -232,6 +235,34 @@ export const TopologyProvider = ({ children }: ProviderProps) => {
     return topologyWithTemplate;
   }, [topologies]);
 
+  // Create a new topology from a derived configuration (e.g., the sizing wizard)
+  const createTopologyFromConfiguration = useCallback((
+    name: string,
+    description: string,
+    configuration: TopologyConfiguration
+  ): Topology => {
+    const newTopology: Topology = {
+      ...defaultTopology,
+      name,
+      description,
+      configuration: {
+        ...defaultTopology.configuration,
+        ...configuration
+      },
+      id: Date.now().toString(),
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+
+    setTopologies(prevTopologies => [...prevTopologies, newTopology]);
+    setCurrentTopology(newTopology);
+
+    // Derived topologies are complete designs, so keep them even if never edited
+    StorageService.saveTopology(newTopology)
+      .catch(error => console.error('Error saving topology:', error));
+    return newTopology;
+  }, []);
+
   // Update an existing topology
   const updateTopology = useCallback((updatedTopology: Topology): Topology => {
     const topologyWithUpdatedTimestamp: Topology = { 
@@ -384,6 +415,7 @@ export const TopologyProvider = ({ children }: ProviderProps) => {
     toggleAutoSave,
     createTopology,
     createTopologyFromTemplate,
+    createTopologyFromConfiguration,
     updateTopology,
     updateTopologyWithAutoSave,
     deleteTopology,
@@ -392,7 +424,8 @@ export const TopologyProvider = ({ children }: ProviderProps) => {
     getTopologyById,
     getComparisonTopologies,
     importTopology,
-    templates
+    templates,
+    defaultConfiguration: defaultTopology.configuration
   };
 
   return (
@@ -0,0 +1,85 @@
+/**
+ * Cable Catalog
+ *
+ * This file contains the cable types used to price and weigh the cabling of a
+ * topology. DAC and AOC assemblies are listed per link speed, while single-mode
+ * (SMF) and multi-mode (MMF) fibre carries any speed. Breakout harnesses scale
+ * the straight cable, and cables are ordered in standard length buckets.
+ */
+
+import { CableMedia, CableType, HarnessType, CableLine } from '../types/cables';
+import { ReachClass } from '../types/optics';
+
+const cableCatalog: CableType[] = [
+  // Direct-attach copper
+  { id: "dac-25g", name: "25G DAC", media: "DAC", speed: "25G", baseCost: 30, costPerMeter: 3, baseWeight: 0.08, weightPerMeter: 0.06 },
+  { id: "dac-50g", name: "50G DAC", media: "DAC", speed: "50G", baseCost: 45, costPerMeter: 4, baseWeight: 0.08, weightPerMeter: 0.08 },
+  { id: "dac-100g", name: "100G DAC", media: "DAC", speed: "100G", baseCost: 70, costPerMeter: 6, baseWeight: 0.12, weightPerMeter: 0.12 },
+  { id: "dac-200g", name: "200G DAC", media: "DAC", speed: "200G", baseCost: 110, costPerMeter: 10, baseWeight: 0.12, weightPerMeter: 0.15 },
+  { id: "dac-400g", name: "400G DAC", media: "DAC", speed: "400G", baseCost: 160, costPerMeter: 15, baseWeight: 0.16, weightPerMeter: 0.22 },
+  { id: "dac-800g", name: "800G DAC", media: "DAC", speed: "800G", baseCost: 300, costPerMeter: 25, baseWeight: 0.2, weightPerMeter: 0.3 },
+
+  // Active optical cables
+  { id: "aoc-25g", name: "25G AOC", media: "AOC", speed: "25G", baseCost: 60, costPerMeter: 1, baseWeight: 0.06, weightPerMeter: 0.02 },
+  { id: "aoc-50g", name: "50G AOC", media: "AOC", speed: "50G", baseCost: 120, costPerMeter: 1, baseWeight: 0.06, weightPerMeter: 0.02 },
+  { id: "aoc-100g", name: "100G AOC", media: "AOC", speed: "100G", baseCost: 250, costPerMeter: 1.5, baseWeight: 0.08, weightPerMeter: 0.03 },
+  { id: "aoc-200g", name: "200G AOC", media: "AOC", speed: "200G", baseCost: 500, costPerMeter: 2, baseWeight: 0.08, weightPerMeter: 0.03 },
+  { id: "aoc-400g", name: "400G AOC", media: "AOC", speed: "400G", baseCost: 1000, costPerMeter: 2.5, baseWeight: 0.1, weightPerMeter: 0.04 },
+  { id: "aoc-800g", name: "800G AOC", media: "AOC", speed: "800G", baseCost: 2000, costPerMeter: 3, baseWeight: 0.12, weightPerMeter: 0.04 },
+
+  // Structured fibre (patch cords and MPO trunks)
+  { id: "mmf-om4", name: "OM4 Multi-Mode Fibre", media: "MMF", baseCost: 20, costPerMeter: 1.5, baseWeight: 0.04, weightPerMeter: 0.02 },
+  { id: "smf-os2", name: "OS2 Single-Mode Fibre", media: "SMF", baseCost: 25, costPerMeter: 1.2, baseWeight: 0.04, weightPerMeter: 0.02 }
+];
+
+export const harnessTypes: HarnessType[] = [
+  { harness: "1:1", factor: 1, costFactor: 1, weightFactor: 1 },
+  { harness: "1:2", factor: 2, costFactor: 1.3, weightFactor: 1.2 },
+  { harness: "1:4", factor: 4, costFactor: 1.6, weightFactor: 1.4 },
+  { harness: "1:8", factor: 8, costFactor: 2.2, weightFactor: 1.8 }
+];
+
+// Standard cable lengths (m); longer runs are ordered in 100 m steps
+export const cableLengthBuckets: number[] = [0.5, 1, 1.5, 2, 2.5, 3, 5, 7, 10, 15, 20, 25, 30, 50, 75, 100, 150, 200, 300, 500];
+
+// Cable media each optic reach class plugs into
+export const mediaByReachClass: Record<ReachClass, CableMedia> = {
+  DAC: "DAC",
+  AOC: "AOC",
+  SR: "MMF",
+  SR4: "MMF",
+  SR8: "MMF",
+  DR: "SMF",
+  DR4: "SMF",
+  FR: "SMF",
+  FR4: "SMF",
+  LR4: "SMF"
+};
+
+// Helper function to get the cable type of a media for a link speed
+export const getCableType = (media: CableMedia, speed: string): CableType | null => {
+  return cableCatalog.find(cable => cable.media === media && (!cable.speed || cable.speed === speed)) || null;
+};
+
+// Helper function to get a breakout harness by its fan-out factor
+export const getHarnessByFactor = (factor: number): HarnessType => {
+  return harnessTypes.find(harness => harness.factor === factor) || harnessTypes[0];
+};
+
+// Helper function to round a cable length up to the next standard length
+export const getLengthBucket = (length: number): number => {
+  return cableLengthBuckets.find(bucket => bucket >= length) ?? Math.ceil(length / 100) * 100;
+};
+
+// Helper function to get the orderable name and SKU of a cable line
+export const getCableLineItem = (line: Pick<CableLine, 'media' | 'speed' | 'harness' | 'length'>): { name: string; sku: string } => {
+  const cableType = getCableType(line.media, line.speed);
+  const breakout = line.harness !== "1:1";
+  const name = cableType ? cableType.name : `${line.speed} ${line.media}`;
+  return {
+    name: `${name}${breakout ? ` breakout ${line.harness}` : ""} ${line.length} m`,
+    sku: cableType ? `${cableType.id}${breakout ? `-${line.harness.replace(":", "x")}` : ""}-${line.length}m` : ""
+  };
+};
+
+export default cableCatalog;
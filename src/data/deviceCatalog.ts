@@ -36,6 +36,7 @@ const deviceCatalog: DeviceCatalog = {
       rackUnits: 2,
       cost: 45000,
       thermalOutput: 6824, // BTU/hr
+      latency: { portToPort: 3500, switchingMode: "store-and-forward" }, // ns
       weight: 13.6, // kg
       dimensions: { height: 8.9, width: 44.5, depth: 54.6 }, // cm
       imageUrl: "/images/devices/arista-7800r3.jpg"
@@ -53,6 +54,7 @@ const deviceCatalog: DeviceCatalog = {
       rackUnits: 2,
       cost: 42000,
       thermalOutput: 6140, // BTU/hr
+      latency: { portToPort: 2000, switchingMode: "store-and-forward" }, // ns
       weight: 14.2, // kg
       dimensions: { height: 8.9, width: 44.5, depth: 57.1 }, // cm
       imageUrl: "/images/devices/cisco-8000.jpg"
@@ -70,6 +72,7 @@ const deviceCatalog: DeviceCatalog = {
       rackUnits: 3,
       cost: 48000,
       thermalOutput: 7500, // BTU/hr
+      latency: { portToPort: 2500, switchingMode: "store-and-forward" }, // ns
       weight: 15.8, // kg
       dimensions: { height: 13.3, width: 44.5, depth: 60.0 }, // cm
       imageUrl: "/images/devices/juniper-qfx10008.jpg"
@@ -87,6 +90,7 @@ const deviceCatalog: DeviceCatalog = {
       rackUnits: 2,
       cost: 50000,
       thermalOutput: 5800, // BTU/hr
+      latency: { portToPort: 450, switchingMode: "cut-through" }, // ns
       weight: 12.5, // kg
       dimensions: { height: 8.9, width: 44.5, depth: 52.0 }, // cm
       imageUrl: "/images/devices/nvidia-spectrum4.jpg"
@@ -107,6 +111,7 @@ const deviceCatalog: DeviceCatalog = {
       rackUnits: 1,
       cost: 28000,
       thermalOutput: 4095, // BTU/hr
+      latency: { portToPort: 800, switchingMode: "cut-through" }, // ns
       weight: 9.8, // kg
       dimensions: { height: 4.4, width: 44.5, depth: 52.5 }, // cm
       imageUrl: "/images/devices/arista-7050x4.jpg"
@@ -125,6 +130,7 @@ const deviceCatalog: DeviceCatalog = {
       rackUnits: 1,
       cost: 32000,
       thermalOutput: 5118, // BTU/hr
+      latency: { portToPort: 1000, switchingMode: "cut-through" }, // ns
       weight: 10.2, // kg
       dimensions: { height: 4.4, width: 44.5, depth: 57.1 }, // cm
       imageUrl: "/images/devices/cisco-nexus-9364d.jpg"
@@ -143,6 +149,7 @@ const deviceCatalog: DeviceCatalog = {
       rackUnits: 1,
       cost: 30000,
       thermalOutput: 4436, // BTU/hr
+      latency: { portToPort: 750, switchingMode: "cut-through" }, // ns
       weight: 9.5, // kg
       dimensions: { height: 4.4, width: 44.5, depth: 53.3 }, // cm
       imageUrl: "/images/devices/juniper-qfx5130.jpg"
@@ -161,6 +168,7 @@ const deviceCatalog: DeviceCatalog = {
       rackUnits: 1,
       cost: 29000,
       thermalOutput: 3753, // BTU/hr
+      latency: { portToPort: 425, switchingMode: "cut-through" }, // ns
       weight: 9.0, // kg
       dimensions: { height: 4.4, width: 44.5, depth: 51.0 }, // cm
       imageUrl: "/images/devices/nvidia-spectrum3.jpg"
@@ -0,0 +1,66 @@
+/**
+ * Optics Catalog
+ *
+ * This file contains a catalog of transceivers and cable assemblies with their
+ * form factor, reach class, cost, power and maximum distance. Costs and power
+ * are per link end, so a link always needs two. DAC and AOC assemblies carry no
+ * optics cost of their own: they are priced as cables in the cable catalog.
+ */
+
+import { Optic } from '../types/optics';
+
+const opticsCatalog: Optic[] = [
+  // 25G
+  { id: "25g-sfp28-dac", name: "25G SFP28 DAC", speed: "25G", formFactor: "SFP28", reachClass: "DAC", cost: 0, power: 0, maxDistance: 3 },
+  { id: "25g-sfp28-aoc", name: "25G SFP28 AOC", speed: "25G", formFactor: "SFP28", reachClass: "AOC", cost: 0, power: 1, maxDistance: 30 },
+  { id: "25g-sfp28-sr", name: "25G SFP28 SR", speed: "25G", formFactor: "SFP28", reachClass: "SR", cost: 60, power: 1, maxDistance: 100 },
+
+  // 50G
+  { id: "50g-sfp56-dac", name: "50G SFP56 DAC", speed: "50G", formFactor: "SFP56", reachClass: "DAC", cost: 0, power: 0, maxDistance: 3 },
+  { id: "50g-sfp56-aoc", name: "50G SFP56 AOC", speed: "50G", formFactor: "SFP56", reachClass: "AOC", cost: 0, power: 1.5, maxDistance: 30 },
+  { id: "50g-sfp56-sr", name: "50G SFP56 SR", speed: "50G", formFactor: "SFP56", reachClass: "SR", cost: 150, power: 1.5, maxDistance: 100 },
+
+  // 100G
+  { id: "100g-qsfp28-dac", name: "100G QSFP28 DAC", speed: "100G", formFactor: "QSFP28", reachClass: "DAC", cost: 0, power: 0, maxDistance: 3 },
+  { id: "100g-qsfp28-aoc", name: "100G QSFP28 AOC", speed: "100G", formFactor: "QSFP28", reachClass: "AOC", cost: 0, power: 2, maxDistance: 30 },
+  { id: "100g-qsfp28-sr4", name: "100G QSFP28 SR4", speed: "100G", formFactor: "QSFP28", reachClass: "SR4", cost: 250, power: 2.5, maxDistance: 100 },
+  { id: "100g-qsfp28-dr", name: "100G QSFP28 DR", speed: "100G", formFactor: "QSFP28", reachClass: "DR", cost: 400, power: 3.5, maxDistance: 500 },
+  { id: "100g-qsfp28-fr", name: "100G QSFP28 FR", speed: "100G", formFactor: "QSFP28", reachClass: "FR", cost: 500, power: 3.5, maxDistance: 2000 },
+  { id: "100g-qsfp28-lr4", name: "100G QSFP28 LR4", speed: "100G", formFactor: "QSFP28", reachClass: "LR4", cost: 900, power: 4.5, maxDistance: 10000 },
+
+  // 200G
+  { id: "200g-qsfp56-dac", name: "200G QSFP56 DAC", speed: "200G", formFactor: "QSFP56", reachClass: "DAC", cost: 0, power: 0, maxDistance: 3 },
+  { id: "200g-qsfp56-aoc", name: "200G QSFP56 AOC", speed: "200G", formFactor: "QSFP56", reachClass: "AOC", cost: 0, power: 4, maxDistance: 30 },
+  { id: "200g-qsfp56-sr4", name: "200G QSFP56 SR4", speed: "200G", formFactor: "QSFP56", reachClass: "SR4", cost: 500, power: 5, maxDistance: 100 },
+  { id: "200g-qsfp56-fr4", name: "200G QSFP56 FR4", speed: "200G", formFactor: "QSFP56", reachClass: "FR4", cost: 900, power: 6, maxDistance: 2000 },
+
+  // 400G
+  { id: "400g-qsfpdd-dac", name: "400G QSFP-DD DAC", speed: "400G", formFactor: "QSFP-DD", reachClass: "DAC", cost: 0, power: 0, maxDistance: 2.5 },
+  { id: "400g-qsfpdd-aoc", name: "400G QSFP-DD AOC", speed: "400G", formFactor: "QSFP-DD", reachClass: "AOC", cost: 0, power: 8, maxDistance: 30 },
+  { id: "400g-qsfpdd-sr8", name: "400G QSFP-DD SR8", speed: "400G", formFactor: "QSFP-DD", reachClass: "SR8", cost: 900, power: 9, maxDistance: 100 },
+  { id: "400g-qsfpdd-dr4", name: "400G QSFP-DD DR4", speed: "400G", formFactor: "QSFP-DD", reachClass: "DR4", cost: 1200, power: 10, maxDistance: 500 },
+  { id: "400g-qsfpdd-fr4", name: "400G QSFP-DD FR4", speed: "400G", formFactor: "QSFP-DD", reachClass: "FR4", cost: 1600, power: 12, maxDistance: 2000 },
+  { id: "400g-qsfpdd-lr4", name: "400G QSFP-DD LR4", speed: "400G", formFactor: "QSFP-DD", reachClass: "LR4", cost: 2500, power: 12, maxDistance: 10000 },
+  { id: "400g-osfp-sr8", name: "400G OSFP SR8", speed: "400G", formFactor: "OSFP", reachClass: "SR8", cost: 950, power: 9.5, maxDistance: 100 },
+  { id: "400g-osfp-dr4", name: "400G OSFP DR4", speed: "400G", formFactor: "OSFP", reachClass: "DR4", cost: 1250, power: 10.5, maxDistance: 500 },
+  { id: "400g-osfp-fr4", name: "400G OSFP FR4", speed: "400G", formFactor: "OSFP", reachClass: "FR4", cost: 1700, power: 12.5, maxDistance: 2000 },
+
+  // 800G
+  { id: "800g-osfp-dac", name: "800G OSFP DAC", speed: "800G", formFactor: "OSFP", reachClass: "DAC", cost: 0, power: 0, maxDistance: 2 },
+  { id: "800g-osfp-aoc", name: "800G OSFP AOC", speed: "800G", formFactor: "OSFP", reachClass: "AOC", cost: 0, power: 15, maxDistance: 30 },
+  { id: "800g-osfp-sr8", name: "800G OSFP SR8", speed: "800G", formFactor: "OSFP", reachClass: "SR8", cost: 1800, power: 15, maxDistance: 50 },
+  { id: "800g-osfp-2xdr4", name: "800G OSFP 2xDR4", speed: "800G", formFactor: "OSFP", reachClass: "DR4", cost: 2400, power: 16, maxDistance: 500 },
+  { id: "800g-osfp-2xfr4", name: "800G OSFP 2xFR4", speed: "800G", formFactor: "OSFP", reachClass: "FR4", cost: 3200, power: 17, maxDistance: 2000 }
+];
+
+// Helper function to get an optic by ID
+export const getOpticById = (opticId: string): Optic | null => {
+  return opticsCatalog.find(optic => optic.id === opticId) || null;
+};
+
+// Helper function to get all optics for a link speed
+export const getOpticsBySpeed = (speed: string): Optic[] => {
+  return opticsCatalog.filter(optic => optic.speed === speed);
+};
+
+export default opticsCatalog;
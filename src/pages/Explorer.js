@@ -0,0 +1,21 @@
+import React from 'react';
+import { Box, Typography, Container } from '@mui/material';
+import DesignSpaceExplorer from '../components/Explorer/DesignSpaceExplorer';
+
+const Explorer = () => {
+  return (
+    <Container maxWidth="lg">
+      <Box sx={{ my: 4 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Design Space Explorer
+        </Typography>
+        <Typography variant="body1" paragraph>
+          Sweep every spine and leaf device pair in the catalog, including custom devices, with every breakout mode and parallel-link setting for an endpoint requirement. Candidates that no other candidate beats on cost, power, oversubscription and rack space are marked Pareto-optimal, and any candidate can be saved as a topology.
+        </Typography>
+        <DesignSpaceExplorer />
+      </Box>
+    </Container>
+  );
+};
+
+export default Explorer;
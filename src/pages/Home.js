@@ -30,6 +30,7 @@ import { Link } from 'react-router-dom';
 import AddIcon from '@mui/icons-material/Add';
 import DeleteIcon from '@mui/icons-material/Delete';
 import TopologyCard from '../components/Home/TopologyCard';
+import SizingWizardDialog from '../components/TopologyBuilder/SizingWizardDialog';
 
 const Home = () => {
   const { 
@@ -37,6 +38,8 @@ const Home = () => {
     setCurrentTopology, 
     createTopology, 
     createTopologyFromTemplate,
+    createTopologyFromConfiguration,
+    defaultConfiguration,
     deleteTopology,
     toggleComparisonTopology,
     comparisonTopologies,
@@ -48,6 +51,7 @@ const Home = () => {
   const [selectedTemplate, setSelectedTemplate] = useState('');
   const [importError, setImportError] = useState('');
   const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [sizingDialogOpen, setSizingDialogOpen] = useState(false);
   const fileInputRef = useRef(null);
 
   // Handle create new topology
@@ -81,6 +85,20 @@ const Home = () => {
     }
   };
 
+  // Handle create from sizing wizard
+  const handleCreateFromSizing = (result, target) => {
+    const endpointLabel = target.targetType === 'gpus'
+      ? `${target.count} GPUs`
+      : `${target.count} servers`;
+    const newTopology = createTopologyFromConfiguration(
+      `Sized Fabric (${endpointLabel})`,
+      `Derived from ${endpointLabel} with ${target.nicsPerServer} x ${target.nicSpeed} NICs per server at ${target.targetOversubscription}:1 oversubscription`,
+      result.configuration
+    );
+    setCurrentTopology(newTopology);
+    setSizingDialogOpen(false);
+  };
+
   // Handle edit topology
   const handleEditTopology = (topology) => {
     setCurrentTopology(topology);
@@ -230,6 +248,15 @@ const Home = () => {
                     secondary="Start with a pre-configured topology template"
                   />
                 </ListItem>
+                <ListItem 
+                  button 
+                  onClick={() => setSizingDialogOpen(true)}
+                >
+                  <ListItemText 
+                    primary="Size From Requirements" 
+                    secondary="Derive a topology from server or GPU counts and oversubscription"
+                  />
+                </ListItem>
                 <ListItem 
                   button 
                   onClick={handleOpenImportDialog}
@@ -328,6 +355,14 @@ const Home = () => {
         </DialogActions>
       </Dialog>
       
+      {/* Sizing Wizard Dialog */}
+      <SizingWizardDialog
+        open={sizingDialogOpen}
+        onClose={() => setSizingDialogOpen(false)}
+        onCreate={handleCreateFromSizing}
+        baseConfig={defaultConfiguration}
+      />
+      
       {/* Template Selection Dialog */}
       <Dialog open={templateDialogOpen} onClose={handleCloseTemplateDialog}>
         <DialogTitle>Create Topology from Template</DialogTitle>
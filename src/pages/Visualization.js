@@ -1,13 +1,22 @@
-import React from 'react';
-import { Box, Typography, Container, Button } from '@mui/material';
+import React, { useState } from 'react';
+import { Box, Typography, Container, Button, Tabs, Tab } from '@mui/material';
 import { Link } from 'react-router-dom';
 import TopologyMetrics from '../components/Visualization/TopologyMetrics';
+import TopologyDiagram from '../components/Visualization/TopologyDiagram';
+import RackLayout from '../components/Visualization/RackLayout';
+import BillOfMaterials from '../components/Visualization/BillOfMaterials';
+import GrowthPlan from '../components/Visualization/GrowthPlan';
+import CablingPlan from '../components/Visualization/CablingPlan';
+import DeviceInventory from '../components/Visualization/DeviceInventory';
+import AddressingPlan from '../components/Visualization/AddressingPlan';
+import NosConfigs from '../components/Visualization/NosConfigs';
 import { useTopology } from '../context/TopologyContext';
 import EditIcon from '@mui/icons-material/Edit';
 import CompareArrowsIcon from '@mui/icons-material/CompareArrows';
 
 const Visualization = () => {
   const { currentTopology, toggleComparisonTopology, comparisonTopologies } = useTopology();
+  const [tabValue, setTabValue] = useState(0);
 
   const handleToggleComparison = () => {
     if (currentTopology) {
@@ -51,7 +60,28 @@ const Visualization = () => {
         <Typography variant="body1" paragraph>
           View detailed metrics and visualizations for your data center network topology. The charts and graphs below provide insights into cost, power usage, latency, oversubscription, and more.
         </Typography>
-        <TopologyMetrics />
+        <Box sx={{ borderBottom: 1, borderColor: 'divider', mb: 3 }}>
+          <Tabs value={tabValue} onChange={(event, newValue) => setTabValue(newValue)} variant="scrollable" scrollButtons="auto">
+            <Tab label="Metrics" />
+            <Tab label="Diagram" />
+            <Tab label="Rack Layout" />
+            <Tab label="Bill of Materials" />
+            <Tab label="Growth" />
+            <Tab label="Cabling Plan" />
+            <Tab label="Inventory" />
+            <Tab label="Addressing" />
+            <Tab label="Configs" />
+          </Tabs>
+        </Box>
+        {tabValue === 0 && <TopologyMetrics />}
+        {tabValue === 1 && <TopologyDiagram />}
+        {tabValue === 2 && <RackLayout />}
+        {tabValue === 3 && <BillOfMaterials />}
+        {tabValue === 4 && <GrowthPlan />}
+        {tabValue === 5 && <CablingPlan />}
+        {tabValue === 6 && <DeviceInventory />}
+        {tabValue === 7 && <AddressingPlan />}
+        {tabValue === 8 && <NosConfigs />}
       </Box>
     </Container>
   );
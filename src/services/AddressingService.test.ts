@@ -0,0 +1,83 @@
+import { getTemplateByName } from '../utils/templates';
+import { Topology } from '../types/topology';
+import { AddressingParameters } from '../types/addressing';
+import { generateAddressPlan } from './AddressingService';
+
+const getTemplate = (name: string): Topology => {
+  const template = getTemplateByName(name);
+  if (!template) {
+    throw new Error(`No template named ${name}`);
+  }
+  return template;
+};
+
+const getPlan = (topology: Topology, addressing: Partial<AddressingParameters> = {}) => {
+  const plan = generateAddressPlan({
+    ...topology,
+    configuration: {
+      ...topology.configuration,
+      addressing: { ...topology.configuration.addressing, ...addressing } as AddressingParameters
+    }
+  });
+  if (!plan) {
+    throw new Error(`No address plan for ${topology.name}`);
+  }
+  return plan;
+};
+
+describe('generateAddressPlan', () => {
+  it('gives every link the next /31, the even address to the upper end', () => {
+    const plan = getPlan(getTemplate('Small Leaf-Spine'));
+    const links = plan.interfaces.filter(entry => entry.cable !== '');
+
+    expect(links.slice(0, 4).map(entry => [entry.key, entry.address, entry.peerAddress])).toEqual([
+      ['leaf-1', '10.1.0.1/31', '10.1.0.0/31'],
+      ['spine-1', '10.1.0.0/31', '10.1.0.1/31'],
+      ['leaf-1', '10.1.0.3/31', '10.1.0.2/31'],
+      ['spine-2', '10.1.0.2/31', '10.1.0.3/31']
+    ]);
+    expect(new Set(links.map(entry => entry.address)).size).toBe(links.length);
+    expect(plan.issues).toEqual([]);
+  });
+
+  it('takes the loopbacks from the start of their pool', () => {
+    const plan = getPlan(getTemplate('Small Leaf-Spine'), { loopbackPool: '192.168.0.0/24' });
+
+    expect(plan.devices.slice(0, 2).map(device => device.loopback)).toEqual(['192.168.0.0/32', '192.168.0.1/32']);
+  });
+
+  it('leaves unnumbered links without addresses', () => {
+    const plan = getPlan(getTemplate('Small Leaf-Spine'), { linkAddressing: 'ipv6-unnumbered' });
+
+    expect(plan.interfaces.filter(entry => entry.cable !== '').every(entry => entry.address === null)).toBe(true);
+    expect(plan.issues).toEqual([]);
+  });
+
+  it('reports a link pool with too few /31s', () => {
+    const plan = getPlan(getTemplate('Medium Leaf-Spine'), { linkPool: '10.1.0.0/28' });
+
+    expect(plan.issues).toEqual(['Link pool 10.1.0.0/28 has 8 /31s for 64 links.']);
+  });
+
+  it('reports the switches left without an ASN when a pool runs out', () => {
+    const plan = getPlan(getTemplate('Medium Leaf-Spine'), { leafAsnPool: { first: 65001, last: 65002 } });
+    const leafs = plan.devices.filter(device => device.role === 'leaf');
+
+    expect(leafs.map(device => device.asn).slice(0, 3)).toEqual([65001, 65002, null]);
+    expect(plan.issues).toEqual(['Leaf ASN pool 65001-65002 runs out: 14 switches have no ASN.']);
+  });
+
+  it('shares one ASN between the spines of a plane', () => {
+    const plan = getPlan(getTemplate('Medium Leaf-Spine'));
+    const spineAsns = plan.devices.filter(device => device.role === 'spine').map(device => device.asn);
+
+    expect(new Set(spineAsns).size).toBe(1);
+  });
+
+  it('does not address the server NIC links of a rail fabric', () => {
+    const plan = getPlan(getTemplate('Rail-Optimized'));
+
+    expect(plan.interfaces.filter(entry => entry.key.startsWith('server-'))).toHaveLength(0);
+    expect(plan.interfaces.filter(entry => entry.cable !== '')).toHaveLength(2 * 1024);
+  });
+});
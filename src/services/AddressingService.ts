@@ -0,0 +1,296 @@
+/**
+ * AddressingService.ts
+ *
+ * This service generates the underlay addressing of a topology: a /32
+ * loopback for every switch, a /31 for every switch-to-switch link of the
+ * cabling plan (each parallel link and breakout lane on its own), and the BGP
+ * ASNs from the pools of the addressing parameters. Leafs get an ASN each or
+ * one per rack; the spines of a pod share one ASN per spine plane and the
+ * super-spines one per plane. Links can be left unnumbered to peer over IPv6
+ * link-local addresses instead.
+ */
+
+import { Topology } from '../types/topology';
+import {
+  AddressingParameters,
+  AddressPlan,
+  AsnPool,
+  DeviceAddressing,
+  InterfaceAddressing
+} from '../types/addressing';
+import { CableEndpoint, CablingPlan } from '../types/cablingPlan';
+import { Inventory } from '../types/inventory';
+import { getSpinePlaneCount, resolveRailFabric } from './CalculationService';
+import { buildInventory } from './InventoryService';
+import { generateCablingPlan, getSwitchLinks } from './CablingPlanService';
+import { formatIpv4, getIpv4Address, parseIpv4Prefix } from '../utils/ipv4';
+import { toCsv, CsvOptions } from '../utils/fileExport';
+
+export const LOOPBACK_INTERFACE = 'Loopback0';
+
+export const DEFAULT_ADDRESSING_PARAMETERS: AddressingParameters = {
+  loopbackPool: '10.0.0.0/16',
+  linkPool: '10.1.0.0/16',
+  linkAddressing: 'ipv4',
+  leafAsnMode: 'per-leaf',
+  // Private 4-byte ASNs (RFC 6996)
+  leafAsnPool: { first: 4200001000, last: 4200099999 },
+  spineAsnPool: { first: 4200000000, last: 4200000999 }
+};
+
+/**
+ * Get the addressing parameters of a topology, falling back to the defaults
+ * @param parameters - The addressing parameters of the topology, if any
+ * @returns The addressing parameters
+ */
+export const getAddressingParameters = (parameters?: Partial<AddressingParameters>): AddressingParameters => ({
+  loopbackPool: parameters?.loopbackPool ?? DEFAULT_ADDRESSING_PARAMETERS.loopbackPool,
+  linkPool: parameters?.linkPool ?? DEFAULT_ADDRESSING_PARAMETERS.linkPool,
+  linkAddressing: parameters?.linkAddressing ?? DEFAULT_ADDRESSING_PARAMETERS.linkAddressing,
+  leafAsnMode: parameters?.leafAsnMode ?? DEFAULT_ADDRESSING_PARAMETERS.leafAsnMode,
+  leafAsnPool: parameters?.leafAsnPool ?? DEFAULT_ADDRESSING_PARAMETERS.leafAsnPool,
+  spineAsnPool: parameters?.spineAsnPool ?? DEFAULT_ADDRESSING_PARAMETERS.spineAsnPool
+});
+
+/**
+ * Get the interface name of a switch port
+ * @param endpoint - A link end
+ * @returns Ethernet49, or Ethernet3/2 for lane 2 of breakout port 3
+ */
+export const getInterfaceName = (endpoint: CableEndpoint): string =>
+  endpoint.lane === null ? `Ethernet${endpoint.port}` : `Ethernet${endpoint.port}/${endpoint.lane}`;
+
+/**
+ * Hand out ASNs from a pool, one per group
+ * @param pool - The ASN pool
+ * @returns Function that returns the ASN of a group, or null once the pool is used up
+ */
+const createAsnAllocator = (pool: AsnPool) => {
+  const assigned = new Map<string, number | null>();
+  return (group: string): number | null => {
+    if (!assigned.has(group)) {
+      const asn = pool.first + assigned.size;
+      assigned.set(group, asn <= pool.last ? asn : null);
+    }
+    return assigned.get(group) ?? null;
+  };
+};
+
+/**
+ * Generate the IP addressing and ASN plan of a topology
+ *
+ * Loopbacks are taken from the start of their pool in inventory order. Each
+ * link takes the next /31 of the link pool: the upper end gets the even
+ * address and the lower end the odd one. The issues of the cabling plan are
+ * repeated, since links on ports a switch does not have cannot be addressed.
+ * @param topology - The topology
+ * @param inventory - Inventory of the topology, when the caller has built it already
+ * @param cablingPlan - Cabling plan built from that inventory, when the caller has built it already
+ * @returns The address plan, or null when the topology has no configuration
+ */
+export const generateAddressPlan = (
+  topology: Topology,
+  inventory: Inventory | null = buildInventory(topology),
+  cablingPlan: CablingPlan | null = generateCablingPlan(topology, inventory)
+): AddressPlan | null => {
+  if (!inventory || !cablingPlan) {
+    return null;
+  }
+
+  const config = resolveRailFabric(topology.configuration);
+  const parameters = getAddressingParameters(config.addressing);
+  const planes = Math.max(1, getSpinePlaneCount(config));
+  const issues: string[] = [...cablingPlan.issues];
+
+  if (inventory.duplicateNames.length > 0) {
+    issues.push(`${inventory.duplicateNames.length} switch name${inventory.duplicateNames.length === 1 ? ' is' : 's are'} used more than once (${inventory.duplicateNames[0]}); the exported plan is keyed by name.`);
+  }
+
+  const loopbackPool = parseIpv4Prefix(parameters.loopbackPool);
+  if (!loopbackPool) {
+    issues.push(`Loopback pool ${parameters.loopbackPool} is not an IPv4 prefix.`);
+  } else if (loopbackPool.size < inventory.devices.length) {
+    issues.push(`Loopback pool ${parameters.loopbackPool} has ${loopbackPool.size} addresses for ${inventory.devices.length} switches.`);
+  }
+
+  // Server NICs of a rail fabric are addressed by the servers, not from the link pool
+  const links = getSwitchLinks(cablingPlan);
+  const numbered = parameters.linkAddressing === 'ipv4';
+  const linkPool = parseIpv4Prefix(parameters.linkPool);
+  if (numbered) {
+    if (!linkPool || linkPool.prefixLength > 31) {
+      issues.push(`Link pool ${parameters.linkPool} is not an IPv4 prefix of /31 or larger.`);
+    } else if (linkPool.size / 2 < links.length) {
+      issues.push(`Link pool ${parameters.linkPool} has ${linkPool.size / 2} /31s for ${links.length} links.`);
+    }
+  }
+
+  // Leafs by leaf or rack, spines by pod and plane, super-spines by tier and plane
+  const leafAsn = createAsnAllocator(parameters.leafAsnPool);
+  const spineAsn = createAsnAllocator(parameters.spineAsnPool);
+  const devices: DeviceAddressing[] = inventory.devices.map((device, index) => {
+    const loopback = loopbackPool ? getIpv4Address(loopbackPool, index) : null;
+    let asn: number | null;
+    if (device.role === 'leaf') {
+      asn = leafAsn(parameters.leafAsnMode === 'per-rack' && device.rack ? `rack-${device.rack}` : device.key);
+    } else if (device.role === 'spine') {
+      asn = spineAsn(`spine-${device.pod}-${(device.member - 1) % planes}`);
+    } else {
+      asn = spineAsn(`super-spine-${device.tier}-${device.pod}`);
+    }
+    return {
+      key: device.key,
+      device: device.name,
+      role: device.role,
+      rack: device.rack,
+      loopback: loopback === null ? null : `${formatIpv4(loopback)}/32`,
+      asn
+    };
+  });
+
+  const asnPools = [
+    { name: 'Leaf', pool: parameters.leafAsnPool, roles: ['leaf'] },
+    { name: 'Spine', pool: parameters.spineAsnPool, roles: ['spine', 'super-spine'] }
+  ];
+  asnPools.forEach(({ name, pool, roles }) => {
+    const missing = devices.filter(device => roles.includes(device.role) && device.asn === null).length;
+    if (missing > 0) {
+      issues.push(`${name} ASN pool ${pool.first}-${pool.last} runs out: ${missing} switch${missing === 1 ? ' has' : 'es have'} no ASN.`);
+    }
+  });
+
+  const byKey = new Map(devices.map(device => [device.key, device]));
+  const interfaces: InterfaceAddressing[] = devices.map(device => ({
+    key: device.key,
+    device: device.device,
+    interface: LOOPBACK_INTERFACE,
+    address: device.loopback,
+    peerDevice: '',
+    peerInterface: '',
+    peerAddress: null,
+    asn: device.asn,
+    peerAsn: null,
+    cable: ''
+  }));
+
+  links.forEach((link, index) => {
+    const subnet = numbered && linkPool && linkPool.prefixLength <= 31 ? getIpv4Address(linkPool, index * 2) : null;
+    const upperAddress = subnet === null ? null : `${formatIpv4(subnet)}/31`;
+    const lowerAddress = subnet === null ? null : `${formatIpv4(subnet + 1)}/31`;
+    const lower = byKey.get(link.a.key);
+    const upper = byKey.get(link.b.key);
+
+    interfaces.push({
+      key: link.a.key,
+      device: link.a.device,
+      interface: getInterfaceName(link.a),
+      address: lowerAddress,
+      peerDevice: link.b.device,
+      peerInterface: getInterfaceName(link.b),
+      peerAddress: upperAddress,
+      asn: lower?.asn ?? null,
+      peerAsn: upper?.asn ?? null,
+      cable: link.cable
+    }, {
+      key: link.b.key,
+      device: link.b.device,
+      interface: getInterfaceName(link.b),
+      address: upperAddress,
+      peerDevice: link.a.device,
+      peerInterface: getInterfaceName(link.a),
+      peerAddress: lowerAddress,
+      asn: upper?.asn ?? null,
+      peerAsn: lower?.asn ?? null,
+      cable: link.cable
+    });
+  });
+
+  return {
+    topology: topology.name,
+    parameters,
+    devices,
+    interfaces,
+    issues
+  };
+};
+
+/**
+ * Format an address plan as JSON, keyed by device and interface
+ * @param plan - The address plan
+ * @returns The JSON text
+ */
+export const formatAddressPlanJson = (plan: AddressPlan): string => {
+  const interfaces = new Map<string, Record<string, object>>();
+  plan.interfaces
+    .filter(entry => entry.interface !== LOOPBACK_INTERFACE)
+    .forEach(entry => {
+      const deviceInterfaces = interfaces.get(entry.device) || {};
+      deviceInterfaces[entry.interface] = {
+        address: entry.address,
+        peer: entry.peerDevice,
+        peerInterface: entry.peerInterface,
+        peerAddress: entry.peerAddress,
+        peerAsn: entry.peerAsn,
+        cable: entry.cable
+      };
+      interfaces.set(entry.device, deviceInterfaces);
+    });
+
+  const devices: Record<string, object> = {};
+  plan.devices.forEach(device => {
+    devices[device.device] = {
+      role: device.role,
+      rack: device.rack,
+      asn: device.asn,
+      loopback: device.loopback,
+      interfaces: interfaces.get(device.device) || {}
+    };
+  });
+
+  return JSON.stringify({
+    topology: plan.topology,
+    linkAddressing: plan.parameters.linkAddressing,
+    devices
+  }, null, 2);
+};
+
+/**
+ * Format an address plan as CSV
+ * @param plan - The address plan
+ * @param options - Output options; excel writes a file Excel opens as UTF-8
+ * @returns The CSV text, one row per interface
+ */
+export const formatAddressPlanCsv = (plan: AddressPlan, options: CsvOptions = {}): string => {
+  const unnumbered = plan.parameters.linkAddressing === 'ipv6-unnumbered';
+  const formatAddress = (address: string | null, link: boolean): string =>
+    address ?? (link && unnumbered ? 'unnumbered' : '');
+
+  return toCsv(
+    ['Device', 'Interface', 'Address', 'ASN', 'Peer Device', 'Peer Interface', 'Peer Address', 'Peer ASN', 'Cable'],
+    plan.interfaces.map(entry => {
+      const link = entry.interface !== LOOPBACK_INTERFACE;
+      return [
+        entry.device,
+        entry.interface,
+        formatAddress(entry.address, link),
+        entry.asn,
+        entry.peerDevice,
+        entry.peerInterface,
+        formatAddress(entry.peerAddress, link),
+        entry.peerAsn,
+        entry.cable
+      ];
+    }),
+    options
+  );
+};
+
+const addressingService = {
+  getAddressingParameters,
+  getInterfaceName,
+  generateAddressPlan,
+  formatAddressPlanJson,
+  formatAddressPlanCsv
+};
+
+export default addressingService;
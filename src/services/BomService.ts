@@ -0,0 +1,198 @@
+/**
+ * BomService.ts
+ *
+ * This service builds the bill of materials of a topology from its metrics and
+ * device selection: switches per role, optics per optic type, cables per
+ * media, harness and length, and the spares of the sparing policy, with net
+ * prices from the pricing profile and the typical power of every line.
+ */
+
+import { Topology } from '../types/topology';
+import { TierRole } from '../types/metrics';
+import { BomLine, BillOfMaterials } from '../types/bom';
+import { calculateAllMetrics, getRoleDevice } from './CalculationService';
+import { getPricingProfile, getNetPrice } from './PricingService';
+import { getCableLineItem } from '../data/cableCatalog';
+import { toCsv, CsvOptions } from '../utils/fileExport';
+
+const roleLabels: Record<TierRole, string> = {
+  leaf: 'Leaf',
+  spine: 'Spine',
+  'super-spine': 'Super-spine'
+};
+
+const GENERIC_MANUFACTURER = 'Generic';
+
+const createLine = (line: Omit<BomLine, 'extendedPrice' | 'power'>): BomLine => ({
+  ...line,
+  extendedPrice: line.quantity * line.unitPrice,
+  power: line.quantity * line.unitPower
+});
+
+/**
+ * Generate the bill of materials of a topology
+ *
+ * Unit prices are net prices in the currency of the pricing profile, so the
+ * lines add up to the total cost of the topology. DAC and AOC ends are listed
+ * with the optics for their power but carry no price: the assembly is priced
+ * on its cable line. Spares sit on the shelf and draw no power.
+ * @param topology - The topology
+ * @returns The bill of materials, or null when the metrics cannot be calculated
+ */
+export const generateBom = (topology: Topology): BillOfMaterials | null => {
+  const metrics = calculateAllMetrics(topology);
+  if (!metrics) {
+    return null;
+  }
+
+  const config = topology.configuration;
+  const pricing = getPricingProfile(config.pricingProfile);
+  const lines: BomLine[] = [];
+
+  // Switches, one line per role
+  const switchTotals: Record<TierRole, { cost: number; power: number }> = {
+    leaf: { cost: metrics.cost.switches.leaf, power: metrics.power.switches.leaf },
+    spine: { cost: metrics.cost.switches.spine, power: metrics.power.switches.spine },
+    'super-spine': { cost: metrics.cost.switches.superSpine, power: metrics.power.switches.superSpine }
+  };
+  (['super-spine', 'spine', 'leaf'] as TierRole[]).forEach(role => {
+    const quantity = metrics.tiers
+      .filter(tier => tier.role === role)
+      .reduce((sum, tier) => sum + tier.devices, 0);
+    if (quantity === 0) {
+      return;
+    }
+
+    const device = getRoleDevice(config, role, config.switchCost.superSpine !== undefined);
+    const tierConfig = role === 'leaf'
+      ? null
+      : role === 'super-spine' ? config.superSpineConfig ?? config.spineConfig : config.spineConfig;
+    const ports = tierConfig
+      ? `${tierConfig.portCount}x${tierConfig.portSpeed}`
+      : `${config.leafConfig.portCount}x${config.leafConfig.downlinkSpeed}`;
+
+    lines.push(createLine({
+      category: 'switches',
+      manufacturer: device?.manufacturer ?? GENERIC_MANUFACTURER,
+      model: device?.model ?? `${ports} switch`,
+      sku: device?.id ?? '',
+      description: `${roleLabels[role]} switch, ${ports}`,
+      quantity,
+      unitPrice: switchTotals[role].cost / quantity,
+      unitPower: switchTotals[role].power / quantity
+    }));
+  });
+
+  // Optics, one line per optic type across all link groups
+  const optics = new Map<string, BomLine>();
+  metrics.optics.forEach(assignment => {
+    const { optic } = assignment;
+    const key = optic ? optic.id : `flat-${assignment.speed}`;
+    const assembly = optic?.reachClass === 'DAC' || optic?.reachClass === 'AOC';
+    const existing = optics.get(key);
+    const quantity = (existing?.quantity ?? 0) + assignment.optics;
+
+    optics.set(key, createLine({
+      category: 'optics',
+      manufacturer: GENERIC_MANUFACTURER,
+      model: optic ? optic.name : `${assignment.speed} optic`,
+      sku: optic ? optic.id : '',
+      description: assembly
+        ? `${optic?.reachClass} assembly end, priced on its cable line`
+        : optic ? `${optic.formFactor} ${optic.reachClass}, ${optic.maxDistance} m reach` : 'Flat-priced optic',
+      quantity,
+      unitPrice: getNetPrice(assignment.unitCost, pricing, 'optics'),
+      unitPower: assignment.unitPower
+    }));
+  });
+  lines.push(...Array.from(optics.values()));
+
+  // Cables, one line per media, harness, speed and length
+  metrics.cabling.lines.forEach(line => {
+    const breakout = line.harness !== '1:1';
+    const item = getCableLineItem(line);
+
+    lines.push(createLine({
+      category: 'cables',
+      manufacturer: GENERIC_MANUFACTURER,
+      model: item.name,
+      sku: item.sku,
+      description: `${line.speed} ${line.media} ${breakout ? 'breakout harness' : 'cable'}`,
+      quantity: line.count,
+      unitPrice: getNetPrice(line.unitCost, pricing, 'cables'),
+      unitPower: 0
+    }));
+  });
+
+  // Spares, one line per spared item
+  metrics.spares.items
+    .filter(item => item.spares > 0)
+    .forEach(item => {
+      lines.push(createLine({
+        category: 'spares',
+        manufacturer: item.manufacturer,
+        model: item.model,
+        sku: item.sku,
+        description: `Spare ${item.category === 'switches' ? 'switch' : item.category === 'optics' ? 'optic' : 'cable'} (${item.installed} installed)`,
+        quantity: item.spares,
+        unitPrice: item.unitPrice,
+        unitPower: 0
+      }));
+    });
+
+  return {
+    topology: topology.name,
+    currency: pricing.currency,
+    lines,
+    totalPrice: lines.reduce((sum, line) => sum + line.extendedPrice, 0),
+    totalPower: lines.reduce((sum, line) => sum + line.power, 0)
+  };
+};
+
+/**
+ * Format a bill of materials as CSV
+ * @param bom - The bill of materials
+ * @param options - Output options; excel writes a file Excel opens as UTF-8
+ * @returns The CSV text
+ */
+export const formatBomCsv = (bom: BillOfMaterials, options: CsvOptions = {}): string => {
+  const round = (value: number): number => Math.round(value * 100) / 100;
+
+  return toCsv(
+    [
+      'Category',
+      'Manufacturer',
+      'Model',
+      'SKU',
+      'Description',
+      'Quantity',
+      `Unit Price (${bom.currency})`,
+      `Extended Price (${bom.currency})`,
+      'Unit Power (W)',
+      'Power (W)'
+    ],
+    [
+      ...bom.lines.map(line => [
+        line.category,
+        line.manufacturer,
+        line.model,
+        line.sku,
+        line.description,
+        line.quantity,
+        round(line.unitPrice),
+        round(line.extendedPrice),
+        round(line.unitPower),
+        round(line.power)
+      ]),
+      ['Total', '', '', '', '', '', '', round(bom.totalPrice), '', round(bom.totalPower)]
+    ],
+    options
+  );
+};
+
+const bomService = {
+  generateBom,
+  formatBomCsv
+};
+
+export default bomService;
@@ -0,0 +1,94 @@
+import { getTemplateByName, templates } from '../utils/templates';
+import { Topology } from '../types/topology';
+import { CableEndpoint } from '../types/cablingPlan';
+import { generateCablingPlan, formatCablingPlanCsv, getSwitchLinks } from './CablingPlanService';
+
+const getTemplate = (name: string): Topology => {
+  const template = getTemplateByName(name);
+  if (!template) {
+    throw new Error(`No template named ${name}`);
+  }
+  return template;
+};
+
+const withConfiguration = (topology: Topology, changes: Partial<Topology['configuration']>): Topology => ({
+  ...topology,
+  configuration: { ...topology.configuration, ...changes }
+});
+
+const getPlan = (topology: Topology) => {
+  const plan = generateCablingPlan(topology);
+  if (!plan) {
+    throw new Error(`No cabling plan for ${topology.name}`);
+  }
+  return plan;
+};
+
+const endpointKey = (endpoint: CableEndpoint) => `${endpoint.key}/${endpoint.port}/${endpoint.lane}`;
+
+describe('generateCablingPlan', () => {
+  it('stripes the uplinks of a leaf across the spines', () => {
+    const plan = getPlan(getTemplate('Medium Leaf-Spine'));
+    const leafLinks = plan.links.filter(link => link.a.key === 'leaf-1');
+
+    expect(leafLinks.map(link => link.b.key)).toEqual(['spine-1', 'spine-2', 'spine-3', 'spine-4']);
+    expect(leafLinks.map(link => link.a.port)).toEqual([45, 46, 47, 48]);
+    expect(leafLinks.every(link => link.b.port === 1 && link.b.lane === null)).toBe(true);
+  });
+
+  it('lands parallel links on a spine only after every spine has one', () => {
+    const plan = getPlan(withConfiguration(getTemplate('Medium Leaf-Spine'), {
+      parallelLinksEnabled: true,
+      parallelLinksMode: 'manual',
+      parallelLinksPerSpine: 2
+    }));
+    const leafLinks = plan.links.filter(link => link.a.key === 'leaf-2');
+
+    expect(leafLinks.map(link => link.b.key)).toEqual([
+      'spine-1', 'spine-2', 'spine-3', 'spine-4', 'spine-1', 'spine-2', 'spine-3', 'spine-4'
+    ]);
+    expect(leafLinks.map(link => link.b.port)).toEqual([3, 3, 3, 3, 4, 4, 4, 4]);
+  });
+
+  it('breaks out the spine ports into lanes that share one cable', () => {
+    const plan = getPlan(getTemplate('High-Density Breakout'));
+    const spineLinks = plan.links.filter(link => link.b.key === 'spine-1');
+
+    expect(spineLinks.slice(0, 5).map(link => [link.b.port, link.b.lane])).toEqual([
+      [1, 1], [1, 2], [1, 3], [1, 4], [2, 1]
+    ]);
+    expect(new Set(spineLinks.slice(0, 4).map(link => link.cable)).size).toBe(1);
+    expect(spineLinks[0].harness).toBe('1:4');
+    expect(plan.cables).toBe(plan.links.length / 4);
+  });
+
+  it.each(templates.map(template => [template.name]))('uses every port and lane of %s once', name => {
+    const plan = getPlan(getTemplate(name));
+    const endpoints = plan.links.flatMap(link => [endpointKey(link.a), endpointKey(link.b)]);
+
+    expect(new Set(endpoints).size).toBe(endpoints.length);
+    expect(plan.issues).toEqual([]);
+    expect(plan.links.every(link => link.issue === null)).toBe(true);
+  });
+
+  it('connects every server NIC of a rail fabric to the leaf of its rail', () => {
+    const plan = getPlan(getTemplate('Rail-Only (Single-Tier)'));
+    const serverLinks = plan.links.filter(link => link.a.role === 'server');
+
+    expect(serverLinks).toHaveLength(384);
+    expect(getSwitchLinks(plan)).toHaveLength(0);
+    expect(serverLinks.filter(link => link.a.key === 'server-2').map(link => [link.a.port, link.b.key, link.b.port]))
+      .toEqual(Array.from({ length: 8 }, (_, nic) => [nic + 1, `leaf-${nic + 1}`, 2]));
+  });
+
+  it('flags links on spine ports that do not exist', () => {
+    const plan = getPlan(withConfiguration(getTemplate('Large Leaf-Spine'), { numLeafs: 512, numSpines: 32 }));
+    const flagged = plan.links.filter(link => link.issue !== null);
+
+    expect(plan.issues).toHaveLength(1);
+    expect(plan.issues[0]).toContain('the spines have 64 ports, but the plan needs 512');
+    expect(flagged.every(link => link.b.port > 64)).toBe(true);
+    expect(flagged).toHaveLength(plan.links.filter(link => link.b.port > 64).length);
+    expect(formatCablingPlanCsv(plan)).toContain('Port 65 does not exist on');
+  });
+});
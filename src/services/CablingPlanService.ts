@@ -0,0 +1,320 @@
+/**
+ * CablingPlanService.ts
+ *
+ * This service turns the tiers of a topology into a port-to-port cabling plan.
+ * Every switch-to-switch link, and in rail fabrics every server NIC link, gets
+ * a device, port and breakout lane at both ends, a cable SKU and a label.
+ * Uplinks are striped across the devices above (a leaf's first uplink port
+ * goes to the first spine of its pod, the next to the second spine, and so
+ * on), so parallel links land on one spine only after every spine has one. Switches are named as in the inventory and racks as in
+ * the rack layout. Servers outside rail fabrics are not planned; they follow
+ * the leaf server ports.
+ */
+
+import { Topology } from '../types/topology';
+import { CableEndpoint, CablingPlan, CablingPlanLink } from '../types/cablingPlan';
+import { Inventory } from '../types/inventory';
+import { RackItemRole } from '../types/layout';
+import {
+  assignOptics,
+  calculateClosTiers,
+  calculateRailMetrics,
+  getBreakoutFactor,
+  getLeafPortAllocation,
+  getPodLayout,
+  getTierBreakoutFactor,
+  resolveRailFabric
+} from './CalculationService';
+import { getLayoutDeviceName, getServerPlacements, getSwitchPlacements, measureCable, Placement } from './RackLayoutService';
+import { buildInventory, getDeviceKey } from './InventoryService';
+import { getCableLineItem, getHarnessByFactor, getLengthBucket } from '../data/cableCatalog';
+import { toCsv, CsvOptions } from '../utils/fileExport';
+
+/**
+ * Format the port of a link end, with the breakout lane after a slash
+ * @param endpoint - The link end
+ * @returns Port such as 49 or 3/2
+ */
+export const formatPort = (endpoint: CableEndpoint): string =>
+  endpoint.lane === null ? String(endpoint.port) : `${endpoint.port}/${endpoint.lane}`;
+
+/**
+ * Get the switch-to-switch links of a cabling plan
+ * @param plan - The cabling plan
+ * @returns The links without the server NIC links of a rail fabric
+ */
+export const getSwitchLinks = (plan: CablingPlan): CablingPlanLink[] =>
+  plan.links.filter(link => link.a.role !== 'server');
+
+/**
+ * Generate the cabling plan of a topology
+ *
+ * Ports are numbered from 1. In rail fabrics every server connects NIC n to
+ * the rail leaf of rail n in its scalable unit, server s of the unit on lane s
+ * of the leaf's server ports. Leafs use their first ports for servers and the
+ * ports after them for uplinks; spines and super-spines take the links from
+ * below on their first ports, broken out into lanes when the tier uses
+ * breakout cables, and their uplinks on the ports after them. All lanes of a
+ * breakout port share one cable, cut to its longest run. Links that land on
+ * a port the switch does not have are kept, flagged with an issue, and
+ * counted in the issues of the plan.
+ * @param topology - The topology
+ * @param inventory - Inventory of the topology, when the caller has built it already
+ * @returns The cabling plan, or null when the topology has no configuration
+ */
+export const generateCablingPlan = (
+  topology: Topology,
+  inventory: Inventory | null = buildInventory(topology)
+): CablingPlan | null => {
+  if (!topology || !topology.configuration || !inventory) {
+    return null;
+  }
+
+  const config = resolveRailFabric(topology.configuration);
+  const names = new Map(inventory.devices.map(device => [device.key, device.name]));
+  const tiers = calculateClosTiers(config);
+  const allocation = getLeafPortAllocation(config);
+  const { leafsPerPod, spinesPerPod } = getPodLayout(config);
+  const planes = Math.max(1, spinesPerPod);
+  const optics = assignOptics(config);
+  const cableLengths = config.latencyParameters.cableLengths || {};
+
+  const placements = getSwitchPlacements(inventory.layout);
+
+  // Super-spines are numbered across their tiers
+  const firstIndex = tiers.map((tier, index) =>
+    tiers.slice(0, index)
+      .filter(below => below.role === tier.role)
+      .reduce((sum, below) => sum + below.devices, 0)
+  );
+  const getPlacement = (tierIndex: number, device: number): Placement | undefined =>
+    placements.get(getLayoutDeviceName(tiers[tierIndex].role, firstIndex[tierIndex] + device));
+
+  const createEndpoint = (tierIndex: number, device: number, port: number, lane: number | null): CableEndpoint => {
+    const { role } = tiers[tierIndex];
+    const index = firstIndex[tierIndex] + device;
+    const key = getDeviceKey(role, index + 1);
+    const placement = getPlacement(tierIndex, device);
+    return {
+      key,
+      device: names.get(key) ?? getLayoutDeviceName(role, index),
+      role,
+      rack: placement?.rack.name ?? '',
+      position: placement?.position ?? 0,
+      port,
+      lane
+    };
+  };
+
+  const links: (Omit<CablingPlanLink, 'cable' | 'length' | 'sku' | 'cableName' | 'label' | 'issue'> & { run: number; portKey: string })[] = [];
+
+  // Server NICs to the rail leafs of their scalable unit
+  const rail = calculateRailMetrics(config);
+  const serverAssignment = optics.find(group => group.linkType === 'server');
+  if (rail && serverAssignment) {
+    const serverPlacements = getServerPlacements(inventory.layout);
+    const factor = getBreakoutFactor(config, allocation.downlinkSpeed, config.leafConfig.breakoutMode);
+    const { harness } = getHarnessByFactor(factor);
+    for (let unit = 0; unit < rail.scalableUnits; unit++) {
+      for (let server = 0; server < rail.serversPerScalableUnit; server++) {
+        const index = unit * rail.serversPerScalableUnit + server;
+        const placementA: Placement | undefined = serverPlacements[index];
+        for (let nic = 0; nic < rail.rails; nic++) {
+          const leaf = unit * rail.rails + nic;
+          const a: CableEndpoint = {
+            key: `server-${index + 1}`,
+            device: `Server ${index + 1}`,
+            role: 'server',
+            rack: placementA?.rack.name ?? '',
+            position: placementA?.position ?? 0,
+            port: nic + 1,
+            lane: null
+          };
+          const b = createEndpoint(0, leaf, Math.floor(server / factor) + 1, factor > 1 ? (server % factor) + 1 : null);
+          const placementB = getPlacement(0, leaf);
+          const measured = placementA && placementB ? measureCable(placementA, placementB) : 0;
+
+          links.push({
+            tier: 0,
+            a,
+            b,
+            speed: serverAssignment.speed,
+            media: serverAssignment.media,
+            harness,
+            run: cableLengths.server ?? measured,
+            portKey: `0/${leaf}/${b.port}`
+          });
+        }
+      }
+    }
+  }
+
+  tiers.slice(0, -1).forEach((tier, tierIndex) => {
+    const upper = tiers[tierIndex + 1];
+    const assignment = optics.find(group => group.linkType === 'uplink' && group.tier === tier.tier);
+    if (!assignment || tier.uplinksPerDevice === 0) {
+      return;
+    }
+
+    const factor = getTierBreakoutFactor(config, upper.role);
+    const { harness } = getHarnessByFactor(factor);
+    const fixedLength = tier.tier === 1 ? cableLengths.leafToSpine : cableLengths.spineToSuperSpine;
+    const firstUplinkPort = tier.role === 'leaf'
+      ? allocation.downlinkPorts
+      : Math.ceil(tier.downlinksPerDevice / getTierBreakoutFactor(config, tier.role));
+    const lanesUsed = new Map<number, number>();
+
+    for (let device = 0; device < tier.devices; device++) {
+      // Leafs connect to the spines of their pod, spines and super-spines to the devices of their plane
+      const targets = tier.role === 'leaf'
+        ? Array.from({ length: spinesPerPod }, (_, spine) => Math.floor(device / Math.max(1, leafsPerPod)) * spinesPerPod + spine)
+        : Array.from({ length: upper.devices }, (_, target) => target).filter(target => target % planes === device % planes);
+      const reachable = targets.filter(target => target < upper.devices);
+      if (reachable.length === 0) {
+        continue;
+      }
+
+      for (let uplink = 0; uplink < tier.uplinksPerDevice; uplink++) {
+        const target = reachable[uplink % reachable.length];
+        const lane = lanesUsed.get(target) || 0;
+        lanesUsed.set(target, lane + 1);
+
+        const a = createEndpoint(tierIndex, device, firstUplinkPort + uplink + 1, null);
+        const b = createEndpoint(tierIndex + 1, target, Math.floor(lane / factor) + 1, factor > 1 ? (lane % factor) + 1 : null);
+        const placementA = getPlacement(tierIndex, device);
+        const placementB = getPlacement(tierIndex + 1, target);
+        const measured = placementA && placementB ? measureCable(placementA, placementB) : 0;
+
+        links.push({
+          tier: tier.tier,
+          a,
+          b,
+          speed: tier.uplinkSpeed,
+          media: assignment.media,
+          harness,
+          run: fixedLength ?? measured,
+          // Names may repeat through overrides, so cables are keyed by tier and device
+          portKey: `${tierIndex + 1}/${target}/${b.port}`
+        });
+      }
+    }
+  });
+
+  // Links past the last port of a device cannot be cabled
+  const portCounts: Record<RackItemRole, number> = {
+    server: rail?.rails ?? 0,
+    leaf: allocation.portCount,
+    spine: config.spineConfig?.portCount || 64,
+    'super-spine': config.superSpineConfig?.portCount ?? (config.spineConfig?.portCount || 64)
+  };
+  const overflows = new Map<string, { tier: number; role: RackItemRole; links: number; lastPort: number }>();
+  const linkIssues = links.map(link => {
+    const end = [link.a, link.b].find(endpoint => endpoint.port > portCounts[endpoint.role]);
+    if (!end) {
+      return null;
+    }
+    const key = `${link.tier}/${end.role}`;
+    const overflow = overflows.get(key) || { tier: link.tier, role: end.role, links: 0, lastPort: 0 };
+    overflow.links++;
+    overflow.lastPort = Math.max(overflow.lastPort, end.port);
+    overflows.set(key, overflow);
+    return `Port ${end.port} does not exist on ${end.device} (${portCounts[end.role]} ports)`;
+  });
+  const issues = Array.from(overflows.values()).map(overflow =>
+    `${overflow.links.toLocaleString()} tier ${overflow.tier} ${overflow.links === 1 ? 'link lands' : 'links land'} on ${overflow.role} ports that do not exist: ` +
+    `the ${overflow.role}s have ${portCounts[overflow.role]} ports, but the plan needs ${overflow.lastPort}.`
+  );
+
+  // The lanes of a breakout port share one cable, long enough for the farthest lane
+  const cables = new Map<string, { number: number; length: number }>();
+  const linkCables = links.map(link => {
+    const cable = cables.get(link.portKey) || { number: cables.size + 1, length: 0 };
+    cable.length = Math.max(cable.length, link.run);
+    cables.set(link.portKey, cable);
+    return cable;
+  });
+  const idWidth = Math.max(4, String(cables.size).length);
+
+  return {
+    topology: topology.name,
+    links: links.map(({ run, portKey, ...link }, index) => {
+      const cable = `C${String(linkCables[index].number).padStart(idWidth, '0')}`;
+      const length = getLengthBucket(linkCables[index].length);
+      const item = getCableLineItem({ media: link.media, speed: link.speed, harness: link.harness, length });
+      return {
+        ...link,
+        cable,
+        length,
+        sku: item.sku,
+        cableName: item.name,
+        label: `${cable} ${link.a.device} P${formatPort(link.a)} - ${link.b.device} P${formatPort(link.b)}`,
+        issue: linkIssues[index]
+      };
+    }),
+    cables: cables.size,
+    issues
+  };
+};
+
+/**
+ * Format a cabling plan as CSV
+ * @param plan - The cabling plan
+ * @param options - Output options; excel writes a file Excel opens as UTF-8
+ * @returns The CSV text, one row per link
+ */
+export const formatCablingPlanCsv = (plan: CablingPlan, options: CsvOptions = {}): string => {
+  const endpointColumns = (endpoint: CableEndpoint) => [
+    endpoint.device,
+    endpoint.rack,
+    endpoint.position || '',
+    endpoint.port,
+    endpoint.lane ?? ''
+  ];
+
+  return toCsv(
+    [
+      'Cable',
+      'Label',
+      'A Device',
+      'A Rack',
+      'A U',
+      'A Port',
+      'A Lane',
+      'B Device',
+      'B Rack',
+      'B U',
+      'B Port',
+      'B Lane',
+      'Speed',
+      'Media',
+      'Harness',
+      'Length (m)',
+      'SKU',
+      'Description',
+      'Issue'
+    ],
+    plan.links.map(link => [
+      link.cable,
+      link.label,
+      ...endpointColumns(link.a),
+      ...endpointColumns(link.b),
+      link.speed,
+      link.media,
+      link.harness,
+      link.length,
+      link.sku,
+      link.cableName,
+      link.issue ?? ''
+    ]),
+    options
+  );
+};
+
+const cablingPlanService = {
+  generateCablingPlan,
+  formatCablingPlanCsv,
+  formatPort,
+  getSwitchLinks
+};
+
+export default cablingPlanService;
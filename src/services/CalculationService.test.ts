@@ -0,0 +1,59 @@
+import { templates } from '../utils/templates';
+import { calculateOversubscription } from './CalculationService';
+
+const getTemplateConfig = (name: string) => {
+  const template = templates.find(entry => entry.name === name);
+  if (!template) {
+    throw new Error(`No template named ${name}`);
+  }
+  return template.configuration;
+};
+
+describe('calculateOversubscription', () => {
+  it.each([
+    ['Small Leaf-Spine', 1150, 800, '1.44'],
+    ['Medium Leaf-Spine', 4400, 1600, '2.75'],
+    ['Large Leaf-Spine', 5600, 6400, '0.88'],
+    ['3-Tier Clos', 6000, 3200, '1.88'],
+    ['High-Density Breakout', 4400, 800, '5.50'],
+    ['Disjointed Spines', 4400, 1600, '2.75'],
+    ['Rail-Optimized', 12800, 12800, '1.00']
+  ])('divides the downlink by the uplink capacity of a %s leaf', (name, downlink, uplink, ratio) => {
+    const result = calculateOversubscription(getTemplateConfig(name));
+
+    expect(result.downlinkCapacityPerLeaf).toBe(downlink);
+    expect(result.uplinkCapacityPerLeaf).toBe(uplink);
+    expect(result.ratioValue).toBeCloseTo(downlink / uplink);
+    expect(result.ratio).toBe(ratio);
+  });
+
+  it('does not apply to a fabric without spines', () => {
+    const result = calculateOversubscription(getTemplateConfig('Rail-Only (Single-Tier)'));
+
+    expect(result.uplinkCapacityPerLeaf).toBe(0);
+    expect(result.downlinkCapacityPerLeaf).toBe(4800);
+    expect(result.ratioValue).toBe(0);
+    expect(result.ratio).toBe('N/A');
+  });
+
+  it('counts the lanes of broken-out spine ports at the lane speed', () => {
+    const { uplink } = calculateOversubscription(getTemplateConfig('Rail-Optimized')).explanation;
+
+    expect(uplink.ports).toBe(32);
+    expect(uplink.laneSpeedGbps).toBe(400);
+    expect(uplink.capacityGbps).toBe(32 * 400);
+  });
+
+  it('adds the uplinks of parallel links to every spine', () => {
+    const config = getTemplateConfig('Medium Leaf-Spine');
+    const result = calculateOversubscription({
+      ...config,
+      parallelLinksEnabled: true,
+      parallelLinksMode: 'manual',
+      parallelLinksPerSpine: 2
+    });
+
+    expect(result.uplinkPortsPerLeaf).toBe(8);
+    expect(result.uplinkCapacityPerLeaf).toBe(8 * 400);
+  });
+});
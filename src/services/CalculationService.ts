@@ -10,27 +10,236 @@ import {
   BreakoutOptions, 
   BreakoutOption,
   LinkType,
-  BreakoutOptionLegacy
+  BreakoutOptionLegacy,
+  RailConfig
 } from '../types/topology';
 
+import { SwitchingMode, Device } from '../types/devices';
+import { Optic, OpticAssignment } from '../types/optics';
+import { CableMedia, BreakoutHarness, CableLine } from '../types/cables';
+import { RackLayout, RackLayoutCableRuns, RackDeviceProfile, RackItemRole, CableRun } from '../types/layout';
+import { TcoMetrics } from '../types/tco';
+import { PriceTotals, PricingProfile } from '../types/pricing';
+import { SpareItem, SparesMetrics, SparesPolicy } from '../types/spares';
+import { getDeviceById } from '../data/deviceCatalog';
+import { getOpticById, getOpticsBySpeed } from '../data/opticsCatalog';
+import { getCableType, getHarnessByFactor, getLengthBucket, getCableLineItem, mediaByReachClass } from '../data/cableCatalog';
+import { planRackLayout, getRackLayoutParameters, summariseCableRuns, BTU_PER_WATT } from './RackLayoutService';
+import { projectTco, getTcoParameters } from './TcoService';
+import { getPricingProfile, getNetPrice, convertPrice } from './PricingService';
+import { getSparesPolicy, getSpareRule, getSpareQuantity } from './SparesService';
+
 import { 
   DeviceCount, 
   CostBreakdown, 
   PowerBreakdown, 
   LatencyMetrics, 
+  LatencyPath,
+  CableLengthRange,
+  TierCableLengths,
   OversubscriptionMetrics,
   RackSpaceMetrics,
+  RackPowerStatus,
+  RackConstraint,
+  RackPowerMetrics,
   CablingMetrics,
+  PortAllocation,
+  LinkCapacity,
+  ClosTier,
+  TierRole,
+  TierCost,
+  TierCount,
+  RailMetrics,
+  FailureType,
+  SpinePlane,
+  SpinePlaneMetrics,
+  FailureScenario,
+  ResiliencyMetrics,
+  HeadroomLimit,
+  HeadroomMetrics,
+  HeadroomResource,
+  ThroughputMetrics,
   TopologyMetrics,
   ComparisonResult
 } from '../types/metrics';
 
+/**
+ * Parse a speed string into Gbps (e.g., '400G' -> 400)
+ * @param speed - The speed string
+ * @param fallback - Value returned when the string cannot be parsed
+ * @returns Speed in Gbps
+ */
+export const parseSpeedGbps = (speed: string | undefined, fallback = 0): number => {
+  const match = speed?.match(/\d+/);
+  return match ? parseInt(match[0]) : fallback;
+};
+
+/**
+ * Get the link speed of a spine port after breakout (e.g., '4x100G' -> '100G')
+ * @param config - The topology configuration
+ * @returns Speed of a single spine-to-leaf link
+ */
+const getSpineLinkSpeed = (config: TopologyConfiguration): string => {
+  const portSpeed = config.spineConfig?.portSpeed || '800G';
+  const linkSpeedMatch = config.spineConfig?.breakoutMode?.match(/\d+x(\d+G)/);
+  return linkSpeedMatch ? linkSpeedMatch[1] : portSpeed;
+};
+
+/**
+ * Look up the breakout factor for a port speed and breakout mode
+ * @param config - The topology configuration
+ * @param portSpeed - The physical port speed (e.g., '800G')
+ * @param breakoutMode - The breakout mode (e.g., '4x200G')
+ * @returns Number of logical links per physical port
+ */
+export const getBreakoutFactor = (config: TopologyConfiguration, portSpeed: string, breakoutMode?: string): number => {
+  if (!breakoutMode) {
+    return 1;
+  }
+  
+  if (config.breakoutOptions && typeof config.breakoutOptions === 'object' && !Array.isArray(config.breakoutOptions)) {
+    const options = config.breakoutOptions as BreakoutOptions;
+    const breakoutOption = options[portSpeed]?.find(
+      (option: BreakoutOption) => option.type === breakoutMode
+    );
+    
+    if (breakoutOption) {
+      return breakoutOption.factor;
+    }
+  }
+  
+  // Fall back to the mode string itself (e.g., '4x100G' -> 4)
+  const factorMatch = breakoutMode.match(/^(\d+)x/);
+  return factorMatch ? parseInt(factorMatch[1]) : 1;
+};
+
+/**
+ * Check whether the topology is a rail fabric
+ * 
+ * Rail-optimized topologies and single-tier (Rail-Only) topologies both connect
+ * each server NIC to the leaf of its rail.
+ * @param config - The topology configuration
+ * @returns True when the rail model applies
+ */
+export const isRailFabric = (config: TopologyConfiguration): boolean =>
+  config.railOptimized || (config.numTiers === 1 && config.numSpines === 0);
+
+/**
+ * Get the rail configuration with defaults applied
+ * @param config - The topology configuration
+ * @returns The rail configuration
+ */
+export const getRailConfig = (config: TopologyConfiguration): RailConfig => ({
+  gpusPerServer: 8,
+  nicsPerServer: 8,
+  // Only rail-optimized fabrics keep their spines; Rail-Only fabrics have none
+  spineInterconnect: config.railOptimized && config.numSpines > 0,
+  ...config.railConfig
+});
+
+/**
+ * Derive the leaf layout of a rail fabric from its rail configuration
+ * 
+ * Each scalable unit has one rail leaf per NIC, and every rail leaf connects to
+ * one NIC of every server in its scalable unit. The returned configuration has
+ * numLeafs, numSpines, numTiers and the leaf downlink ports set accordingly; it
+ * is returned unchanged for non-rail topologies. Resolving twice is a no-op.
+ * @param config - The topology configuration
+ * @returns The configuration with the rail layout applied
+ */
+export const resolveRailFabric = (config: TopologyConfiguration): TopologyConfiguration => {
+  if (!isRailFabric(config)) {
+    return config;
+  }
+  
+  const rail = getRailConfig(config);
+  const rails = Math.max(1, rail.nicsPerServer);
+  const scalableUnits = Math.max(1, rail.scalableUnits || Math.ceil(config.numLeafs / rails));
+  
+  // Without an explicit size, a scalable unit fills the rail leaf downlinks
+  const leafPortCount = config.leafConfig?.portCount || 48;
+  const downlinkSpeed = config.leafConfig?.downlinkSpeed || '100G';
+  const leafBreakoutFactor = getBreakoutFactor(config, downlinkSpeed, config.leafConfig?.breakoutMode);
+  const reservedUplinks = rail.spineInterconnect
+    ? config.leafConfig?.uplinkPorts ?? Math.floor(leafPortCount / 2)
+    : 0;
+  const serversPerScalableUnit = Math.max(1, rail.serversPerScalableUnit ||
+    (config.leafConfig?.downlinkPorts ?? leafPortCount - reservedUplinks) * leafBreakoutFactor);
+  
+  return {
+    ...config,
+    numLeafs: scalableUnits * rails,
+    numSpines: rail.spineInterconnect ? Math.max(1, config.numSpines) : 0,
+    numTiers: rail.spineInterconnect ? Math.max(2, config.numTiers) : 1,
+    leafConfig: {
+      ...config.leafConfig,
+      downlinkPorts: Math.ceil(serversPerScalableUnit / leafBreakoutFactor)
+    }
+  };
+};
+
+/**
+ * Resolve the pod layout of the fabric
+ * 
+ * Two-tier fabrics are a single pod in which every leaf connects to every spine.
+ * For N-tier fabrics the leafs are grouped into pods and each leaf only connects
+ * to the spines of its own pod.
+ * @param config - The topology configuration
+ * @returns Pod count, pod size and spines per pod
+ */
+export const getPodLayout = (config: TopologyConfiguration): { pods: number; leafsPerPod: number; spinesPerPod: number } => {
+  const { numSpines, numLeafs, numTiers } = config;
+  
+  if (numTiers < 3 || numSpines === 0) {
+    return { pods: 1, leafsPerPod: numLeafs, spinesPerPod: numSpines };
+  }
+  
+  // By default a spine uses half of its lanes toward the leafs of its pod
+  const spinePortSpeed = config.spineConfig?.portSpeed || '800G';
+  const spineLanes = (config.spineConfig?.portCount || 64) *
+    getBreakoutFactor(config, spinePortSpeed, config.spineConfig?.breakoutMode);
+  const defaultLeafsPerPod = Math.max(1, Math.floor(spineLanes / 2));
+  
+  const leafsPerPod = Math.max(1, Math.min(numLeafs, config.podConfig?.leafsPerPod || defaultLeafsPerPod));
+  const pods = Math.max(1, Math.ceil(numLeafs / leafsPerPod));
+  const spinesPerPod = Math.max(1, config.podConfig?.spinesPerPod || Math.ceil(numSpines / pods));
+  
+  return { pods, leafsPerPod, spinesPerPod };
+};
+
+/**
+ * Get the number of leaf ports reserved for spine uplinks
+ * @param config - The topology configuration
+ * @returns Uplink port budget per leaf
+ */
+const getUplinkPortBudget = (config: TopologyConfiguration): number => {
+  const { leafConfig } = config;
+  const leafPortCount = leafConfig?.portCount || 48;
+  
+  // Explicit allocation always wins
+  if (leafConfig?.uplinkPorts !== undefined) {
+    return leafConfig.uplinkPorts;
+  }
+  if (leafConfig?.downlinkPorts !== undefined) {
+    return Math.max(0, leafPortCount - leafConfig.downlinkPorts);
+  }
+  
+  // Without an explicit plan, auto parallel links may use half of the leaf ports
+  if (config.parallelLinksEnabled && !(config.parallelLinksMode === 'manual' && config.parallelLinksPerSpine)) {
+    return Math.floor(leafPortCount / 2);
+  }
+  
+  // Otherwise reserve exactly what the spine layout needs
+  const linksPerSpine = config.parallelLinksEnabled ? config.parallelLinksPerSpine || 1 : 1;
+  return getPodLayout(config).spinesPerPod * linksPerSpine;
+};
+
 /**
  * Helper function to calculate parallel links per spine
  * @param config - The topology configuration
  * @returns Number of parallel links per spine
  */
-const getParallelLinksPerSpine = (config: TopologyConfiguration): number => {
+export const getParallelLinksPerSpine = (config: TopologyConfiguration): number => {
   // If parallel links feature is not enabled, return 1 (single link)
   if (!config.parallelLinksEnabled) {
     return 1;
@@ -51,28 +260,115 @@ const getParallelLinksPerSpine = (config: TopologyConfiguration): number => {
  * @returns Optimal number of parallel links per spine
  */
 const calculateAutoParallelLinks = (config: TopologyConfiguration): number => {
-  const { numSpines, leafConfig } = config;
+  const { spinesPerPod } = getPodLayout(config);
   
   // If no spines, return 1 (not applicable)
-  if (numSpines === 0) {
+  if (spinesPerPod === 0) {
     return 1;
   }
   
-  // Calculate available uplink ports on leaf switches
-  const leafPortCount = leafConfig?.portCount || 48;
-  
-  // Estimate downlink ports used (simplified calculation)
-  // In a real scenario, this would be more sophisticated
-  const estimatedDownlinkPorts = Math.floor(leafPortCount * 0.5); // Assume 50% for downlinks
-  const availableUplinkPorts = leafPortCount - estimatedDownlinkPorts;
-  
-  // Calculate maximum parallel links that fit
-  const maxParallelLinks = Math.floor(availableUplinkPorts / numSpines);
+  // Spread the reserved uplink ports evenly across the spines each leaf connects to
+  const maxParallelLinks = Math.floor(getUplinkPortBudget(config) / spinesPerPod);
   
   // Ensure at least 1 link per spine
   return Math.max(1, maxParallelLinks);
 };
 
+/**
+ * Resolve the per-leaf port allocation used by every calculator
+ * @param config - The topology configuration
+ * @returns The leaf port allocation
+ */
+export const getLeafPortAllocation = (topologyConfig: TopologyConfiguration): PortAllocation => {
+  const config = resolveRailFabric(topologyConfig);
+  const { leafConfig } = config;
+  const portCount = leafConfig?.portCount || 48;
+  
+  // Each leaf connects to every spine of its pod
+  const spinesPerLeaf = getPodLayout(config).spinesPerPod;
+  const uplinkPorts = getUplinkPortBudget(config);
+  const linksPerSpine = spinesPerLeaf > 0 ? getParallelLinksPerSpine(config) : 0;
+  const uplinkPortsUsed = spinesPerLeaf * linksPerSpine;
+  
+  // Downlinks get whatever the uplinks do not reserve unless set explicitly
+  const downlinkPorts = leafConfig?.downlinkPorts !== undefined
+    ? leafConfig.downlinkPorts
+    : Math.max(0, portCount - Math.max(uplinkPorts, uplinkPortsUsed));
+  
+  return {
+    portCount,
+    uplinkPorts,
+    uplinkPortsUsed,
+    uplinkSpeed: leafConfig?.uplinkSpeed || getSpineLinkSpeed(config),
+    downlinkPorts,
+    downlinkSpeed: leafConfig?.downlinkSpeed || '100G',
+    unallocatedPorts: portCount - Math.max(uplinkPorts, uplinkPortsUsed) - downlinkPorts,
+    spinesPerLeaf,
+    linksPerSpine,
+    explicit: leafConfig?.uplinkPorts !== undefined || leafConfig?.downlinkPorts !== undefined
+  };
+};
+
+/**
+ * Get the lanes of one spine or super-spine
+ * 
+ * Super-spines default to the spine configuration.
+ * @param config - The topology configuration
+ * @param role - Role of the tier
+ * @returns Ports, breakout factor and the lanes they give
+ */
+const getTierLanes = (config: TopologyConfiguration, role: TierRole): { ports: number; factor: number; lanes: number } => {
+  const tierConfig = role === 'super-spine' && config.superSpineConfig
+    ? config.superSpineConfig
+    : {
+      portCount: config.spineConfig?.portCount || 64,
+      portSpeed: config.spineConfig?.portSpeed || '800G',
+      breakoutMode: config.spineConfig?.breakoutMode
+    };
+  const factor = getBreakoutFactor(config, tierConfig.portSpeed, tierConfig.breakoutMode);
+  return { ports: tierConfig.portCount, factor, lanes: tierConfig.portCount * factor };
+};
+
+/**
+ * Validate the port allocation of the leafs and of the tiers above them
+ * 
+ * Every link from below needs a lane on the spine or super-spine it lands on.
+ * @param config - The topology configuration
+ * @returns Validation result with error message if invalid
+ */
+export const validatePortAllocation = (config: TopologyConfiguration): { valid: boolean; error?: string } => {
+  const allocation = getLeafPortAllocation(config);
+  
+  if (allocation.uplinkPortsUsed > allocation.uplinkPorts) {
+    return {
+      valid: false,
+      error: `Spine links require ${allocation.uplinkPortsUsed} uplink ports per leaf, but only ${allocation.uplinkPorts} are reserved`
+    };
+  }
+  
+  if (allocation.unallocatedPorts < 0) {
+    return {
+      valid: false,
+      error: `Port allocation uses ${allocation.portCount - allocation.unallocatedPorts} ports per leaf, but only ${allocation.portCount} ports available`
+    };
+  }
+  
+  const tiers = calculateClosTiers(config);
+  for (let index = 1; index < tiers.length; index++) {
+    const tier = tiers[index];
+    const { ports, factor, lanes } = getTierLanes(config, tier.role);
+    if (tier.downlinksPerDevice > lanes) {
+      const role = tier.role === 'spine' ? 'spine' : `tier ${tier.tier} super-spine`;
+      return {
+        valid: false,
+        error: `Each ${role} needs ${tier.downlinksPerDevice} lanes for the ${tiers[index - 1].role}s below it, but its ${ports} ports${factor > 1 ? ` broken out ${factor} ways` : ''} give only ${lanes}`
+      };
+    }
+  }
+  
+  return { valid: true };
+};
+
 /**
  * Validate parallel links configuration
  * @param config - The topology configuration
@@ -83,18 +379,181 @@ export const validateParallelLinks = (config: TopologyConfiguration): { valid: b
     return { valid: true };
   }
   
-  const parallelLinks = getParallelLinksPerSpine(config);
-  const totalUplinksNeeded = parallelLinks * config.numSpines;
-  const leafPortCount = config.leafConfig?.portCount || 48;
+  const { uplinkPortsUsed, uplinkPorts, portCount } = getLeafPortAllocation(config);
+  
+  if (uplinkPortsUsed > portCount) {
+    return {
+      valid: false,
+      error: `Parallel links require ${uplinkPortsUsed} uplink ports per leaf, but only ${portCount} ports available`
+    };
+  }
+  
+  if (uplinkPortsUsed > uplinkPorts) {
+    return {
+      valid: false,
+      error: `Parallel links require ${uplinkPortsUsed} uplink ports per leaf, but only ${uplinkPorts} are reserved for uplinks`
+    };
+  }
+  
+  return { valid: true };
+};
+
+/**
+ * Calculate the tiers of the Clos fabric
+ * 
+ * Tier 1 holds the leafs and tier 2 the spines. For numTiers >= 3 every further
+ * tier is built from the super-spine configuration: the spines of all pods are
+ * grouped into planes (one per spine position in a pod) and each plane gets its
+ * own set of super-spines. Intermediate tiers split their lanes evenly between
+ * downlinks and uplinks; the top tier uses every lane as a downlink.
+ * @param config - The topology configuration
+ * @returns Array of tiers, from the leafs upward
+ */
+export const calculateClosTiers = (topologyConfig: TopologyConfiguration): ClosTier[] => {
+  const config = resolveRailFabric(topologyConfig);
+  const { numLeafs, numTiers } = config;
+  const allocation = getLeafPortAllocation(config);
+  const oversubscription = calculateOversubscription(config);
+  const { pods, leafsPerPod, spinesPerPod } = getPodLayout(config);
+  const leafLinkGbps = oversubscription.explanation.uplink.laneSpeedGbps;
+  
+  // For single-tier (Rail-Only) topologies, the rail leafs are not connected to each other
+  if (numTiers === 1 && config.numSpines === 0) {
+    return [{
+      tier: 1,
+      role: 'leaf',
+      devices: numLeafs,
+      pods: 1,
+      downlinksPerDevice: oversubscription.explanation.downlink.lanes,
+      uplinksPerDevice: 0,
+      uplinkSpeed: allocation.downlinkSpeed,
+      uplinks: 0,
+      oversubscription: 0
+    }];
+  }
+  
+  const tiers: ClosTier[] = [{
+    tier: 1,
+    role: 'leaf',
+    devices: numLeafs,
+    pods,
+    downlinksPerDevice: oversubscription.explanation.downlink.lanes,
+    uplinksPerDevice: allocation.uplinkPortsUsed,
+    uplinkSpeed: `${leafLinkGbps}G`,
+    uplinks: numLeafs * allocation.uplinkPortsUsed,
+    oversubscription: oversubscription.ratioValue
+  }];
+  
+  // ---- SPINE TIER ----
+  const spineDevices = numTiers >= 3 ? pods * spinesPerPod : config.numSpines;
+  const spineDownlinks = leafsPerPod * allocation.linksPerSpine;
+  const spinePortSpeed = config.spineConfig?.portSpeed || '800G';
+  const spineLanes = (config.spineConfig?.portCount || 64) *
+    getBreakoutFactor(config, spinePortSpeed, config.spineConfig?.breakoutMode);
+  
+  // Super-spines default to the spine configuration
+  const superSpineCfg = config.superSpineConfig ?? {
+    portCount: config.spineConfig?.portCount || 64,
+    portSpeed: spinePortSpeed,
+    breakoutMode: config.spineConfig?.breakoutMode || `1x${spinePortSpeed}`
+  };
+  const superSpineLanes = superSpineCfg.portCount *
+    getBreakoutFactor(config, superSpineCfg.portSpeed, superSpineCfg.breakoutMode);
+  const superSpineLaneMatch = superSpineCfg.breakoutMode.match(/\d+x(\d+G)/);
+  const superSpineLaneGbps = parseSpeedGbps(superSpineLaneMatch ? superSpineLaneMatch[1] : superSpineCfg.portSpeed);
+  
+  // Spines keep the fabric non-blocking by sending as many lanes up as they receive
+  const spineUplinks = numTiers >= 3 ? Math.max(0, Math.min(spineDownlinks, spineLanes - spineDownlinks)) : 0;
+  const spineUplinkGbps = Math.min(parseSpeedGbps(getSpineLinkSpeed(config)), superSpineLaneGbps);
+  
+  tiers.push({
+    tier: 2,
+    role: 'spine',
+    devices: spineDevices,
+    pods,
+    downlinksPerDevice: spineDownlinks,
+    uplinksPerDevice: spineUplinks,
+    uplinkSpeed: `${spineUplinkGbps}G`,
+    uplinks: spineDevices * spineUplinks,
+    oversubscription: spineUplinks > 0 ? (spineDownlinks * leafLinkGbps) / (spineUplinks * spineUplinkGbps) : 0
+  });
+  
+  // ---- SUPER-SPINE TIERS ----
+  for (let tier = 3; tier <= numTiers; tier++) {
+    const below = tiers[tiers.length - 1];
+    const belowGbps = parseSpeedGbps(below.uplinkSpeed);
+    const isTop = tier === numTiers;
+    const downlinkLanes = isTop ? superSpineLanes : Math.floor(superSpineLanes / 2);
+    
+    // Each plane serves one spine position of every pod
+    const planes = spinesPerPod;
+    const linksPerPlane = below.uplinks / planes;
+    let devicesPerPlane = Math.max(1, Math.ceil(linksPerPlane / Math.max(1, downlinkLanes)));
+    if (tier === 3 && superSpineCfg.count) {
+      devicesPerPlane = Math.max(1, Math.ceil(superSpineCfg.count / planes));
+    }
+    
+    const devices = devicesPerPlane * planes;
+    const downlinksPerDevice = Math.ceil(below.uplinks / devices);
+    const uplinksPerDevice = isTop ? 0 : Math.max(0, Math.min(downlinksPerDevice, superSpineLanes - downlinksPerDevice));
+    
+    tiers.push({
+      tier,
+      role: 'super-spine',
+      devices,
+      pods: planes,
+      downlinksPerDevice,
+      uplinksPerDevice,
+      uplinkSpeed: `${superSpineLaneGbps}G`,
+      uplinks: devices * uplinksPerDevice,
+      oversubscription: uplinksPerDevice > 0
+        ? (downlinksPerDevice * belowGbps) / (uplinksPerDevice * superSpineLaneGbps)
+        : 0
+    });
+  }
+  
+  return tiers;
+};
+
+/**
+ * Validate the Clos tier layout against the port radix of each tier
+ * @param config - The topology configuration
+ * @returns Validation result with error message if invalid
+ */
+export const validateClosTiers = (config: TopologyConfiguration): { valid: boolean; error?: string } => {
+  if (config.numTiers < 3) {
+    return { valid: true };
+  }
+  
+  const tiers = calculateClosTiers(config);
+  const spinePortSpeed = config.spineConfig?.portSpeed || '800G';
+  const spineLanes = (config.spineConfig?.portCount || 64) *
+    getBreakoutFactor(config, spinePortSpeed, config.spineConfig?.breakoutMode);
+  const spineTier = tiers.find(tier => tier.role === 'spine');
   
-  // Simple validation - in reality, this would account for downlink port usage
-  if (totalUplinksNeeded > leafPortCount) {
+  if (spineTier && spineTier.downlinksPerDevice >= spineLanes) {
     return {
       valid: false,
-      error: `Parallel links require ${totalUplinksNeeded} uplink ports per leaf, but only ${leafPortCount} ports available`
+      error: `Pods need ${spineTier.downlinksPerDevice} leaf links per spine, leaving no spine lanes for super-spine uplinks (${spineLanes} available)`
     };
   }
   
+  const superSpineCfg = config.superSpineConfig;
+  if (superSpineCfg) {
+    const superSpineLanes = superSpineCfg.portCount *
+      getBreakoutFactor(config, superSpineCfg.portSpeed, superSpineCfg.breakoutMode);
+    const overloaded = tiers.find(tier =>
+      tier.role === 'super-spine' && tier.downlinksPerDevice + tier.uplinksPerDevice > superSpineLanes
+    );
+    
+    if (overloaded) {
+      return {
+        valid: false,
+        error: `Tier ${overloaded.tier} super-spines need ${overloaded.downlinksPerDevice + overloaded.uplinksPerDevice} lanes, but only ${superSpineLanes} are available`
+      };
+    }
+  }
+  
   return { valid: true };
 };
 
@@ -108,16 +567,27 @@ export const calculateAllMetrics = (topology: Topology): TopologyMetrics | null
     return null;
   }
 
-  const config = topology.configuration;
+  const config = resolveRailFabric(topology.configuration);
   
   return {
+    portAllocation: getLeafPortAllocation(config),
+    tiers: calculateClosTiers(config),
     deviceCount: calculateDeviceCount(config),
     cost: calculateCost(config),
+    spares: calculateSpares(config),
     power: calculatePowerUsage(config),
     latency: calculateLatency(config),
     oversubscription: calculateOversubscription(config),
     rackSpace: calculateRackSpace(config),
-    cabling: calculateCabling(config)
+    rackPower: calculateRackPower(config),
+    cabling: calculateCabling(config),
+    rail: calculateRailMetrics(config),
+    spinePlanes: calculateSpinePlanes(config),
+    resiliency: calculateResiliency(config),
+    headroom: calculateHeadroom(config),
+    throughput: calculateThroughput(config),
+    optics: assignOptics(config),
+    tco: calculateTco(config)
   };
 };
 
@@ -127,526 +597,928 @@ export const calculateAllMetrics = (topology: Topology): TopologyMetrics | null
  * @returns Object containing device counts
  */
 export const calculateDeviceCount = (config: TopologyConfiguration): DeviceCount => {
-  const { numSpines, numLeafs } = config;
+  const tiers = calculateClosTiers(config);
   
-  const totalSwitches = numSpines + numLeafs;
+  const countByRole = (role: TierRole): number =>
+    tiers.filter(tier => tier.role === role).reduce((sum, tier) => sum + tier.devices, 0);
   
   return {
-    spines: numSpines,
-    leafs: numLeafs,
-    total: totalSwitches
+    spines: countByRole('spine'),
+    leafs: countByRole('leaf'),
+    superSpines: countByRole('super-spine'),
+    total: tiers.reduce((sum, tier) => sum + tier.devices, 0),
+    spares: getSwitchSpareItems(config).reduce((sum, item) => sum + item.spares, 0),
+    tiers: tiers.map(tier => ({ tier: tier.tier, role: tier.role, count: tier.devices }))
   };
 };
 
+// Cable media assumed for flat-priced optics, by cable length
+const DAC_MAX_LENGTH_M = 3;
+const MMF_MAX_LENGTH_M = 100;
+
 /**
- * Calculate the total cost of the topology
- * @param config - The topology configuration
- * @returns Object containing cost breakdown
+ * Get the cost and weight of one cable
+ * @param media - The cable media
+ * @param speed - The link speed
+ * @param length - The cable length in meters, rounded up to the next standard length
+ * @param factor - Links carried by the cable (breakout fan-out)
+ * @returns Cost in USD and weight in kg
  */
-export const calculateCost = (config: TopologyConfiguration): CostBreakdown => {
-  const { numSpines, numLeafs, switchCost, opticsCost, numTiers } = config;
-  
-  // Calculate switch costs using per-device overrides when present
-  const unitSpineCost = config.deviceSelection?.spine?.costOverride ?? switchCost.spine;
-  const unitLeafCost = config.deviceSelection?.leaf?.costOverride ?? switchCost.leaf;
-  const spineCost = numSpines * unitSpineCost;
-  const leafCost = numLeafs * unitLeafCost;
-  const totalSwitchCost = spineCost + leafCost;
+const getCableUnit = (
+  media: CableMedia,
+  speed: string,
+  length: number,
+  factor = 1
+): { cost: number; weight: number } => {
+  const cable = getCableType(media, speed);
+  if (!cable) {
+    return { cost: 0, weight: 0 };
+  }
   
-  // Calculate optics costs
-  let totalOpticsCost = 0;
+  const harness = getHarnessByFactor(factor);
+  const bucket = getLengthBucket(length);
+  return {
+    cost: (cable.baseCost + cable.costPerMeter * bucket) * harness.costFactor,
+    weight: (cable.baseWeight + cable.weightPerMeter * bucket) * harness.weightFactor
+  };
+};
+
+/**
+ * Pick the cheapest catalog optic that reaches a cable length
+ * 
+ * Optics are compared on the cost of a link end including half its cable, so a
+ * DAC or AOC assembly competes fairly with a transceiver on fibre.
+ * @param speed - The link speed
+ * @param length - The cable length in meters
+ * @returns The optic, the longest-reach optic when none reaches, or null when the speed has no optics
+ */
+const pickOptic = (speed: string, length: number): Optic | null => {
+  const optics = getOpticsBySpeed(speed);
+  const linkEndCost = (optic: Optic): number =>
+    optic.cost + getCableUnit(mediaByReachClass[optic.reachClass], speed, length).cost / 2;
+  const reaching = optics
+    .filter(optic => optic.maxDistance >= length)
+    .sort((a, b) => linkEndCost(a) - linkEndCost(b) || a.power - b.power);
+  
+  if (reaching.length > 0) {
+    return reaching[0];
+  }
   
-  // For single-tier (Rail-Only) topologies, calculate leaf-to-leaf connections
-  if (numTiers === 1 && numSpines === 0) {
-    // In a Rail-Only topology, leaves connect directly to each other
-    // Assuming a mesh or ring topology for simplicity
-    // Each leaf connects to 2-4 other leaves typically
-    const connectionsPerLeaf = Math.min(4, numLeafs - 1);
-    const totalConnections = (numLeafs * connectionsPerLeaf) / 2; // Divide by 2 to avoid double counting
+  return optics.reduce<Optic | null>((longest, optic) =>
+    !longest || optic.maxDistance > longest.maxDistance ? optic : longest, null);
+};
+
+/**
+ * Get the cable lengths of a link group
+ * @param cableLengths - The cable lengths (or cable runs) of every tier
+ * @param linkType - Server NIC links or tier uplinks
+ * @param tier - The tier the links leave from
+ * @returns The cable lengths of the group
+ */
+const getGroupCableLengths = <T>(
+  cableLengths: { server: T; leafToSpine: T; spineToSuperSpine: T },
+  linkType: OpticAssignment['linkType'],
+  tier: number
+): T => {
+  if (linkType === 'server') {
+    return cableLengths.server;
+  }
+  return tier === 1 ? cableLengths.leafToSpine : cableLengths.spineToSuperSpine;
+};
+
+/**
+ * Assign an optic to every group of links in the fabric
+ * 
+ * Each tier's uplinks form one group and rail fabrics add a group for the server
+ * NIC links. In catalog mode a group uses the optic chosen for it, or else the
+ * cheapest catalog optic that reaches its longest cable; speeds without catalog
+ * optics, and the flat mode, are priced from opticsCost and powerUsage.optics.
+ * @param config - The topology configuration
+ * @returns One assignment per link group
+ */
+export const assignOptics = (topologyConfig: TopologyConfiguration): OpticAssignment[] => {
+  const config = resolveRailFabric(topologyConfig);
+  const tiers = calculateClosTiers(config);
+  const rail = calculateRailMetrics(config);
+  const cableLengths = getTierCableLengths(config);
+  const selection = config.opticsSelection;
+  
+  const assign = (
+    group: string,
+    tier: ClosTier,
+    linkType: OpticAssignment['linkType'],
+    speed: string,
+    links: number,
+    cableLength: number
+  ): OpticAssignment => {
+    let optic: Optic | null = null;
+    let automatic = false;
     
-    // Use leaf downlink speed for Rail-Only connections
-    const linkSpeed = config.leafConfig?.downlinkSpeed || '100G';
-    const opticCost = opticsCost[linkSpeed] || 500;
+    if (selection?.mode === 'catalog') {
+      const chosen = selection.tierOptics?.[group] ? getOpticById(selection.tierOptics[group]) : null;
+      if (chosen && chosen.speed === speed) {
+        optic = chosen;
+      } else {
+        optic = pickOptic(speed, cableLength);
+        automatic = optic !== null;
+      }
+    }
     
-    // Each connection needs 2 optics (one on each end)
-    totalOpticsCost = totalConnections * 2 * opticCost;
+    let media: CableMedia;
+    if (optic) {
+      media = mediaByReachClass[optic.reachClass];
+    } else if (cableLength <= DAC_MAX_LENGTH_M) {
+      media = 'DAC';
+    } else {
+      media = cableLength <= MMF_MAX_LENGTH_M ? 'MMF' : 'SMF';
+    }
     
-    // Calculate total cost and return early for single-tier
     return {
-      switches: {
-        spine: 0,
-        leaf: leafCost,
-        total: leafCost
-      },
-      optics: totalOpticsCost,
-      total: leafCost + totalOpticsCost
+      group,
+      tier: tier.tier,
+      role: tier.role,
+      linkType,
+      speed,
+      links,
+      optics: links * 2,
+      cableLength,
+      optic,
+      automatic,
+      reachExceeded: optic !== null && optic.maxDistance < cableLength,
+      media,
+      unitCost: optic ? optic.cost : config.opticsCost[speed] || 0,
+      unitPower: optic ? optic.power : config.powerUsage.optics[speed] || 0
     };
-  }
+  };
   
-  // Check if we're using the new spine configuration model or the old linkTypes model
-  if (config.spineConfig) {
-    // New model with spineConfig
-    const { portSpeed, breakoutMode } = config.spineConfig;
-    
-    // Make sure breakoutOptions exists and has the right structure
-    if (config.breakoutOptions && typeof config.breakoutOptions === 'object' && !Array.isArray(config.breakoutOptions)) {
-      // It's the new BreakoutOptions type
-      const options = config.breakoutOptions as BreakoutOptions;
-      
-      if (options[portSpeed]) {
-        const breakoutOption = options[portSpeed].find(
-          (option: BreakoutOption) => option.type === breakoutMode
-        );
-        
-        if (breakoutOption) {
-          // Extract the link speed from the breakout mode (e.g., '4x100G' -> '100G')
-          const linkSpeedMatch = breakoutMode.match(/\d+x(\d+G)/);
-          const linkSpeed = linkSpeedMatch ? linkSpeedMatch[1] : portSpeed;
-          
-          // Get parallel links factor
-          const parallelLinksPerSpine = getParallelLinksPerSpine(config);
-          
-          // In a Clos network, every spine connects to every leaf with parallel links
-          const totalLinks = numSpines * numLeafs * parallelLinksPerSpine;
-          
-          // Each link requires 2 optics (one on each end)
-          const opticsNeeded = totalLinks * 2;
-          
-          // Check if the optics cost for this link type exists
-          const opticCost = opticsCost[linkSpeed] || 0;
-          totalOpticsCost += opticsNeeded * opticCost;
-        }
-      }
+  const assignments: OpticAssignment[] = [];
+  tiers.forEach(tier => {
+    if (tier.role === 'leaf' && rail) {
+      // Rail leafs also terminate the server NIC links
+      const range = getGroupCableLengths(cableLengths, 'server', tier.tier);
+      assignments.push(assign('server', tier, 'server', rail.nicSpeed, rail.nicLinks, range.worst));
     }
-  } else if (config.linkTypes) {
-    // Old model with linkTypes array
-    // For each link type, calculate the number of optics needed
-    config.linkTypes.forEach((link: LinkType) => {
-      const linksPerSpine = link.count;
-      const totalLinks = numSpines * numLeafs * linksPerSpine;
-      // Each link requires 2 optics (one on each end)
-      const opticsNeeded = totalLinks * 2;
-      
-      // Check if the optics cost for this link type exists
-      const opticCost = opticsCost[link.type] || 0;
-      totalOpticsCost += opticsNeeded * opticCost;
-    });
-  }
-  
-  // Calculate total cost
-  const totalCost = totalSwitchCost + totalOpticsCost;
+    if (tier.uplinks > 0) {
+      const range = getGroupCableLengths(cableLengths, 'uplink', tier.tier);
+      assignments.push(assign(String(tier.tier), tier, 'uplink', tier.uplinkSpeed, tier.uplinks, range.worst));
+    }
+  });
   
-  return {
-    switches: {
-      spine: spineCost,
-      leaf: leafCost,
-      total: totalSwitchCost
-    },
-    optics: totalOpticsCost,
-    total: totalCost
-  };
+  return assignments;
 };
 
 /**
- * Calculate the power usage of the topology
+ * Break a per-device value and a per-optic value down by tier
+ * 
+ * Optics are attributed to the tier whose uplinks they terminate; every link
+ * needs two optics (one on each end). Server NIC links count toward the leafs.
  * @param config - The topology configuration
- * @returns Object containing power usage breakdown
+ * @param unitByRole - Per-device value for each role
+ * @param opticValue - Which per-optic value of the optic assignments to use
+ * @returns Switch, optics and per-tier totals
  */
-export const calculatePowerUsage = (config: TopologyConfiguration): PowerBreakdown => {
-  const { numSpines, numLeafs, powerUsage, numTiers } = config;
-  
-  // Calculate switch power usage using per-device overrides when present
-  const unitSpinePower = config.deviceSelection?.spine?.powerOverride ?? powerUsage.spine;
-  const unitLeafPower = config.deviceSelection?.leaf?.powerOverride ?? powerUsage.leaf;
-  const spinePower = numSpines * unitSpinePower;
-  const leafPower = numLeafs * unitLeafPower;
-  const totalSwitchPower = spinePower + leafPower;
-  
-  // Calculate optics power usage
-  let totalOpticsPower = 0;
-  
-  // For single-tier (Rail-Only) topologies, calculate leaf-to-leaf connections
-  if (numTiers === 1 && numSpines === 0) {
-    // In a Rail-Only topology, leaves connect directly to each other
-    const connectionsPerLeaf = Math.min(4, numLeafs - 1);
-    const totalConnections = (numLeafs * connectionsPerLeaf) / 2;
+const calculateTierBreakdown = (
+  config: TopologyConfiguration,
+  unitByRole: Record<TierRole, number>,
+  opticValue: 'unitCost' | 'unitPower'
+): PowerBreakdown => {
+  const tiers = calculateClosTiers(config);
+  const assignments = assignOptics(config);
+  const flatOptics = opticValue === 'unitCost' ? config.opticsCost : config.powerUsage.optics;
+  
+  const tierBreakdown: TierCost[] = tiers.map(tier => {
+    const switches = tier.devices * unitByRole[tier.role];
+    let optics = assignments
+      .filter(assignment => assignment.tier === tier.tier)
+      .reduce((sum, assignment) => sum + assignment.optics * assignment[opticValue], 0);
     
-    // Use leaf downlink speed for Rail-Only connections
-    const linkSpeed = config.leafConfig?.downlinkSpeed || '100G';
-    const opticPower = powerUsage.optics[linkSpeed] || 5;
-    
-    // Each connection needs 2 optics (one on each end)
-    totalOpticsPower = totalConnections * 2 * opticPower;
+    if (tier.role === 'leaf' && !config.spineConfig && config.linkTypes) {
+      // Old model with linkTypes array
+      // For each link type, calculate the number of optics needed
+      optics = config.linkTypes.reduce((sum, link: LinkType) => {
+        const totalLinks = config.numSpines * config.numLeafs * link.count;
+        return sum + totalLinks * 2 * (flatOptics[link.type] || 0);
+      }, 0);
+    }
     
-    // Return early for single-tier
     return {
-      switches: {
-        spine: 0,
-        leaf: leafPower,
-        total: leafPower
-      },
-      optics: totalOpticsPower,
-      total: leafPower + totalOpticsPower
+      tier: tier.tier,
+      role: tier.role,
+      switches,
+      optics,
+      total: switches + optics
     };
-  }
+  });
   
-  // Check if we're using the new spine configuration model or the old linkTypes model
-  if (config.spineConfig) {
-    // New model with spineConfig
-    const { portSpeed, breakoutMode } = config.spineConfig;
-    
-    // Make sure breakoutOptions exists and has the right structure
-    if (config.breakoutOptions && typeof config.breakoutOptions === 'object' && !Array.isArray(config.breakoutOptions)) {
-      // It's the new BreakoutOptions type
-      const options = config.breakoutOptions as BreakoutOptions;
-      
-      if (options[portSpeed]) {
-        const breakoutOption = options[portSpeed].find(
-          (option: BreakoutOption) => option.type === breakoutMode
-        );
-        
-        if (breakoutOption) {
-          // Extract the link speed from the breakout mode (e.g., '4x100G' -> '100G')
-          const linkSpeedMatch = breakoutMode.match(/\d+x(\d+G)/);
-          const linkSpeed = linkSpeedMatch ? linkSpeedMatch[1] : portSpeed;
-          
-          // Get parallel links factor
-          const parallelLinksPerSpine = getParallelLinksPerSpine(config);
-          
-          // In a Clos network, every spine connects to every leaf with parallel links
-          const totalLinks = numSpines * numLeafs * parallelLinksPerSpine;
-          
-          // Each link requires 2 optics (one on each end)
-          const opticsNeeded = totalLinks * 2;
-          
-          // Check if the optics power for this link type exists
-          const opticPower = powerUsage.optics[linkSpeed] || 0;
-          totalOpticsPower += opticsNeeded * opticPower;
-        }
-      }
-    }
-  } else if (config.linkTypes) {
-    // Old model with linkTypes array
-    // For each link type, calculate the number of optics needed
-    config.linkTypes.forEach((link: LinkType) => {
-      const linksPerSpine = link.count;
-      const totalLinks = numSpines * numLeafs * linksPerSpine;
-      // Each link requires 2 optics (one on each end)
-      const opticsNeeded = totalLinks * 2;
-      
-      // Check if the optics power for this link type exists
-      const opticPower = powerUsage.optics[link.type] || 0;
-      totalOpticsPower += opticsNeeded * opticPower;
-    });
-  }
+  const switchesByRole = (role: TierRole): number =>
+    tierBreakdown.filter(tier => tier.role === role).reduce((sum, tier) => sum + tier.switches, 0);
   
-  // Calculate total power usage
-  const totalPower = totalSwitchPower + totalOpticsPower;
+  const spine = switchesByRole('spine');
+  const leaf = switchesByRole('leaf');
+  const superSpine = switchesByRole('super-spine');
+  const optics = tierBreakdown.reduce((sum, tier) => sum + tier.optics, 0);
   
   return {
     switches: {
-      spine: spinePower,
-      leaf: leafPower,
-      total: totalSwitchPower
+      spine,
+      leaf,
+      superSpine,
+      total: spine + leaf + superSpine
     },
-    optics: totalOpticsPower,
-    total: totalPower
+    optics,
+    total: spine + leaf + superSpine + optics,
+    tiers: tierBreakdown
   };
 };
 
 /**
- * Calculate the latency of the topology
+ * Get the catalog device behind a switch role
+ * 
+ * Super-spines share the spine device unless they have a value of their own.
  * @param config - The topology configuration
- * @returns Object containing latency metrics
+ * @param role - The device role
+ * @param superSpineOverride - Whether the super-spine value is set separately
+ * @returns The selected catalog device, or null without one
  */
-export const calculateLatency = (config: TopologyConfiguration): LatencyMetrics => {
-  const { numTiers, numSpines, latencyParameters } = config;
-  
-  let hops: number;
-  
-  // Special handling for single-tier (Rail-Only) topologies
-  if (numTiers === 1 && numSpines === 0) {
-    // In a Rail-Only topology, traffic goes directly between leaf switches
-    // Worst case is 1 hop (leaf-to-leaf)
-    hops = 1;
-  } else {
-    // In a Clos architecture, the worst-case latency is determined by the number of tiers
-    // For a 2-tier Clos (spine-leaf), the worst-case is 2 hops (leaf -> spine -> leaf)
-    // For a 3-tier Clos, the worst-case is 4 hops (leaf -> spine -> super-spine -> spine -> leaf)
-    // Formula: (numTiers - 1) * 2 for multi-tier topologies
-    hops = Math.max(2, (numTiers - 1) * 2);
-  }
-  
-  // Calculate the switch latency
-  const switchLatency = hops * latencyParameters.switchLatency;
-  
-  // Assume an average fiber length of 10 meters per hop for simplicity
-  const fiberLength = hops * 0.01; // 10 meters = 0.01 km
-  const fiberLatency = fiberLength * latencyParameters.fiberLatency;
-  
-  // Calculate total latency
-  const totalLatency = switchLatency + fiberLatency;
-  
-  return {
-    hops,
-    switchLatency,
-    fiberLatency,
-    total: totalLatency
-  };
+export const getRoleDevice = (config: TopologyConfiguration, role: TierRole, superSpineOverride: boolean): Device | null => {
+  const catalogRole = role === 'leaf' ? 'leaf' : 'spine';
+  const deviceId = role === 'super-spine' && superSpineOverride
+    ? undefined
+    : config.deviceSelection?.[catalogRole]?.deviceId;
+  return deviceId ? getDeviceById(catalogRole, deviceId) : null;
 };
 
 /**
- * Calculate the oversubscription ratio of the topology
+ * Get the USD list price of one switch of each role
  * @param config - The topology configuration
- * @returns Object containing oversubscription metrics
+ * @returns List price per device, using per-device overrides when present
  */
-export const calculateOversubscription = (config: TopologyConfiguration): OversubscriptionMetrics => {
-  const { numSpines, numLeafs, numTiers } = config;
+const getUnitSwitchCost = (config: TopologyConfiguration): Record<TierRole, number> => {
+  const { switchCost } = config;
+  const unitSpineCost = config.deviceSelection?.spine?.costOverride ?? switchCost.spine;
   
-  // For single-tier (Rail-Only) topologies, oversubscription doesn't apply
-  if (numTiers === 1 && numSpines === 0) {
-    // In Rail-Only topology, there are no uplinks/downlinks, just leaf-to-leaf connections
-    // Return N/A values
+  return {
+    leaf: config.deviceSelection?.leaf?.costOverride ?? switchCost.leaf,
+    spine: unitSpineCost,
+    'super-spine': switchCost.superSpine ?? unitSpineCost
+  };
+};
+
+// Spare item before the sparing policy is applied
+type SpareCandidate = Omit<SpareItem, 'spares' | 'cost' | 'listCost'>;
+
+/**
+ * Merge spare candidates of the same item and apply the sparing policy
+ * @param candidates - Installed items, possibly several per key
+ * @param policy - The sparing policy
+ * @returns One spare item per key
+ */
+const applySparesPolicy = (candidates: SpareCandidate[], policy: SparesPolicy): SpareItem[] => {
+  const merged = new Map<string, SpareCandidate>();
+  candidates.forEach(candidate => {
+    const existing = merged.get(candidate.key);
+    if (!existing) {
+      merged.set(candidate.key, { ...candidate });
+      return;
+    }
+    // The same model may be priced differently per role: keep the average unit price
+    const installed = existing.installed + candidate.installed;
+    existing.unitPrice = (existing.unitPrice * existing.installed + candidate.unitPrice * candidate.installed) / installed;
+    existing.unitListPrice = (existing.unitListPrice * existing.installed + candidate.unitListPrice * candidate.installed) / installed;
+    existing.installed = installed;
+  });
+  
+  return Array.from(merged.values()).map(item => {
+    const spares = getSpareQuantity(getSpareRule(policy, item.category, item.key), item.installed);
     return {
-      uplinkCapacity: 0,
-      downlinkCapacity: 0,
-      uplinkPortsPerLeaf: 0,
-      downlinkPortsPerLeaf: 0,
-      ratio: 'N/A'
+      ...item,
+      spares,
+      cost: spares * item.unitPrice,
+      listCost: spares * item.unitListPrice
     };
-  }
+  });
+};
+
+/**
+ * Get the spares of each switch model
+ * 
+ * Switches without a catalog device are spared per role.
+ * @param config - The topology configuration
+ * @returns Spare items of the switches
+ */
+const getSwitchSpareItems = (config: TopologyConfiguration): SpareItem[] => {
+  const pricing = getPricingProfile(config.pricingProfile);
+  const unitCost = getUnitSwitchCost(config);
+  const superSpineOverride = config.switchCost.superSpine !== undefined;
+  
+  const candidates: SpareCandidate[] = calculateClosTiers(config)
+    .filter(tier => tier.devices > 0)
+    .map(tier => {
+      const device = getRoleDevice(config, tier.role, superSpineOverride);
+      return {
+        category: 'switches',
+        key: device?.id ?? `${tier.role}-switch`,
+        manufacturer: device?.manufacturer ?? 'Generic',
+        model: device?.model ?? `${tier.role} switch`,
+        sku: device?.id ?? '',
+        installed: tier.devices,
+        unitPrice: getNetPrice(unitCost[tier.role], pricing, 'switches', device?.manufacturer),
+        unitListPrice: convertPrice(unitCost[tier.role], pricing)
+      };
+    });
+  
+  return applySparesPolicy(candidates, getSparesPolicy(config.sparesPolicy));
+};
+
+/**
+ * Get the spares of each optic type and cable SKU
+ * 
+ * DAC and AOC ends are spared as cable assemblies, not as optics.
+ * @param config - The topology configuration
+ * @param pricing - The pricing profile
+ * @param cableLines - The cable lines of the topology
+ * @returns Spare items of the optics and cables
+ */
+const getLinkSpareItems = (
+  config: TopologyConfiguration,
+  pricing: PricingProfile,
+  cableLines: CableLine[]
+): SpareItem[] => {
+  const optics: SpareCandidate[] = assignOptics(config)
+    .filter(assignment => assignment.optic?.reachClass !== 'DAC' && assignment.optic?.reachClass !== 'AOC')
+    .map(assignment => ({
+      category: 'optics',
+      key: assignment.optic ? assignment.optic.id : `flat-${assignment.speed}`,
+      manufacturer: 'Generic',
+      model: assignment.optic ? assignment.optic.name : `${assignment.speed} optic`,
+      sku: assignment.optic?.id ?? '',
+      installed: assignment.optics,
+      unitPrice: getNetPrice(assignment.unitCost, pricing, 'optics'),
+      unitListPrice: convertPrice(assignment.unitCost, pricing)
+    }));
+  
+  const cables: SpareCandidate[] = cableLines.map(line => {
+    const item = getCableLineItem(line);
+    return {
+      category: 'cables',
+      key: item.sku || `${line.media}-${line.harness}-${line.speed}-${line.length}m`,
+      manufacturer: 'Generic',
+      model: item.name,
+      sku: item.sku,
+      installed: line.count,
+      unitPrice: getNetPrice(line.unitCost, pricing, 'cables'),
+      unitListPrice: convertPrice(line.unitCost, pricing)
+    };
+  });
+  
+  return applySparesPolicy([...optics, ...cables], getSparesPolicy(config.sparesPolicy));
+};
+
+/**
+ * Summarise spare items
+ * @param config - The topology configuration
+ * @param items - Spare items of every category
+ * @returns Spares metrics
+ */
+const summariseSpares = (config: TopologyConfiguration, items: SpareItem[]): SparesMetrics => {
+  const sparesOf = (category: SpareItem['category']): number =>
+    items.filter(item => item.category === category).reduce((sum, item) => sum + item.spares, 0);
   
-  // Derive configurations without mutating the input config
-  const spineCfg = config.spineConfig ?? {
-    portCount: 64,
-    portSpeed: '800G',
-    breakoutMode: '1x800G'
+  return {
+    policy: getSparesPolicy(config.sparesPolicy),
+    items,
+    switches: sparesOf('switches'),
+    optics: sparesOf('optics'),
+    cables: sparesOf('cables'),
+    cost: items.reduce((sum, item) => sum + item.cost, 0),
+    listCost: items.reduce((sum, item) => sum + item.listCost, 0)
+  };
+};
+
+/**
+ * Calculate the spares the sparing policy asks for
+ * @param topologyConfig - The topology configuration
+ * @returns Spares per device model, optic type and cable SKU, with their cost
+ */
+export const calculateSpares = (topologyConfig: TopologyConfiguration): SparesMetrics => {
+  const config = resolveRailFabric(topologyConfig);
+  const pricing = getPricingProfile(config.pricingProfile);
+  
+  return summariseSpares(config, [
+    ...getSwitchSpareItems(config),
+    ...getLinkSpareItems(config, pricing, calculateCabling(config).lines)
+  ]);
+};
+
+/**
+ * Calculate the total cost of the topology
+ * 
+ * Configured and catalog prices are USD list prices. The pricing profile
+ * converts them into its currency and takes the manufacturer and category
+ * discounts off; the list prices are kept alongside for comparison. Spares
+ * are part of the total.
+ * @param config - The topology configuration
+ * @returns Object containing cost breakdown
+ */
+export const calculateCost = (config: TopologyConfiguration): CostBreakdown => {
+  const pricing = getPricingProfile(config.pricingProfile);
+  
+  const breakdown = calculateTierBreakdown(config, getUnitSwitchCost(config), 'unitCost');
+  const cableLines = calculateCabling(config).lines;
+  const listCables = cableLines.reduce((sum, line) => sum + line.cost, 0);
+  const spares = summariseSpares(config, [
+    ...getSwitchSpareItems(config),
+    ...getLinkSpareItems(config, pricing, cableLines)
+  ]);
+  
+  // Net prices in the profile currency
+  const superSpineOverride = config.switchCost.superSpine !== undefined;
+  const tiers = breakdown.tiers.map(tier => {
+    const manufacturer = getRoleDevice(config, tier.role, superSpineOverride)?.manufacturer;
+    const switches = getNetPrice(tier.switches, pricing, 'switches', manufacturer);
+    const optics = getNetPrice(tier.optics, pricing, 'optics');
+    return { ...tier, switches, optics, total: switches + optics };
+  });
+  const switchesByRole = (role: TierRole): number =>
+    tiers.filter(tier => tier.role === role).reduce((sum, tier) => sum + tier.switches, 0);
+  
+  const spine = switchesByRole('spine');
+  const leaf = switchesByRole('leaf');
+  const superSpine = switchesByRole('super-spine');
+  const optics = tiers.reduce((sum, tier) => sum + tier.optics, 0);
+  const cables = getNetPrice(listCables, pricing, 'cables');
+  const total = spine + leaf + superSpine + optics + cables + spares.cost;
+  
+  const list: PriceTotals = {
+    switches: convertPrice(breakdown.switches.total, pricing),
+    optics: convertPrice(breakdown.optics, pricing),
+    cables: convertPrice(listCables, pricing),
+    spares: spares.listCost,
+    total: convertPrice(breakdown.total + listCables, pricing) + spares.listCost
   };
   
-  const leafCfg = config.leafConfig ?? {
-    portCount: 48,
-    downlinkSpeed: '100G',
-    breakoutMode: '1x100G' // Default to no breakout
+  return {
+    switches: {
+      spine,
+      leaf,
+      superSpine,
+      total: spine + leaf + superSpine
+    },
+    optics,
+    cables,
+    spares: spares.cost,
+    total,
+    tiers,
+    currency: pricing.currency,
+    list,
+    discount: list.total - total
   };
+};
+
+/**
+ * Calculate the power usage of the topology
+ * @param config - The topology configuration
+ * @returns Object containing power usage breakdown
+ */
+export const calculatePowerUsage = (config: TopologyConfiguration): PowerBreakdown => {
+  const { powerUsage } = config;
   
-  // ---- SPINE DOWNLINK CAPACITY CALCULATION ----
-  const { portCount: spinePortCount, portSpeed: spinePortSpeed } = spineCfg;
+  // Calculate switch power usage using per-device overrides when present
+  const unitSpinePower = config.deviceSelection?.spine?.powerOverride ?? powerUsage.spine;
+  const unitLeafPower = config.deviceSelection?.leaf?.powerOverride ?? powerUsage.leaf;
   
-  // Extract the speed value from the port speed (e.g., '800G' -> 800)
-  const spineSpeedMatch = spinePortSpeed.match(/\d+/);
-  const spineSpeedGbps = spineSpeedMatch ? parseInt(spineSpeedMatch[0]) : 0;
+  return calculateTierBreakdown(
+    config,
+    {
+      leaf: unitLeafPower,
+      spine: unitSpinePower,
+      'super-spine': powerUsage.superSpine ?? unitSpinePower
+    },
+    'unitPower'
+  );
+};
+
+const DEFAULT_FRAME_SIZE = 1500; // Bytes
+const CUT_THROUGH_HEADER_BYTES = 64;
+const DEFAULT_FEC_LATENCY = 0.1; // μs per RS-FEC link
+
+// Forwarding behaviour of one switch role
+interface SwitchProfile {
+  latency: number;               // μs
+  switchingMode: SwitchingMode;
+}
+
+// One link of a server-to-server path
+interface PathLink {
+  speedGbps: number;
+  portSpeedGbps: number;         // Physical port speed, which decides whether RS-FEC applies
+  length: number;                // m
+}
+
+/**
+ * Get the size, power and heat of one switch role for the rack layout
+ * 
+ * The maximum power and thermal output come from the catalog device selected
+ * for the role; super-spines share the spine device unless they have a power
+ * of their own. Without a catalog device the typical power is the maximum.
+ * @param config - The topology configuration
+ * @param role - The device role
+ * @returns Rack units, typical and maximum power, and thermal output
+ */
+const getRackDeviceProfile = (config: TopologyConfiguration, role: TierRole): RackDeviceProfile => {
+  const { rackSpaceParameters, powerUsage } = config;
+  const unitSpinePower = config.deviceSelection?.spine?.powerOverride ?? powerUsage.spine;
+  const device = getRoleDevice(config, role, powerUsage.superSpine !== undefined);
+  
+  const rackUnits = {
+    leaf: rackSpaceParameters.leafRackUnits,
+    spine: rackSpaceParameters.spineRackUnits,
+    'super-spine': rackSpaceParameters.superSpineRackUnits ?? rackSpaceParameters.spineRackUnits
+  }[role];
+  const power = {
+    leaf: config.deviceSelection?.leaf?.powerOverride ?? powerUsage.leaf,
+    spine: unitSpinePower,
+    'super-spine': powerUsage.superSpine ?? unitSpinePower
+  }[role];
+  const maxPower = Math.max(power, device?.powerConsumption.max ?? 0);
   
-  // Calculate total spine downlink capacity in Gbps
-  // Each spine has portCount ports, each at portSpeed
-  const capacityPerSpine = spinePortCount * spineSpeedGbps;
-  const totalSpineCapacity = capacityPerSpine * numSpines;
+  return {
+    rackUnits,
+    power,
+    maxPower,
+    thermalOutput: device?.thermalOutput ?? maxPower * BTU_PER_WATT
+  };
+};
+
+/**
+ * Plan the racks and rows of the topology
+ * @param config - The topology configuration
+ * @returns Rack elevations, rows and measured cable runs
+ */
+export const calculateRackLayout = (topologyConfig: TopologyConfiguration): RackLayout => {
+  const config = resolveRailFabric(topologyConfig);
+  const { pods, leafsPerPod, spinesPerPod } = getPodLayout(config);
+  const deviceCount = calculateDeviceCount(config);
+  const rail = calculateRailMetrics(config);
+  
+  return planRackLayout({
+    parameters: getRackLayoutParameters(config.rackSpaceParameters),
+    numLeafs: deviceCount.leafs,
+    leafsPerPod,
+    spinesPerPod,
+    pods,
+    superSpines: deviceCount.superSpines,
+    // A rail server connects to every leaf of its scalable unit, any other server to one leaf
+    leafsPerGroup: rail ? rail.rails : 1,
+    serversPerGroup: rail ? rail.serversPerScalableUnit : calculateOversubscription(config).explanation.downlink.lanes,
+    leaf: getRackDeviceProfile(config, 'leaf'),
+    spine: getRackDeviceProfile(config, 'spine'),
+    superSpine: getRackDeviceProfile(config, 'super-spine')
+  });
+};
+
+/**
+ * Get the cable length distribution of each link group
+ * 
+ * Lengths are measured on the rack layout; a length set in the latency
+ * parameters replaces the measured distribution of its link group.
+ * @param config - The topology configuration
+ * @returns Cable runs per link group
+ */
+const getCableRuns = (config: TopologyConfiguration): RackLayoutCableRuns => {
+  const { cableRuns } = calculateRackLayout(config);
+  const overrides = config.latencyParameters.cableLengths || {};
+  const fixed = (meters: number | undefined, measured: CableRun[]): CableRun[] =>
+    meters !== undefined ? [{ length: meters, weight: 1 }] : measured;
+  
+  return {
+    server: fixed(overrides.server, cableRuns.server),
+    leafToSpine: fixed(overrides.leafToSpine, cableRuns.leafToSpine),
+    spineToSuperSpine: fixed(overrides.spineToSuperSpine, cableRuns.spineToSuperSpine)
+  };
+};
+
+/**
+ * Get the cable lengths of each tier
+ * 
+ * The lengths are measured between the devices as placed by the rack layout
+ * planner. Lengths set in the latency parameters replace the measurement.
+ * @param config - The topology configuration
+ * @returns Best, average and worst cable length per tier
+ */
+export const getTierCableLengths = (topologyConfig: TopologyConfiguration): TierCableLengths => {
+  const config = resolveRailFabric(topologyConfig);
+  const overrides = config.latencyParameters.cableLengths || {};
+  const cableRuns = getCableRuns(config);
   
-  // ---- LEAF UPLINK CAPACITY CALCULATION ----
-  // Calculate uplink ports per leaf
-  let uplinkPortsPerLeaf = 0;
+  return {
+    server: summariseCableRuns(cableRuns.server),
+    leafToSpine: summariseCableRuns(cableRuns.leafToSpine),
+    spineToSuperSpine: summariseCableRuns(cableRuns.spineToSuperSpine),
+    estimated: overrides.server === undefined ||
+      overrides.leafToSpine === undefined ||
+      overrides.spineToSuperSpine === undefined
+  };
+};
+
+/**
+ * Get the forwarding latency of the switches in one role
+ * 
+ * The catalog latency of the selected device is used when it has one; otherwise
+ * the latency parameters of the topology apply.
+ * @param config - The topology configuration
+ * @param role - The device role
+ * @returns Latency and switching mode
+ */
+const getSwitchProfile = (config: TopologyConfiguration, role: 'spine' | 'leaf'): SwitchProfile => {
+  const deviceId = config.deviceSelection?.[role]?.deviceId;
+  const device = deviceId ? getDeviceById(role, deviceId) : null;
   
-  // In a Clos network, leaf switches need uplink ports to connect to each spine
-  // For breakout situations, we may connect multiple leaf ports to a single spine port
-  if (config.spineConfig) {
-    // New model with spineConfig
-    const { breakoutMode } = spineCfg;
-    
-    // Determine breakout factor for spine ports
-    let spineBreakoutFactor = 1;
-    if (config.breakoutOptions && typeof config.breakoutOptions === 'object' && !Array.isArray(config.breakoutOptions)) {
-      const options = config.breakoutOptions as BreakoutOptions;
-      
-      if (options[spinePortSpeed]) {
-        const breakoutOption = options[spinePortSpeed].find(
-          (option: BreakoutOption) => option.type === breakoutMode
-        );
-        
-        if (breakoutOption) {
-          spineBreakoutFactor = breakoutOption.factor;
-        }
-      }
-    }
-    
-    // Number of uplink ports required per leaf
-    // If each spine port connects to 'spineBreakoutFactor' leaf switches, we need numSpines/spineBreakoutFactor ports per leaf
-    uplinkPortsPerLeaf = Math.ceil(numSpines / spineBreakoutFactor);
-  } else if (config.linkTypes) {
-    // Legacy model with linkTypes array
-    uplinkPortsPerLeaf = 0;
-    config.linkTypes.forEach((link: LinkType) => {
-      const linksPerSpine = link.count;
-      uplinkPortsPerLeaf += linksPerSpine * numSpines;
-    });
+  if (device?.latency) {
+    return {
+      latency: device.latency.portToPort / 1000,
+      switchingMode: device.latency.switchingMode
+    };
   }
   
-  // Total uplink capacity across all leaf switches (in Gbps)
-  const uplinkCapacityPerLeaf = uplinkPortsPerLeaf * spineSpeedGbps;
-  const totalUplinkCapacity = uplinkCapacityPerLeaf * numLeafs;
-  
-  // ---- LEAF DOWNLINK CAPACITY CALCULATION ----
-  // Get the leaf switch port configuration
-  const leafPortCount = leafCfg.portCount || 48;
+  return {
+    latency: config.latencyParameters.switchLatency,
+    switchingMode: config.latencyParameters.switchingMode || 'cut-through'
+  };
+};
+
+/**
+ * Add up the latency of a server-to-server path
+ * 
+ * A store-and-forward switch waits for the whole frame on its ingress link, a
+ * cut-through switch only for the header; the receiving NIC always waits for the
+ * whole frame.
+ * @param config - The topology configuration
+ * @param switches - The switches in path order
+ * @param links - The links in path order (one more than the switches)
+ * @returns Latency breakdown of the path
+ */
+const calculatePathLatency = (
+  config: TopologyConfiguration,
+  switches: SwitchProfile[],
+  links: PathLink[]
+): LatencyPath => {
+  const { latencyParameters } = config;
+  const frameBits = (latencyParameters.frameSize || DEFAULT_FRAME_SIZE) * 8;
+  const headerBits = CUT_THROUGH_HEADER_BYTES * 8;
+  const fecLatency = latencyParameters.fecEnabled === false ? 0 : latencyParameters.fecLatency ?? DEFAULT_FEC_LATENCY;
+  
+  // Bits over Gbps gives nanoseconds; the path is reported in microseconds
+  const serializationOf = (bits: number, speedGbps: number): number => speedGbps > 0 ? bits / speedGbps / 1000 : 0;
+  
+  const switchLatency = switches.reduce((sum, device) => sum + device.latency, 0);
+  const serializationLatency = switches.reduce(
+    (sum, device, index) => sum + serializationOf(
+      device.switchingMode === 'store-and-forward' ? frameBits : headerBits,
+      links[index].speedGbps
+    ),
+    serializationOf(frameBits, links[links.length - 1].speedGbps)
+  );
+  const pathFecLatency = links.filter(link => link.portSpeedGbps >= 400).length * fecLatency;
+  const cableLength = links.reduce((sum, link) => sum + link.length, 0);
+  const fiberLatency = (cableLength / 1000) * latencyParameters.fiberLatency;
   
-  // Calculate available downlink ports per leaf (total ports minus uplink ports)
-  const downlinkPortsPerLeaf = Math.max(0, leafPortCount - uplinkPortsPerLeaf);
+  return {
+    switches: switches.length,
+    hops: Math.max(0, switches.length - 1),
+    cableLength,
+    switchLatency,
+    serializationLatency,
+    fecLatency: pathFecLatency,
+    fiberLatency,
+    total: switchLatency + serializationLatency + pathFecLatency + fiberLatency
+  };
+};
+
+/**
+ * Weight the latency of several paths by how often they are taken
+ * @param paths - The paths with their share of server pairs
+ * @returns The expected latency breakdown
+ */
+const averagePaths = (paths: { path: LatencyPath; weight: number }[]): LatencyPath => {
+  const fields: (keyof LatencyPath)[] = [
+    'switches', 'hops', 'cableLength', 'switchLatency', 'serializationLatency', 'fecLatency', 'fiberLatency', 'total'
+  ];
+  const totalWeight = paths.reduce((sum, { weight }) => sum + weight, 0) || 1;
+  
+  return fields.reduce((average, field) => ({
+    ...average,
+    [field]: paths.reduce((sum, { path, weight }) => sum + path[field] * weight, 0) / totalWeight
+  }), {} as LatencyPath);
+};
+
+/**
+ * Calculate the latency of the topology
+ * 
+ * Paths run from server to server: through one leaf when both servers share it,
+ * through a spine within a pod, and through the top tier between pods. Each
+ * switch adds its forwarding latency and the serialization its switching mode
+ * needs, each link its fiber propagation and RS-FEC on 400G/800G PAM4 ports.
+ * The best case is two servers on one leaf with the shortest cables, the worst
+ * case the longest path with the longest cables, and the average is the expected
+ * latency over all server pairs with average cable lengths.
+ * @param config - The topology configuration
+ * @returns Object containing latency metrics
+ */
+export const calculateLatency = (topologyConfig: TopologyConfiguration): LatencyMetrics => {
+  const config = resolveRailFabric(topologyConfig);
+  const { numLeafs } = config;
+  const tiers = calculateClosTiers(config);
+  const allocation = getLeafPortAllocation(config);
+  const { explanation } = calculateOversubscription(config);
+  const { pods, leafsPerPod } = getPodLayout(config);
+  const cableLengths = getTierCableLengths(config);
+  const leaf = getSwitchProfile(config, 'leaf');
+  const spine = getSwitchProfile(config, 'spine');
+  
+  const serverLink = (length: number): PathLink => ({
+    speedGbps: explanation.downlink.laneSpeedGbps,
+    portSpeedGbps: parseSpeedGbps(allocation.downlinkSpeed),
+    length
+  });
   
-  // Get the downlink port speed
-  const downlinkSpeed = leafCfg.downlinkSpeed;
-  const downlinkSpeedGbps = downlinkSpeed ? 
-    parseInt((downlinkSpeed.match(/\d+/)?.[0]) || '100') : 100;
+  // Link from tier t to tier t + 1
+  const tierLink = (tier: number, range: keyof CableLengthRange): PathLink => {
+    const portSpeed = tier === 1
+      ? config.spineConfig?.portSpeed
+      : (config.superSpineConfig?.portSpeed || config.spineConfig?.portSpeed);
+    return {
+      speedGbps: parseSpeedGbps(tiers[tier - 1].uplinkSpeed),
+      portSpeedGbps: parseSpeedGbps(portSpeed, 800),
+      length: (tier === 1 ? cableLengths.leafToSpine : cableLengths.spineToSuperSpine)[range]
+    };
+  };
   
-  // Get the leaf breakout mode and factor to calculate total server ports
-  let leafBreakoutFactor = 1;
-  if (leafCfg.breakoutMode && config.breakoutOptions && 
-      typeof config.breakoutOptions === 'object' && !Array.isArray(config.breakoutOptions)) {
-    // It's the new BreakoutOptions type
-    const options = config.breakoutOptions as BreakoutOptions;
-    
-    if (options[downlinkSpeed]) {
-      const leafBreakoutOption = options[downlinkSpeed].find(
-        (option: BreakoutOption) => option.type === leafCfg.breakoutMode
-      );
-      
-      if (leafBreakoutOption) {
-        leafBreakoutFactor = leafBreakoutOption.factor;
-      }
+  // Path that climbs to the given tier and back down
+  const pathThrough = (topTier: number, range: keyof CableLengthRange): LatencyPath => {
+    const up: SwitchProfile[] = [leaf];
+    const upLinks: PathLink[] = [serverLink(cableLengths.server[range])];
+    for (let tier = 1; tier < topTier; tier++) {
+      up.push(spine);
+      upLinks.push(tierLink(tier, range));
     }
-  }
+    const switches = [...up, ...up.slice(0, -1).reverse()];
+    const links = [...upLinks, ...upLinks.slice().reverse()];
+    return calculatePathLatency(config, switches, links);
+  };
+  
+  const topTier = tiers.length;
+  const podLeafs = Math.min(leafsPerPod, numLeafs);
+  const crossPod = topTier >= 3 && pods > 1;
+  const worstTier = crossPod ? topTier : Math.min(topTier, numLeafs > 1 ? 2 : 1);
+  
+  // Share of server pairs on one leaf, within one pod, and across pods
+  const localShare = numLeafs > 0 ? 1 / numLeafs : 1;
+  const podShare = topTier >= 2 ? (podLeafs - 1) / Math.max(1, numLeafs) : 0;
+  const crossPodShare = crossPod ? Math.max(0, 1 - localShare - podShare) : 0;
+  
+  const average = averagePaths([
+    { path: pathThrough(1, 'average'), weight: localShare },
+    ...(topTier >= 2 ? [{ path: pathThrough(2, 'average'), weight: podShare }] : []),
+    ...(crossPod ? [{ path: pathThrough(topTier, 'average'), weight: crossPodShare }] : [])
+  ]);
   
-  // Calculate downlink capacity per leaf (accounting for breakout)
-  const physicalDownlinkPorts = downlinkPortsPerLeaf;
-  // Logical ports after breakout
-  const logicalDownlinkPorts = physicalDownlinkPorts * leafBreakoutFactor;
-  // Speed per logical port
-  const speedPerLogicalPort = downlinkSpeedGbps / leafBreakoutFactor;
-  
-  // Total downlink capacity per leaf
-  const downlinkCapacityPerLeaf = physicalDownlinkPorts * downlinkSpeedGbps; // equivalent to logicalDownlinkPorts * speedPerLogicalPort
-  
-  // Total downlink capacity across all leaf switches
-  const totalDownlinkCapacity = downlinkCapacityPerLeaf * numLeafs;
-  
-  // ---- OVERSUBSCRIPTION CALCULATION ----
-  // Full debug logging for oversubscription calculation
-  if (process.env.NODE_ENV === 'development') {
-    console.log('==== OVERSUBSCRIPTION DEBUG ====');
-  console.log('Spine Count:', numSpines);
-  console.log('Leaf Count:', numLeafs);
-  console.log('Spine Port Count:', spinePortCount);
-  console.log('Spine Port Speed (Gbps):', spineSpeedGbps);
-  console.log('Capacity Per Spine (Gbps):', capacityPerSpine);
-  console.log('Total Spine Capacity (Gbps):', totalSpineCapacity);
-  console.log('Uplink Ports Per Leaf:', uplinkPortsPerLeaf);
-  console.log('Uplink Capacity Per Leaf (Gbps):', uplinkCapacityPerLeaf);
-  console.log('Total Uplink Capacity (Gbps):', totalUplinkCapacity);
-  console.log('Downlink Ports Per Leaf:', downlinkPortsPerLeaf);
-  console.log('Downlink Speed (Gbps):', downlinkSpeedGbps);
-  console.log('Leaf Breakout Factor:', leafBreakoutFactor);
-  console.log('Downlink Capacity Per Leaf (Gbps):', downlinkCapacityPerLeaf);
-  console.log('Total Downlink Capacity (Gbps):', totalDownlinkCapacity);
-  
-  // ==== DETAILED SPINE/LEAF ANALYSIS ====
-  // Log additional details about spine and leaf configuration
-  console.log('Spine Port Details:');
-  console.log('- Model:', config.deviceSelection?.spine?.deviceId || 'Generic');
-  console.log('- Port Speed:', spinePortSpeed);
-  console.log('- Breakout Mode:', spineCfg.breakoutMode);
-  console.log('Leaf Port Details:');
-  console.log('- Model:', config.deviceSelection?.leaf?.deviceId || 'Generic');
-  console.log('- Port Speed:', downlinkSpeed);
-  console.log('- Breakout Mode:', leafCfg.breakoutMode || 'N/A');
-  
-  // Calculate the ratio properly - default to 1:1 ratio
-  let rawRatio = 1.0;
-  
-  // Special handling for balanced large topologies
-  // This includes the specific 64 spine / 128 leaf case or any balanced case
-  const isBalancedClos = (
-    // Large balanced topologies (32+ spines)
-    (numSpines >= 32 && 
-     // Either exact 2:1 leaf:spine ratio or close to it
-     (Math.abs(numLeafs / numSpines - 2) < 0.1 || 
-      // or 1:1 ratio for smaller deployments
-      Math.abs(numLeafs / numSpines - 1) < 0.1) && 
-     // Same port speeds on spine and leaf
-     spineSpeedGbps === downlinkSpeedGbps) ||
-    // Special case: exactly 64 spine switches with 800G ports
-    (numSpines === 64 && spineSpeedGbps === 800)
+  return {
+    best: pathThrough(1, 'best'),
+    average,
+    worst: pathThrough(worstTier, 'worst'),
+    leafLatency: leaf.latency,
+    spineLatency: spine.latency,
+    leafSwitching: leaf.switchingMode,
+    spineSwitching: spine.switchingMode,
+    frameSize: config.latencyParameters.frameSize || DEFAULT_FRAME_SIZE,
+    cableLengths
+  };
+};
+
+/**
+ * Build a capacity breakdown for a group of ports
+ * @param ports - Number of physical ports
+ * @param portSpeedGbps - Speed of each physical port
+ * @param breakoutFactor - Number of logical links per physical port
+ * @param laneSpeedGbps - Usable speed of each logical link
+ * @returns Capacity breakdown for the port group
+ */
+const buildLinkCapacity = (
+  ports: number,
+  portSpeedGbps: number,
+  breakoutFactor: number,
+  laneSpeedGbps: number
+): LinkCapacity => {
+  const lanes = ports * breakoutFactor;
+  return {
+    ports,
+    portSpeedGbps,
+    breakoutFactor,
+    lanes,
+    laneSpeedGbps,
+    capacityGbps: lanes * laneSpeedGbps
+  };
+};
+
+/**
+ * Calculate the oversubscription ratio of the topology
+ * 
+ * The ratio is the per-leaf downlink capacity divided by the per-leaf uplink
+ * capacity, both derived from the leaf port allocation and breakout modes.
+ * @param config - The topology configuration
+ * @returns Object containing oversubscription metrics
+ */
+export const calculateOversubscription = (topologyConfig: TopologyConfiguration): OversubscriptionMetrics => {
+  const config = resolveRailFabric(topologyConfig);
+  const { numSpines, numLeafs, numTiers } = config;
+  const allocation = getLeafPortAllocation(config);
+  const steps: string[] = [];
+  
+  // ---- LEAF DOWNLINK CAPACITY ----
+  const downlinkSpeedGbps = parseSpeedGbps(allocation.downlinkSpeed, 100);
+  const leafBreakoutFactor = getBreakoutFactor(config, allocation.downlinkSpeed, config.leafConfig?.breakoutMode);
+  const downlink = buildLinkCapacity(
+    allocation.downlinkPorts,
+    downlinkSpeedGbps,
+    leafBreakoutFactor,
+    downlinkSpeedGbps / leafBreakoutFactor
+  );
+  steps.push(
+    `Downlinks: ${downlink.ports} ports x ${downlinkSpeedGbps}G` +
+    (leafBreakoutFactor > 1 ? ` (broken out to ${downlink.lanes} x ${downlink.laneSpeedGbps}G)` : '') +
+    ` = ${downlink.capacityGbps}G per leaf`
   );
   
-  console.log('Checking for balanced Clos topology pattern:');
-  console.log(`- Spine count: ${numSpines}, Leaf count: ${numLeafs}, Ratio: ${(numLeafs / numSpines).toFixed(2)}`);
-  console.log(`- Spine speed: ${spineSpeedGbps}G, Leaf speed: ${downlinkSpeedGbps}G`);
-  console.log(`- Is balanced Clos: ${isBalancedClos}`);
-  
-  if (isBalancedClos) {
-    console.log('DETECTED BALANCED CLOS TOPOLOGY PATTERN:');
-    console.log(`- ${numSpines} spine switches and ${numLeafs} leaf switches (2:1 ratio)`);
-    console.log(`- ${spineSpeedGbps}G port speed on both spine and leaf`);
-    console.log('- Setting 1:1 non-blocking ratio as expected for balanced Clos topology');
-    rawRatio = 1.0;
-  }
-  // Only calculate specific ratio if we have meaningful data and it's not a balanced topology
-  else if (totalUplinkCapacity > 0 && totalDownlinkCapacity > 0) {
-    // For debugging, calculate what the ratio would be based on total capacity
-    const capacityBasedRatio = totalDownlinkCapacity / totalUplinkCapacity;
-    console.log('RAW CAPACITY RATIO (for debugging):', capacityBasedRatio.toFixed(4));
-    
-    // Calculate per-leaf ratios which is more accurate for many topology designs
-    const perLeafUplinkCapacity = uplinkCapacityPerLeaf || 1; // Prevent division by zero
-    const perLeafDownlinkCapacity = downlinkCapacityPerLeaf || 1; // Prevent division by zero
-    const perLeafRatio = perLeafDownlinkCapacity / perLeafUplinkCapacity;
-    console.log('PER-LEAF RATIO (Downlink/Uplink):', perLeafRatio.toFixed(4));
-    
-    // For most data center topologies, a non-blocking 1:1 ratio is ideal
-    console.log('Checking if topology is oversubscribed...');
+  // For single-tier (Rail-Only) topologies, there are no spine uplinks
+  if (numTiers === 1 && numSpines === 0) {
+    const uplink = buildLinkCapacity(0, 0, 1, 0);
+    steps.push('Single-tier topology: no spine uplinks, oversubscription does not apply');
+    return {
+      uplinkCapacity: 0,
+      downlinkCapacity: downlink.capacityGbps * numLeafs,
+      uplinkCapacityPerLeaf: 0,
+      downlinkCapacityPerLeaf: downlink.capacityGbps,
+      uplinkPortsPerLeaf: 0,
+      downlinkPortsPerLeaf: downlink.ports,
+      ratioValue: 0,
+      ratio: 'N/A',
+      explanation: { uplink, downlink, steps }
+    };
+  }
+  
+  // ---- LEAF UPLINK CAPACITY ----
+  let uplink: LinkCapacity;
+  if (!config.spineConfig && config.linkTypes) {
+    // Legacy model with linkTypes array: each link type carries its own speed
+    const ports = config.linkTypes.reduce((sum, link: LinkType) => sum + link.count * numSpines, 0);
+    const capacityGbps = config.linkTypes.reduce(
+      (sum, link: LinkType) => sum + link.count * numSpines * parseSpeedGbps(link.type),
+      0
+    );
+    const laneSpeedGbps = ports > 0 ? capacityGbps / ports : 0;
+    uplink = buildLinkCapacity(ports, laneSpeedGbps, 1, laneSpeedGbps);
+    steps.push(`Uplinks (legacy link types): ${ports} links = ${capacityGbps}G per leaf`);
+  } else {
+    // A leaf-to-spine link runs at the slower of the leaf uplink port and the spine lane
+    const spinePortSpeed = config.spineConfig?.portSpeed || '800G';
+    const spineBreakoutFactor = getBreakoutFactor(config, spinePortSpeed, config.spineConfig?.breakoutMode);
+    const spineLaneGbps = parseSpeedGbps(getSpineLinkSpeed(config));
+    const leafUplinkGbps = parseSpeedGbps(allocation.uplinkSpeed, spineLaneGbps);
+    const linkSpeedGbps = Math.min(leafUplinkGbps, spineLaneGbps);
     
-    // Only update the ratio if it's greater than 1:1 (meaning we have oversubscription)
-    // If it's less than 1:1, we keep it as non-blocking (1:1)
-    if (perLeafRatio > 1.1) { // Using 1.1 to avoid rounding issues
-      rawRatio = perLeafRatio;
-      console.log('Oversubscribed fabric detected - setting ratio to:', rawRatio.toFixed(4));
-    } else if (perLeafRatio < 0.9) { // Less than 0.9 indicates undersubscription
-      console.log('Undersubscribed fabric detected - keeping 1:1 ratio');
-    } else {
-      console.log('Nearly balanced fabric detected - keeping 1:1 ratio');
+    uplink = buildLinkCapacity(allocation.uplinkPortsUsed, leafUplinkGbps, 1, linkSpeedGbps);
+    steps.push(
+      `Uplinks: ${allocation.spinesPerLeaf} spine${allocation.spinesPerLeaf === 1 ? '' : 's'} x ` +
+      `${allocation.linksPerSpine} link${allocation.linksPerSpine === 1 ? '' : 's'} = ${uplink.ports} ports x ${linkSpeedGbps}G` +
+      ` = ${uplink.capacityGbps}G per leaf`
+    );
+    if (spineBreakoutFactor > 1) {
+      steps.push(`Spine ports (${spinePortSpeed}) are broken out ${spineBreakoutFactor} ways to ${spineLaneGbps}G leaf links`);
     }
-    
-    // Apply tolerance to catch almost 1:1 ratios
-    if (Math.abs(rawRatio - 1.0) < 0.1) {
-      console.log('Snapping near 1:1 ratio to exactly 1.0');
-      rawRatio = 1.0;
+    if (leafUplinkGbps !== spineLaneGbps) {
+      steps.push(`Leaf uplink ports (${leafUplinkGbps}G) and spine lanes (${spineLaneGbps}G) differ; links run at ${linkSpeedGbps}G`);
     }
-  } else {
-    console.log('WARNING: Cannot calculate accurate ratio - uplink or downlink capacity is zero');
-    console.log('Uplink capacity:', totalUplinkCapacity);
-    console.log('Downlink capacity:', totalDownlinkCapacity);
   }
   
-  // Format the ratio for display - always showing two decimal places
-  const oversubscriptionRatio = rawRatio.toFixed(2);
-  
-  console.log('Final Formatted Ratio:', oversubscriptionRatio);
-  console.log('===========================');
-}
-
-  // Compute final ratio for return (outside of dev-only logs)
-  let ratioStr: string;
-  if (totalUplinkCapacity > 0 && totalDownlinkCapacity > 0) {
-    const perLeafRatio = downlinkCapacityPerLeaf / (uplinkCapacityPerLeaf || 1);
-    let rr = perLeafRatio > 1.1 ? perLeafRatio : 1.0;
-    if (Math.abs(rr - 1.0) < 0.1) rr = 1.0;
-    ratioStr = rr.toFixed(2);
+  // ---- RATIO ----
+  const ratioValue = uplink.capacityGbps > 0 ? downlink.capacityGbps / uplink.capacityGbps : 0;
+  if (uplink.capacityGbps > 0) {
+    steps.push(`Ratio: ${downlink.capacityGbps}G / ${uplink.capacityGbps}G = ${ratioValue.toFixed(2)}:1`);
   } else {
-    ratioStr = '1.00';
+    steps.push('No uplink capacity: ratio cannot be calculated');
   }
-
+  
   return {
-    uplinkCapacity: totalUplinkCapacity,
-    downlinkCapacity: totalDownlinkCapacity,
-    uplinkPortsPerLeaf,
-    downlinkPortsPerLeaf,
-    ratio: ratioStr
+    uplinkCapacity: uplink.capacityGbps * numLeafs,
+    downlinkCapacity: downlink.capacityGbps * numLeafs,
+    uplinkCapacityPerLeaf: uplink.capacityGbps,
+    downlinkCapacityPerLeaf: downlink.capacityGbps,
+    uplinkPortsPerLeaf: uplink.ports,
+    downlinkPortsPerLeaf: downlink.ports,
+    ratioValue,
+    ratio: uplink.capacityGbps > 0 ? ratioValue.toFixed(2) : 'N/A',
+    explanation: { uplink, downlink, steps }
   };
 };
 
@@ -656,107 +1528,338 @@ export const calculateOversubscription = (config: TopologyConfiguration): Oversu
  * @returns Object containing rack space metrics
  */
 export const calculateRackSpace = (config: TopologyConfiguration): RackSpaceMetrics => {
-  const { numSpines, numLeafs, rackSpaceParameters } = config;
+  const { rackSpaceParameters } = config;
+  const deviceCount = calculateDeviceCount(config);
+  const layout = calculateRackLayout(config);
   
   // Calculate rack units required
-  const spineRackUnits = numSpines * rackSpaceParameters.spineRackUnits;
-  const leafRackUnits = numLeafs * rackSpaceParameters.leafRackUnits;
-  const totalRackUnits = spineRackUnits + leafRackUnits;
-  
-  // Assume 42U racks for simplicity
-  const racksNeeded = Math.ceil(totalRackUnits / 42);
+  const spineRackUnits = deviceCount.spines * rackSpaceParameters.spineRackUnits;
+  const leafRackUnits = deviceCount.leafs * rackSpaceParameters.leafRackUnits;
+  const superSpineRackUnits = deviceCount.superSpines *
+    (rackSpaceParameters.superSpineRackUnits ?? rackSpaceParameters.spineRackUnits);
+  const totalRackUnits = spineRackUnits + leafRackUnits + superSpineRackUnits;
   
   return {
     spineRackUnits,
     leafRackUnits,
+    superSpineRackUnits,
     totalRackUnits,
-    racksNeeded
+    racksNeeded: layout.racks.length,
+    serverRacks: layout.serverRacks,
+    networkRacks: layout.networkRacks,
+    rows: layout.rows.length
+  };
+};
+
+const BTU_PER_COOLING_TON = 12000;
+
+/**
+ * Check the power and cooling of every rack against the rack budgets
+ * 
+ * Racks are charged the maximum power of their switches and servers plus the
+ * optics of their switches, and every watt ends up as heat. The racks needed
+ * for space, power and cooling assume the equipment could be spread perfectly,
+ * so the largest of them tells which constraint sizes the layout.
+ * @param config - The topology configuration
+ * @returns Per-rack power and heat, totals and the racks needed per constraint
+ */
+export const calculateRackPower = (topologyConfig: TopologyConfiguration): RackPowerMetrics => {
+  const config = resolveRailFabric(topologyConfig);
+  const layout = calculateRackLayout(config);
+  const { parameters } = layout;
+  const tiers = calculateClosTiers(config);
+  const { tiers: tierPower } = calculatePowerUsage(config);
+  
+  // Optics power of one switch in each role
+  const opticsPerDevice = (role: TierRole): number => {
+    const devices = tiers.filter(tier => tier.role === role).reduce((sum, tier) => sum + tier.devices, 0);
+    const optics = tierPower.filter(tier => tier.role === role).reduce((sum, tier) => sum + tier.optics, 0);
+    return devices > 0 ? optics / devices : 0;
+  };
+  const itemOptics: Record<RackItemRole, number> = {
+    server: 0,
+    leaf: opticsPerDevice('leaf'),
+    spine: opticsPerDevice('spine'),
+    'super-spine': opticsPerDevice('super-spine')
+  };
+  
+  const racks: RackPowerStatus[] = layout.racks.map(rack => {
+    const optics = rack.items.reduce((sum, item) => sum + item.count * itemOptics[item.role], 0);
+    const maxPower = rack.maxPower + optics;
+    const thermalOutput = rack.thermalOutput + optics * BTU_PER_WATT;
+    
+    return {
+      id: rack.id,
+      name: rack.name,
+      role: rack.role,
+      power: rack.power + optics,
+      maxPower,
+      thermalOutput,
+      overPower: maxPower > parameters.rackPowerBudget,
+      overCooling: thermalOutput > parameters.rackCoolingBudget
+    };
+  });
+  
+  const maxPower = racks.reduce((sum, rack) => sum + rack.maxPower, 0);
+  const thermalOutput = racks.reduce((sum, rack) => sum + rack.thermalOutput, 0);
+  const usedRackUnits = layout.racks.reduce((sum, rack) => sum + rack.usedRackUnits, 0);
+  const usableRackUnits = parameters.rackHeight - parameters.reservedRackUnits;
+  
+  const racksForSpace = Math.ceil(usedRackUnits / Math.max(1, usableRackUnits));
+  const racksForPower = Math.ceil(maxPower / Math.max(1, parameters.rackPowerBudget));
+  const racksForCooling = Math.ceil(thermalOutput / Math.max(1, parameters.rackCoolingBudget));
+  
+  let limitedBy: RackConstraint = 'space';
+  if (racksForPower > racksForSpace && racksForPower >= racksForCooling) {
+    limitedBy = 'power';
+  } else if (racksForCooling > racksForSpace && racksForCooling > racksForPower) {
+    limitedBy = 'cooling';
+  }
+  
+  return {
+    rackPowerBudget: parameters.rackPowerBudget,
+    rackCoolingBudget: parameters.rackCoolingBudget,
+    maxPower,
+    thermalOutput,
+    coolingTons: thermalOutput / BTU_PER_COOLING_TON,
+    racks,
+    flaggedRacks: racks.filter(rack => rack.overPower || rack.overCooling),
+    racksForSpace,
+    racksForPower,
+    racksForCooling,
+    limitedBy
   };
 };
 
+/**
+ * Calculate the total cost of ownership of the topology over its TCO horizon
+ * 
+ * The build cost covers switches, optics, cables and the spares of the
+ * sparing policy. Support contracts are charged on the installed switches
+ * only, since spares on the shelf are not under contract until they replace
+ * a failed switch; replacements are charged on the optics, and the rack cost
+ * on the rack space the switches take up, counted in whole-rack equivalents
+ * so that server racks with a top-of-rack leaf are only partly charged.
+ * @param topologyConfig - The topology configuration
+ * @returns Year-by-year costs and totals
+ */
+export const calculateTco = (topologyConfig: TopologyConfiguration): TcoMetrics => {
+  const config = resolveRailFabric(topologyConfig);
+  const cost = calculateCost(config);
+  const layout = getRackLayoutParameters(config.rackSpaceParameters);
+  const usableRackUnits = Math.max(1, layout.rackHeight - layout.reservedRackUnits);
+  
+  return projectTco({
+    parameters: getTcoParameters(config.tcoParameters),
+    hardware: cost.total,
+    switches: cost.switches.total,
+    optics: cost.optics,
+    power: calculatePowerUsage(config).total,
+    racks: calculateRackSpace(config).totalRackUnits / usableRackUnits
+  });
+};
+
+/**
+ * Get the breakout factor used on the downlinks of a tier
+ * @param config - The topology configuration
+ * @param role - Role of the tier terminating the links
+ * @returns Number of logical links carried by one physical cable
+ */
+export const getTierBreakoutFactor = (config: TopologyConfiguration, role: TierRole): number => {
+  const tierConfig = role === 'super-spine' ? config.superSpineConfig ?? config.spineConfig : config.spineConfig;
+  if (!tierConfig) {
+    return 1;
+  }
+  
+  // Make sure breakoutOptions exists and has the right structure
+  if (config.breakoutOptions && typeof config.breakoutOptions === 'object' && !Array.isArray(config.breakoutOptions)) {
+    // It's the new BreakoutOptions type
+    const options = config.breakoutOptions as BreakoutOptions;
+    const breakoutOption = options[tierConfig.portSpeed]?.find(
+      (option: BreakoutOption) => option.type === tierConfig.breakoutMode
+    );
+    
+    if (breakoutOption) {
+      // Extract the breakout factor (e.g., '4x100G' -> 4)
+      const breakoutFactorMatch = tierConfig.breakoutMode.match(/(\d+)x/);
+      return breakoutFactorMatch ? parseInt(breakoutFactorMatch[1]) : 1;
+    }
+  }
+  
+  // Default to standard cables if no breakout option is found
+  return 1;
+};
+
+/**
+ * Spread the cables of a link group over standard lengths
+ * 
+ * Each measured run is rounded up to the next standard length and the cables
+ * are shared out in proportion to the weight of each length, handing the
+ * leftovers to the largest remainders.
+ * @param runs - Measured cable lengths and their weights
+ * @param count - Number of cables
+ * @returns Cable count per length bucket
+ */
+const bucketCableRuns = (runs: CableRun[], count: number): { length: number; count: number }[] => {
+  const weights = new Map<number, number>();
+  runs.forEach(run => {
+    const bucket = getLengthBucket(run.length);
+    weights.set(bucket, (weights.get(bucket) || 0) + run.weight);
+  });
+  const totalWeight = Array.from(weights.values()).reduce((sum, weight) => sum + weight, 0);
+  if (count === 0 || totalWeight === 0) {
+    return [];
+  }
+  
+  const shares = Array.from(weights.entries()).map(([length, weight]) => {
+    const exact = (weight / totalWeight) * count;
+    return { length, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  const leftover = count - shares.reduce((sum, share) => sum + share.count, 0);
+  [...shares]
+    .sort((a, b) => b.remainder - a.remainder || b.length - a.length)
+    .slice(0, leftover)
+    .forEach(share => {
+      share.count += 1;
+    });
+  
+  return shares
+    .filter(share => share.count > 0)
+    .map(({ length, count }) => ({ length, count }))
+    .sort((a, b) => a.length - b.length);
+};
+
+/**
+ * List the cables of the topology by media, breakout harness and length
+ * @param config - The topology configuration
+ * @returns One line per media, harness, speed and length bucket
+ */
+const calculateCableLines = (config: TopologyConfiguration): CableLine[] => {
+  const tiers = calculateClosTiers(config);
+  const cableRuns = getCableRuns(config);
+  const lines = new Map<string, CableLine>();
+  
+  assignOptics(config).forEach(assignment => {
+    const factor = assignment.linkType === 'server'
+      ? getBreakoutFactor(config, config.leafConfig.downlinkSpeed, config.leafConfig.breakoutMode)
+      : getTierBreakoutFactor(config, tiers[assignment.tier]?.role ?? 'spine');
+    const harness = getHarnessByFactor(factor);
+    const cables = Math.ceil(assignment.links / factor);
+    const runs = getGroupCableLengths(cableRuns, assignment.linkType, assignment.tier);
+    
+    bucketCableRuns(runs, cables).forEach(({ length, count }) => {
+      const key = [assignment.media, harness.harness, assignment.speed, length].join('/');
+      const unit = getCableUnit(assignment.media, assignment.speed, length, harness.factor);
+      const line = lines.get(key) || {
+        media: assignment.media,
+        harness: harness.harness,
+        speed: assignment.speed,
+        length,
+        count: 0,
+        unitCost: unit.cost,
+        unitWeight: unit.weight,
+        cost: 0,
+        weight: 0
+      };
+      
+      line.count += count;
+      line.cost += count * unit.cost;
+      line.weight += count * unit.weight;
+      lines.set(key, line);
+    });
+  });
+  
+  return Array.from(lines.values()).sort((a, b) =>
+    a.media.localeCompare(b.media) || a.harness.localeCompare(b.harness) || a.length - b.length
+  );
+};
+
 /**
  * Calculate the cabling requirements of the topology
  * @param config - The topology configuration
  * @returns Object containing cabling metrics
  */
-export const calculateCabling = (config: TopologyConfiguration): CablingMetrics => {
+export const calculateCabling = (topologyConfig: TopologyConfiguration): CablingMetrics => {
+  const config = resolveRailFabric(topologyConfig);
   const { numSpines, numLeafs, numTiers } = config;
   
+  // Cable bill of materials by media, harness and length
+  const lines = calculateCableLines(config);
+  const media: Record<CableMedia, number> = { DAC: 0, AOC: 0, SMF: 0, MMF: 0 };
+  const harnesses: Record<BreakoutHarness, number> = { '1:1': 0, '1:2': 0, '1:4': 0, '1:8': 0 };
+  lines.forEach(line => {
+    media[line.media] += line.count;
+    harnesses[line.harness] += line.count;
+  });
+  const bom = {
+    media,
+    harnesses,
+    lines,
+    cost: lines.reduce((sum, line) => sum + line.cost, 0),
+    weight: lines.reduce((sum, line) => sum + line.weight, 0)
+  };
+  
   // Calculate the total number of cables needed
   let totalCables = 0;
   let breakoutCables = 0;
   let standardCables = 0;
+  let serverCables = 0;
   
-  // For single-tier (Rail-Only) topologies, calculate leaf-to-leaf connections
-  if (numTiers === 1 && numSpines === 0) {
-    // In a Rail-Only topology, leaves connect directly to each other
-    // Each leaf connects to 2-4 other leaves typically
-    const connectionsPerLeaf = Math.min(4, numLeafs - 1);
-    const totalConnections = (numLeafs * connectionsPerLeaf) / 2; // Divide by 2 to avoid double counting
-    
-    standardCables = totalConnections;
-    totalCables = totalConnections;
+  // Rail fabrics cable every server NIC to the leaf of its rail
+  const rail = calculateRailMetrics(config);
+  if (rail) {
+    const leafBreakoutFactor = getBreakoutFactor(config, config.leafConfig.downlinkSpeed, config.leafConfig.breakoutMode);
     
+    if (leafBreakoutFactor > 1) {
+      // One breakout cable fans a leaf port out to several NICs
+      serverCables = Math.ceil(rail.nicLinks / leafBreakoutFactor);
+      breakoutCables += serverCables;
+    } else {
+      serverCables = rail.nicLinks;
+      standardCables += serverCables;
+    }
+    totalCables += serverCables;
+  }
+  
+  // For single-tier (Rail-Only) topologies there are no switch-to-switch links
+  if (numTiers === 1 && numSpines === 0) {
     return {
       standard: standardCables,
-      breakout: 0,
-      total: totalCables
+      breakout: breakoutCables,
+      total: totalCables,
+      server: serverCables,
+      tiers: [{ tier: 1, role: 'leaf', count: 0 }],
+      ...bom
     };
   }
   
+  const tierCables: TierCount[] = [];
+  
   // Check if we're using the new spine configuration model or the old linkTypes model
   if (config.spineConfig) {
-    // New model with spineConfig
-    const { portSpeed, breakoutMode } = config.spineConfig;
-    
-    // Get parallel links factor
-    const parallelLinksPerSpine = getParallelLinksPerSpine(config);
-    
-    // In a Clos network, every spine connects to every leaf with parallel links
-    const totalLogicalLinks = numSpines * numLeafs * parallelLinksPerSpine;
+    // New model with spineConfig: cable the uplinks of every tier into the tier above
+    const tiers = calculateClosTiers(config);
     
-    // Make sure breakoutOptions exists and has the right structure
-    if (config.breakoutOptions && typeof config.breakoutOptions === 'object' && !Array.isArray(config.breakoutOptions)) {
-      // It's the new BreakoutOptions type
-      const options = config.breakoutOptions as BreakoutOptions;
+    tiers.slice(0, -1).forEach((tier, index) => {
+      const breakoutFactor = getTierBreakoutFactor(config, tiers[index + 1].role);
+      let cables: number;
       
-      if (options[portSpeed]) {
-        const breakoutOption = options[portSpeed].find(
-          (option: BreakoutOption) => option.type === breakoutMode
-        );
-        
-        if (breakoutOption) {
-          // Extract the breakout factor (e.g., '4x100G' -> 4)
-          const breakoutFactorMatch = breakoutMode.match(/(\d+)x/);
-          const breakoutFactor = breakoutFactorMatch ? parseInt(breakoutFactorMatch[1]) : 1;
-          
-          if (breakoutFactor > 1) {
-            // If using breakout cables, we need fewer physical cables
-            const cablesNeeded = Math.ceil(totalLogicalLinks / breakoutFactor);
-            breakoutCables = cablesNeeded;
-            totalCables = cablesNeeded;
-          } else {
-            // If no breakout, each link needs its own cable
-            standardCables = totalLogicalLinks;
-            totalCables = totalLogicalLinks;
-          }
-        } else {
-          // Default to standard cables if no breakout option is found
-          standardCables = totalLogicalLinks;
-          totalCables = totalLogicalLinks;
-        }
+      if (breakoutFactor > 1) {
+        // If using breakout cables, we need fewer physical cables
+        cables = Math.ceil(tier.uplinks / breakoutFactor);
+        breakoutCables += cables;
       } else {
-        // Default to standard cables if no breakout options for this port speed
-        standardCables = totalLogicalLinks;
-        totalCables = totalLogicalLinks;
+        // If no breakout, each link needs its own cable
+        cables = tier.uplinks;
+        standardCables += cables;
       }
-    } else {
-      // Default to standard cables if breakoutOptions is not properly defined
-      standardCables = totalLogicalLinks;
-      totalCables = totalLogicalLinks;
-    }
+      
+      totalCables += cables;
+      tierCables.push({ tier: tier.tier, role: tier.role, count: cables });
+    });
   } else if (config.linkTypes && config.breakoutOptions) {
     // Old model with linkTypes array
+    let legacyCables = 0;
     config.linkTypes.forEach((link: LinkType) => {
       const linksPerSpine = link.count;
       const totalLinks = numSpines * numLeafs * linksPerSpine;
@@ -773,23 +1876,503 @@ export const calculateCabling = (config: TopologyConfiguration): CablingMetrics
         const breakoutFactor = parseInt(breakoutOption.type.split('x')[0]);
         const cablesNeeded = Math.ceil(totalLinks / breakoutFactor);
         breakoutCables += cablesNeeded;
-        totalCables += cablesNeeded;
+        legacyCables += cablesNeeded;
       } else {
         // If no breakout, each link needs its own cable
         standardCables += totalLinks;
-        totalCables += totalLinks;
+        legacyCables += totalLinks;
       }
     });
+    totalCables += legacyCables;
+    tierCables.push({ tier: 1, role: 'leaf', count: legacyCables });
   } else {
     // Default to a simple calculation if neither model is available
-    standardCables = numSpines * numLeafs;
-    totalCables = standardCables;
+    standardCables += numSpines * numLeafs;
+    totalCables += numSpines * numLeafs;
+    tierCables.push({ tier: 1, role: 'leaf', count: numSpines * numLeafs });
   }
   
   return {
     standard: standardCables,
     breakout: breakoutCables,
-    total: totalCables
+    total: totalCables,
+    server: serverCables,
+    tiers: tierCables,
+    ...bom
+  };
+};
+
+/**
+ * Calculate the rail metrics of a rail fabric
+ * 
+ * Bisection bandwidth is taken across the worst-case cut. Within a single
+ * scalable unit every rail leaf switches half of the NIC bandwidth; across
+ * scalable units traffic must cross the spine interconnect, and without one the
+ * scalable units cannot reach each other at all.
+ * @param config - The topology configuration
+ * @returns Rail metrics, or null when the topology is not a rail fabric
+ */
+export const calculateRailMetrics = (topologyConfig: TopologyConfiguration): RailMetrics | null => {
+  if (!isRailFabric(topologyConfig)) {
+    return null;
+  }
+  
+  const config = resolveRailFabric(topologyConfig);
+  const rail = getRailConfig(config);
+  const rails = Math.max(1, rail.nicsPerServer);
+  const scalableUnits = config.numLeafs / rails;
+  const { explanation, uplinkCapacity } = calculateOversubscription(config);
+  const serversPerScalableUnit = rail.serversPerScalableUnit || explanation.downlink.lanes;
+  const servers = scalableUnits * serversPerScalableUnit;
+  const nicLinks = servers * rails;
+  const nicSpeedGbps = explanation.downlink.laneSpeedGbps;
+  
+  const nicBisection = (nicLinks * nicSpeedGbps) / 2;
+  let bisectionBandwidth = nicBisection;
+  if (scalableUnits > 1) {
+    bisectionBandwidth = rail.spineInterconnect ? Math.min(nicBisection, uplinkCapacity / 2) : 0;
+  }
+  
+  return {
+    rails,
+    gpusPerServer: rail.gpusPerServer,
+    nicsPerServer: rail.nicsPerServer,
+    serversPerScalableUnit,
+    scalableUnits,
+    servers,
+    gpus: servers * rail.gpusPerServer,
+    railLeafs: config.numLeafs,
+    nicSpeed: `${nicSpeedGbps}G`,
+    nicLinks,
+    spineInterconnect: rail.spineInterconnect,
+    bisectionBandwidth
+  };
+};
+
+/**
+ * Calculate the bisection bandwidth and throughput of the fabric
+ * 
+ * The bisection is the smallest of half the endpoint capacity and half the uplink
+ * capacity of each tier below the top, so a cut between pods is limited by the
+ * spine-to-super-spine links. Rail fabrics use the rail bisection instead. Each
+ * endpoint is guaranteed its link speed divided by the leaf oversubscription,
+ * capped by its share of the bisection.
+ * @param config - The topology configuration
+ * @returns Throughput metrics
+ */
+export const calculateThroughput = (topologyConfig: TopologyConfiguration): ThroughputMetrics => {
+  const config = resolveRailFabric(topologyConfig);
+  const oversubscription = calculateOversubscription(config);
+  const tiers = calculateClosTiers(config);
+  const rail = calculateRailMetrics(config);
+  const { downlink } = oversubscription.explanation;
+  
+  const endpointSpeed = downlink.laneSpeedGbps;
+  const endpoints = rail ? rail.nicLinks : downlink.lanes * config.numLeafs;
+  const servers = rail ? rail.servers : endpoints;
+  const endpointCapacity = endpoints * endpointSpeed;
+  const halfEndpointCapacity = endpointCapacity / 2;
+  
+  // ---- BISECTION ----
+  let bisectionBandwidth: number;
+  if (rail) {
+    bisectionBandwidth = rail.bisectionBandwidth;
+  } else if (tiers.length === 1) {
+    // Leafs without spines only switch between their own ports
+    bisectionBandwidth = config.numLeafs > 1 ? 0 : halfEndpointCapacity;
+  } else {
+    bisectionBandwidth = tiers
+      .filter(tier => tier.uplinks > 0)
+      .reduce(
+        (smallest, tier) => Math.min(smallest, (tier.uplinks * parseSpeedGbps(tier.uplinkSpeed)) / 2),
+        halfEndpointCapacity
+      );
+  }
+  
+  // ---- PER-ENDPOINT BANDWIDTH ----
+  let guaranteedPerEndpoint = endpointSpeed;
+  if (oversubscription.ratioValue > 1) {
+    guaranteedPerEndpoint = endpointSpeed / oversubscription.ratioValue;
+  }
+  if (endpoints > 0) {
+    guaranteedPerEndpoint = Math.min(guaranteedPerEndpoint, (2 * bisectionBandwidth) / endpoints);
+  }
+  const endpointsPerServer = rail ? rail.rails : 1;
+  
+  // ---- SPINE UTILISATION ----
+  const spineTier = tiers.find(tier => tier.role === 'spine');
+  let spineCapacity = 0;
+  let spineUsedCapacity = 0;
+  if (spineTier) {
+    const spinePortCount = config.spineConfig?.portCount || 64;
+    const spinePortGbps = parseSpeedGbps(config.spineConfig?.portSpeed || '800G');
+    const leafLinkGbps = oversubscription.explanation.uplink.laneSpeedGbps;
+    spineCapacity = spineTier.devices * spinePortCount * spinePortGbps;
+    spineUsedCapacity = spineTier.devices * (
+      spineTier.downlinksPerDevice * leafLinkGbps +
+      spineTier.uplinksPerDevice * parseSpeedGbps(spineTier.uplinkSpeed)
+    );
+  }
+  
+  return {
+    servers,
+    endpoints,
+    endpointSpeed,
+    endpointCapacity,
+    fabricCapacity: oversubscription.uplinkCapacity,
+    bisectionBandwidth,
+    bisectionRatio: halfEndpointCapacity > 0 ? bisectionBandwidth / halfEndpointCapacity : 0,
+    fullBisection: halfEndpointCapacity > 0 && bisectionBandwidth >= halfEndpointCapacity,
+    guaranteedPerEndpoint,
+    perServerBandwidth: guaranteedPerEndpoint * endpointsPerServer,
+    spineCapacity,
+    spineUsedCapacity,
+    spineUtilization: spineCapacity > 0 ? (spineUsedCapacity / spineCapacity) * 100 : 0
+  };
+};
+
+/**
+ * Get the number of spine planes each leaf spreads its uplinks across
+ * @param config - The topology configuration
+ * @returns Plane count (1 unless the spines are disjoint)
+ */
+export const getSpinePlaneCount = (config: TopologyConfiguration): number => {
+  const { spinesPerPod } = getPodLayout(resolveRailFabric(config));
+  
+  if (!config.disjointedSpines || spinesPerPod === 0) {
+    return Math.min(1, spinesPerPod);
+  }
+  
+  return Math.max(1, Math.min(config.spinePlanes || 2, spinesPerPod));
+};
+
+/**
+ * Validate the spine plane layout
+ * @param config - The topology configuration
+ * @returns Validation result with error message if invalid
+ */
+export const validateSpinePlanes = (config: TopologyConfiguration): { valid: boolean; error?: string } => {
+  if (!config.disjointedSpines) {
+    return { valid: true };
+  }
+  
+  const { spinesPerPod } = getPodLayout(resolveRailFabric(config));
+  const planes = config.spinePlanes || 2;
+  
+  if (planes < 2) {
+    return { valid: false, error: 'Disjoint spines need at least 2 planes' };
+  }
+  
+  if (planes > spinesPerPod) {
+    return {
+      valid: false,
+      error: `Cannot split ${spinesPerPod} spines per leaf into ${planes} planes`
+    };
+  }
+  
+  if (spinesPerPod % planes !== 0) {
+    return {
+      valid: false,
+      error: `${spinesPerPod} spines per leaf do not divide evenly into ${planes} planes`
+    };
+  }
+  
+  return { valid: true };
+};
+
+/**
+ * Calculate the spine planes and their failure domains
+ * 
+ * With disjoint spines every leaf splits its uplinks into planes and each plane
+ * goes to its own spine group; the planes never share a spine. A shared fabric
+ * is reported as a single plane, so losing the plane means losing every uplink.
+ * @param config - The topology configuration
+ * @returns Per-plane spine and link counts with failure-domain metrics
+ */
+export const calculateSpinePlanes = (topologyConfig: TopologyConfiguration): SpinePlaneMetrics => {
+  const config = resolveRailFabric(topologyConfig);
+  const allocation = getLeafPortAllocation(config);
+  const { pods, leafsPerPod } = getPodLayout(config);
+  const planeCount = getSpinePlaneCount(config);
+  
+  // Single-tier (Rail-Only) topologies have no spines to split into planes
+  if (planeCount === 0 || allocation.uplinkPortsUsed === 0) {
+    return {
+      disjoint: false,
+      planes: [],
+      spineFailureImpact: 0,
+      planeFailureImpact: 0,
+      leafsPerFailureDomain: 0,
+      ecmpPathsPerPlane: 0
+    };
+  }
+  
+  const linkGbps = calculateOversubscription(config).explanation.uplink.laneSpeedGbps;
+  const { spinesPerLeaf, linksPerSpine, uplinkPortsUsed } = allocation;
+  
+  // Spread the spines of each pod as evenly as possible across the planes
+  const planes: SpinePlane[] = Array.from({ length: planeCount }, (_, index) => {
+    const spinesInPlane = Math.floor(spinesPerLeaf / planeCount) + (index < spinesPerLeaf % planeCount ? 1 : 0);
+    const linksPerLeaf = spinesInPlane * linksPerSpine;
+    const links = linksPerLeaf * config.numLeafs;
+    
+    return {
+      plane: index + 1,
+      spines: spinesInPlane * pods,
+      linksPerLeaf,
+      links,
+      capacity: links * linkGbps
+    };
+  });
+  
+  const largestPlane = planes.reduce((largest, plane) => plane.linksPerLeaf > largest.linksPerLeaf ? plane : largest);
+  
+  return {
+    disjoint: config.disjointedSpines && planeCount > 1,
+    planes,
+    spineFailureImpact: (linksPerSpine / uplinkPortsUsed) * 100,
+    planeFailureImpact: (largestPlane.linksPerLeaf / uplinkPortsUsed) * 100,
+    leafsPerFailureDomain: leafsPerPod,
+    ecmpPathsPerPlane: largestPlane.linksPerLeaf
+  };
+};
+
+// Largest number of simultaneous spine failures reported as separate scenarios
+const MAX_SPINE_FAILURES = 8;
+
+/**
+ * Calculate how the fabric behaves when spines, a leaf or a spine plane fail
+ * 
+ * Spine failures are placed in a single pod, the worst case for the leafs of that
+ * pod. Servers are counted per downlink lane and assumed single-homed, except in
+ * rail fabrics where every server has one NIC on each rail leaf of its scalable
+ * unit and only loses that rail when a leaf fails.
+ * 
+ * The score averages the uplink capacity the most affected leaf keeps after one
+ * spine and one plane fail. Fabrics without spines score the share of servers
+ * that stay connected when a leaf fails.
+ * @param config - The topology configuration
+ * @returns Failure scenarios with remaining capacity, blast radius and ECMP coverage
+ */
+export const calculateResiliency = (topologyConfig: TopologyConfiguration): ResiliencyMetrics => {
+  const config = resolveRailFabric(topologyConfig);
+  const { numLeafs } = config;
+  const allocation = getLeafPortAllocation(config);
+  const oversubscription = calculateOversubscription(config);
+  const spinePlanes = calculateSpinePlanes(config);
+  const rail = calculateRailMetrics(config);
+  const { pods, leafsPerPod } = getPodLayout(config);
+  const { spinesPerLeaf, linksPerSpine, uplinkPortsUsed } = allocation;
+  const { downlinkCapacityPerLeaf, uplinkCapacity } = oversubscription;
+  const linkGbps = oversubscription.explanation.uplink.laneSpeedGbps;
+  
+  const serversPerLeaf = rail ? rail.serversPerScalableUnit : oversubscription.explanation.downlink.lanes;
+  const totalServers = rail ? rail.servers : serversPerLeaf * numLeafs;
+  const leafsInPod = Math.min(leafsPerPod, numLeafs);
+  
+  // Build a scenario in which the most affected leafs lose some of their uplinks
+  const uplinkLossScenario = (
+    failure: FailureType,
+    label: string,
+    failedDevices: number,
+    lostLinksPerLeaf: number,
+    affectedLeafs: number
+  ): FailureScenario => {
+    const remainingLinks = Math.max(0, uplinkPortsUsed - lostLinksPerLeaf);
+    const remainingCapacity = Math.max(0, uplinkCapacity - lostLinksPerLeaf * affectedLeafs * linkGbps);
+    const isolated = remainingLinks === 0;
+    
+    return {
+      failure,
+      label,
+      failedDevices,
+      remainingCapacity,
+      remainingCapacityPercent: uplinkCapacity > 0 ? (remainingCapacity / uplinkCapacity) * 100 : 0,
+      worstLeafUplinkPercent: (remainingLinks / uplinkPortsUsed) * 100,
+      oversubscription: isolated ? 0 : downlinkCapacityPerLeaf / (remainingLinks * linkGbps),
+      blastRadius: isolated ? affectedLeafs * serversPerLeaf : 0,
+      degradedServers: isolated ? 0 : affectedLeafs * serversPerLeaf,
+      ecmpCoverage: !isolated
+    };
+  };
+  
+  const scenarios: FailureScenario[] = [];
+  
+  if (uplinkPortsUsed > 0) {
+    for (let failed = 1; failed <= Math.min(spinesPerLeaf, MAX_SPINE_FAILURES); failed++) {
+      scenarios.push(uplinkLossScenario(
+        'spine',
+        `${failed} ${failed === 1 ? 'spine' : 'spines'}${pods > 1 ? ' in one pod' : ''}`,
+        failed,
+        failed * linksPerSpine,
+        leafsInPod
+      ));
+    }
+  }
+  
+  // Every other leaf keeps its uplinks, so only the failed leaf's servers are affected
+  if (numLeafs > 0) {
+    scenarios.push({
+      failure: 'leaf',
+      label: '1 leaf',
+      failedDevices: 1,
+      remainingCapacity: uplinkCapacity * (numLeafs - 1) / numLeafs,
+      remainingCapacityPercent: uplinkCapacity > 0 ? ((numLeafs - 1) / numLeafs) * 100 : 0,
+      worstLeafUplinkPercent: 100,
+      oversubscription: oversubscription.ratioValue,
+      blastRadius: rail ? 0 : serversPerLeaf,
+      degradedServers: rail ? serversPerLeaf : 0,
+      ecmpCoverage: true
+    });
+  }
+  
+  if (spinePlanes.planes.length > 0) {
+    const largestPlane = spinePlanes.planes.reduce((largest, plane) =>
+      plane.linksPerLeaf > largest.linksPerLeaf ? plane : largest
+    );
+    scenarios.push(uplinkLossScenario(
+      'plane',
+      spinePlanes.disjoint ? `Plane ${largestPlane.plane}` : 'Spine plane (shared fabric)',
+      largestPlane.spines,
+      largestPlane.linksPerLeaf,
+      numLeafs
+    ));
+  }
+  
+  const spineScenario = scenarios.find(scenario => scenario.failure === 'spine');
+  const planeScenario = scenarios.find(scenario => scenario.failure === 'plane');
+  const leafScenario = scenarios.find(scenario => scenario.failure === 'leaf');
+  
+  let score = 0;
+  if (spineScenario && planeScenario) {
+    score = (spineScenario.worstLeafUplinkPercent + planeScenario.worstLeafUplinkPercent) / 2;
+  } else if (leafScenario && totalServers > 0) {
+    score = 100 - (leafScenario.blastRadius / totalServers) * 100;
+  }
+  
+  return {
+    serversPerLeaf,
+    scenarios,
+    spineFailuresTolerated: Math.max(0, spinesPerLeaf - 1),
+    score
+  };
+};
+
+const getHeadroomLimit = (resource: HeadroomResource, current: number, max: number, constraint: string): HeadroomLimit => ({
+  resource,
+  current,
+  max,
+  utilization: max > 0 ? (current / max) * 100 : 0,
+  constraint
+});
+
+/**
+ * Calculate how far the fabric can grow with the chosen devices and port plan
+ * 
+ * Leafs are limited by the spine lanes at the current links per spine and, in
+ * N-tier fabrics, by the pods the first super-spine tier can take. Spines are
+ * limited by the leaf ports that can carry uplinks: the reserved uplink ports of
+ * an explicit port plan, otherwise half of the leaf ports. Servers follow from
+ * the leafs. Rail fabrics grow a scalable unit at a time, and rail fabrics
+ * without spines cannot connect more than one. The resource with the highest
+ * utilisation runs out first.
+ * @param config - The topology configuration
+ * @returns Current and maximum leafs, servers and spines and which runs out first
+ */
+export const calculateHeadroom = (topologyConfig: TopologyConfiguration): HeadroomMetrics => {
+  const config = resolveRailFabric(topologyConfig);
+  const { numLeafs, numTiers } = config;
+  const allocation = getLeafPortAllocation(config);
+  const { downlink } = calculateOversubscription(config).explanation;
+  const rail = calculateRailMetrics(config);
+  const spines = calculateDeviceCount(config).spines;
+  const linksPerSpine = Math.max(1, allocation.linksPerSpine);
+  const leafGroup = rail ? rail.rails : 1;
+  
+  // ---- LEAF PORTS ----
+  let uplinkPorts: number;
+  if (rail) {
+    uplinkPorts = rail.spineInterconnect ? config.leafConfig?.uplinkPorts ?? Math.floor(allocation.portCount / 2) : 0;
+  } else if (allocation.explicit) {
+    uplinkPorts = allocation.uplinkPorts + Math.max(0, allocation.unallocatedPorts);
+  } else {
+    uplinkPorts = Math.max(allocation.uplinkPorts, Math.floor(allocation.portCount / 2));
+  }
+  const maxSpinesPerLeaf = Math.floor(uplinkPorts / linksPerSpine);
+  const serversPerGroup = rail
+    ? Math.max(0, allocation.portCount - uplinkPorts) * downlink.breakoutFactor
+    : downlink.lanes;
+  
+  // ---- LEAFS ----
+  const spinePortSpeed = config.spineConfig?.portSpeed || '800G';
+  const spineLanes = (config.spineConfig?.portCount || 64) *
+    getBreakoutFactor(config, spinePortSpeed, config.spineConfig?.breakoutMode);
+  let maxLeafs: number;
+  let maxPods = 1;
+  let leafConstraint: string;
+  
+  if (spines === 0) {
+    maxLeafs = leafGroup;
+    leafConstraint = rail
+      ? 'One scalable unit: rail leafs without spines do not connect scalable units'
+      : 'One leaf: leafs without spines are not connected to each other';
+  } else if (numTiers >= 3) {
+    const leafsPerPod = Math.max(1, config.podConfig?.leafsPerPod || Math.floor(spineLanes / 2));
+    const spineDownlinks = leafsPerPod * linksPerSpine;
+    const spineUplinks = Math.max(0, Math.min(spineDownlinks, spineLanes - spineDownlinks));
+    
+    // Every spine of a plane connects to each super-spine of the plane at least once
+    const superSpineCfg = config.superSpineConfig;
+    const superSpineLanes = superSpineCfg
+      ? superSpineCfg.portCount * getBreakoutFactor(config, superSpineCfg.portSpeed, superSpineCfg.breakoutMode)
+      : spineLanes;
+    const downlinkLanes = numTiers === 3 ? superSpineLanes : Math.floor(superSpineLanes / 2);
+    const planes = Math.max(1, getPodLayout(config).spinesPerPod);
+    const superSpinesPerPlane = superSpineCfg?.count ? Math.max(1, Math.ceil(superSpineCfg.count / planes)) : spineUplinks;
+    
+    maxPods = spineUplinks > 0 ? Math.floor((downlinkLanes * superSpinesPerPlane) / spineUplinks) : 1;
+    maxLeafs = maxPods * leafsPerPod;
+    leafConstraint = spineUplinks > 0
+      ? `Super-spine ports: ${maxPods} pods of ${leafsPerPod} leafs at ${downlinkLanes} lanes per super-spine`
+      : `Spine ports: no lanes left for super-spine uplinks with ${leafsPerPod} leafs per pod`;
+  } else {
+    maxLeafs = Math.floor(Math.floor(spineLanes / linksPerSpine) / leafGroup) * leafGroup;
+    leafConstraint = `Spine ports: ${spineLanes} lanes per spine at ${linksPerSpine} ${linksPerSpine === 1 ? 'link' : 'links'} per leaf`;
+  }
+  
+  // ---- LIMITS ----
+  const currentServers = rail ? rail.servers : downlink.lanes * numLeafs;
+  const maxServers = Math.floor(maxLeafs / leafGroup) * serversPerGroup;
+  const maxSpines = spines > 0 ? maxSpinesPerLeaf * maxPods : 0;
+  
+  const leafs = getHeadroomLimit('leafs', numLeafs, maxLeafs, leafConstraint);
+  const servers = getHeadroomLimit(
+    'servers',
+    currentServers,
+    maxServers,
+    rail
+      ? `${serversPerGroup} servers per scalable unit on the rail leaf ports`
+      : `${serversPerGroup} server ports per leaf`
+  );
+  const spineLimit = getHeadroomLimit(
+    'spines',
+    spines,
+    maxSpines,
+    spines > 0
+      ? `Leaf uplink ports: ${uplinkPorts} per leaf at ${linksPerSpine} ${linksPerSpine === 1 ? 'link' : 'links'} per spine${maxPods > 1 ? `, ${maxPods} pods` : ''}`
+      : 'No spine tier'
+  );
+  
+  const limitedBy = [leafs, servers, spineLimit]
+    .filter(limit => limit.max > 0)
+    .reduce((first, limit) => limit.utilization > first.utilization ? limit : first, leafs)
+    .resource;
+  
+  return {
+    leafs,
+    servers,
+    spines: spineLimit,
+    limitedBy
   };
 };
 
@@ -823,13 +2406,39 @@ const calculationService = {
   calculateAllMetrics,
   calculateDeviceCount,
   calculateCost,
+  calculateSpares,
+  getRoleDevice,
   calculatePowerUsage,
+  assignOptics,
   calculateLatency,
+  getTierCableLengths,
+  calculateRackLayout,
   calculateOversubscription,
   calculateRackSpace,
+  calculateRackPower,
+  calculateTco,
   calculateCabling,
   compareTopologies,
-  validateParallelLinks
+  calculateClosTiers,
+  validateClosTiers,
+  calculateRailMetrics,
+  calculateThroughput,
+  calculateSpinePlanes,
+  calculateResiliency,
+  calculateHeadroom,
+  getSpinePlaneCount,
+  validateSpinePlanes,
+  isRailFabric,
+  getRailConfig,
+  resolveRailFabric,
+  getPodLayout,
+  getLeafPortAllocation,
+  getParallelLinksPerSpine,
+  validatePortAllocation,
+  validateParallelLinks,
+  getBreakoutFactor,
+  getTierBreakoutFactor,
+  parseSpeedGbps
 };
 
 export default calculationService;
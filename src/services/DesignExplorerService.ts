@@ -0,0 +1,175 @@
+/**
+ * DesignExplorerService.ts
+ *
+ * This service sweeps the design space for an endpoint target: every spine/leaf
+ * device pair in the catalog (built-in and custom), with every breakout mode and
+ * parallel-link setting the sizing solver can lay out. Each candidate is scored
+ * with the regular metrics and the Pareto-optimal candidates are marked.
+ */
+
+import { Device } from '../types/devices';
+import { Topology, TopologyConfiguration } from '../types/topology';
+import { SizingTarget, DesignCandidate, DesignObjectives, DesignObjective } from '../types/sizing';
+import { calculateAllMetrics } from './CalculationService';
+import { enumerateSizings } from './SizingService';
+
+// Parallel-link limits swept for every device pair
+const PARALLEL_LINK_LIMITS = [1, 2, 4, 8];
+
+// Longest stretch of work (ms) between two yields to the browser
+const SLICE_MS = 50;
+
+export const DESIGN_OBJECTIVES: DesignObjective[] = ['cost', 'power', 'oversubscription', 'rackUnits'];
+
+/**
+ * Check whether one set of objectives dominates another
+ * @param a - The first set of objectives
+ * @param b - The second set of objectives
+ * @returns True when a is no worse than b on every objective and better on at least one
+ */
+export const dominates = (a: DesignObjectives, b: DesignObjectives): boolean => {
+  const noWorse = DESIGN_OBJECTIVES.every(objective => a[objective] <= b[objective]);
+  const better = DESIGN_OBJECTIVES.some(objective => a[objective] < b[objective]);
+  return noWorse && better;
+};
+
+/**
+ * Mark the candidates that no other candidate dominates
+ * @param candidates - The scored candidates
+ * @returns The candidates with paretoOptimal set
+ */
+export const markParetoFront = (candidates: DesignCandidate[]): DesignCandidate[] => {
+  return candidates.map(candidate => ({
+    ...candidate,
+    paretoOptimal: !candidates.some(other => other !== candidate && dominates(other.objectives, candidate.objectives))
+  }));
+};
+
+/**
+ * Score a topology configuration with the regular calculators
+ * @param configuration - The topology configuration
+ * @returns The metrics and the objectives derived from them, or null when they cannot be calculated
+ */
+const scoreConfiguration = (
+  configuration: TopologyConfiguration
+): Pick<DesignCandidate, 'metrics' | 'objectives'> | null => {
+  const timestamp = new Date().toISOString();
+  const topology: Topology = {
+    id: 'design-candidate',
+    name: 'Design Candidate',
+    description: '',
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    configuration
+  };
+
+  const metrics = calculateAllMetrics(topology);
+  if (!metrics) {
+    return null;
+  }
+
+  return {
+    metrics,
+    objectives: {
+      cost: metrics.cost.total,
+      power: metrics.power.total,
+      oversubscription: metrics.oversubscription.ratioValue,
+      rackUnits: metrics.rackSpace.totalRackUnits
+    }
+  };
+};
+
+/**
+ * Wait for the browser to handle pending events and paint
+ * @returns A promise resolved on the next task
+ */
+const yieldToBrowser = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Explore every device pair, breakout mode and parallel-link setting for a target
+ *
+ * The sweep scores thousands of candidates, so it runs in slices of about
+ * SLICE_MS and yields to the browser between them to keep the page responsive.
+ * @param target - The sizing target
+ * @param spineDevices - The spine devices to consider
+ * @param leafDevices - The leaf devices to consider
+ * @param baseConfig - Configuration providing cost, power, latency and rack parameters
+ * @param onProgress - Called with the device pairs explored so far and their total
+ * @param signal - Stops the sweep early when aborted; the candidates found so far are returned
+ * @returns The scored candidates, Pareto-optimal ones first and then by cost
+ */
+export const exploreDesignSpace = async (
+  target: SizingTarget,
+  spineDevices: Device[],
+  leafDevices: Device[],
+  baseConfig: TopologyConfiguration,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<DesignCandidate[]> => {
+  const candidates: DesignCandidate[] = [];
+  const seen = new Set<string>();
+  const pairs = spineDevices.flatMap(spineDevice => leafDevices.map(leafDevice => ({ spineDevice, leafDevice })));
+  let sliceStart = Date.now();
+  const endSlice = async (): Promise<void> => {
+    if (Date.now() - sliceStart > SLICE_MS) {
+      await yieldToBrowser();
+      sliceStart = Date.now();
+    }
+  };
+
+  for (let pair = 0; pair < pairs.length; pair++) {
+    await endSlice();
+    const { spineDevice, leafDevice } = pairs[pair];
+    const sizings = enumerateSizings(target, spineDevice, leafDevice, baseConfig, PARALLEL_LINK_LIMITS);
+
+    for (let index = 0; index < sizings.length; index++) {
+      await endSlice();
+      if (signal?.aborted) {
+        return candidates;
+      }
+
+      const sizing = sizings[index];
+      if (!sizing.configuration) {
+        continue;
+      }
+
+      const score = scoreConfiguration(sizing.configuration);
+      if (!score) {
+        continue;
+      }
+
+      // Breakout modes that only relabel the same fabric are listed once
+      const key = [
+        spineDevice.id, leafDevice.id, sizing.numLeafs, sizing.numSpines, sizing.linksPerSpine,
+        ...DESIGN_OBJECTIVES.map(objective => score.objectives[objective])
+      ].join('/');
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      candidates.push({
+        id: `${spineDevice.id}:${leafDevice.id}:${index}`,
+        spineDevice,
+        leafDevice,
+        sizing,
+        ...score,
+        paretoOptimal: false
+      });
+    }
+
+    onProgress?.(pair + 1, pairs.length);
+  }
+
+  return markParetoFront(candidates).sort((a, b) =>
+    Number(b.paretoOptimal) - Number(a.paretoOptimal) || a.objectives.cost - b.objectives.cost
+  );
+};
+
+const designExplorerService = {
+  exploreDesignSpace,
+  markParetoFront,
+  dominates
+};
+
+export default designExplorerService;
@@ -0,0 +1,219 @@
+/**
+ * GrowthService.ts
+ *
+ * This service plans the growth of a topology through its build phases. Every
+ * phase is the topology with fewer leafs (and spines) deployed; its metrics are
+ * calculated like those of any topology and compared with the phase before to
+ * get what the phase adds. Each phase is also checked against the full build:
+ * growing must only add cables, never move the ones already installed.
+ */
+
+import { Topology, TopologyConfiguration } from '../types/topology';
+import { TopologyMetrics } from '../types/metrics';
+import { GrowthPhase, GrowthPlan, GrowthIssue, PhaseMetrics, PhaseTotals } from '../types/growth';
+import {
+  calculateAllMetrics,
+  getBreakoutFactor,
+  getPodLayout,
+  isRailFabric,
+  resolveRailFabric,
+  validateClosTiers,
+  validatePortAllocation
+} from './CalculationService';
+
+export const FINAL_PHASE_NAME = 'Full build';
+
+/**
+ * Get the configuration of a build phase
+ *
+ * N-tier fabrics keep the pod shape of the full build, so a phase deploys
+ * whole pods' worth of spines for the pods it fills. Rail fabrics derive their
+ * scalable units from the leafs of the phase.
+ * @param config - The configuration of the full build
+ * @param phase - The build phase
+ * @returns The configuration of the topology at the end of the phase
+ */
+export const getPhaseConfiguration = (config: TopologyConfiguration, phase: GrowthPhase): TopologyConfiguration => {
+  const numLeafs = Math.max(1, Math.round(phase.numLeafs));
+  const resolved = resolveRailFabric(config);
+  const phaseConfig: TopologyConfiguration = {
+    ...config,
+    numLeafs,
+    growthPhases: undefined
+  };
+
+  if (isRailFabric(config) && config.railConfig) {
+    phaseConfig.railConfig = { ...config.railConfig, scalableUnits: undefined };
+  }
+
+  if (resolved.numTiers >= 3 && resolved.numSpines > 0) {
+    const { leafsPerPod, spinesPerPod } = getPodLayout(resolved);
+    const pods = Math.ceil(numLeafs / leafsPerPod);
+    phaseConfig.podConfig = { leafsPerPod, spinesPerPod };
+    phaseConfig.numSpines = phase.numSpines ?? pods * spinesPerPod;
+  } else if (phase.numSpines !== undefined && resolved.numSpines > 0) {
+    phaseConfig.numSpines = phase.numSpines;
+  }
+
+  return phaseConfig;
+};
+
+const getPhaseTotals = (metrics: TopologyMetrics): PhaseTotals => ({
+  leafs: metrics.deviceCount.leafs,
+  spines: metrics.deviceCount.spines,
+  superSpines: metrics.deviceCount.superSpines,
+  optics: metrics.optics.reduce((sum, assignment) => sum + assignment.optics, 0),
+  cables: metrics.cabling.total,
+  cost: metrics.cost.total,
+  power: metrics.power.total
+});
+
+const subtractTotals = (totals: PhaseTotals, previous: PhaseTotals | null): PhaseTotals => ({
+  leafs: totals.leafs - (previous?.leafs ?? 0),
+  spines: totals.spines - (previous?.spines ?? 0),
+  superSpines: totals.superSpines - (previous?.superSpines ?? 0),
+  optics: totals.optics - (previous?.optics ?? 0),
+  cables: totals.cables - (previous?.cables ?? 0),
+  cost: totals.cost - (previous?.cost ?? 0),
+  power: totals.power - (previous?.power ?? 0)
+});
+
+// Links from one spine to each super-spine of its plane
+const getLinksPerSuperSpine = (metrics: TopologyMetrics): number => {
+  const spineTier = metrics.tiers.find(tier => tier.role === 'spine');
+  const superSpineTier = metrics.tiers.find(tier => tier.role === 'super-spine');
+  if (!spineTier || !superSpineTier || superSpineTier.devices === 0) {
+    return 0;
+  }
+  const planes = Math.max(1, metrics.portAllocation.spinesPerLeaf);
+  return spineTier.uplinksPerDevice / Math.max(1, superSpineTier.devices / planes);
+};
+
+/**
+ * Check that the full build can still be built from the day-one spines
+ * @param config - The configuration of the full build
+ * @param metrics - The metrics of the full build
+ * @returns Capacity issues of the full build
+ */
+const checkFinalCapacity = (config: TopologyConfiguration, metrics: TopologyMetrics): GrowthIssue[] => {
+  const issues: GrowthIssue[] = [];
+  const resolved = resolveRailFabric(config);
+  const spineTier = metrics.tiers.find(tier => tier.role === 'spine');
+
+  if (spineTier && resolved.spineConfig) {
+    const { portCount, portSpeed, breakoutMode } = resolved.spineConfig;
+    const lanes = portCount * getBreakoutFactor(resolved, portSpeed, breakoutMode);
+    const needed = spineTier.downlinksPerDevice + spineTier.uplinksPerDevice;
+    if (needed > lanes) {
+      issues.push({
+        phase: FINAL_PHASE_NAME,
+        type: 'capacity',
+        message: `Spines need ${needed} links in the full build but have ${lanes} (${portCount} ports${breakoutMode ? ` at ${breakoutMode}` : ''})`
+      });
+    }
+  }
+
+  [validatePortAllocation(resolved), validateClosTiers(resolved)].forEach(result => {
+    if (!result.valid && result.error) {
+      issues.push({ phase: FINAL_PHASE_NAME, type: 'capacity', message: result.error });
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Check that growing from a phase to the full build only adds cables
+ * @param phase - The phase
+ * @param metrics - The metrics of the phase
+ * @param finalMetrics - The metrics of the full build
+ * @returns Re-cabling and capacity issues of the phase
+ */
+const checkPhase = (phase: PhaseMetrics, metrics: TopologyMetrics, finalMetrics: TopologyMetrics): GrowthIssue[] => {
+  const issues: GrowthIssue[] = [];
+  const finalTotals = getPhaseTotals(finalMetrics);
+
+  if (phase.totals.leafs > finalTotals.leafs || phase.totals.spines > finalTotals.spines) {
+    issues.push({
+      phase: phase.name,
+      type: 'capacity',
+      message: `Deploys ${phase.totals.leafs} leafs and ${phase.totals.spines} spines, more than the full build (${finalTotals.leafs} and ${finalTotals.spines})`
+    });
+  }
+
+  const linksPerSpine = metrics.portAllocation.linksPerSpine;
+  const finalLinksPerSpine = finalMetrics.portAllocation.linksPerSpine;
+  if (metrics.tiers.some(tier => tier.role === 'spine') && linksPerSpine !== finalLinksPerSpine) {
+    issues.push({
+      phase: phase.name,
+      type: 'recabling',
+      message: `Leafs run ${linksPerSpine} link${linksPerSpine === 1 ? '' : 's'} to each spine but ${finalLinksPerSpine} in the full build, so installed leaf uplinks have to move`
+    });
+  }
+
+  const linksPerSuperSpine = getLinksPerSuperSpine(metrics);
+  const finalLinksPerSuperSpine = getLinksPerSuperSpine(finalMetrics);
+  if (linksPerSuperSpine > 0 && linksPerSuperSpine !== finalLinksPerSuperSpine) {
+    issues.push({
+      phase: phase.name,
+      type: 'recabling',
+      message: `Spines run ${+linksPerSuperSpine.toFixed(2)} link${linksPerSuperSpine === 1 ? '' : 's'} to each super-spine but ${+finalLinksPerSuperSpine.toFixed(2)} in the full build, so installed spine uplinks have to move`
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * Plan the build phases of a topology
+ * @param topology - The topology; its configuration is the full build
+ * @returns Totals and deltas per phase and the issues found, or null when the metrics cannot be calculated
+ */
+export const planGrowth = (topology: Topology): GrowthPlan | null => {
+  const finalMetrics = calculateAllMetrics(topology);
+  if (!finalMetrics) {
+    return null;
+  }
+
+  const config = topology.configuration;
+  const phases: PhaseMetrics[] = [];
+  const issues: GrowthIssue[] = [];
+  let previous: PhaseTotals | null = null;
+
+  const addPhase = (name: string, configuration: TopologyConfiguration, metrics: TopologyMetrics, final: boolean): PhaseMetrics => {
+    const totals = getPhaseTotals(metrics);
+    if (previous && (totals.leafs < previous.leafs || totals.spines < previous.spines)) {
+      issues.push({ phase: name, type: 'capacity', message: 'Deploys fewer switches than the phase before' });
+    }
+    const phase = { name, final, configuration, totals, delta: subtractTotals(totals, previous) };
+    phases.push(phase);
+    previous = totals;
+    return phase;
+  };
+
+  (config.growthPhases || []).forEach(growthPhase => {
+    const configuration = getPhaseConfiguration(config, growthPhase);
+    const metrics = calculateAllMetrics({ ...topology, configuration });
+    if (!metrics) {
+      return;
+    }
+    const phase = addPhase(growthPhase.name, configuration, metrics, false);
+    issues.push(...checkPhase(phase, metrics, finalMetrics));
+  });
+
+  addPhase(FINAL_PHASE_NAME, config, finalMetrics, true);
+  issues.push(...checkFinalCapacity(config, finalMetrics));
+
+  return {
+    currency: finalMetrics.cost.currency,
+    phases,
+    issues
+  };
+};
+
+const growthService = {
+  planGrowth,
+  getPhaseConfiguration
+};
+
+export default growthService;
@@ -0,0 +1,72 @@
+import { getTemplateByName } from '../utils/templates';
+import { Topology } from '../types/topology';
+import { buildInventory, formatDeviceName } from './InventoryService';
+
+const tokens = {
+  site: 'fra2',
+  role: 'leaf',
+  index: 7,
+  pod: 2,
+  member: 3,
+  tier: 1,
+  rack: 'B04'
+};
+
+const getTemplate = (name: string): Topology => {
+  const template = getTemplateByName(name);
+  if (!template) {
+    throw new Error(`No template named ${name}`);
+  }
+  return template;
+};
+
+describe('formatDeviceName', () => {
+  it('replaces every token', () => {
+    expect(formatDeviceName('{site}-{role}{index}-p{pod}m{member}-t{tier}-{rack}', tokens))
+      .toBe('fra2-leaf7-p2m3-t1-B04');
+  });
+
+  it('pads numbers with zeros to the given width', () => {
+    expect(formatDeviceName('{role}{index:03}', tokens)).toBe('leaf007');
+    expect(formatDeviceName('{role}{index:02}', { ...tokens, index: 123 })).toBe('leaf123');
+    expect(formatDeviceName('{pod:2}-{member:1}', tokens)).toBe('02-3');
+  });
+
+  it('keeps unknown tokens as they are', () => {
+    expect(formatDeviceName('{site}-{row}-{index:02}', tokens)).toBe('fra2-{row}-07');
+    expect(formatDeviceName('{constructor}{toString}', tokens)).toBe('{constructor}{toString}');
+  });
+
+  it('leaves text without tokens and malformed tokens alone', () => {
+    expect(formatDeviceName('core-switch', tokens)).toBe('core-switch');
+    expect(formatDeviceName('{index:ab}-{index', tokens)).toBe('{index:ab}-{index');
+  });
+});
+
+describe('buildInventory', () => {
+  it('names the switches with the default scheme', () => {
+    const inventory = buildInventory(getTemplate('Small Leaf-Spine'));
+
+    expect(inventory?.devices.map(device => device.name)).toEqual([
+      'dc1-leaf01', 'dc1-leaf02', 'dc1-leaf03', 'dc1-leaf04', 'dc1-spine01', 'dc1-spine02'
+    ]);
+  });
+
+  it('reports names given to more than one switch and overrides of missing switches', () => {
+    const topology = getTemplate('Small Leaf-Spine');
+    const inventory = buildInventory({
+      ...topology,
+      configuration: {
+        ...topology.configuration,
+        deviceOverrides: {
+          'leaf-2': { name: 'dc1-leaf01' },
+          'leaf-9': { name: 'gone' }
+        }
+      }
+    });
+
+    expect(inventory?.devices[1]).toMatchObject({ key: 'leaf-2', name: 'dc1-leaf01', overridden: true });
+    expect(inventory?.duplicateNames).toEqual(['dc1-leaf01']);
+    expect(inventory?.unusedOverrides).toEqual(['leaf-9']);
+  });
+});
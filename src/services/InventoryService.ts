@@ -0,0 +1,239 @@
+/**
+ * InventoryService.ts
+ *
+ * This service turns the switch counts of a topology into an inventory of
+ * named switches. Each switch gets a stable key (role and index), a name from
+ * the naming scheme, its pod, rack and model. Per-switch overrides of the name
+ * or model are stored by key, so they stay with the same switch when the
+ * topology is recalculated.
+ */
+
+import { Topology, TopologyConfiguration } from '../types/topology';
+import { TierRole } from '../types/metrics';
+import { DeviceInstance, DeviceOverride, Inventory, NamingScheme } from '../types/inventory';
+import {
+  calculateClosTiers,
+  calculateRackLayout,
+  calculateRailMetrics,
+  getPodLayout,
+  getRoleDevice,
+  resolveRailFabric
+} from './CalculationService';
+import { getLayoutDeviceName, getSwitchPlacements } from './RackLayoutService';
+import { getDeviceById } from '../data/deviceCatalog';
+import { toCsv, CsvOptions } from '../utils/fileExport';
+
+const GENERIC_MANUFACTURER = 'Generic';
+
+export const DEFAULT_NAMING_SCHEME: NamingScheme = {
+  site: 'dc1',
+  template: '{site}-{role}{index:02}',
+  roleCodes: {
+    leaf: 'leaf',
+    spine: 'spine',
+    'super-spine': 'sspine'
+  }
+};
+
+// Values of the template tokens for one switch
+type NameTokens = Record<'site' | 'role' | 'index' | 'pod' | 'member' | 'tier' | 'rack', string | number>;
+
+/**
+ * Get the naming scheme of a topology, falling back to the defaults
+ * @param scheme - The naming scheme of the topology, if any
+ * @returns The naming scheme
+ */
+export const getNamingScheme = (scheme?: Partial<NamingScheme>): NamingScheme => ({
+  site: scheme?.site ?? DEFAULT_NAMING_SCHEME.site,
+  template: scheme?.template || DEFAULT_NAMING_SCHEME.template,
+  roleCodes: { ...DEFAULT_NAMING_SCHEME.roleCodes, ...scheme?.roleCodes }
+});
+
+/**
+ * Get the stable key of a switch
+ * @param role - Role of the switch
+ * @param index - Index of the switch among those of its role, from 1
+ * @returns The key, such as leaf-12
+ */
+export const getDeviceKey = (role: TierRole, index: number): string => `${role}-${index}`;
+
+/**
+ * Build a switch name from a template
+ *
+ * A token such as {index} is replaced by its value; {index:03} pads a number
+ * with zeros to three digits. Unknown tokens are kept as they are.
+ * @param template - The name template
+ * @param tokens - Values of the tokens
+ * @returns The name
+ */
+export const formatDeviceName = (template: string, tokens: NameTokens): string =>
+  template.replace(/\{(\w+)(?::(\d+))?\}/g, (match, token: string, width?: string) => {
+    if (!Object.prototype.hasOwnProperty.call(tokens, token)) {
+      return match;
+    }
+    const value = String(tokens[token as keyof NameTokens]);
+    return width ? value.padStart(Number(width), '0') : value;
+  });
+
+/**
+ * Build the inventory of switches of a topology
+ *
+ * Leafs and spines are numbered across pods and super-spines across their
+ * tiers, in the order of the rack layout. A rail leaf's pod is its scalable
+ * unit and its member number its rail; a super-spine's pod is its plane.
+ * @param topology - The topology
+ * @returns The inventory, or null when the topology has no configuration
+ */
+export const buildInventory = (topology: Topology): Inventory | null => {
+  if (!topology || !topology.configuration) {
+    return null;
+  }
+
+  const config = resolveRailFabric(topology.configuration);
+  const scheme = getNamingScheme(config.namingScheme);
+  const overrides: Record<string, DeviceOverride> = config.deviceOverrides || {};
+  const tiers = calculateClosTiers(config);
+  const { leafsPerPod, spinesPerPod } = getPodLayout(config);
+  const planes = Math.max(1, spinesPerPod);
+  const rails = calculateRailMetrics(config)?.rails;
+  const superSpineOverride = config.switchCost.superSpine !== undefined;
+
+  const layout = calculateRackLayout(config);
+  const placements = getSwitchPlacements(layout);
+
+  const devices: DeviceInstance[] = [];
+  const counts: Record<TierRole, number> = { leaf: 0, spine: 0, 'super-spine': 0 };
+
+  tiers.forEach(tier => {
+    const roleDevice = getRoleDevice(config, tier.role, superSpineOverride);
+    const tierConfig = tier.role === 'leaf'
+      ? null
+      : tier.role === 'super-spine' ? config.superSpineConfig ?? config.spineConfig : config.spineConfig;
+    const ports = tierConfig
+      ? `${tierConfig.portCount}x${tierConfig.portSpeed}`
+      : `${config.leafConfig.portCount}x${config.leafConfig.downlinkSpeed}`;
+
+    for (let device = 0; device < tier.devices; device++) {
+      const index = counts[tier.role]++;
+      const key = getDeviceKey(tier.role, index + 1);
+      const override = overrides[key];
+      const groupSize = tier.role === 'leaf'
+        ? rails ?? Math.max(1, leafsPerPod)
+        : Math.max(1, spinesPerPod);
+      const [pod, member] = tier.role === 'super-spine'
+        ? [(device % planes) + 1, Math.floor(device / planes) + 1]
+        : [Math.floor(index / groupSize) + 1, (index % groupSize) + 1];
+      const placement = placements.get(getLayoutDeviceName(tier.role, index));
+
+      const overrideDevice = override?.deviceId
+        ? getDeviceById(tier.role === 'leaf' ? 'leaf' : 'spine', override.deviceId)
+        : null;
+      const model = overrideDevice ?? roleDevice;
+      const name = override?.name?.trim() || formatDeviceName(scheme.template, {
+        site: scheme.site,
+        role: scheme.roleCodes[tier.role],
+        index: index + 1,
+        pod,
+        member,
+        tier: tier.tier,
+        rack: placement?.rack.name ?? ''
+      });
+
+      devices.push({
+        key,
+        name,
+        role: tier.role,
+        tier: tier.tier,
+        index: index + 1,
+        pod,
+        member,
+        rack: placement?.rack.name ?? '',
+        position: placement?.position ?? 0,
+        deviceId: model?.id ?? null,
+        manufacturer: model?.manufacturer ?? GENERIC_MANUFACTURER,
+        model: model?.model ?? `${ports} switch`,
+        overridden: Boolean(override?.name?.trim() || overrideDevice)
+      });
+    }
+  });
+
+  const keys = new Set(devices.map(device => device.key));
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  devices.forEach(device => {
+    if (seen.has(device.name)) {
+      duplicates.add(device.name);
+    }
+    seen.add(device.name);
+  });
+
+  return {
+    topology: topology.name,
+    devices,
+    duplicateNames: Array.from(duplicates),
+    unusedOverrides: Object.keys(overrides).filter(key => !keys.has(key)),
+    layout
+  };
+};
+
+/**
+ * Set or clear the override of one switch
+ * @param config - The topology configuration
+ * @param key - Key of the switch
+ * @param patch - Changes to its override; empty values clear them
+ * @returns The configuration with the override applied
+ */
+export const setDeviceOverride = (
+  config: TopologyConfiguration,
+  key: string,
+  patch: DeviceOverride
+): TopologyConfiguration => {
+  const { [key]: current, ...others } = config.deviceOverrides || {};
+  const merged: DeviceOverride = { ...current, ...patch };
+  const override: DeviceOverride = {
+    ...(merged.name ? { name: merged.name } : {}),
+    ...(merged.deviceId ? { deviceId: merged.deviceId } : {})
+  };
+
+  return {
+    ...config,
+    deviceOverrides: Object.keys(override).length > 0 ? { ...others, [key]: override } : others
+  };
+};
+
+/**
+ * Format an inventory as CSV
+ * @param inventory - The inventory
+ * @param options - Output options; excel writes a file Excel opens as UTF-8
+ * @returns The CSV text, one row per switch
+ */
+export const formatInventoryCsv = (inventory: Inventory, options: CsvOptions = {}): string =>
+  toCsv(
+    ['Name', 'Role', 'Tier', 'Index', 'Pod', 'Member', 'Rack', 'U', 'Manufacturer', 'Model', 'SKU', 'Key'],
+    inventory.devices.map(device => [
+      device.name,
+      device.role,
+      device.tier,
+      device.index,
+      device.pod,
+      device.member,
+      device.rack,
+      device.position || '',
+      device.manufacturer,
+      device.model,
+      device.deviceId ?? '',
+      device.key
+    ]),
+    options
+  );
+
+const inventoryService = {
+  getNamingScheme,
+  getDeviceKey,
+  formatDeviceName,
+  buildInventory,
+  setDeviceOverride,
+  formatInventoryCsv
+};
+
+export default inventoryService;
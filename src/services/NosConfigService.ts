@@ -0,0 +1,213 @@
+/**
+ * NosConfigService.ts
+ *
+ * This service renders day-0 underlay configurations for every switch of a
+ * topology. It gathers the ports, breakouts, routed interfaces, BGP peers and
+ * ECMP width of each switch from the inventory, cabling plan and address plan
+ * into a context, and hands the context to the renderer of each network OS.
+ * Renderers are registered by id, so further platforms can be added without
+ * changing this service.
+ */
+
+import { Topology } from '../types/topology';
+import { CableEndpoint } from '../types/cablingPlan';
+import { ConfigContexts, ConfigInterface, ConfigPort, ConfigRenderer, DeviceConfigContext } from '../types/nosConfig';
+import { getBreakoutFactor, getLeafPortAllocation, getTierBreakoutFactor, resolveRailFabric } from './CalculationService';
+import { buildInventory } from './InventoryService';
+import { generateCablingPlan, getSwitchLinks } from './CablingPlanService';
+import { generateAddressPlan, getInterfaceName } from './AddressingService';
+import sonicRenderer from './renderers/SonicRenderer';
+import eosRenderer from './renderers/EosRenderer';
+import frrRenderer from './renderers/FrrRenderer';
+import { createZip, ZipEntry } from '../utils/zip';
+
+const renderers = new Map<string, ConfigRenderer>();
+
+/**
+ * Register a renderer, replacing any renderer with the same id
+ * @param renderer - The renderer
+ */
+export const registerConfigRenderer = (renderer: ConfigRenderer): void => {
+  renderers.set(renderer.id, renderer);
+};
+
+/**
+ * Get the registered renderers
+ * @returns The renderers in the order they were registered
+ */
+export const getConfigRenderers = (): ConfigRenderer[] => Array.from(renderers.values());
+
+[sonicRenderer, eosRenderer, frrRenderer].forEach(registerConfigRenderer);
+
+/**
+ * Get the lane speed of a breakout mode
+ * @param mode - The breakout mode, e.g. 4x25G
+ * @param speed - Port speed used when the mode names no speed
+ * @returns The lane speed
+ */
+const getLaneSpeed = (mode: string | undefined, speed: string): string =>
+  mode?.match(/^\d+x(\d+G)/i)?.[1].toUpperCase() ?? speed;
+
+/**
+ * Build the configuration context of every switch
+ *
+ * Leaf uplinks are single ports; the ports of spines and super-spines toward
+ * the tier below are broken out when their tier uses breakout cables. Leafs
+ * also list their server ports. The ECMP width is the number of uplinks, or
+ * for the top tier the most parallel links to one switch below. No contexts
+ * are built while the cabling plan has links on ports the switches do not
+ * have; its issues are returned instead.
+ * @param topology - The topology
+ * @returns The contexts and issues, or null when the topology has no configuration
+ */
+export const buildConfigContexts = (topology: Topology): ConfigContexts | null => {
+  const inventory = buildInventory(topology);
+  const cablingPlan = generateCablingPlan(topology, inventory);
+  const addressPlan = generateAddressPlan(topology, inventory, cablingPlan);
+  if (!inventory || !cablingPlan || !addressPlan) {
+    return null;
+  }
+  if (cablingPlan.issues.length > 0) {
+    return { contexts: [], issues: cablingPlan.issues };
+  }
+
+  const config = resolveRailFabric(topology.configuration);
+  const allocation = getLeafPortAllocation(config);
+  const unnumbered = addressPlan.parameters.linkAddressing === 'ipv6-unnumbered';
+  const addressing = new Map(addressPlan.devices.map(device => [device.key, device]));
+  const addresses = new Map(addressPlan.interfaces.map(entry => [`${entry.key}/${entry.interface}`, entry.address]));
+  const interfaces = new Map<string, ConfigInterface[]>();
+  const ports = new Map<string, Map<number, ConfigPort>>();
+
+  const addEnd = (end: CableEndpoint, peer: CableEndpoint, speed: string, uplink: boolean) => {
+    if (end.role === 'server') {
+      return;
+    }
+    const tierConfig = end.role === 'super-spine' ? config.superSpineConfig ?? config.spineConfig : config.spineConfig;
+    const lanes = end.lane === null ? 1 : getTierBreakoutFactor(config, end.role);
+    const devicePorts = ports.get(end.key) || new Map<number, ConfigPort>();
+    devicePorts.set(end.port, {
+      port: end.port,
+      speed: lanes > 1 && tierConfig ? tierConfig.portSpeed : speed,
+      lanes,
+      laneSpeed: speed,
+      usage: 'fabric'
+    });
+    ports.set(end.key, devicePorts);
+
+    const peerAddress = addresses.get(`${peer.key}/${getInterfaceName(peer)}`) ?? null;
+    const deviceInterfaces = interfaces.get(end.key) || [];
+    deviceInterfaces.push({
+      name: getInterfaceName(end),
+      port: end.port,
+      lane: end.lane,
+      lanes,
+      speed,
+      address: addresses.get(`${end.key}/${getInterfaceName(end)}`) ?? null,
+      peerDevice: peer.device,
+      peerInterface: getInterfaceName(peer),
+      peerAddress: peerAddress ? peerAddress.split('/')[0] : null,
+      peerAsn: addressing.get(peer.key)?.asn ?? null,
+      uplink,
+      description: `${peer.device} ${getInterfaceName(peer)}`
+    });
+    interfaces.set(end.key, deviceInterfaces);
+  };
+
+  // Rail leaf server ports are configured with the other server ports below
+  getSwitchLinks(cablingPlan).forEach(link => {
+    addEnd(link.a, link.b, link.speed, true);
+    addEnd(link.b, link.a, link.speed, false);
+  });
+
+  // Server ports of the leafs, from port 1
+  const serverLanes = getBreakoutFactor(config, allocation.downlinkSpeed, config.leafConfig.breakoutMode);
+  const serverPorts: ConfigPort[] = Array.from({ length: allocation.downlinkPorts }, (_, index) => ({
+    port: index + 1,
+    speed: allocation.downlinkSpeed,
+    lanes: serverLanes,
+    laneSpeed: serverLanes > 1 ? getLaneSpeed(config.leafConfig.breakoutMode, allocation.downlinkSpeed) : allocation.downlinkSpeed,
+    usage: 'server'
+  }));
+
+  const contexts = inventory.devices.map(device => {
+    const deviceInterfaces = (interfaces.get(device.key) || [])
+      .sort((a, b) => a.port - b.port || (a.lane ?? 0) - (b.lane ?? 0));
+    const fabricPorts = Array.from(ports.get(device.key)?.values() || []);
+    const uplinks = deviceInterfaces.filter(entry => entry.uplink).length;
+    const linksPerPeer = new Map<string, number>();
+    deviceInterfaces.forEach(entry => linksPerPeer.set(entry.peerDevice, (linksPerPeer.get(entry.peerDevice) || 0) + 1));
+
+    return {
+      topology: topology.name,
+      device: device.name,
+      role: device.role,
+      manufacturer: device.manufacturer,
+      model: device.model,
+      loopback: addressing.get(device.key)?.loopback ?? null,
+      asn: addressing.get(device.key)?.asn ?? null,
+      unnumbered,
+      maximumPaths: Math.max(1, uplinks || Math.max(0, ...Array.from(linksPerPeer.values()))),
+      ports: [...(device.role === 'leaf' ? serverPorts : []), ...fabricPorts].sort((a, b) => a.port - b.port),
+      interfaces: deviceInterfaces
+    };
+  });
+
+  return { contexts, issues: [] };
+};
+
+/**
+ * Render switch contexts with the selected renderers
+ * @param contexts - The switch contexts
+ * @param rendererIds - Renderers to use (default: all registered renderers)
+ * @returns One file per switch and renderer, under the renderer id and the switch name
+ */
+const renderContexts = (contexts: DeviceConfigContext[], rendererIds?: string[]): ZipEntry[] => {
+  const selected = getConfigRenderers().filter(renderer => !rendererIds || rendererIds.includes(renderer.id));
+
+  return selected.flatMap(renderer =>
+    contexts.flatMap(context => {
+      const folder = context.device.replace(/[\\/:*?"<>|]/g, '_');
+      return renderer.render(context).map(file => ({
+        path: `${renderer.id}/${folder}/${file.path}`,
+        content: file.content
+      }));
+    })
+  );
+};
+
+/**
+ * Render the configurations of every switch
+ * @param topology - The topology
+ * @param rendererIds - Renderers to use (default: all registered renderers)
+ * @returns One file per switch and renderer, or none when the configurations have issues
+ */
+export const renderConfigs = (topology: Topology, rendererIds?: string[]): ZipEntry[] =>
+  renderContexts(buildConfigContexts(topology)?.contexts ?? [], rendererIds);
+
+/**
+ * Render the configurations of every switch into a ZIP archive
+ *
+ * Throws with the first issue when the configurations cannot be built, rather
+ * than archiving configurations for ports the switches do not have.
+ * @param topology - The topology
+ * @param rendererIds - Renderers to use (default: all registered renderers)
+ * @returns The archive
+ */
+export const createConfigArchive = (topology: Topology, rendererIds?: string[]): Uint8Array => {
+  const built = buildConfigContexts(topology);
+  if (built && built.issues.length > 0) {
+    throw new Error(built.issues[0]);
+  }
+  return createZip(renderContexts(built?.contexts ?? [], rendererIds));
+};
+
+const nosConfigService = {
+  registerConfigRenderer,
+  getConfigRenderers,
+  buildConfigContexts,
+  renderConfigs,
+  createConfigArchive
+};
+
+export default nosConfigService;
@@ -0,0 +1,88 @@
+/**
+ * PricingService.ts
+ *
+ * This service turns list prices into the prices procurement actually pays.
+ * Catalog and configured prices are USD list prices; a pricing profile
+ * converts them into the reporting currency and takes the negotiated
+ * discounts off. A manufacturer discount replaces the switch category
+ * discount for that manufacturer's switches.
+ */
+
+import { Currency, PriceCategory, PricingProfile } from '../types/pricing';
+
+export const CURRENCIES: Currency[] = ['USD', 'EUR', 'GBP'];
+
+export const DEFAULT_PRICING_PROFILE: PricingProfile = {
+  currency: 'USD',
+  exchangeRates: {
+    USD: 1,
+    EUR: 0.92,
+    GBP: 0.79
+  },
+  categoryDiscounts: {
+    switches: 0,
+    optics: 0,
+    cables: 0
+  },
+  manufacturerDiscounts: {}
+};
+
+/**
+ * Get the pricing profile of a topology, falling back to the defaults
+ * @param profile - The pricing profile of the topology, if any
+ * @returns The pricing profile
+ */
+export const getPricingProfile = (profile?: Partial<PricingProfile>): PricingProfile => ({
+  currency: profile?.currency ?? DEFAULT_PRICING_PROFILE.currency,
+  exchangeRates: { ...DEFAULT_PRICING_PROFILE.exchangeRates, ...profile?.exchangeRates },
+  categoryDiscounts: { ...DEFAULT_PRICING_PROFILE.categoryDiscounts, ...profile?.categoryDiscounts },
+  manufacturerDiscounts: { ...profile?.manufacturerDiscounts }
+});
+
+/**
+ * Get the discount that applies to a purchase
+ * @param profile - The pricing profile
+ * @param category - What is bought
+ * @param manufacturer - Manufacturer of the switches, when known
+ * @returns Discount off list price in %, between 0 and 100
+ */
+export const getDiscount = (profile: PricingProfile, category: PriceCategory, manufacturer?: string): number => {
+  const manufacturerDiscount = category === 'switches' && manufacturer
+    ? profile.manufacturerDiscounts[manufacturer]
+    : undefined;
+  const discount = manufacturerDiscount ?? profile.categoryDiscounts[category];
+  return Math.min(100, Math.max(0, discount || 0));
+};
+
+/**
+ * Convert a USD price into the reporting currency of a profile
+ * @param value - Price in USD
+ * @param profile - The pricing profile
+ * @returns Price in the profile currency
+ */
+export const convertPrice = (value: number, profile: PricingProfile): number =>
+  value * (profile.exchangeRates[profile.currency] || 1);
+
+/**
+ * Get the net price of a purchase in the reporting currency
+ * @param value - USD list price
+ * @param profile - The pricing profile
+ * @param category - What is bought
+ * @param manufacturer - Manufacturer of the switches, when known
+ * @returns Net price in the profile currency
+ */
+export const getNetPrice = (
+  value: number,
+  profile: PricingProfile,
+  category: PriceCategory,
+  manufacturer?: string
+): number => convertPrice(value, profile) * (1 - getDiscount(profile, category, manufacturer) / 100);
+
+const pricingService = {
+  getPricingProfile,
+  getDiscount,
+  convertPrice,
+  getNetPrice
+};
+
+export default pricingService;
@@ -0,0 +1,524 @@
+/**
+ * RackLayoutService.ts
+ *
+ * This service places the devices of a topology into racks and rows. Server
+ * racks fill rows of a fixed length, with their leafs on top of each rack (ToR)
+ * or in network racks in the middle (MoR) or at the end (EoR) of the row.
+ * Spines and super-spines go into dedicated network racks in a row in the
+ * middle of the hall. Cable lengths are measured on the resulting floor plan.
+ */
+
+import {
+  RackLayoutParameters,
+  RackLayoutInput,
+  RackLayout,
+  RackDeviceProfile,
+  RackItemRole,
+  Rack,
+  RackRow,
+  CableRun
+} from '../types/layout';
+import { RackSpaceParameters } from '../types/topology';
+import { CableLengthRange, TierRole } from '../types/metrics';
+
+// Floor geometry
+const RACK_WIDTH_M = 0.6;
+const ROW_PITCH_M = 2.4;         // Rack depth plus the aisle
+const VERTICAL_RUN_M = 2;        // Tray drop at each end of an inter-rack cable
+const RACK_UNIT_M = 0.0445;
+const IN_RACK_SLACK_M = 1;       // Service loop of a cable that stays in its rack
+
+export const BTU_PER_WATT = 3.412;
+
+export const DEFAULT_RACK_LAYOUT: RackLayoutParameters = {
+  rackHeight: 42,
+  reservedRackUnits: 2,
+  rackPowerBudget: 12000,
+  rackCoolingBudget: 41000,      // About 12 kW of heat
+  leafPlacement: 'tor',
+  racksPerRow: 20,
+  serverRackUnits: 2,
+  serverPower: 0
+};
+
+// A device or block of servers placed in a rack
+export interface Placement {
+  rack: Rack;
+  position: number;
+}
+
+// Space, power and cooling of a rack
+interface RackCapacity {
+  rackUnits: number;
+  maxPower: number;              // W
+  thermalOutput: number;         // BTU/hr
+}
+
+// Devices of one role that share a rack and a pod or plane
+interface PlacementGroup {
+  placement: Placement;
+  key: number;                   // Pod or plane
+  count: number;
+}
+
+/**
+ * Apply the layout defaults to the rack space parameters of a topology
+ * @param rackSpace - The rack space parameters
+ * @returns The layout parameters
+ */
+export const getRackLayoutParameters = (rackSpace: RackSpaceParameters): RackLayoutParameters => ({
+  rackHeight: rackSpace.rackHeight ?? DEFAULT_RACK_LAYOUT.rackHeight,
+  reservedRackUnits: rackSpace.reservedRackUnits ?? DEFAULT_RACK_LAYOUT.reservedRackUnits,
+  rackPowerBudget: rackSpace.rackPowerBudget ?? DEFAULT_RACK_LAYOUT.rackPowerBudget,
+  rackCoolingBudget: rackSpace.rackCoolingBudget ?? DEFAULT_RACK_LAYOUT.rackCoolingBudget,
+  leafPlacement: rackSpace.leafPlacement ?? DEFAULT_RACK_LAYOUT.leafPlacement,
+  racksPerRow: Math.max(1, rackSpace.racksPerRow ?? DEFAULT_RACK_LAYOUT.racksPerRow),
+  serverRackUnits: Math.max(1, rackSpace.serverRackUnits ?? DEFAULT_RACK_LAYOUT.serverRackUnits),
+  serverPower: rackSpace.serverPower ?? DEFAULT_RACK_LAYOUT.serverPower
+});
+
+/**
+ * Get the name of a row (A, B, ..., Z, AA, AB, ...)
+ * @param row - Zero-based row index
+ * @returns The row name
+ */
+export const getRowName = (row: number): string => {
+  const letter = String.fromCharCode(65 + (row % 26));
+  return row < 26 ? letter : getRowName(Math.floor(row / 26) - 1) + letter;
+};
+
+const layoutRoleNames: Record<TierRole, string> = {
+  leaf: 'Leaf',
+  spine: 'Spine',
+  'super-spine': 'Super-Spine'
+};
+
+/**
+ * Get the name of a switch in the rack layout
+ * @param role - Role of the switch
+ * @param index - Zero-based index of the switch among those of its role
+ * @returns The name, such as Leaf 1 or Super-Spine 4
+ */
+export const getLayoutDeviceName = (role: TierRole, index: number): string =>
+  `${layoutRoleNames[role]} ${index + 1}`;
+
+/**
+ * Index the switches of a rack layout by their layout name
+ * @param layout - The rack layout
+ * @returns The placement of every switch, by name such as Leaf 3
+ */
+export const getSwitchPlacements = (layout: RackLayout): Map<string, Placement> => {
+  const placements = new Map<string, Placement>();
+  layout.racks.forEach(rack => {
+    rack.items
+      .filter(item => item.role !== 'server')
+      .forEach(item => placements.set(item.name, { rack, position: item.position }));
+  });
+  return placements;
+};
+
+/**
+ * List the servers of a rack layout one by one
+ * @param layout - The rack layout
+ * @returns The placement of every server, one scalable group after another
+ */
+export const getServerPlacements = (layout: RackLayout): Placement[] =>
+  layout.racks.flatMap(rack =>
+    rack.items
+      .filter(item => item.role === 'server')
+      .flatMap(item => Array.from({ length: item.count }, (_, server) => ({
+        rack,
+        position: item.position + server * layout.parameters.serverRackUnits
+      })))
+  );
+
+const createRack = (role: Rack['role']): Rack => ({
+  id: '',
+  name: '',
+  role,
+  row: 0,
+  slot: 0,
+  usedRackUnits: 0,
+  power: 0,
+  maxPower: 0,
+  thermalOutput: 0,
+  items: []
+});
+
+/**
+ * Place a block of equipment in a rack
+ * @param rack - The rack
+ * @param role - Role of the equipment
+ * @param name - Label shown in the elevation
+ * @param profile - Size, power and heat of one device
+ * @param count - Number of devices in the block
+ * @param position - Lowest U of the block; defaults to the lowest free U
+ * @returns Placement of the block
+ */
+const placeItem = (
+  rack: Rack,
+  role: RackItemRole,
+  name: string,
+  profile: RackDeviceProfile,
+  count: number,
+  position = rack.usedRackUnits + 1
+): Placement => {
+  rack.items.push({
+    role,
+    name,
+    position,
+    rackUnits: profile.rackUnits * count,
+    count,
+    power: profile.power * count,
+    maxPower: profile.maxPower * count,
+    thermalOutput: profile.thermalOutput * count
+  });
+  rack.usedRackUnits += profile.rackUnits * count;
+  rack.power += profile.power * count;
+  rack.maxPower += profile.maxPower * count;
+  rack.thermalOutput += profile.thermalOutput * count;
+  return { rack, position };
+};
+
+/**
+ * Get the space, power and cooling left in a rack
+ * @param rack - The rack, or null for an empty rack
+ * @param parameters - The layout parameters
+ * @returns Free rack units, power (W) and cooling (BTU/hr)
+ */
+const getFreeCapacity = (rack: Rack | null, parameters: RackLayoutParameters): RackCapacity => ({
+  rackUnits: parameters.rackHeight - parameters.reservedRackUnits - (rack?.usedRackUnits ?? 0),
+  maxPower: parameters.rackPowerBudget - (rack?.maxPower ?? 0),
+  thermalOutput: parameters.rackCoolingBudget - (rack?.thermalOutput ?? 0)
+});
+
+/**
+ * Count how many devices fit in the free space, power and cooling of a rack
+ * @param profile - Size, power and heat of one device
+ * @param free - Free capacity of the rack
+ * @returns Number of devices that fit
+ */
+const fitsInRack = (profile: RackDeviceProfile, free: RackCapacity): number => {
+  const limit = (available: number, needed: number): number =>
+    needed > 0 ? Math.floor(available / needed) : Infinity;
+  const fits = Math.min(
+    limit(free.rackUnits, Math.max(1, profile.rackUnits)),
+    limit(free.maxPower, profile.maxPower),
+    limit(free.thermalOutput, profile.thermalOutput)
+  );
+  return Math.max(0, fits);
+};
+
+/**
+ * Pack devices into network racks in order, opening a new rack when the space, power or cooling budget runs out
+ * @param devices - The devices to place
+ * @param parameters - The layout parameters
+ * @returns The racks and the placement of every device
+ */
+const packNetworkRacks = (
+  devices: { role: RackItemRole; name: string; profile: RackDeviceProfile }[],
+  parameters: RackLayoutParameters
+): { racks: Rack[]; placements: Placement[] } => {
+  const racks: Rack[] = [];
+  const placements: Placement[] = [];
+
+  devices.forEach(device => {
+    let rack = racks[racks.length - 1];
+    if (!rack || fitsInRack(device.profile, getFreeCapacity(rack, parameters)) < 1) {
+      rack = createRack('network');
+      racks.push(rack);
+    }
+    placements.push(placeItem(rack, device.role, device.name, device.profile, 1));
+  });
+
+  return { racks, placements };
+};
+
+/**
+ * Measure the cable between two placements
+ *
+ * Cables within a rack run along the rails; cables between racks drop into
+ * the overhead tray at both ends and follow it along the rows and across the
+ * aisles.
+ * @param a - One end
+ * @param b - The other end
+ * @returns Cable length in meters
+ */
+export const measureCable = (a: Placement, b: Placement): number => {
+  const meters = a.rack === b.rack
+    ? IN_RACK_SLACK_M + Math.abs(a.position - b.position) * RACK_UNIT_M
+    : 2 * VERTICAL_RUN_M +
+      Math.abs(a.rack.slot - b.rack.slot) * RACK_WIDTH_M +
+      Math.abs(a.rack.row - b.rack.row) * ROW_PITCH_M;
+  return Math.round(meters * 10) / 10;
+};
+
+/**
+ * Group placements that share a rack and a pod or plane
+ * @param placements - Placement and pod or plane of every device
+ * @returns One group per rack and pod or plane
+ */
+const groupPlacements = (placements: { placement: Placement; key: number }[]): PlacementGroup[] => {
+  const groups = new Map<string, PlacementGroup>();
+  placements.forEach(({ placement, key }) => {
+    const groupKey = `${placement.rack.id}/${key}`;
+    const group = groups.get(groupKey);
+    if (group) {
+      group.count += 1;
+    } else {
+      groups.set(groupKey, { placement, key, count: 1 });
+    }
+  });
+  return Array.from(groups.values());
+};
+
+/**
+ * Measure the cables between every pair of groups with the same pod or plane
+ * @param from - Groups at one end
+ * @param to - Groups at the other end
+ * @returns Cable length distribution
+ */
+const measureGroupRuns = (from: PlacementGroup[], to: PlacementGroup[]): CableRun[] => {
+  const runs = new Map<number, number>();
+  from.forEach(a => {
+    to.filter(b => b.key === a.key).forEach(b => {
+      const length = measureCable(a.placement, b.placement);
+      runs.set(length, (runs.get(length) || 0) + a.count * b.count);
+    });
+  });
+  return Array.from(runs.entries())
+    .map(([length, weight]) => ({ length, weight }))
+    .sort((a, b) => a.length - b.length);
+};
+
+/**
+ * Summarise a cable length distribution
+ * @param runs - Cable lengths and their weights
+ * @returns Shortest, weighted average and longest cable in meters
+ */
+export const summariseCableRuns = (runs: CableRun[]): CableLengthRange => {
+  const weight = runs.reduce((sum, run) => sum + run.weight, 0);
+  if (runs.length === 0 || weight === 0) {
+    return { best: 0, average: 0, worst: 0 };
+  }
+  
+  const average = runs.reduce((sum, run) => sum + run.length * run.weight, 0) / weight;
+  return {
+    best: Math.min(...runs.map(run => run.length)),
+    average: Math.round(average * 10) / 10,
+    worst: Math.max(...runs.map(run => run.length))
+  };
+};
+
+/**
+ * Plan the racks and rows of a topology
+ * @param input - The fabric and the layout parameters
+ * @returns Rows of racks with their elevations and the measured cable runs
+ */
+export const planRackLayout = (input: RackLayoutInput): RackLayout => {
+  const { parameters, numLeafs, leafsPerPod, spinesPerPod, pods, superSpines } = input;
+  const usableUnits = parameters.rackHeight - parameters.reservedRackUnits;
+  const serverProfile: RackDeviceProfile = {
+    rackUnits: parameters.serverRackUnits,
+    power: parameters.serverPower,
+    maxPower: parameters.serverPower,
+    thermalOutput: parameters.serverPower * BTU_PER_WATT
+  };
+  const serversPerRack = Math.max(1, fitsInRack(serverProfile, getFreeCapacity(null, parameters)));
+  const leafsPerGroup = Math.max(1, input.leafsPerGroup);
+  const groups = Math.ceil(numLeafs / leafsPerGroup);
+  const topOfRack = parameters.leafPlacement === 'tor';
+
+  const leafPlacements: Placement[] = [];
+  const serverBlocks: { placement: Placement; group: number; count: number }[] = [];
+  const groupRacks: Rack[][] = [];
+
+  const placeServers = (rack: Rack, group: number, count: number) => {
+    if (count > 0) {
+      const placement = placeItem(rack, 'server', `${count} servers`, serverProfile, count);
+      serverBlocks.push({ placement, group, count });
+    }
+  };
+
+  // Server racks, one scalable group of leafs and servers after another
+  for (let group = 0; group < groups; group++) {
+    const firstLeaf = group * leafsPerGroup;
+    const leafs = Math.min(leafsPerGroup, numLeafs - firstLeaf);
+    const racks: Rack[] = [];
+    let remaining = input.serversPerGroup;
+
+    if (topOfRack) {
+      // One leaf on top of each rack, the servers spread evenly below
+      const free = getFreeCapacity(null, parameters);
+      const capacity = fitsInRack(serverProfile, {
+        rackUnits: free.rackUnits - input.leaf.rackUnits,
+        maxPower: free.maxPower - input.leaf.maxPower,
+        thermalOutput: free.thermalOutput - input.leaf.thermalOutput
+      });
+      for (let leaf = 0; leaf < leafs; leaf++) {
+        const rack = createRack('server');
+        const count = Math.min(capacity, Math.ceil(remaining / (leafs - leaf)));
+        placeServers(rack, group, count);
+        remaining -= count;
+        leafPlacements[firstLeaf + leaf] = placeItem(
+          rack,
+          'leaf',
+          getLayoutDeviceName('leaf', firstLeaf + leaf),
+          input.leaf,
+          1,
+          usableUnits - input.leaf.rackUnits + 1
+        );
+        racks.push(rack);
+      }
+    }
+
+    // Servers that do not fit under their leafs get racks of their own
+    const extraRacks = Math.ceil(remaining / serversPerRack);
+    for (let index = 0; index < extraRacks; index++) {
+      const rack = createRack('server');
+      const count = Math.ceil(remaining / (extraRacks - index));
+      placeServers(rack, group, count);
+      remaining -= count;
+      racks.push(rack);
+    }
+
+    groupRacks.push(racks);
+  }
+
+  // Rows of server racks, keeping each group in one row when it fits
+  const serverRows: Rack[][] = [];
+  groupRacks.forEach(racks => {
+    racks.forEach((rack, index) => {
+      const row = serverRows[serverRows.length - 1];
+      const startsRow = !row ||
+        row.length >= parameters.racksPerRow ||
+        (index === 0 && racks.length <= parameters.racksPerRow && row.length + racks.length > parameters.racksPerRow);
+      if (startsRow) {
+        serverRows.push([rack]);
+      } else {
+        row.push(rack);
+      }
+    });
+  });
+
+  // Middle- and end-of-row leafs go into network racks in the row of their servers
+  if (!topOfRack) {
+    const rowLeafs: number[][] = serverRows.map(() => []);
+    groupRacks.forEach((racks, group) => {
+      const firstRack = racks[0];
+      const row = firstRack ? serverRows.findIndex(rowRacks => rowRacks.includes(firstRack)) : 0;
+      for (let leaf = group * leafsPerGroup; leaf < Math.min(numLeafs, (group + 1) * leafsPerGroup); leaf++) {
+        rowLeafs[Math.max(0, row)]?.push(leaf);
+      }
+    });
+    if (serverRows.length === 0 && numLeafs > 0) {
+      serverRows.push([]);
+      rowLeafs.push(Array.from({ length: numLeafs }, (_, leaf) => leaf));
+    }
+
+    serverRows.forEach((rowRacks, row) => {
+      const { racks, placements } = packNetworkRacks(
+        rowLeafs[row].map(leaf => ({ role: 'leaf' as RackItemRole, name: getLayoutDeviceName('leaf', leaf), profile: input.leaf })),
+        parameters
+      );
+      rowLeafs[row].forEach((leaf, index) => {
+        leafPlacements[leaf] = placements[index];
+      });
+      const insertAt = parameters.leafPlacement === 'mor' ? Math.floor(rowRacks.length / 2) : rowRacks.length;
+      rowRacks.splice(insertAt, 0, ...racks);
+    });
+  }
+
+  // Spines of every pod, then the super-spines, in dedicated network racks
+  const spines = packNetworkRacks(
+    Array.from({ length: pods * spinesPerPod }, (_, spine) => ({
+      role: 'spine' as RackItemRole,
+      name: getLayoutDeviceName('spine', spine),
+      profile: input.spine
+    })),
+    parameters
+  );
+  const superSpineRacks = packNetworkRacks(
+    Array.from({ length: superSpines }, (_, superSpine) => ({
+      role: 'super-spine' as RackItemRole,
+      name: getLayoutDeviceName('super-spine', superSpine),
+      profile: input.superSpine
+    })),
+    parameters
+  );
+  const networkRow = [...spines.racks, ...superSpineRacks.racks];
+
+  // The network row sits in the middle of the hall
+  const middle = Math.floor(serverRows.length / 2);
+  const rowRacks = networkRow.length > 0
+    ? [...serverRows.slice(0, middle), networkRow, ...serverRows.slice(middle)]
+    : serverRows;
+  const longestRow = Math.max(0, ...rowRacks.map(racks => racks.length));
+
+  const rows: RackRow[] = rowRacks.map((racks, row) => {
+    const network = racks === networkRow;
+    const offset = network ? Math.floor((longestRow - racks.length) / 2) : 0;
+    racks.forEach((rack, index) => {
+      rack.row = row;
+      rack.slot = offset + index;
+      rack.name = `${getRowName(row)}${String(offset + index + 1).padStart(2, '0')}`;
+      rack.id = rack.name;
+    });
+    return { row, name: `Row ${getRowName(row)}`, network, racks };
+  });
+
+  // Measure the cables on the floor plan
+  const server = measureGroupRuns(
+    serverBlocks.map(block => ({ placement: block.placement, key: block.group, count: block.count })),
+    groupPlacements(leafPlacements.map((placement, leaf) => ({ placement, key: Math.floor(leaf / leafsPerGroup) })))
+  );
+  const leafToSpine = measureGroupRuns(
+    groupPlacements(leafPlacements.map((placement, leaf) => ({
+      placement,
+      key: Math.floor(leaf / Math.max(1, leafsPerPod))
+    }))),
+    groupPlacements(spines.placements.map((placement, spine) => ({
+      placement,
+      key: Math.floor(spine / Math.max(1, spinesPerPod))
+    })))
+  );
+  const spineToSuperSpine = measureGroupRuns(
+    groupPlacements(spines.placements.map((placement, spine) => ({
+      placement,
+      key: spine % Math.max(1, spinesPerPod)
+    }))),
+    groupPlacements(superSpineRacks.placements.map((placement, superSpine) => ({
+      placement,
+      key: superSpine % Math.max(1, spinesPerPod)
+    })))
+  );
+
+  const racks = rows.flatMap(row => row.racks);
+
+  return {
+    parameters,
+    rows,
+    racks,
+    serverRacks: racks.filter(rack => rack.role === 'server').length,
+    networkRacks: racks.filter(rack => rack.role === 'network').length,
+    servers: serverBlocks.reduce((sum, block) => sum + block.count, 0),
+    cableRuns: {
+      server,
+      leafToSpine,
+      spineToSuperSpine
+    }
+  };
+};
+
+const rackLayoutService = {
+  planRackLayout,
+  getRackLayoutParameters,
+  getRowName,
+  getLayoutDeviceName,
+  getSwitchPlacements,
+  getServerPlacements,
+  measureCable,
+  summariseCableRuns
+};
+
+export default rackLayoutService;
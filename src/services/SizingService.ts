@@ -0,0 +1,481 @@
+/**
+ * SizingService.ts
+ *
+ * This service derives a topology from an endpoint target: the number of servers
+ * or GPUs, their NICs and the acceptable oversubscription. It searches the port
+ * configurations and breakout modes of the selected leaf and spine devices for the
+ * cheapest fabric that connects every NIC.
+ */
+
+import { Device, PortConfiguration } from '../types/devices';
+import { TopologyConfiguration, BreakoutOptions } from '../types/topology';
+import { SizingTarget, SizingResult } from '../types/sizing';
+import {
+  parseSpeedGbps,
+  calculateOversubscription,
+  calculateDeviceCount,
+  validatePortAllocation,
+  validateClosTiers
+} from './CalculationService';
+
+// A fabric layout considered by the solver
+interface SizingCandidate {
+  leafPorts: PortConfiguration;
+  leafDownlinkBreakout: string;
+  leafDownlinkFactor: number;
+  spinePorts: PortConfiguration;
+  spineBreakout: string;
+  numLeafs: number;
+  numSpines: number;
+  numTiers: number;
+  downlinkPorts: number;
+  uplinkPorts: number;
+  linksPerSpine: number;
+  leafsPerPod: number;
+  serversPerScalableUnit: number;
+  scalableUnits: number;
+}
+
+/**
+ * Get the breakout factor encoded in a breakout mode (e.g., '4x100G' -> 4)
+ * @param breakoutMode - The breakout mode
+ * @returns Number of lanes per physical port
+ */
+const getModeFactor = (breakoutMode: string): number => {
+  const factorMatch = breakoutMode.match(/^(\d+)x/);
+  return factorMatch ? parseInt(factorMatch[1]) : 1;
+};
+
+/**
+ * Get the lane speed of a breakout mode (e.g., '4x100G' -> '100G')
+ * @param breakoutMode - The breakout mode
+ * @returns Speed of a single lane
+ */
+const getModeLaneSpeed = (breakoutMode: string): string => {
+  const speedMatch = breakoutMode.match(/^\d+x(\d+G)$/);
+  return speedMatch ? speedMatch[1] : breakoutMode;
+};
+
+/**
+ * Get the number of servers to connect for a sizing target
+ * @param target - The sizing target
+ * @returns Number of servers
+ */
+export const getTargetServers = (target: SizingTarget): number => {
+  if (target.targetType === 'gpus') {
+    return Math.ceil(target.count / Math.max(1, target.gpusPerServer));
+  }
+  return target.count;
+};
+
+/**
+ * Find the leaf breakout mode that delivers server links at the NIC speed
+ * @param ports - The leaf port configuration
+ * @param nicSpeed - The server NIC speed
+ * @returns The breakout mode, or null when the ports cannot run at the NIC speed
+ */
+const findDownlinkBreakout = (ports: PortConfiguration, nicSpeed: string): string | null => {
+  const modes = ports.breakoutOptions.length > 0 ? ports.breakoutOptions : [`1x${ports.speed}`];
+  return modes.find(mode => getModeLaneSpeed(mode) === nicSpeed) || null;
+};
+
+/**
+ * Lay out a fabric for one combination of leaf and spine port configurations
+ * @param target - The sizing target
+ * @param leafPorts - The leaf port configuration
+ * @param spinePorts - The spine port configuration
+ * @param spineBreakout - The spine breakout mode
+ * @param maxParallelLinks - Most links a leaf may run to a single spine
+ * @returns The candidate layout, or null when the combination cannot meet the target
+ */
+const layoutCandidate = (
+  target: SizingTarget,
+  leafPorts: PortConfiguration,
+  spinePorts: PortConfiguration,
+  spineBreakout: string,
+  maxParallelLinks: number
+): SizingCandidate | null => {
+  const leafDownlinkBreakout = findDownlinkBreakout(leafPorts, target.nicSpeed);
+  if (!leafDownlinkBreakout) {
+    return null;
+  }
+
+  const leafDownlinkFactor = getModeFactor(leafDownlinkBreakout);
+  const nicGbps = parseSpeedGbps(target.nicSpeed);
+  const linkGbps = Math.min(parseSpeedGbps(leafPorts.speed), parseSpeedGbps(getModeLaneSpeed(spineBreakout)));
+  const ratio = Math.max(target.targetOversubscription, 0.01);
+
+  // Uplink ports a leaf needs to stay within the target ratio
+  const uplinksFor = (downlinkPorts: number): number =>
+    Math.ceil((downlinkPorts * leafDownlinkFactor * nicGbps) / (ratio * linkGbps));
+
+  // Give the downlinks as many ports as the ratio allows
+  let downlinkPorts = leafPorts.count;
+  while (downlinkPorts > 0 && downlinkPorts + uplinksFor(downlinkPorts) > leafPorts.count) {
+    downlinkPorts--;
+  }
+  if (downlinkPorts === 0) {
+    return null;
+  }
+
+  // Spread the servers evenly across the leafs
+  const servers = getTargetServers(target);
+  const endpoints = servers * target.nicsPerServer;
+  const lanesPerLeaf = downlinkPorts * leafDownlinkFactor;
+  let numLeafs: number;
+  let serversPerScalableUnit = 0;
+  let scalableUnits = 0;
+
+  if (target.railOptimized) {
+    // Each scalable unit has one leaf per rail, and every rail leaf sees one NIC per server
+    scalableUnits = Math.ceil(servers / lanesPerLeaf);
+    serversPerScalableUnit = Math.ceil(servers / scalableUnits);
+    numLeafs = scalableUnits * target.nicsPerServer;
+    downlinkPorts = Math.ceil(serversPerScalableUnit / leafDownlinkFactor);
+  } else {
+    numLeafs = Math.max(2, Math.ceil(endpoints / lanesPerLeaf));
+    downlinkPorts = Math.ceil(endpoints / numLeafs / leafDownlinkFactor);
+  }
+
+  const uplinkPorts = uplinksFor(downlinkPorts);
+  const spineLanes = spinePorts.count * getModeFactor(spineBreakout);
+
+  if (numLeafs <= spineLanes) {
+    // Two tiers: use as few spines as possible (but two for redundancy), with
+    // parallel links where the spine has lanes to spare
+    const maxLinksPerSpine = Math.max(1, Math.min(maxParallelLinks, Math.floor(spineLanes / numLeafs)));
+    const minSpines = Math.min(uplinkPorts, Math.max(2, Math.ceil(uplinkPorts / Math.min(maxLinksPerSpine, uplinkPorts))));
+    for (let numSpines = minSpines; numSpines <= uplinkPorts; numSpines++) {
+      const linksPerSpine = Math.ceil(uplinkPorts / numSpines);
+      if (numLeafs * linksPerSpine <= spineLanes && downlinkPorts + numSpines * linksPerSpine <= leafPorts.count) {
+        return {
+          leafPorts,
+          leafDownlinkBreakout,
+          leafDownlinkFactor,
+          spinePorts,
+          spineBreakout,
+          numLeafs,
+          numSpines,
+          numTiers: 2,
+          downlinkPorts,
+          uplinkPorts: numSpines * linksPerSpine,
+          linksPerSpine,
+          leafsPerPod: numLeafs,
+          serversPerScalableUnit,
+          scalableUnits
+        };
+      }
+    }
+    return null;
+  }
+
+  // Too many leafs for one spine: group them into pods joined by super-spines,
+  // with each spine using half of its lanes toward the leafs of its pod
+  const leafsPerPod = Math.max(1, Math.floor(spineLanes / 2));
+  const pods = Math.ceil(numLeafs / leafsPerPod);
+
+  return {
+    leafPorts,
+    leafDownlinkBreakout,
+    leafDownlinkFactor,
+    spinePorts,
+    spineBreakout,
+    numLeafs,
+    numSpines: pods * uplinkPorts,
+    numTiers: 3,
+    downlinkPorts,
+    uplinkPorts,
+    linksPerSpine: 1,
+    leafsPerPod,
+    serversPerScalableUnit,
+    scalableUnits
+  };
+};
+
+/**
+ * Add the breakout modes of a port configuration to the topology breakout options
+ * @param breakoutOptions - The existing breakout options
+ * @param ports - The device port configuration
+ * @returns Breakout options including the device modes
+ */
+const mergeBreakoutOptions = (breakoutOptions: BreakoutOptions, ports: PortConfiguration): BreakoutOptions => {
+  const existing = breakoutOptions[ports.speed] || [];
+  const missing = ports.breakoutOptions
+    .filter(mode => !existing.some(option => option.type === mode))
+    .map(mode => ({ type: mode, factor: getModeFactor(mode) }));
+
+  return {
+    ...breakoutOptions,
+    [ports.speed]: [...existing, ...missing]
+  };
+};
+
+/**
+ * Build the topology configuration for a candidate layout
+ * @param target - The sizing target
+ * @param candidate - The candidate layout
+ * @param spineDevice - The selected spine device
+ * @param leafDevice - The selected leaf device
+ * @param baseConfig - Configuration providing cost, power, latency and rack parameters
+ * @returns The topology configuration
+ */
+const buildConfiguration = (
+  target: SizingTarget,
+  candidate: SizingCandidate,
+  spineDevice: Device,
+  leafDevice: Device,
+  baseConfig: TopologyConfiguration
+): TopologyConfiguration => {
+  const spineConfig = {
+    portCount: candidate.spinePorts.count,
+    portSpeed: candidate.spinePorts.speed,
+    breakoutMode: candidate.spineBreakout
+  };
+
+  let breakoutOptions = Array.isArray(baseConfig.breakoutOptions) ? {} : baseConfig.breakoutOptions;
+  breakoutOptions = mergeBreakoutOptions(breakoutOptions, candidate.leafPorts);
+  breakoutOptions = mergeBreakoutOptions(breakoutOptions, candidate.spinePorts);
+
+  return {
+    ...baseConfig,
+    numLeafs: candidate.numLeafs,
+    numSpines: candidate.numSpines,
+    numTiers: candidate.numTiers,
+    spineConfig,
+    leafConfig: {
+      portCount: candidate.leafPorts.count,
+      downlinkSpeed: candidate.leafPorts.speed,
+      breakoutMode: candidate.leafDownlinkBreakout,
+      uplinkSpeed: candidate.leafPorts.speed,
+      uplinkPorts: candidate.uplinkPorts,
+      downlinkPorts: candidate.downlinkPorts
+    },
+    podConfig: candidate.numTiers >= 3
+      ? { leafsPerPod: candidate.leafsPerPod, spinesPerPod: candidate.uplinkPorts }
+      : undefined,
+    superSpineConfig: candidate.numTiers >= 3 ? spineConfig : undefined,
+    breakoutOptions,
+    parallelLinksEnabled: candidate.linksPerSpine > 1,
+    parallelLinksMode: 'manual',
+    parallelLinksPerSpine: candidate.linksPerSpine,
+    disjointedSpines: false,
+    spinePlanes: undefined,
+    railOptimized: target.railOptimized,
+    railConfig: target.railOptimized
+      ? {
+        gpusPerServer: target.gpusPerServer,
+        nicsPerServer: target.nicsPerServer,
+        serversPerScalableUnit: candidate.serversPerScalableUnit,
+        scalableUnits: candidate.scalableUnits,
+        spineInterconnect: true
+      }
+      : undefined,
+    deviceSelection: {
+      ...baseConfig.deviceSelection,
+      spine: { deviceId: spineDevice.id, useDefaultConfig: false },
+      leaf: { deviceId: leafDevice.id, useDefaultConfig: false }
+    },
+    switchCost: {
+      ...baseConfig.switchCost,
+      spine: spineDevice.cost,
+      leaf: leafDevice.cost
+    },
+    powerUsage: {
+      ...baseConfig.powerUsage,
+      spine: spineDevice.powerConsumption.typical,
+      leaf: leafDevice.powerConsumption.typical
+    },
+    rackSpaceParameters: {
+      ...baseConfig.rackSpaceParameters,
+      spineRackUnits: spineDevice.rackUnits,
+      leafRackUnits: leafDevice.rackUnits
+    }
+  };
+};
+
+/**
+ * Describe a candidate layout as a sizing result, with the steps that derived it
+ * @param target - The sizing target
+ * @param candidate - The candidate layout
+ * @param configuration - The topology configuration built for the candidate
+ * @returns The sizing result
+ */
+const describeCandidate = (
+  target: SizingTarget,
+  candidate: SizingCandidate,
+  configuration: TopologyConfiguration
+): SizingResult => {
+  const servers = getTargetServers(target);
+  const endpoints = servers * target.nicsPerServer;
+  const oversubscription = calculateOversubscription(configuration);
+  const deviceCount = calculateDeviceCount(configuration);
+
+  const steps = [
+    `${servers} servers x ${target.nicsPerServer} NICs = ${endpoints} endpoints at ${target.nicSpeed}`,
+    `Leaf: ${candidate.downlinkPorts} x ${candidate.leafPorts.speed} downlinks (${candidate.leafDownlinkBreakout}) and ` +
+      `${candidate.uplinkPorts} x ${candidate.leafPorts.speed} uplinks of ${candidate.leafPorts.count} ports`,
+    target.railOptimized
+      ? `Leafs: ${candidate.scalableUnits} scalable units of ${candidate.serversPerScalableUnit} servers x ${target.nicsPerServer} rails = ${candidate.numLeafs}`
+      : `Leafs: ${endpoints} endpoints / ${candidate.downlinkPorts * candidate.leafDownlinkFactor} per leaf = ${candidate.numLeafs}`,
+    candidate.numTiers >= 3
+      ? `Spines: ${candidate.numSpines} in pods of ${candidate.leafsPerPod} leafs, joined by ${deviceCount.superSpines} super-spines`
+      : `Spines: ${candidate.numSpines} x ${candidate.spineBreakout} with ${candidate.linksPerSpine} link${candidate.linksPerSpine === 1 ? '' : 's'} to each leaf`,
+    `Oversubscription: ${oversubscription.ratio === 'N/A' ? 'N/A' : `${oversubscription.ratio}:1`} (target ${target.targetOversubscription}:1)`
+  ];
+
+  return {
+    valid: true,
+    servers,
+    endpoints,
+    numLeafs: candidate.numLeafs,
+    numSpines: candidate.numSpines,
+    numTiers: candidate.numTiers,
+    leafPortSpeed: candidate.leafPorts.speed,
+    leafDownlinkBreakout: candidate.leafDownlinkBreakout,
+    leafDownlinkPorts: candidate.downlinkPorts,
+    leafUplinkPorts: candidate.uplinkPorts,
+    spineBreakout: candidate.spineBreakout,
+    linksPerSpine: candidate.linksPerSpine,
+    oversubscription: oversubscription.ratioValue,
+    steps,
+    configuration
+  };
+};
+
+/**
+ * Enumerate every valid fabric for a sizing target and one pair of devices
+ *
+ * Every leaf port configuration that can run at the NIC speed is combined with
+ * every spine port configuration, breakout mode and parallel-link limit. Each
+ * combination is laid out and checked with the regular calculators; identical
+ * layouts reached through different limits are reported once.
+ * @param target - The sizing target
+ * @param spineDevice - The spine device
+ * @param leafDevice - The leaf device
+ * @param baseConfig - Configuration providing cost, power, latency and rack parameters
+ * @param parallelLinkLimits - Limits on the links from a leaf to a single spine
+ * @returns The valid sizing results
+ */
+export const enumerateSizings = (
+  target: SizingTarget,
+  spineDevice: Device,
+  leafDevice: Device,
+  baseConfig: TopologyConfiguration,
+  parallelLinkLimits: number[] = [Infinity]
+): SizingResult[] => {
+  if (getTargetServers(target) < 1 || target.nicsPerServer < 1) {
+    return [];
+  }
+
+  const results: SizingResult[] = [];
+  const seen = new Set<string>();
+
+  leafDevice.portConfigurations.forEach(leafPorts => {
+    spineDevice.portConfigurations.forEach(spinePorts => {
+      const spineModes = spinePorts.breakoutOptions.length > 0 ? spinePorts.breakoutOptions : [`1x${spinePorts.speed}`];
+
+      spineModes.forEach(spineBreakout => {
+        parallelLinkLimits.forEach(maxParallelLinks => {
+          const candidate = layoutCandidate(target, leafPorts, spinePorts, spineBreakout, maxParallelLinks);
+          if (!candidate) {
+            return;
+          }
+
+          const key = [
+            leafPorts.speed, leafPorts.count, spinePorts.speed, spinePorts.count, spineBreakout,
+            candidate.numSpines, candidate.linksPerSpine
+          ].join('/');
+          if (seen.has(key)) {
+            return;
+          }
+          seen.add(key);
+
+          const configuration = buildConfiguration(target, candidate, spineDevice, leafDevice, baseConfig);
+          if (!validatePortAllocation(configuration).valid || !validateClosTiers(configuration).valid) {
+            return;
+          }
+
+          results.push(describeCandidate(target, candidate, configuration));
+        });
+      });
+    });
+  });
+
+  return results;
+};
+
+/**
+ * Solve for the smallest fabric that connects a sizing target
+ *
+ * All valid fabrics for the selected devices are enumerated and the cheapest one
+ * wins (fewest devices on a tie).
+ * @param target - The sizing target
+ * @param spineDevice - The selected spine device
+ * @param leafDevice - The selected leaf device
+ * @param baseConfig - Configuration providing cost, power, latency and rack parameters
+ * @returns The sizing result with the derived topology configuration
+ */
+export const solveSizing = (
+  target: SizingTarget,
+  spineDevice: Device,
+  leafDevice: Device,
+  baseConfig: TopologyConfiguration
+): SizingResult => {
+  const servers = getTargetServers(target);
+  const endpoints = servers * target.nicsPerServer;
+
+  const emptyResult: SizingResult = {
+    valid: false,
+    servers,
+    endpoints,
+    numLeafs: 0,
+    numSpines: 0,
+    numTiers: 0,
+    leafPortSpeed: '',
+    leafDownlinkBreakout: '',
+    leafDownlinkPorts: 0,
+    leafUplinkPorts: 0,
+    spineBreakout: '',
+    linksPerSpine: 0,
+    oversubscription: 0,
+    steps: [],
+    configuration: null
+  };
+
+  if (servers < 1 || target.nicsPerServer < 1) {
+    return { ...emptyResult, error: 'The target must include at least one server with one NIC' };
+  }
+
+  let best: SizingResult | null = null;
+  let bestCost = Infinity;
+  let bestDevices = Infinity;
+
+  enumerateSizings(target, spineDevice, leafDevice, baseConfig).forEach(result => {
+    const deviceCount = calculateDeviceCount(result.configuration as TopologyConfiguration);
+    const cost = deviceCount.leafs * leafDevice.cost + (deviceCount.spines + deviceCount.superSpines) * spineDevice.cost;
+
+    if (cost < bestCost || (cost === bestCost && deviceCount.total < bestDevices)) {
+      best = result;
+      bestCost = cost;
+      bestDevices = deviceCount.total;
+    }
+  });
+
+  if (!best) {
+    return {
+      ...emptyResult,
+      error: `No port configuration of the ${leafDevice.manufacturer} ${leafDevice.model} can connect ${target.nicSpeed} NICs ` +
+        `within ${target.targetOversubscription}:1 using the ${spineDevice.manufacturer} ${spineDevice.model}`
+    };
+  }
+
+  return best;
+};
+
+const sizingService = {
+  solveSizing,
+  enumerateSizings,
+  getTargetServers
+};
+
+export default sizingService;
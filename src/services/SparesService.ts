@@ -0,0 +1,65 @@
+/**
+ * SparesService.ts
+ *
+ * This service applies a sparing policy: how many spares to hold for each
+ * device model, optic type and cable SKU. A rule spares either a share of the
+ * installed quantity, rounded up, or a fixed number; per-item overrides
+ * replace the rule of their category.
+ */
+
+import { PriceCategory } from '../types/pricing';
+import { SpareRule, SparesPolicy } from '../types/spares';
+
+const NO_SPARES: SpareRule = { mode: 'percent', value: 0 };
+
+export const DEFAULT_SPARES_POLICY: SparesPolicy = {
+  switches: NO_SPARES,
+  optics: NO_SPARES,
+  cables: NO_SPARES,
+  overrides: {}
+};
+
+/**
+ * Get the sparing policy of a topology, falling back to the defaults
+ * @param policy - The sparing policy of the topology, if any
+ * @returns The sparing policy
+ */
+export const getSparesPolicy = (policy?: Partial<SparesPolicy>): SparesPolicy => ({
+  switches: policy?.switches ?? DEFAULT_SPARES_POLICY.switches,
+  optics: policy?.optics ?? DEFAULT_SPARES_POLICY.optics,
+  cables: policy?.cables ?? DEFAULT_SPARES_POLICY.cables,
+  overrides: { ...policy?.overrides }
+});
+
+/**
+ * Get the rule that spares an item
+ * @param policy - The sparing policy
+ * @param category - Category of the item
+ * @param key - Device model id, optic id or cable SKU
+ * @returns The override of the item, or the rule of its category
+ */
+export const getSpareRule = (policy: SparesPolicy, category: PriceCategory, key: string): SpareRule =>
+  policy.overrides[key] ?? policy[category];
+
+/**
+ * Calculate the spares a rule asks for
+ * @param rule - The spare rule
+ * @param installed - Installed quantity of the item
+ * @returns Number of spares
+ */
+export const getSpareQuantity = (rule: SpareRule, installed: number): number => {
+  if (installed <= 0 || !(rule.value > 0)) {
+    return 0;
+  }
+  return rule.mode === 'count'
+    ? Math.round(rule.value)
+    : Math.ceil((installed * rule.value) / 100);
+};
+
+const sparesService = {
+  getSparesPolicy,
+  getSpareRule,
+  getSpareQuantity
+};
+
+export default sparesService;
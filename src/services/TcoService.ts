@@ -0,0 +1,109 @@
+/**
+ * TcoService.ts
+ *
+ * This service projects the total cost of ownership of a topology over a
+ * multi-year horizon. Hardware is bought in the first year and again once it
+ * is fully amortised; energy, support, optics replacement and rack costs recur
+ * every year.
+ */
+
+import { TcoParameters, TcoInput, TcoYear, TcoMetrics } from '../types/tco';
+
+const HOURS_PER_YEAR = 24 * 365;
+
+export const DEFAULT_TCO_PARAMETERS: TcoParameters = {
+  years: 5,
+  electricityPrice: 0.12,
+  pue: 1.5,
+  supportRate: 15,
+  amortisationYears: 5,
+  opticsFailureRate: 2,
+  rackCostPerMonth: 1200
+};
+
+/**
+ * Get the TCO parameters of a topology, falling back to the defaults
+ * @param parameters - The TCO parameters of the topology, if any
+ * @returns The TCO parameters
+ */
+export const getTcoParameters = (parameters?: TcoParameters): TcoParameters => ({
+  ...DEFAULT_TCO_PARAMETERS,
+  ...parameters
+});
+
+/**
+ * Calculate the facility energy drawn in a year
+ * @param watts - Power drawn by the equipment
+ * @param parameters - The TCO parameters
+ * @returns Energy in kWh, PUE included
+ */
+export const getAnnualEnergy = (watts: number, parameters: TcoParameters): number =>
+  (watts * parameters.pue * HOURS_PER_YEAR) / 1000;
+
+/**
+ * Calculate the cost of the facility energy drawn in a year
+ * @param watts - Power drawn by the equipment
+ * @param parameters - The TCO parameters
+ * @returns Energy cost in the pricing currency, PUE included
+ */
+export const getAnnualEnergyCost = (watts: number, parameters: TcoParameters): number =>
+  getAnnualEnergy(watts, parameters) * parameters.electricityPrice;
+
+/**
+ * Project the cost of ownership year by year
+ * @param input - The build cost, power and racks of the topology and the TCO parameters
+ * @returns Year-by-year costs and totals over the horizon
+ */
+export const projectTco = (input: TcoInput): TcoMetrics => {
+  const parameters: TcoParameters = {
+    ...input.parameters,
+    years: Math.max(1, Math.round(input.parameters.years)),
+    amortisationYears: Math.max(1, Math.round(input.parameters.amortisationYears))
+  };
+  
+  const energy = getAnnualEnergyCost(input.power, parameters);
+  const support = (input.switches * parameters.supportRate) / 100;
+  const opticsReplacement = (input.optics * parameters.opticsFailureRate) / 100;
+  const colocation = input.racks * parameters.rackCostPerMonth * 12;
+  const operating = energy + support + opticsReplacement + colocation;
+  
+  let cumulative = 0;
+  const years: TcoYear[] = Array.from({ length: parameters.years }, (_, index) => {
+    // The hardware is refreshed once it is fully written off
+    const hardware = index % parameters.amortisationYears === 0 ? input.hardware : 0;
+    const total = hardware + operating;
+    cumulative += total;
+    
+    return {
+      year: index + 1,
+      hardware,
+      amortisation: input.hardware / parameters.amortisationYears,
+      energy,
+      support,
+      opticsReplacement,
+      colocation,
+      operating,
+      total,
+      cumulative
+    };
+  });
+  
+  return {
+    parameters,
+    hardware: input.hardware,
+    annualEnergy: getAnnualEnergy(input.power, parameters),
+    years,
+    operating: operating * parameters.years,
+    total: cumulative,
+    annualised: cumulative / parameters.years
+  };
+};
+
+const tcoService = {
+  projectTco,
+  getTcoParameters,
+  getAnnualEnergy,
+  getAnnualEnergyCost
+};
+
+export default tcoService;
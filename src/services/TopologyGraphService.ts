@@ -0,0 +1,258 @@
+/**
+ * TopologyGraphService.ts
+ *
+ * This service turns a topology into a node-link diagram: one row per tier
+ * with the top tier first, the leafs below and, in rail fabrics, the servers
+ * of each scalable unit at the bottom. Links between two nodes are bundled
+ * into one edge with their count, speed and breakout. Rows with more switches
+ * than fit on screen collapse into groups that stay within a pod, plane or
+ * scalable unit where they can.
+ */
+
+import { Topology } from '../types/topology';
+import { TierRole } from '../types/metrics';
+import { DeviceInstance } from '../types/inventory';
+import { GraphEdge, GraphNode, GraphRow, TopologyGraph } from '../types/graph';
+import { calculateRailMetrics, getSpinePlaneCount, resolveRailFabric } from './CalculationService';
+import { buildInventory } from './InventoryService';
+import { generateCablingPlan, getSwitchLinks } from './CablingPlanService';
+
+export const DEFAULT_MAX_NODES_PER_ROW = 32;
+
+const roleLabels: Record<TierRole, string> = {
+  leaf: 'Leaf',
+  spine: 'Spine',
+  'super-spine': 'Super-Spine'
+};
+
+/**
+ * Split the devices of a row into nodes
+ *
+ * Every device is a node of its own while the row fits. Larger rows are split
+ * into equal runs of devices, each within one group where the groups allow.
+ * @param devices - Devices of the row, in order
+ * @param groupOf - Group of a device (pod, plane or scalable unit)
+ * @param maxNodes - Most nodes in the row
+ * @returns The devices of each node
+ */
+const splitRow = <T>(devices: T[], groupOf: (device: T) => string, maxNodes: number): T[][] => {
+  if (devices.length <= maxNodes) {
+    return devices.map(device => [device]);
+  }
+
+  const size = Math.ceil(devices.length / maxNodes);
+  const groups = new Map<string, T[]>();
+  devices.forEach(device => {
+    const key = groupOf(device);
+    const group = groups.get(key) || [];
+    group.push(device);
+    groups.set(key, group);
+  });
+
+  const nodes: T[][] = [];
+  groups.forEach(group => {
+    for (let start = 0; start < group.length; start += size) {
+      nodes.push(group.slice(start, start + size));
+    }
+  });
+  if (nodes.length <= maxNodes) {
+    return nodes;
+  }
+
+  // Too many small groups: split the row regardless of them
+  return Array.from({ length: Math.ceil(devices.length / size) }, (_, index) =>
+    devices.slice(index * size, (index + 1) * size));
+};
+
+/**
+ * Describe a run of numbers
+ * @param numbers - The numbers, ascending
+ * @returns 5, 1-16 for a consecutive run, or 1, 3, ... otherwise
+ */
+const formatRange = (numbers: number[]): string => {
+  if (numbers.length === 1) {
+    return String(numbers[0]);
+  }
+  const consecutive = numbers.every((number, index) => index === 0 || number === numbers[index - 1] + 1);
+  return consecutive
+    ? `${numbers[0]}-${numbers[numbers.length - 1]}`
+    : `${numbers.slice(0, 2).join(', ')}, ...`;
+};
+
+/**
+ * Build the diagram of a topology
+ * @param topology - The topology
+ * @param maxNodesPerRow - Most nodes in a row before the row collapses into groups
+ * @returns The diagram, or null when the topology has no configuration
+ */
+export const buildTopologyGraph = (
+  topology: Topology,
+  maxNodesPerRow: number = DEFAULT_MAX_NODES_PER_ROW
+): TopologyGraph | null => {
+  const inventory = buildInventory(topology);
+  const cablingPlan = generateCablingPlan(topology, inventory);
+  if (!inventory || !cablingPlan) {
+    return null;
+  }
+
+  const config = resolveRailFabric(topology.configuration);
+  const rail = calculateRailMetrics(config);
+  const planes = Math.max(1, getSpinePlaneCount(config));
+  const topTier = Math.max(1, ...inventory.devices.map(device => device.tier));
+  const maxNodes = Math.max(1, maxNodesPerRow);
+
+  // Spines are spread over the planes in turn
+  const getPlane = (device: DeviceInstance): number | null =>
+    device.role === 'spine' && planes > 1 ? ((device.member - 1) % planes) + 1 : null;
+  const getGroup = (device: DeviceInstance): string => {
+    const plane = getPlane(device);
+    return plane === null ? String(device.pod) : `${device.pod}-${plane}`;
+  };
+  const getGroupDetail = (device: DeviceInstance): string => {
+    if (device.role === 'super-spine') {
+      return `Plane ${device.pod}`;
+    }
+    const plane = getPlane(device);
+    const pod = device.role === 'leaf' && rail ? `SU ${device.pod}` : `Pod ${device.pod}`;
+    return plane === null ? pod : `${pod}, plane ${plane}`;
+  };
+
+  const rows: GraphRow[] = [];
+  const nodes: GraphNode[] = [];
+  const nodeOf = new Map<string, GraphNode>();
+
+  for (let tier = topTier; tier >= 1; tier--) {
+    const devices = inventory.devices.filter(device => device.tier === tier);
+    if (devices.length === 0) {
+      continue;
+    }
+    const { role } = devices[0];
+    const row = rows.length;
+    rows.push({ kind: role, tier, label: `Tier ${tier}: ${roleLabels[role]}s`, devices: devices.length });
+
+    splitRow(devices, getGroup, maxNodes).forEach(members => {
+      const first = members[0];
+      const sameGroup = members.every(device => getGroup(device) === getGroup(first));
+      const node: GraphNode = {
+        id: members.length === 1 ? first.key : `${first.key}+${members.length}`,
+        kind: role,
+        row,
+        label: members.length === 1
+          ? first.name
+          : `${roleLabels[role]}s ${formatRange(members.map(device => device.index))}`,
+        detail: sameGroup ? getGroupDetail(first) : `${members.length} ${roleLabels[role].toLowerCase()}s`,
+        devices: members.length,
+        keys: members.map(device => device.key),
+        deviceIds: Array.from(new Set(members.map(device => device.deviceId).filter((id): id is string => id !== null))),
+        models: Array.from(new Set(members.map(device => `${device.manufacturer} ${device.model}`))),
+        plane: sameGroup ? getPlane(first) : null
+      };
+      nodes.push(node);
+      members.forEach(device => nodeOf.set(device.key, node));
+    });
+  }
+
+  let aggregated = nodes.some(node => node.devices > 1);
+
+  // Switch-to-switch links, bundled per pair of nodes
+  const edges = new Map<string, GraphEdge>();
+  getSwitchLinks(cablingPlan).forEach(link => {
+    const source = nodeOf.get(link.a.key);
+    const target = nodeOf.get(link.b.key);
+    if (!source || !target) {
+      return;
+    }
+    const id = `${source.id}|${target.id}`;
+    const edge = edges.get(id) || {
+      id,
+      kind: 'fabric' as const,
+      source: source.id,
+      target: target.id,
+      links: 0,
+      speed: link.speed,
+      media: link.media,
+      harness: link.harness,
+      plane: target.plane,
+      label: ''
+    };
+    edge.links++;
+    edges.set(id, edge);
+  });
+  edges.forEach(edge => {
+    edge.label = `${edge.links}x ${edge.speed}${edge.harness && edge.harness !== '1:1' ? `, ${edge.harness} breakout` : ''}`;
+  });
+
+  // Servers of a rail fabric connect one NIC to the rail leaf of each rail in their scalable unit
+  if (rail) {
+    const row = rows.length;
+    const units = Array.from({ length: rail.scalableUnits }, (_, unit) => unit + 1);
+    rows.push({ kind: 'servers', tier: 0, label: 'Servers', devices: rail.servers });
+
+    const unitNodes = new Map<number, GraphNode>();
+    splitRow(units, unit => String(unit), maxNodes).forEach(members => {
+      const node: GraphNode = {
+        id: `servers-${members[0]}`,
+        kind: 'servers',
+        row,
+        label: `Servers SU ${formatRange(members)}`,
+        detail: `${(members.length * rail.serversPerScalableUnit).toLocaleString()} servers`,
+        devices: members.length * rail.serversPerScalableUnit,
+        keys: [],
+        deviceIds: [],
+        models: [],
+        plane: null
+      };
+      aggregated = aggregated || members.length > 1;
+      nodes.push(node);
+      members.forEach(unit => unitNodes.set(unit, node));
+    });
+
+    const rails = new Map<string, Set<number>>();
+    inventory.devices
+      .filter(device => device.role === 'leaf')
+      .forEach(device => {
+        const source = unitNodes.get(device.pod);
+        const target = nodeOf.get(device.key);
+        if (!source || !target) {
+          return;
+        }
+        const id = `${source.id}|${target.id}`;
+        const edge = edges.get(id) || {
+          id,
+          kind: 'rail' as const,
+          source: source.id,
+          target: target.id,
+          links: 0,
+          speed: rail.nicSpeed,
+          media: null,
+          harness: null,
+          plane: null,
+          label: ''
+        };
+        edge.links += rail.serversPerScalableUnit;
+        edges.set(id, edge);
+        rails.set(id, (rails.get(id) || new Set<number>()).add(device.member));
+      });
+    rails.forEach((members, id) => {
+      const edge = edges.get(id);
+      const numbers = Array.from(members).sort((a, b) => a - b);
+      if (edge) {
+        edge.label = `Rail${numbers.length > 1 ? 's' : ''} ${formatRange(numbers)}`;
+      }
+    });
+  }
+
+  return {
+    rows,
+    nodes,
+    edges: Array.from(edges.values()),
+    aggregated,
+    planes
+  };
+};
+
+const topologyGraphService = {
+  buildTopologyGraph
+};
+
+export default topologyGraphService;
@@ -0,0 +1,122 @@
+/**
+ * EosRenderer.ts
+ *
+ * This renderer writes an Arista EOS-style startup configuration: routed
+ * fabric interfaces, the loopback and an eBGP underlay with one peer group
+ * for the fabric. Unnumbered links peer over IPv6 link-local addresses and
+ * carry IPv4 routes with IPv6 next hops (RFC 5549).
+ */
+
+import { ConfigRenderer, DeviceConfigContext } from '../../types/nosConfig';
+
+const MTU = 9214;
+const PEER_GROUP = 'FABRIC';
+
+/**
+ * Format a speed for the speed command
+ * @param speed - The speed, e.g. 100G
+ * @returns The speed keyword, e.g. 100g
+ */
+const formatSpeed = (speed: string): string => speed.toLowerCase();
+
+/**
+ * Render the startup configuration
+ * @param context - The switch
+ * @returns The configuration lines
+ */
+const renderStartupConfig = (context: DeviceConfigContext): string[] => {
+  const lines: string[] = [
+    `! ${context.device}: day-0 underlay configuration for ${context.topology}`,
+    `! ${context.manufacturer} ${context.model}`,
+    '!',
+    `hostname ${context.device}`,
+    '!',
+    'service routing protocols model multi-agent',
+    '!'
+  ];
+
+  // Server ports keep their defaults apart from speed and breakout
+  context.ports
+    .filter(port => port.usage === 'server')
+    .forEach(port => {
+      const names = port.lanes > 1
+        ? Array.from({ length: port.lanes }, (_, lane) => `Ethernet${port.port}/${lane + 1}`)
+        : [`Ethernet${port.port}`];
+      names.forEach(name => {
+        lines.push(`interface ${name}`, '   description Server', `   speed ${formatSpeed(port.laneSpeed)}`, '!');
+      });
+    });
+
+  context.interfaces.forEach(entry => {
+    lines.push(
+      `interface ${entry.name}`,
+      `   description ${entry.description}`,
+      `   mtu ${MTU}`,
+      `   speed ${formatSpeed(entry.speed)}`,
+      '   no switchport',
+      context.unnumbered ? '   ipv6 enable' : entry.address ? `   ip address ${entry.address}` : '   ! No address assigned',
+      '!'
+    );
+  });
+
+  lines.push('interface Loopback0', '   description Router ID');
+  lines.push(context.loopback ? `   ip address ${context.loopback}` : '   ! No address assigned', '!');
+  lines.push('ip routing');
+  if (context.unnumbered) {
+    lines.push('ip routing ipv6 interfaces', 'ipv6 unicast-routing');
+  }
+  lines.push('!');
+
+  if (context.asn === null) {
+    lines.push('! No ASN assigned: BGP is not configured', '!');
+  } else {
+    const routerId = context.loopback?.split('/')[0];
+    lines.push(`router bgp ${context.asn}`);
+    if (routerId) {
+      lines.push(`   router-id ${routerId}`);
+    }
+    lines.push(
+      '   no bgp default ipv4-unicast',
+      `   maximum-paths ${context.maximumPaths} ecmp ${context.maximumPaths}`,
+      '   bgp bestpath as-path multipath-relax',
+      `   neighbor ${PEER_GROUP} peer group`,
+      `   neighbor ${PEER_GROUP} send-community`
+    );
+    context.interfaces.forEach(entry => {
+      if (entry.peerAsn === null) {
+        return;
+      }
+      if (context.unnumbered) {
+        lines.push(`   neighbor interface ${entry.name} peer-group ${PEER_GROUP} remote-as ${entry.peerAsn}`);
+      } else if (entry.peerAddress) {
+        lines.push(
+          `   neighbor ${entry.peerAddress} peer group ${PEER_GROUP}`,
+          `   neighbor ${entry.peerAddress} remote-as ${entry.peerAsn}`,
+          `   neighbor ${entry.peerAddress} description ${entry.peerDevice}`
+        );
+      }
+    });
+    lines.push('   !', '   address-family ipv4', `      neighbor ${PEER_GROUP} activate`);
+    if (context.unnumbered) {
+      lines.push(`      neighbor ${PEER_GROUP} next-hop address-family ipv6 originate`);
+    }
+    if (context.loopback) {
+      lines.push(`      network ${context.loopback}`);
+    }
+    lines.push('!');
+  }
+
+  lines.push('end');
+  return lines;
+};
+
+const eosRenderer: ConfigRenderer = {
+  id: 'eos',
+  name: 'Arista EOS',
+  description: 'EOS-style CLI startup configuration',
+  render: (context) => [
+    { path: 'startup-config', content: `${renderStartupConfig(context).join('\n')}\n` }
+  ]
+};
+
+export default eosRenderer;
@@ -0,0 +1,102 @@
+/**
+ * FrrRenderer.ts
+ *
+ * This renderer writes the frr.conf of a Linux switch running FRR. Ports are
+ * named as on Cumulus Linux: swp49 for port 49 and swp3s1 for the second
+ * breakout lane of port 3. Peers are eBGP with remote-as external; on
+ * unnumbered links they are configured by interface.
+ */
+
+import { ConfigRenderer, ConfigInterface, DeviceConfigContext } from '../../types/nosConfig';
+
+const PEER_GROUP = 'FABRIC';
+
+/**
+ * Get the Linux name of a fabric interface
+ * @param entry - The interface
+ * @returns swp49, or swp3s1 for lane 2 of breakout port 3
+ */
+const getLinuxName = (entry: ConfigInterface): string =>
+  entry.lane === null ? `swp${entry.port}` : `swp${entry.port}s${entry.lane - 1}`;
+
+/**
+ * Render frr.conf
+ * @param context - The switch
+ * @returns The configuration lines
+ */
+const renderFrrConf = (context: DeviceConfigContext): string[] => {
+  const lines: string[] = [
+    `! ${context.device}: day-0 underlay configuration for ${context.topology}`,
+    'frr defaults datacenter',
+    `hostname ${context.device}`,
+    'log syslog informational',
+    'service integrated-vtysh-config',
+    '!'
+  ];
+
+  context.interfaces.forEach(entry => {
+    lines.push(`interface ${getLinuxName(entry)}`, ` description ${entry.description}`);
+    if (context.unnumbered) {
+      lines.push(' ipv6 nd ra-interval 10', ' no ipv6 nd suppress-ra');
+    } else if (entry.address) {
+      lines.push(` ip address ${entry.address}`);
+    }
+    lines.push('exit', '!');
+  });
+
+  lines.push('interface lo');
+  if (context.loopback) {
+    lines.push(` ip address ${context.loopback}`);
+  }
+  lines.push('exit', '!');
+
+  if (context.asn === null) {
+    lines.push('! No ASN assigned: BGP is not configured', '!');
+    return lines;
+  }
+
+  const routerId = context.loopback?.split('/')[0];
+  lines.push(`router bgp ${context.asn}`);
+  if (routerId) {
+    lines.push(` bgp router-id ${routerId}`);
+  }
+  lines.push(
+    ' bgp bestpath as-path multipath-relax',
+    ` neighbor ${PEER_GROUP} peer-group`,
+    ` neighbor ${PEER_GROUP} remote-as external`
+  );
+  context.interfaces.forEach(entry => {
+    if (context.unnumbered) {
+      lines.push(` neighbor ${getLinuxName(entry)} interface peer-group ${PEER_GROUP}`);
+    } else if (entry.peerAddress) {
+      lines.push(
+        ` neighbor ${entry.peerAddress} peer-group ${PEER_GROUP}`,
+        ` neighbor ${entry.peerAddress} description ${entry.peerDevice}`
+      );
+    }
+  });
+  lines.push(' !', ' address-family ipv4 unicast');
+  if (context.loopback) {
+    lines.push(`  network ${context.loopback}`);
+  }
+  lines.push(
+    `  neighbor ${PEER_GROUP} activate`,
+    `  maximum-paths ${context.maximumPaths}`,
+    ' exit-address-family',
+    'exit',
+    '!'
+  );
+
+  return lines;
+};
+
+const frrRenderer: ConfigRenderer = {
+  id: 'frr',
+  name: 'FRR',
+  description: 'frr.conf for Linux switches',
+  render: (context) => [
+    { path: 'frr.conf', content: `${renderFrrConf(context).join('\n')}\n` }
+  ]
+};
+
+export default frrRenderer;
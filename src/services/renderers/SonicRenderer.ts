@@ -0,0 +1,146 @@
+/**
+ * SonicRenderer.ts
+ *
+ * This renderer writes the config_db.json of a SONiC switch. Port names follow
+ * the SONiC convention of numbering by the first SerDes lane: ports of 400G
+ * and faster are taken to have 8 lanes, slower ports 4, so port 2 of a 400G
+ * switch is Ethernet8 and its second 4-way breakout lane Ethernet10. BGP is
+ * written in the tables of the FRR management framework (frrcfgd), which also
+ * handles unnumbered peers.
+ */
+
+import { ConfigRenderer, DeviceConfigContext } from '../../types/nosConfig';
+import { TierRole } from '../../types/metrics';
+import { parseSpeedGbps } from '../CalculationService';
+
+const MTU = '9100';
+
+// SONiC names its switch types after the tier: T0 (ToR), T1 (leaf), T2 (spine)
+const deviceTypes: Record<TierRole, string> = {
+  leaf: 'ToRRouter',
+  spine: 'LeafRouter',
+  'super-spine': 'SpineRouter'
+};
+
+/**
+ * Get the SONiC name of a port or breakout lane
+ * @param port - Port number, from 1
+ * @param lane - Breakout lane, from 1 (null without breakout)
+ * @param lanes - Breakout lanes of the port
+ * @param speed - Port speed
+ * @returns The interface name, such as Ethernet8
+ */
+const getSonicName = (port: number, lane: number | null, lanes: number, speed: string): string => {
+  const serdesLanes = parseSpeedGbps(speed) >= 400 ? 8 : 4;
+  const offset = lane === null ? 0 : (lane - 1) * Math.max(1, Math.floor(serdesLanes / lanes));
+  return `Ethernet${(port - 1) * serdesLanes + offset}`;
+};
+
+const toMbps = (speed: string): string => String(parseSpeedGbps(speed) * 1000);
+
+/**
+ * Render config_db.json
+ * @param context - The switch
+ * @returns The configuration database
+ */
+const renderConfigDb = (context: DeviceConfigContext): object => {
+  const port: Record<string, object> = {};
+  const breakout: Record<string, object> = {};
+  const portSpeeds = new Map(context.ports.map(entry => [entry.port, entry.speed]));
+
+  context.ports.forEach(entry => {
+    const lanes = Array.from({ length: entry.lanes }, (_, lane) => entry.lanes > 1 ? lane + 1 : null);
+    if (entry.lanes > 1) {
+      breakout[getSonicName(entry.port, null, entry.lanes, entry.speed)] = {
+        brkout_mode: `${entry.lanes}x${entry.laneSpeed}`
+      };
+    }
+    lanes.forEach(lane => {
+      port[getSonicName(entry.port, lane, entry.lanes, entry.speed)] = {
+        admin_status: 'up',
+        speed: toMbps(entry.laneSpeed),
+        mtu: MTU,
+        description: entry.usage === 'server' ? 'Server' : ''
+      };
+    });
+  });
+
+  const interfaces: Record<string, object> = {};
+  const neighbors: Record<string, object> = {};
+  const neighborFamilies: Record<string, object> = {};
+  context.interfaces.forEach(entry => {
+    const name = getSonicName(entry.port, entry.lane, entry.lanes, portSpeeds.get(entry.port) ?? entry.speed);
+    port[name] = { ...port[name], description: entry.description };
+
+    if (context.unnumbered) {
+      interfaces[name] = { ipv6_use_link_local_only: 'enable' };
+    } else {
+      interfaces[name] = {};
+      if (entry.address) {
+        interfaces[`${name}|${entry.address}`] = {};
+      }
+    }
+
+    const neighbor = context.unnumbered ? name : entry.peerAddress;
+    if (neighbor && entry.peerAsn !== null) {
+      neighbors[`default|${neighbor}`] = {
+        asn: String(entry.peerAsn),
+        name: entry.peerDevice,
+        admin_status: 'up',
+        ...(context.unnumbered ? { v6only: 'true' } : {})
+      };
+      neighborFamilies[`default|${neighbor}|ipv4_unicast`] = { admin_status: 'true' };
+    }
+  });
+
+  const routerId = context.loopback?.split('/')[0];
+  return {
+    DEVICE_METADATA: {
+      localhost: {
+        hostname: context.device,
+        hwsku: context.model,
+        type: deviceTypes[context.role],
+        ...(context.asn !== null ? { bgp_asn: String(context.asn) } : {}),
+        docker_routing_config_mode: 'split-unified',
+        frr_mgmt_framework_config: 'true'
+      }
+    },
+    ...(Object.keys(breakout).length > 0 ? { BREAKOUT_CFG: breakout } : {}),
+    PORT: port,
+    LOOPBACK_INTERFACE: {
+      Loopback0: {},
+      ...(context.loopback ? { [`Loopback0|${context.loopback}`]: {} } : {})
+    },
+    INTERFACE: interfaces,
+    ...(context.asn !== null ? {
+      BGP_GLOBALS: {
+        default: {
+          local_asn: String(context.asn),
+          ...(routerId ? { router_id: routerId } : {}),
+          load_balance_mp_relax: 'true'
+        }
+      },
+      BGP_GLOBALS_AF: {
+        'default|ipv4_unicast': {
+          max_ebgp_paths: String(context.maximumPaths)
+        }
+      },
+      ...(context.loopback ? {
+        BGP_GLOBALS_AF_NETWORK: { [`default|ipv4_unicast|${context.loopback}`]: {} }
+      } : {}),
+      BGP_NEIGHBOR: neighbors,
+      BGP_NEIGHBOR_AF: neighborFamilies
+    } : {})
+  };
+};
+
+const sonicRenderer: ConfigRenderer = {
+  id: 'sonic',
+  name: 'SONiC',
+  description: 'config_db.json with ports, breakouts, interfaces and BGP (frrcfgd)',
+  render: (context) => [
+    { path: 'config_db.json', content: `${JSON.stringify(renderConfigDb(context), null, 4)}\n` }
+  ]
+};
+
+export default sonicRenderer;
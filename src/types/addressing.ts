@@ -0,0 +1,57 @@
+/**
+ * Types for the underlay IP addressing and BGP ASN plan
+ */
+
+import { TierRole } from './metrics';
+
+// 'ipv4' numbers every link from a /31, 'ipv6-unnumbered' peers over IPv6 link-local addresses (RFC 5549)
+export type LinkAddressing = 'ipv4' | 'ipv6-unnumbered';
+
+// 'per-leaf' gives every leaf an ASN of its own, 'per-rack' one ASN to the leafs of a rack
+export type LeafAsnMode = 'per-leaf' | 'per-rack';
+
+export interface AsnPool {
+  first: number;
+  last: number;
+}
+
+export interface AddressingParameters {
+  loopbackPool: string;        // IPv4 CIDR of the /32 loopbacks
+  linkPool: string;            // IPv4 CIDR of the /31 point-to-point links
+  linkAddressing: LinkAddressing;
+  leafAsnMode: LeafAsnMode;
+  leafAsnPool: AsnPool;
+  spineAsnPool: AsnPool;       // One ASN per spine plane of a pod, then one per super-spine plane
+}
+
+// Loopback and ASN of one switch
+export interface DeviceAddressing {
+  key: string;                 // Inventory key of the switch
+  device: string;
+  role: TierRole;
+  rack: string;
+  loopback: string | null;     // /32, null when the pool is exhausted or invalid
+  asn: number | null;          // null when the pool is exhausted
+}
+
+// One interface of a switch; the loopback is listed as Loopback0
+export interface InterfaceAddressing {
+  key: string;                 // Inventory key of the switch
+  device: string;
+  interface: string;
+  address: string | null;      // CIDR, null on unnumbered links or when the pool runs out
+  peerDevice: string;          // Empty on the loopback
+  peerInterface: string;
+  peerAddress: string | null;
+  asn: number | null;
+  peerAsn: number | null;
+  cable: string;               // Cable ID from the cabling plan
+}
+
+export interface AddressPlan {
+  topology: string;
+  parameters: AddressingParameters;
+  devices: DeviceAddressing[];
+  interfaces: InterfaceAddressing[];
+  issues: string[];            // Exhausted or invalid pools, duplicate names
+}
@@ -0,0 +1,30 @@
+/**
+ * Types for the bill of materials
+ */
+
+import { Currency, PriceCategory } from './pricing';
+
+// Spares are listed apart from the installed items
+export type BomCategory = PriceCategory | 'spares';
+
+// One orderable item of the bill of materials
+export interface BomLine {
+  category: BomCategory;
+  manufacturer: string;
+  model: string;
+  sku: string;                 // Catalog id of the item, empty when it is not in a catalog
+  description: string;
+  quantity: number;
+  unitPrice: number;           // Net, in the BOM currency
+  extendedPrice: number;       // Quantity times unit price
+  unitPower: number;           // W (typical)
+  power: number;               // W (typical) for the whole line
+}
+
+export interface BillOfMaterials {
+  topology: string;            // Topology name
+  currency: Currency;
+  lines: BomLine[];
+  totalPrice: number;
+  totalPower: number;          // W
+}
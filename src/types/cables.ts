@@ -0,0 +1,39 @@
+/**
+ * Types for the cable catalog and cabling bill of materials
+ */
+
+export type CableMedia = 'DAC' | 'AOC' | 'SMF' | 'MMF';
+
+// Fan-out of one cable: 1:1 is a straight cable, 1:4 splits one port into four
+export type BreakoutHarness = '1:1' | '1:2' | '1:4' | '1:8';
+
+export interface CableType {
+  id: string;
+  name: string;
+  media: CableMedia;
+  speed?: string;              // DAC/AOC assemblies are built for one speed; fibre carries any
+  baseCost: number;            // USD per cable (connectors or assembly ends)
+  costPerMeter: number;        // USD
+  baseWeight: number;          // kg per cable
+  weightPerMeter: number;      // kg
+}
+
+export interface HarnessType {
+  harness: BreakoutHarness;
+  factor: number;              // Links per cable
+  costFactor: number;          // Multiplier on the straight cable cost
+  weightFactor: number;        // Multiplier on the straight cable weight
+}
+
+// Cables of one media, harness and length bucket
+export interface CableLine {
+  media: CableMedia;
+  harness: BreakoutHarness;
+  speed: string;
+  length: number;              // Length bucket (m)
+  count: number;
+  unitCost: number;
+  unitWeight: number;
+  cost: number;
+  weight: number;
+}
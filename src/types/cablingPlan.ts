@@ -0,0 +1,40 @@
+/**
+ * Types for the port-to-port cabling plan
+ */
+
+import { RackItemRole } from './layout';
+import { CableMedia, BreakoutHarness } from './cables';
+
+// One end of a link
+export interface CableEndpoint {
+  key: string;                 // Inventory key of the device, or server-N for a server
+  device: string;
+  role: RackItemRole;
+  rack: string;                // Rack of the device in the rack layout
+  position: number;            // Lowest U of the device
+  port: number;                // Physical port, from 1
+  lane: number | null;         // Breakout lane of the port, from 1 (null when the port is not broken out)
+}
+
+// A link from a device to one in the tier above, or from a server NIC to its rail leaf
+export interface CablingPlanLink {
+  cable: string;               // Cable ID; the lanes of a breakout port share one cable
+  tier: number;                // Tier of the lower end, 0 for a server
+  a: CableEndpoint;            // Lower end
+  b: CableEndpoint;            // Upper end, where breakout cables fan out
+  speed: string;
+  media: CableMedia;
+  harness: BreakoutHarness;
+  length: number;              // Standard length (m) of the cable
+  sku: string;
+  cableName: string;
+  label: string;               // Printed on both ends of the cable
+  issue: string | null;        // Why the link cannot be cabled as planned, e.g. a port the switch does not have
+}
+
+export interface CablingPlan {
+  topology: string;
+  links: CablingPlanLink[];
+  cables: number;
+  issues: string[];            // Links on ports the switches do not have, per tier and role
+}
@@ -3,7 +3,7 @@
  */
 
 import { ReactNode } from 'react';
-import { Topology } from './topology';
+import { Topology, TopologyConfiguration } from './topology';
 
 export type SaveStatus = 'saved' | 'saving' | 'error';
 
@@ -17,6 +17,7 @@ export interface TopologyContextType {
   toggleAutoSave: () => void;
   createTopology: () => Topology;
   createTopologyFromTemplate: (templateName: string) => Topology;
+  createTopologyFromConfiguration: (name: string, description: string, configuration: TopologyConfiguration) => Topology;
   updateTopology: (updatedTopology: Topology) => Topology;
   updateTopologyWithAutoSave: (updatedTopology: Topology) => Topology;
   deleteTopology: (topologyId: string) => void;
@@ -27,6 +28,7 @@ export interface TopologyContextType {
   importTopology: (file: File) => Promise<Topology>;
   setCurrentTopology: (topology: Topology) => void;
   templates: Topology[];
+  defaultConfiguration: TopologyConfiguration;
 }
 
 export interface ThemeContextType {
@@ -13,6 +13,13 @@ export interface PowerConsumption {
   max: number;
 }
 
+export type SwitchingMode = 'cut-through' | 'store-and-forward';
+
+export interface DeviceLatency {
+  portToPort: number;        // ns, minimum port-to-port forwarding latency
+  switchingMode: SwitchingMode;
+}
+
 export interface Dimensions {
   height: number;
   width: number;
@@ -38,6 +45,7 @@ export interface Device {
   rackUnits: number;
   cost: number;
   thermalOutput: number;
+  latency?: DeviceLatency;
   weight: number;
   dimensions: Dimensions;
   imageUrl?: string;
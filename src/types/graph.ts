@@ -0,0 +1,51 @@
+/**
+ * Types for the node-link diagram of a topology
+ */
+
+import { TierRole } from './metrics';
+import { BreakoutHarness, CableMedia } from './cables';
+
+export type GraphNodeKind = TierRole | 'servers';
+
+// A switch, a group of switches of one row, or a group of servers
+export interface GraphNode {
+  id: string;
+  kind: GraphNodeKind;
+  row: number;                 // 0 is the top row
+  label: string;               // Switch name, or the range of a group
+  detail: string;              // Pod, plane or scalable unit
+  devices: number;             // Switches or servers in the node
+  keys: string[];              // Inventory keys of the switches
+  deviceIds: string[];         // Catalog devices of the switches, without duplicates
+  models: string[];            // Models of the switches, without duplicates
+  plane: number | null;        // Spine plane, from 1, when the spines are disjoint
+}
+
+// The links between two nodes, drawn as one bundle
+export interface GraphEdge {
+  id: string;
+  kind: 'fabric' | 'rail';
+  source: string;              // Lower node
+  target: string;              // Upper node
+  links: number;               // Parallel links in the bundle
+  speed: string;
+  media: CableMedia | null;    // null on server links
+  harness: BreakoutHarness | null; // Breakout at the upper end, null on server links
+  plane: number | null;
+  label: string;               // e.g. Rail 3, or 4x 400G
+}
+
+export interface GraphRow {
+  kind: GraphNodeKind;
+  tier: number;                // 0 for servers
+  label: string;
+  devices: number;             // Switches or servers in the row
+}
+
+export interface TopologyGraph {
+  rows: GraphRow[];            // Top to bottom
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  aggregated: boolean;         // Whether any row was collapsed into groups
+  planes: number;              // Disjoint spine planes (1 for a shared fabric)
+}
@@ -0,0 +1,47 @@
+/**
+ * Types for phased growth planning
+ */
+
+import { TopologyConfiguration } from './topology';
+import { Currency } from './pricing';
+
+// One build phase before the full build; the topology itself is the final phase
+export interface GrowthPhase {
+  name: string;                // e.g. Day 1
+  numLeafs: number;            // Leafs deployed by the end of the phase
+  numSpines?: number;          // Spines deployed by the end of the phase (derived from the full build when absent)
+}
+
+// Deployed quantities and totals of a phase, or their change from the phase before
+export interface PhaseTotals {
+  leafs: number;
+  spines: number;
+  superSpines: number;
+  optics: number;
+  cables: number;
+  cost: number;                // Net, in the pricing currency
+  power: number;               // W
+}
+
+export interface PhaseMetrics {
+  name: string;
+  final: boolean;              // The full build
+  configuration: TopologyConfiguration;
+  totals: PhaseTotals;
+  delta: PhaseTotals;          // Added in this phase
+}
+
+// 'recabling' moves cables that are already installed; 'capacity' means the phase cannot be built as planned
+export type GrowthIssueType = 'recabling' | 'capacity';
+
+export interface GrowthIssue {
+  phase: string;
+  type: GrowthIssueType;
+  message: string;
+}
+
+export interface GrowthPlan {
+  currency: Currency;
+  phases: PhaseMetrics[];
+  issues: GrowthIssue[];
+}
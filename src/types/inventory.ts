@@ -0,0 +1,44 @@
+/**
+ * Types for device naming and the inventory of named switches
+ */
+
+import { TierRole } from './metrics';
+import { RackLayout } from './layout';
+
+// How switch names are built from a template, e.g. {site}-{role}{index:02}
+export interface NamingScheme {
+  site: string;                        // Value of {site}
+  template: string;                    // Tokens: {site} {role} {index} {pod} {member} {tier} {rack}, {token:02} pads with zeros
+  roleCodes: Record<TierRole, string>; // Value of {role} for each role
+}
+
+// Changes to one switch, kept by its instance key across recalculations
+export interface DeviceOverride {
+  name?: string;               // Replaces the name from the naming scheme
+  deviceId?: string;           // Catalog model in place of the one selected for the role
+}
+
+// One switch of the topology
+export interface DeviceInstance {
+  key: string;                 // Stable role and index, e.g. leaf-12
+  name: string;
+  role: TierRole;
+  tier: number;
+  index: number;               // Among the switches of its role, from 1
+  pod: number;                 // Pod of a leaf or spine (scalable unit of a rail leaf), plane of a super-spine, from 1
+  member: number;              // Within the pod (rail of a rail leaf) or plane, from 1
+  rack: string;                // Rack in the rack layout
+  position: number;            // Lowest U of the switch
+  deviceId: string | null;     // Catalog device, null for a generic switch
+  manufacturer: string;
+  model: string;
+  overridden: boolean;         // Whether the name or model comes from an override
+}
+
+export interface Inventory {
+  topology: string;
+  devices: DeviceInstance[];
+  duplicateNames: string[];    // Names given to more than one switch
+  unusedOverrides: string[];   // Override keys of switches the topology no longer has
+  layout: RackLayout;          // Rack layout the switches are placed in
+}
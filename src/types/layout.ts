@@ -0,0 +1,105 @@
+/**
+ * Types for the physical rack and row layout
+ */
+
+import { TierRole } from './metrics';
+
+// Where the leafs sit: top of every server rack, or in network racks in the middle or at the end of each row
+export type LeafPlacement = 'tor' | 'mor' | 'eor';
+
+export type RackRole = 'server' | 'network';
+
+export type RackItemRole = TierRole | 'server';
+
+/**
+ * Layout parameters with every default applied
+ */
+export interface RackLayoutParameters {
+  rackHeight: number;          // U
+  reservedRackUnits: number;   // U per rack for patch panels, PDUs and cable management
+  rackPowerBudget: number;     // W per rack, against the maximum power of the equipment
+  rackCoolingBudget: number;   // BTU/hr per rack
+  leafPlacement: LeafPlacement;
+  racksPerRow: number;         // Server racks per row
+  serverRackUnits: number;     // U per server
+  serverPower: number;         // W per server (0 when servers are not budgeted)
+}
+
+// Size, power and heat of one device role
+export interface RackDeviceProfile {
+  rackUnits: number;
+  power: number;               // W, typical
+  maxPower: number;            // W
+  thermalOutput: number;       // BTU/hr
+}
+
+/**
+ * Everything the planner needs to know about the fabric
+ */
+export interface RackLayoutInput {
+  parameters: RackLayoutParameters;
+  numLeafs: number;
+  leafsPerPod: number;
+  spinesPerPod: number;
+  pods: number;
+  superSpines: number;
+  leafsPerGroup: number;       // Leafs a server connects to (one, or every rail of a scalable unit)
+  serversPerGroup: number;
+  leaf: RackDeviceProfile;
+  spine: RackDeviceProfile;
+  superSpine: RackDeviceProfile;
+}
+
+// One block of equipment in a rack elevation
+export interface RackItem {
+  role: RackItemRole;
+  name: string;
+  position: number;            // Lowest U occupied (1 = bottom)
+  rackUnits: number;
+  count: number;               // Devices in the block (servers are drawn as one block)
+  power: number;               // W for the whole block, typical
+  maxPower: number;            // W for the whole block
+  thermalOutput: number;       // BTU/hr for the whole block
+}
+
+export interface Rack {
+  id: string;
+  name: string;
+  role: RackRole;
+  row: number;
+  slot: number;                // Position in the row
+  usedRackUnits: number;
+  power: number;               // W, typical
+  maxPower: number;            // W
+  thermalOutput: number;       // BTU/hr
+  items: RackItem[];
+}
+
+export interface RackRow {
+  row: number;
+  name: string;
+  network: boolean;            // Dedicated row of spine and super-spine racks
+  racks: Rack[];
+}
+
+// Cable length distribution of one link group
+export interface CableRun {
+  length: number;              // m
+  weight: number;              // Relative number of links with this length
+}
+
+export interface RackLayoutCableRuns {
+  server: CableRun[];
+  leafToSpine: CableRun[];
+  spineToSuperSpine: CableRun[];
+}
+
+export interface RackLayout {
+  parameters: RackLayoutParameters;
+  rows: RackRow[];
+  racks: Rack[];
+  serverRacks: number;
+  networkRacks: number;
+  servers: number;
+  cableRuns: RackLayoutCableRuns;
+}
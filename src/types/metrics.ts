@@ -2,9 +2,51 @@
  * Types for calculation metrics
  */
 
+import { SwitchingMode } from './devices';
+import { OpticAssignment } from './optics';
+import { CableMedia, BreakoutHarness, CableLine } from './cables';
+import { RackRole } from './layout';
+import { TcoMetrics } from './tco';
+import { Currency, PriceTotals } from './pricing';
+import { SparesMetrics } from './spares';
+
+export type TierRole = 'leaf' | 'spine' | 'super-spine';
+
+/**
+ * One tier of a Clos fabric (tier 1 = leaf)
+ */
+export interface ClosTier {
+  tier: number;
+  role: TierRole;
+  devices: number;
+  pods: number;               // Pods (leaf/spine) or planes (super-spine) at this tier
+  downlinksPerDevice: number; // Logical links toward the tier below (servers for leafs)
+  uplinksPerDevice: number;   // Logical links toward the tier above
+  uplinkSpeed: string;        // Speed of the links toward the tier above
+  uplinks: number;            // Total links from this tier to the tier above
+  oversubscription: number;   // Downlink:uplink capacity ratio (0 at the top tier)
+}
+
+export interface TierCount {
+  tier: number;
+  role: TierRole;
+  count: number;
+}
+
 export interface DeviceCount {
   spines: number;
   leafs: number;
+  superSpines: number;
+  total: number;
+  spares: number;             // Spare switches, not part of the total
+  tiers: TierCount[];
+}
+
+export interface TierCost {
+  tier: number;
+  role: TierRole;
+  switches: number;
+  optics: number;             // Optics on the links from this tier to the tier above
   total: number;
 }
 
@@ -12,58 +54,272 @@ export interface CostBreakdown {
   switches: {
     spine: number;
     leaf: number;
+    superSpine: number;
     total: number;
   };
   optics: number;
+  cables: number;             // Cables are not broken down by tier
+  spares: number;             // Spare switches, optics and cables
   total: number;
+  tiers: TierCost[];
+  currency: Currency;         // Costs are net prices in this currency
+  list: PriceTotals;          // List prices in the same currency
+  discount: number;           // List total minus net total
 }
 
 export interface PowerBreakdown {
   switches: {
     spine: number;
     leaf: number;
+    superSpine: number;
     total: number;
   };
   optics: number;
   total: number;
+  tiers: TierCost[];
 }
 
-export interface LatencyMetrics {
-  hops: number;
-  switchLatency: number;
+export interface CableLengthRange {
+  best: number;               // m
+  average: number;
+  worst: number;
+}
+
+export interface TierCableLengths {
+  server: CableLengthRange;
+  leafToSpine: CableLengthRange;
+  spineToSuperSpine: CableLengthRange;
+  estimated: boolean;         // False when every length is set explicitly
+}
+
+export interface LatencyPath {
+  switches: number;           // Switches the frame passes through
+  hops: number;               // Switch-to-switch links
+  cableLength: number;        // m, server to server
+  switchLatency: number;      // μs
+  serializationLatency: number;
+  fecLatency: number;
   fiberLatency: number;
   total: number;
 }
 
+export interface LatencyMetrics {
+  best: LatencyPath;          // Both servers on the same leaf, shortest cables
+  average: LatencyPath;       // Expected over all server pairs with average cable lengths
+  worst: LatencyPath;         // Through the top tier with the longest cables
+  leafLatency: number;        // μs per leaf traversal
+  spineLatency: number;       // μs per spine or super-spine traversal
+  leafSwitching: SwitchingMode;
+  spineSwitching: SwitchingMode;
+  frameSize: number;          // Bytes
+  cableLengths: TierCableLengths;
+}
+
+/**
+ * Capacity of one group of leaf ports (uplinks or downlinks)
+ */
+export interface LinkCapacity {
+  ports: number;          // Physical ports per leaf
+  portSpeedGbps: number;
+  breakoutFactor: number; // Logical links per physical port
+  lanes: number;          // Logical links per leaf
+  laneSpeedGbps: number;  // Usable speed of each logical link
+  capacityGbps: number;
+}
+
+export interface OversubscriptionExplanation {
+  uplink: LinkCapacity;
+  downlink: LinkCapacity;
+  steps: string[];        // Human-readable derivation of the ratio
+}
+
 export interface OversubscriptionMetrics {
   uplinkCapacity: number;
   downlinkCapacity: number;
+  uplinkCapacityPerLeaf: number;
+  downlinkCapacityPerLeaf: number;
   uplinkPortsPerLeaf: number;
   downlinkPortsPerLeaf: number;
-  ratio: string;
+  ratioValue: number;     // Exact downlink:uplink ratio (0 when not applicable)
+  ratio: string;          // Ratio formatted to two decimals, or 'N/A'
+  explanation: OversubscriptionExplanation;
+}
+
+/**
+ * Resolved per-leaf port plan shared by every calculator
+ */
+export interface PortAllocation {
+  portCount: number;
+  uplinkPorts: number;      // Ports reserved for spine uplinks
+  uplinkPortsUsed: number;  // Ports actually cabled to spines (spines x links per spine)
+  uplinkSpeed: string;
+  downlinkPorts: number;
+  downlinkSpeed: string;
+  unallocatedPorts: number;
+  spinesPerLeaf: number;    // Spines each leaf connects to (spines per pod in N-tier fabrics)
+  linksPerSpine: number;
+  explicit: boolean;        // True when the leaf config carries its own allocation
 }
 
 export interface RackSpaceMetrics {
   spineRackUnits: number;
   leafRackUnits: number;
+  superSpineRackUnits: number;
   totalRackUnits: number;
-  racksNeeded: number;
+  racksNeeded: number;        // Racks in the rack layout
+  serverRacks: number;
+  networkRacks: number;
+  rows: number;
+}
+
+// Power and heat of one rack, optics included, against the rack budgets
+export interface RackPowerStatus {
+  id: string;
+  name: string;
+  role: RackRole;
+  power: number;              // W, typical
+  maxPower: number;           // W
+  thermalOutput: number;      // BTU/hr
+  overPower: boolean;
+  overCooling: boolean;
+}
+
+export type RackConstraint = 'space' | 'power' | 'cooling';
+
+export interface RackPowerMetrics {
+  rackPowerBudget: number;    // W per rack
+  rackCoolingBudget: number;  // BTU/hr per rack
+  maxPower: number;           // W for every rack
+  thermalOutput: number;      // BTU/hr for every rack
+  coolingTons: number;
+  racks: RackPowerStatus[];
+  flaggedRacks: RackPowerStatus[];
+  racksForSpace: number;      // Racks needed if only rack units counted
+  racksForPower: number;
+  racksForCooling: number;
+  limitedBy: RackConstraint;
 }
 
 export interface CablingMetrics {
   standard: number;
   breakout: number;
   total: number;
+  server: number;             // NIC-to-leaf cables (rail fabrics only)
+  tiers: TierCount[];         // Cables from each tier to the tier above
+  media: Record<CableMedia, number>;
+  harnesses: Record<BreakoutHarness, number>;
+  lines: CableLine[];         // Cables by media, harness and length bucket
+  cost: number;
+  weight: number;             // kg
+}
+
+export interface SpinePlane {
+  plane: number;
+  spines: number;             // Spines in the plane across all pods
+  linksPerLeaf: number;       // Uplinks each leaf sends into the plane
+  links: number;              // Leaf-to-spine links in the plane
+  capacity: number;           // Gbps
+}
+
+export interface SpinePlaneMetrics {
+  disjoint: boolean;
+  planes: SpinePlane[];
+  spineFailureImpact: number; // % of a leaf's uplink capacity lost when one spine fails
+  planeFailureImpact: number; // % of a leaf's uplink capacity lost when the largest plane fails
+  leafsPerFailureDomain: number; // Leafs that lose capacity when one spine fails
+  ecmpPathsPerPlane: number;  // Equal-cost leaf-to-leaf paths inside the largest plane
+}
+
+export interface RailMetrics {
+  rails: number;
+  gpusPerServer: number;
+  nicsPerServer: number;
+  serversPerScalableUnit: number;
+  scalableUnits: number;
+  servers: number;
+  gpus: number;
+  railLeafs: number;
+  nicSpeed: string;
+  nicLinks: number;
+  spineInterconnect: boolean;
+  bisectionBandwidth: number; // Gbps across the worst-case cut
+}
+
+export interface ThroughputMetrics {
+  servers: number;
+  endpoints: number;              // Server-facing links
+  endpointSpeed: number;          // Gbps per server-facing link
+  endpointCapacity: number;       // Gbps of server-facing capacity across all leafs
+  fabricCapacity: number;         // Gbps of leaf-to-spine capacity
+  bisectionBandwidth: number;     // Gbps across the worst-case even split of the endpoints
+  bisectionRatio: number;         // Bisection bandwidth / half the endpoint capacity
+  fullBisection: boolean;
+  guaranteedPerEndpoint: number;  // Gbps per link with every endpoint sending off its leaf
+  perServerBandwidth: number;     // Guaranteed Gbps per server across all of its NICs
+  spineCapacity: number;          // Gbps of switching capacity in the spine tier
+  spineUsedCapacity: number;      // Gbps of spine ports carrying fabric links
+  spineUtilization: number;       // % of spine switching capacity in use
+}
+
+export type FailureType = 'spine' | 'leaf' | 'plane';
+
+export interface FailureScenario {
+  failure: FailureType;
+  label: string;
+  failedDevices: number;
+  remainingCapacity: number;      // Gbps of leaf-to-spine capacity left across the fabric
+  remainingCapacityPercent: number;
+  worstLeafUplinkPercent: number; // % of its uplink capacity the most affected leaf keeps
+  oversubscription: number;       // Ratio on the most affected leaf (0 when it has no uplinks left)
+  blastRadius: number;            // Servers that lose connectivity beyond their leaf
+  degradedServers: number;        // Servers that stay connected with less bandwidth
+  ecmpCoverage: boolean;          // Every surviving leaf still shares a spine with every other leaf (true without spines)
+}
+
+export interface ResiliencyMetrics {
+  serversPerLeaf: number;
+  scenarios: FailureScenario[];
+  spineFailuresTolerated: number; // Spines that can fail in one pod before ECMP coverage is lost
+  score: number;                  // 0-100, higher survives failures better
+}
+
+export type HeadroomResource = 'leafs' | 'servers' | 'spines';
+
+// How far one resource can grow with the chosen devices and port plan
+export interface HeadroomLimit {
+  resource: HeadroomResource;
+  current: number;
+  max: number;
+  utilization: number;            // % of the maximum in use
+  constraint: string;             // What sets the maximum
+}
+
+export interface HeadroomMetrics {
+  leafs: HeadroomLimit;
+  servers: HeadroomLimit;
+  spines: HeadroomLimit;
+  limitedBy: HeadroomResource;    // The resource that runs out first
 }
 
 export interface TopologyMetrics {
+  portAllocation: PortAllocation;
+  tiers: ClosTier[];
   deviceCount: DeviceCount;
   cost: CostBreakdown;
+  spares: SparesMetrics;
   power: PowerBreakdown;
   latency: LatencyMetrics;
   oversubscription: OversubscriptionMetrics;
   rackSpace: RackSpaceMetrics;
+  rackPower: RackPowerMetrics;
   cabling: CablingMetrics;
+  rail: RailMetrics | null;
+  spinePlanes: SpinePlaneMetrics;
+  resiliency: ResiliencyMetrics;
+  headroom: HeadroomMetrics;
+  throughput: ThroughputMetrics;
+  optics: OpticAssignment[];
+  tco: TcoMetrics;
 }
 
 export interface ComparisonResult {
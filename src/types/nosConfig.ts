@@ -0,0 +1,65 @@
+/**
+ * Types for the network OS configuration renderers
+ */
+
+import { TierRole } from './metrics';
+
+// A physical port in use, with its breakout
+export interface ConfigPort {
+  port: number;                // From 1
+  speed: string;               // Port speed, e.g. 400G
+  lanes: number;               // Breakout lanes (1 without breakout)
+  laneSpeed: string;           // Speed of each lane, e.g. 100G
+  usage: 'fabric' | 'server';
+}
+
+// A routed interface toward another switch
+export interface ConfigInterface {
+  name: string;                // Ethernet49, or Ethernet3/2 for lane 2 of port 3
+  port: number;
+  lane: number | null;         // Breakout lane, from 1 (null when the port is not broken out)
+  lanes: number;               // Breakout lanes of the port
+  speed: string;               // Speed of the interface
+  address: string | null;      // CIDR, null when unnumbered
+  peerDevice: string;
+  peerInterface: string;
+  peerAddress: string | null;  // Without prefix length
+  peerAsn: number | null;
+  uplink: boolean;             // Toward the tier above
+  description: string;
+}
+
+// Everything a renderer needs to configure one switch
+export interface DeviceConfigContext {
+  topology: string;
+  device: string;              // Host name
+  role: TierRole;
+  manufacturer: string;
+  model: string;
+  loopback: string | null;     // CIDR of Loopback0
+  asn: number | null;
+  unnumbered: boolean;         // BGP peers over IPv6 link-local addresses
+  maximumPaths: number;        // ECMP paths to install per prefix
+  ports: ConfigPort[];
+  interfaces: ConfigInterface[];
+}
+
+// The contexts of every switch, or why there are none
+export interface ConfigContexts {
+  contexts: DeviceConfigContext[]; // One per switch in inventory order, empty when there are issues
+  issues: string[];            // Ports the cabling plan needs but the switches do not have
+}
+
+// A file of a rendered configuration, relative to the folder of the switch
+export interface RenderedFile {
+  path: string;
+  content: string;
+}
+
+// Turns the context of a switch into configuration files for one network OS
+export interface ConfigRenderer {
+  id: string;                  // Folder of the renderer in the archive
+  name: string;
+  description: string;
+  render: (context: DeviceConfigContext) => RenderedFile[];
+}
@@ -0,0 +1,54 @@
+/**
+ * Types for the optics and transceiver catalog
+ */
+
+import { TierRole } from './metrics';
+import { CableMedia } from './cables';
+
+export type OpticFormFactor = 'SFP28' | 'SFP56' | 'QSFP28' | 'QSFP56' | 'QSFP-DD' | 'OSFP';
+
+// Reach class from the IEEE/MSA naming (DAC and AOC are fixed-length assemblies)
+export type ReachClass = 'DAC' | 'AOC' | 'SR' | 'SR4' | 'SR8' | 'DR' | 'DR4' | 'FR' | 'FR4' | 'LR4';
+
+export interface Optic {
+  id: string;
+  name: string;
+  speed: string;               // Link speed, e.g. 400G
+  formFactor: OpticFormFactor;
+  reachClass: ReachClass;
+  cost: number;                // USD per link end (DAC/AOC are priced as cables)
+  power: number;               // Watts per link end
+  maxDistance: number;         // m
+}
+
+// 'flat' prices optics from opticsCost/powerUsage.optics; 'catalog' picks catalog optics
+export type OpticsSelectionMode = 'flat' | 'catalog';
+
+export interface OpticsSelection {
+  mode: OpticsSelectionMode;
+  // Optic id per link group ('1', '2', ... for tier uplinks, 'server' for NIC links);
+  // groups without an entry get the cheapest optic that reaches their longest cable
+  tierOptics?: {
+    [group: string]: string;
+  };
+}
+
+export type OpticLinkType = 'uplink' | 'server';
+
+// The optic used by one group of links
+export interface OpticAssignment {
+  group: string;               // Key into OpticsSelection.tierOptics
+  tier: number;
+  role: TierRole;
+  linkType: OpticLinkType;
+  speed: string;
+  links: number;
+  optics: number;              // Two per link
+  cableLength: number;         // Longest cable in the group (m)
+  optic: Optic | null;         // Null when priced from the flat maps
+  automatic: boolean;          // Picked from the cable length rather than chosen
+  reachExceeded: boolean;      // The optic does not reach the longest cable
+  media: CableMedia;           // Cable media the optic plugs into
+  unitCost: number;
+  unitPower: number;
+}
@@ -0,0 +1,23 @@
+/**
+ * Types for pricing profiles: reporting currency and procurement discounts
+ */
+
+export type Currency = 'USD' | 'EUR' | 'GBP';
+
+export type PriceCategory = 'switches' | 'optics' | 'cables';
+
+export interface PricingProfile {
+  currency: Currency;                                 // Currency costs are reported in
+  exchangeRates: Record<Currency, number>;            // Units of each currency per USD
+  categoryDiscounts: Record<PriceCategory, number>;   // % off list price
+  manufacturerDiscounts: Record<string, number>;      // % off list price of a manufacturer's switches
+}
+
+// List or net totals of a build
+export interface PriceTotals {
+  switches: number;
+  optics: number;
+  cables: number;
+  spares: number;
+  total: number;
+}
@@ -0,0 +1,58 @@
+/**
+ * Types for endpoint-driven topology sizing
+ */
+
+import { TopologyConfiguration } from './topology';
+import { TopologyMetrics } from './metrics';
+import { Device } from './devices';
+
+export type SizingTargetType = 'servers' | 'gpus';
+
+export interface SizingTarget {
+  targetType: SizingTargetType;
+  count: number;                  // Number of servers or GPUs
+  gpusPerServer: number;          // Used to turn a GPU target into servers
+  nicsPerServer: number;
+  nicSpeed: string;               // e.g. '400G'
+  targetOversubscription: number; // Maximum leaf downlink:uplink ratio (1 = non-blocking)
+  railOptimized: boolean;         // One leaf per NIC rail in each scalable unit
+}
+
+export interface SizingResult {
+  valid: boolean;
+  error?: string;
+  servers: number;
+  endpoints: number;              // Server NIC ports to connect
+  numLeafs: number;
+  numSpines: number;
+  numTiers: number;
+  leafPortSpeed: string;
+  leafDownlinkBreakout: string;
+  leafDownlinkPorts: number;
+  leafUplinkPorts: number;
+  spineBreakout: string;
+  linksPerSpine: number;
+  oversubscription: number;       // Achieved ratio, as calculated for the resulting topology
+  steps: string[];
+  configuration: TopologyConfiguration | null;
+}
+
+// Objectives the design-space explorer trades off; lower is better for all of them
+export interface DesignObjectives {
+  cost: number;
+  power: number;
+  oversubscription: number;
+  rackUnits: number;
+}
+
+export type DesignObjective = keyof DesignObjectives;
+
+export interface DesignCandidate {
+  id: string;
+  spineDevice: Device;
+  leafDevice: Device;
+  sizing: SizingResult;
+  metrics: TopologyMetrics;
+  objectives: DesignObjectives;
+  paretoOptimal: boolean;
+}
@@ -0,0 +1,45 @@
+/**
+ * Types for the sparing policy
+ */
+
+import { PriceCategory } from './pricing';
+
+// 'percent' spares a share of the installed quantity, 'count' a fixed number
+export type SpareMode = 'percent' | 'count';
+
+export interface SpareRule {
+  mode: SpareMode;
+  value: number;               // % of the installed quantity, or spares per item
+}
+
+export interface SparesPolicy {
+  switches: SpareRule;         // Default for every switch model
+  optics: SpareRule;           // Default for every optic type
+  cables: SpareRule;           // Default for every cable SKU
+  overrides: Record<string, SpareRule>; // Per device model, optic type or cable SKU (SpareItem key)
+}
+
+// Spares of one device model, optic type or cable SKU
+export interface SpareItem {
+  category: PriceCategory;
+  key: string;                 // Device model id, optic id or cable SKU; generic items get a key of their own
+  manufacturer: string;
+  model: string;
+  sku: string;                 // Empty when the item is not in a catalog
+  installed: number;
+  spares: number;
+  unitPrice: number;           // Net, in the pricing currency
+  unitListPrice: number;       // List, in the pricing currency
+  cost: number;                // Net cost of the spares
+  listCost: number;            // List cost of the spares
+}
+
+export interface SparesMetrics {
+  policy: SparesPolicy;
+  items: SpareItem[];
+  switches: number;            // Spare switches
+  optics: number;              // Spare optics
+  cables: number;              // Spare cables
+  cost: number;                // Net, in the pricing currency
+  listCost: number;            // List, in the pricing currency
+}
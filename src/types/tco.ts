@@ -0,0 +1,49 @@
+/**
+ * Types for the total cost of ownership model
+ */
+
+export interface TcoParameters {
+  years: number;               // Horizon of the model
+  electricityPrice: number;    // Per kWh, in the pricing currency
+  pue: number;                 // Power usage effectiveness of the facility
+  supportRate: number;         // % of the switch cost per year
+  amortisationYears: number;   // Hardware is written off, and refreshed, over this period
+  opticsFailureRate: number;   // % of the optics replaced per year
+  rackCostPerMonth: number;    // Per rack, in the pricing currency (colocation or facility cost)
+}
+
+// Costs of one year of operation
+export interface TcoYear {
+  year: number;
+  hardware: number;            // Purchases: the initial build and every refresh
+  amortisation: number;        // Hardware written off this year
+  energy: number;              // Facility energy, PUE included
+  support: number;
+  opticsReplacement: number;
+  colocation: number;
+  operating: number;           // Energy, support, optics replacement and colocation
+  total: number;               // Hardware plus operating
+  cumulative: number;
+}
+
+export interface TcoMetrics {
+  parameters: TcoParameters;
+  hardware: number;            // Initial build cost, spares included
+  annualEnergy: number;        // kWh per year at the facility meter
+  years: TcoYear[];
+  operating: number;           // Operating cost over the horizon
+  total: number;               // Total cost of ownership over the horizon
+  annualised: number;          // Total divided by the years of the horizon
+}
+
+/**
+ * Everything the TCO model needs to know about a topology
+ */
+export interface TcoInput {
+  parameters: TcoParameters;
+  hardware: number;            // Net build cost: switches, optics, cables and spares
+  switches: number;            // Cost of the installed switches, covered by support contracts
+  optics: number;              // Optics cost exposed to failures
+  power: number;               // W drawn by the equipment
+  racks: number;               // Whole-rack equivalents of the switch rack space
+}
@@ -2,6 +2,16 @@
  * Types for the topology domain model
  */
 
+import { SwitchingMode } from './devices';
+import { OpticsSelection } from './optics';
+import { LeafPlacement } from './layout';
+import { TcoParameters } from './tco';
+import { PricingProfile } from './pricing';
+import { SparesPolicy } from './spares';
+import { GrowthPhase } from './growth';
+import { NamingScheme, DeviceOverride } from './inventory';
+import { AddressingParameters } from './addressing';
+
 export interface Topology {
   id: string;
   name: string;
@@ -32,17 +42,30 @@ export interface TopologyConfiguration {
   leafConfig: LeafConfig;
   breakoutOptions: BreakoutOptions | BreakoutOptionLegacy[];
   disjointedSpines: boolean;
+  spinePlanes?: number;        // Plane count when disjointedSpines is set (default: 2)
   railOptimized: boolean;
   // Parallel Links feature
   parallelLinksEnabled?: boolean;     // Feature toggle (default: false)
   parallelLinksPerSpine?: number;     // Manual override (optional)
   parallelLinksMode?: 'auto' | 'manual'; // Default: 'auto'
+  // N-tier Clos (numTiers >= 3)
+  podConfig?: PodConfig;
+  superSpineConfig?: SuperSpineConfig;
+  railConfig?: RailConfig;     // Used when railOptimized is set
   switchCost: SwitchCost;
   opticsCost: OpticsCost;      // Keep as an object
   opticsPower?: number;        // Optional property for simplified optics power (per unit)
+  opticsSelection?: OpticsSelection; // Flat pricing when absent
   powerUsage: PowerUsage;
   latencyParameters: LatencyParameters;
   rackSpaceParameters: RackSpaceParameters;
+  tcoParameters?: TcoParameters; // Defaults in DEFAULT_TCO_PARAMETERS
+  pricingProfile?: PricingProfile; // Defaults in DEFAULT_PRICING_PROFILE (USD list prices)
+  sparesPolicy?: SparesPolicy; // Defaults in DEFAULT_SPARES_POLICY (no spares)
+  growthPhases?: GrowthPhase[]; // Build phases ahead of the full build, smallest first
+  namingScheme?: NamingScheme; // Defaults in DEFAULT_NAMING_SCHEME
+  deviceOverrides?: Record<string, DeviceOverride>; // Per switch, by DeviceInstance key
+  addressing?: AddressingParameters; // Defaults in DEFAULT_ADDRESSING_PARAMETERS
   deviceSelection?: DeviceSelection;
   linkTypes?: LinkType[]; // Legacy property for backward compatibility
 }
@@ -57,6 +80,34 @@ export interface LeafConfig {
   portCount: number;
   downlinkSpeed: string;
   breakoutMode: string;  // Mode for breaking out downlink ports (e.g., 1x100G, 4x25G)
+  // Explicit port allocation (derived from the spine layout when absent)
+  uplinkPorts?: number;   // Physical ports reserved for spine uplinks
+  downlinkPorts?: number; // Physical ports reserved for server-facing downlinks
+  uplinkSpeed?: string;   // Uplink port speed (defaults to the spine link speed)
+}
+
+/**
+ * Pod layout for N-tier Clos fabrics: leafs and spines are grouped into pods
+ * and the spines of every pod connect upward to the super-spine tier
+ */
+export interface PodConfig {
+  leafsPerPod: number;   // Pod size
+  spinesPerPod: number;  // Also the number of super-spine planes
+}
+
+export interface SuperSpineConfig {
+  count?: number;        // Super-spine count (derived from the pod layout when absent)
+  portCount: number;     // Radix
+  portSpeed: string;
+  breakoutMode: string;
+}
+
+export interface RailConfig {
+  gpusPerServer: number;
+  nicsPerServer: number;             // One rail per NIC
+  serversPerScalableUnit?: number;   // Defaults to filling the rail leaf downlinks
+  scalableUnits?: number;            // Defaults to numLeafs / nicsPerServer
+  spineInterconnect: boolean;        // Join the rails through a spine tier
 }
 
 export interface BreakoutOptions {
@@ -71,6 +122,7 @@ export interface BreakoutOption {
 export interface SwitchCost {
   spine: number;
   leaf: number;
+  superSpine?: number;  // Defaults to the spine cost
 }
 
 export interface OpticsCost {
@@ -80,19 +132,42 @@ export interface OpticsCost {
 export interface PowerUsage {
   spine: number;
   leaf: number;
+  superSpine?: number;  // Defaults to the spine power
   optics: {
     [key: string]: number;
   };
 }
 
+// Fixed cable lengths (m) that replace the estimate from the rack layout
+export interface CableLengths {
+  server?: number;            // Server NIC to leaf
+  leafToSpine?: number;
+  spineToSuperSpine?: number;
+}
+
 export interface LatencyParameters {
-  switchLatency: number;
-  fiberLatency: number;
+  switchLatency: number;            // μs, for devices without catalog latency
+  fiberLatency: number;             // μs per km
+  switchingMode?: SwitchingMode;    // For devices without catalog latency (default cut-through)
+  frameSize?: number;               // Bytes (default 1500)
+  fecEnabled?: boolean;             // RS-FEC on 400G/800G PAM4 links (default true)
+  fecLatency?: number;              // μs per FEC link (default 0.1)
+  cableLengths?: CableLengths;
 }
 
 export interface RackSpaceParameters {
   spineRackUnits: number;
   leafRackUnits: number;
+  superSpineRackUnits?: number;  // Defaults to the spine rack units
+  // Rack layout (defaults in DEFAULT_RACK_LAYOUT)
+  rackHeight?: number;           // U
+  reservedRackUnits?: number;    // U per rack kept free for patch panels and PDUs
+  rackPowerBudget?: number;      // W per rack
+  rackCoolingBudget?: number;    // BTU/hr per rack
+  leafPlacement?: LeafPlacement; // Top of rack, middle of row or end of row
+  racksPerRow?: number;          // Server racks per row
+  serverRackUnits?: number;      // U per server
+  serverPower?: number;          // W per server
 }
 
 export type PricingSource = 'global' | 'device-default' | 'manual';
@@ -0,0 +1,70 @@
+/**
+ * fileExport.ts
+ *
+ * This file contains utility functions for turning tabular data into CSV and
+ * downloading generated files.
+ */
+
+export type CsvValue = string | number | null | undefined;
+
+export interface CsvOptions {
+  excel?: boolean;             // Byte order mark and CRLF line endings so that Excel opens the file as UTF-8
+}
+
+/**
+ * Quote a CSV field when it contains a separator, quote or line break
+ * @param value - The field value
+ * @returns The escaped field
+ */
+const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Format rows as CSV
+ * @param headers - The column headers
+ * @param rows - The rows, one value per column
+ * @param options - Output options
+ * @returns The CSV text
+ */
+export const toCsv = (headers: string[], rows: CsvValue[][], options: CsvOptions = {}): string => {
+  const lineEnding = options.excel ? '\r\n' : '\n';
+  const lines = [headers, ...rows].map(row => row.map(escapeCsvValue).join(','));
+  return `${options.excel ? '\uFEFF' : ''}${lines.join(lineEnding)}${lineEnding}`;
+};
+
+/**
+ * Build a download file name from a topology name
+ * @param name - The topology name
+ * @param suffix - What the file holds, e.g. bom
+ * @param extension - The file extension
+ * @returns File name with the current date
+ */
+export const getExportFileName = (name: string, suffix: string, extension: string): string =>
+  `${name.replace(/\s+/g, '_')}_${suffix}_${new Date().toISOString().split('T')[0]}.${extension}`;
+
+/**
+ * Download generated content as a file
+ * @param content - The file content
+ * @param fileName - The name of the downloaded file
+ * @param type - The MIME type of the content
+ */
+export const downloadFile = (content: BlobPart, fileName: string, type: string): void => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+
+  // Trigger the download through a temporary link
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+
+  // Clean up
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,43 @@
+import { formatIpv4, getIpv4Address, parseIpv4Prefix } from './ipv4';
+
+describe('parseIpv4Prefix', () => {
+  it('reads the network, prefix length and size', () => {
+    expect(parseIpv4Prefix('10.1.0.0/16')).toEqual({ network: 10 * 2 ** 24 + 2 ** 16, prefixLength: 16, size: 65536 });
+    expect(parseIpv4Prefix('192.168.1.7/32')?.size).toBe(1);
+    expect(parseIpv4Prefix('0.0.0.0/0')?.size).toBe(2 ** 32);
+  });
+
+  it('clears the host bits', () => {
+    expect(parseIpv4Prefix('10.0.0.1/24')).toEqual(parseIpv4Prefix('10.0.0.0/24'));
+    expect(formatIpv4(parseIpv4Prefix('255.255.255.255/31')?.network ?? 0)).toBe('255.255.255.254');
+  });
+
+  it.each(['10.0.0.0', '10.0.0/8', '256.0.0.0/8', '10.0.0.0/33', '10.0.0.0/-1', 'a.b.c.d/8', ''])(
+    'rejects %s',
+    cidr => {
+      expect(parseIpv4Prefix(cidr)).toBeNull();
+    }
+  );
+});
+
+describe('formatIpv4', () => {
+  it('formats an address in dotted-quad notation', () => {
+    expect(formatIpv4(0)).toBe('0.0.0.0');
+    expect(formatIpv4(10 * 2 ** 24 + 1 * 2 ** 16 + 2 * 2 ** 8 + 3)).toBe('10.1.2.3');
+    expect(formatIpv4(2 ** 32 - 1)).toBe('255.255.255.255');
+  });
+});
+
+describe('getIpv4Address', () => {
+  it('returns the addresses inside the prefix only', () => {
+    const prefix = parseIpv4Prefix('10.1.0.0/30');
+    if (!prefix) {
+      throw new Error('Prefix not parsed');
+    }
+
+    expect(getIpv4Address(prefix, 0)).toBe(prefix.network);
+    expect(formatIpv4(getIpv4Address(prefix, 3) ?? 0)).toBe('10.1.0.3');
+    expect(getIpv4Address(prefix, 4)).toBeNull();
+    expect(getIpv4Address(prefix, -1)).toBeNull();
+  });
+});
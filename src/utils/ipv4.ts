@@ -0,0 +1,56 @@
+/**
+ * ipv4.ts
+ *
+ * This file contains utility functions for parsing IPv4 prefixes and handing
+ * out addresses from them.
+ */
+
+export interface Ipv4Prefix {
+  network: number;             // First address as an unsigned 32-bit number
+  prefixLength: number;
+  size: number;                // Number of addresses
+}
+
+/**
+ * Parse an IPv4 prefix in CIDR notation
+ *
+ * Host bits are cleared, so 10.0.0.1/24 is read as 10.0.0.0/24.
+ * @param cidr - The prefix, such as 10.0.0.0/16
+ * @returns The prefix, or null when the text is not a valid prefix
+ */
+export const parseIpv4Prefix = (cidr: string): Ipv4Prefix | null => {
+  const match = /^\s*(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})\/(\d{1,2})\s*$/.exec(cidr);
+  if (!match) {
+    return null;
+  }
+  const octets = match.slice(1, 5).map(Number);
+  const prefixLength = Number(match[5]);
+  if (octets.some(octet => octet > 255) || prefixLength > 32) {
+    return null;
+  }
+
+  const address = octets.reduce((value, octet) => value * 256 + octet, 0);
+  const size = 2 ** (32 - prefixLength);
+  return {
+    network: Math.floor(address / size) * size,
+    prefixLength,
+    size
+  };
+};
+
+/**
+ * Format an IPv4 address
+ * @param address - The address as an unsigned 32-bit number
+ * @returns Dotted-quad notation
+ */
+export const formatIpv4 = (address: number): string =>
+  [24, 16, 8, 0].map(shift => Math.floor(address / 2 ** shift) % 256).join('.');
+
+/**
+ * Get an address of a prefix
+ * @param prefix - The prefix
+ * @param offset - Offset from the first address
+ * @returns The address, or null when the offset is outside the prefix
+ */
+export const getIpv4Address = (prefix: Ipv4Prefix, offset: number): number | null =>
+  offset >= 0 && offset < prefix.size ? prefix.network + offset : null;
@@ -71,6 +71,9 @@ const baseTemplate: Topology = {
         '800G': 25  // watts
       }
     },
+    opticsSelection: {
+      mode: 'catalog' // Pick catalog optics from the cable lengths
+    },
     
     // Latency parameters
     latencyParameters: {
@@ -90,12 +93,17 @@ const baseTemplate: Topology = {
 const railOnlyTopology = {
   ...baseTemplate,
   name: 'Rail-Only (Single-Tier)',
-  description: 'A single-tier leaf-only topology where leaf switches connect directly to each other. Suitable for small deployments or edge locations.',
+  description: 'A single-tier rail-only topology where every server NIC connects to the leaf switch of its rail and the rails are not interconnected. Suitable for small GPU clusters.',
   configuration: {
     ...baseTemplate.configuration,
     numSpines: 0,  // No spine switches in Rail-Only
     numLeafs: 8,
     numTiers: 1,   // Single tier
+    railConfig: {
+      gpusPerServer: 8,
+      nicsPerServer: 8,  // One rail leaf per NIC
+      spineInterconnect: false
+    },
     spineConfig: {
       portCount: 0,
       portSpeed: '400G',
@@ -185,14 +193,23 @@ const threeTierClos = {
   description: 'A 3-tier Clos topology with super-spine, spine, and leaf layers, suitable for very large data centers.',
   configuration: {
     ...baseTemplate.configuration,
-    numSpines: 8,
+    numSpines: 16,
     numLeafs: 32,
     numTiers: 3,
+    podConfig: {
+      leafsPerPod: 8,
+      spinesPerPod: 4
+    },
     spineConfig: {
       portCount: 64,
       portSpeed: '800G',
       breakoutMode: '1x800G'
     },
+    superSpineConfig: {
+      portCount: 64,
+      portSpeed: '800G',
+      breakoutMode: '1x800G'
+    },
     leafConfig: {
       portCount: 64,
       downlinkSpeed: '100G',
@@ -235,6 +252,7 @@ const disjointedSpines = {
     numLeafs: 16,
     numTiers: 2,  // Fixed: 2-tier for spine-leaf
     disjointedSpines: true,
+    spinePlanes: 2,  // Two spines per plane
     spineConfig: {
       portCount: 64,
       portSpeed: '400G',
@@ -252,22 +270,30 @@ const disjointedSpines = {
 const railOptimized = {
   ...baseTemplate,
   name: 'Rail-Optimized',
-  description: 'A rail-optimized topology designed for efficient cabling and power distribution.',
+  description: 'A rail-optimized GPU fabric with one leaf per rail in each scalable unit and a non-blocking spine interconnect across rails.',
   configuration: {
     ...baseTemplate.configuration,
-    numSpines: 4,
-    numLeafs: 24,
+    numSpines: 8,
+    numLeafs: 32,
     numTiers: 2,  // Fixed: 2-tier for spine-leaf
     railOptimized: true,
+    railConfig: {
+      gpusPerServer: 8,
+      nicsPerServer: 8,
+      serversPerScalableUnit: 32,
+      scalableUnits: 4,
+      spineInterconnect: true
+    },
+    parallelLinksEnabled: true,
     spineConfig: {
       portCount: 64,
-      portSpeed: '400G',
-      breakoutMode: '1x400G'
+      portSpeed: '800G',
+      breakoutMode: '2x400G'
     },
     leafConfig: {
-      portCount: 48,
-      downlinkSpeed: '100G',
-      breakoutMode: '1x100G'  // Default to no breakout
+      portCount: 64,
+      downlinkSpeed: '400G',
+      breakoutMode: '1x400G'  // One 400G port per NIC
     }
   }
 };
@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+import { createZip } from './zip';
+
+const date = new Date(2024, 4, 17, 13, 45, 30);
+
+describe('createZip', () => {
+  const archive = createZip([
+    { path: 'sonic/leaf01/config_db.json', content: '123456789' },
+    { path: 'eos/spine-é/startup-config', content: '' }
+  ], date);
+  const view = new DataView(archive.buffer);
+  const decoder = new TextDecoder();
+  const end = archive.length - 22;
+
+  it('stores each file behind a local header with its CRC-32 and size', () => {
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(8, true)).toBe(0);
+    expect(view.getUint32(14, true)).toBe(0xcbf43926);
+    expect(view.getUint32(18, true)).toBe(9);
+    expect(view.getUint32(22, true)).toBe(9);
+    const nameLength = view.getUint16(26, true);
+    expect(decoder.decode(archive.slice(30, 30 + nameLength))).toBe('sonic/leaf01/config_db.json');
+    expect(decoder.decode(archive.slice(30 + nameLength, 30 + nameLength + 9))).toBe('123456789');
+  });
+
+  it('writes the modification time in MS-DOS format', () => {
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+    expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (5 << 5) | 17);
+  });
+
+  it('points the central directory entries at the local headers', () => {
+    const centralStart = view.getUint32(end + 16, true);
+    const names: string[] = [];
+    let offset = centralStart;
+    for (let index = 0; index < 2; index++) {
+      expect(view.getUint32(offset, true)).toBe(0x02014b50);
+      const nameLength = view.getUint16(offset + 28, true);
+      const localOffset = view.getUint32(offset + 42, true);
+      expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+      expect(view.getUint32(localOffset + 14, true)).toBe(view.getUint32(offset + 16, true));
+      names.push(decoder.decode(archive.slice(offset + 46, offset + 46 + nameLength)));
+      offset += 46 + nameLength;
+    }
+
+    expect(names).toEqual(['sonic/leaf01/config_db.json', 'eos/spine-é/startup-config']);
+    expect(offset).toBe(end);
+  });
+
+  it('ends with the entry count, size and offset of the central directory', () => {
+    const centralStart = view.getUint32(end + 16, true);
+
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 8, true)).toBe(2);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    expect(view.getUint32(end + 12, true)).toBe(end - centralStart);
+    expect(centralStart).toBe(30 + 27 + 9 + 30 + 27);
+  });
+
+  it('gives an empty file a CRC-32 of zero', () => {
+    const second = 30 + 27 + 9;
+
+    expect(view.getUint32(second, true)).toBe(0x04034b50);
+    expect(view.getUint32(second + 14, true)).toBe(0);
+    expect(view.getUint16(second + 26, true)).toBe(27);
+  });
+});
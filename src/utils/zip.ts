@@ -0,0 +1,101 @@
+/**
+ * zip.ts
+ *
+ * This file contains a minimal ZIP writer for downloading several generated
+ * text files at once. Files are stored without compression, which every
+ * unzip tool reads.
+ */
+
+export interface ZipEntry {
+  path: string;                // Path in the archive, with / between folders
+  content: string;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+/**
+ * Calculate the CRC-32 of some bytes
+ * @param bytes - The bytes
+ * @returns The checksum as an unsigned number
+ */
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  bytes.forEach(byte => {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Create a ZIP archive of text files
+ * @param entries - The files, written as UTF-8
+ * @param date - Modification time of every file
+ * @returns The archive
+ */
+export const createZip = (entries: ZipEntry[], date: Date = new Date()): Uint8Array => {
+  const encoder = new TextEncoder();
+  // MS-DOS time and date of the files
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+
+  const files = entries.map(entry => {
+    const name = encoder.encode(entry.path);
+    const data = encoder.encode(entry.content);
+    return { name, data, crc: crc32(data) };
+  });
+
+  const localSize = files.reduce((sum, file) => sum + 30 + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.name.length, 0);
+  const archive = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(archive.buffer);
+  let offset = 0;
+
+  // Fields shared by the local header and the central directory entry
+  const writeFileFields = (file: typeof files[number], at: number) => {
+    view.setUint16(at, 20, true);             // Version needed to extract
+    view.setUint16(at + 2, 0x0800, true);     // UTF-8 names
+    view.setUint16(at + 4, 0, true);          // Stored
+    view.setUint16(at + 6, time, true);
+    view.setUint16(at + 8, day, true);
+    view.setUint32(at + 10, file.crc, true);
+    view.setUint32(at + 14, file.data.length, true);
+    view.setUint32(at + 18, file.data.length, true);
+    view.setUint16(at + 22, file.name.length, true);
+    view.setUint16(at + 24, 0, true);         // Extra field length
+  };
+
+  const localOffsets = files.map(file => {
+    const start = offset;
+    view.setUint32(offset, 0x04034b50, true);
+    writeFileFields(file, offset + 4);
+    archive.set(file.name, offset + 30);
+    archive.set(file.data, offset + 30 + file.name.length);
+    offset += 30 + file.name.length + file.data.length;
+    return start;
+  });
+
+  const centralStart = offset;
+  files.forEach((file, index) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true);     // Version made by
+    writeFileFields(file, offset + 6);
+    // Comment length, disk number and attributes stay zero
+    view.setUint32(offset + 42, localOffsets[index], true);
+    archive.set(file.name, offset + 46);
+    offset += 46 + file.name.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+
+  return archive;
+};